@@ -3,7 +3,9 @@
  *
  * This is the root component that manages the onboarding wizard and routes to the Workspace.
  *
- * ONBOARDING FLOW (6 steps):
+ * ONBOARDING FLOW (6 steps, after the project library):
+ * 0. PROJECT_LIBRARY  → Reopen an autosaved project or start a new one
+ *    (BATCH_GENERATE → bulk create projects from a CSV content calendar)
  * 1. FORMAT_SELECT    → Choose carousel style (Twitter or Storyteller)
  * 2. ASPECT_RATIO_SELECT → Choose post dimensions (1:1, 4:5)
  * 3. PROFILE_INPUT    → Enter name, handle, upload avatar
@@ -15,12 +17,24 @@
  * API key can be configured at multiple points in the flow.
  */
 
-import React, { useState, useEffect } from 'react';
-import { AppStep, CarouselStyle, Profile, Slide, SlideType, AspectRatio, UploadedDocument } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppStep, AttachedDocument, BrandKit, CarouselStyle, CarouselProject, CarouselTemplate, CarouselGeneration, CopyFramework, DocumentSelection, Profile, Slide, SlideType, AspectRatio, UploadedDocument } from './types';
 import { MOCK_SLIDES, DEFAULT_AVATAR } from './constants';
-import { generateCarouselContent, processDocument, TEXT_MODEL_PRO, TEXT_MODEL_FLASH, setApiKey, getApiKeyMasked, hasApiKey } from './services/geminiService';
-import { setApifyApiKey, getApifyApiKeyMasked, hasApifyApiKey } from './services/instagramService';
+import { generateCarouselContent, processDocument, getModels, getModelOptions } from './services/geminiService';
+import { setApifyApiKey, getApifyApiKeyMasked, hasApifyApiKey } from './services/social';
+import { extractArticleUrls, fetchArticle, articleToDocument } from './services/articleService';
+import { applyDocumentSelection } from './services/documentSelection';
+import { isAbortError } from './services/exportService';
+import { COPY_FRAMEWORKS, DEFAULT_FRAMEWORK, getFramework } from './lib/frameworks';
+import { fillTemplate } from './lib/templates';
 import Workspace from './components/Workspace';
+import ProjectLibrary from './components/ProjectLibrary';
+import AIProviderSettings from './components/AIProviderSettings';
+import BrandKitPanel from './components/BrandKitPanel';
+import TemplatePicker from './components/TemplatePicker';
+import BatchGenerator from './components/BatchGenerator';
+import ArticleProxySettings from './components/ArticleProxySettings';
+import AttachedDocumentList from './components/AttachedDocumentList';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -28,16 +42,45 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
-import { Key, Sparkles, Wrench, Upload, X, Loader2, Rocket, Sun, Moon } from 'lucide-react';
+import { Key, Sparkles, Wrench, Upload, X, Loader2, Rocket, Sun, Moon, LayoutTemplate, Link } from 'lucide-react';
 
 type EditorTheme = 'light' | 'dark';
 
+// File types processDocument reads
+const DOCUMENT_EXTENSIONS = ['pdf', 'txt', 'md', 'docx', 'pptx', 'epub', 'html', 'htm', 'srt', 'vtt'];
+
+// Source documents per generation (uploads and fetched articles)
+const MAX_ATTACHED_DOCUMENTS = 5;
+
+/**
+ * Why a file can't be used as a source document, or null if it can.
+ */
+const validateDocumentFile = (file: File): string | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (!extension || !DOCUMENT_EXTENSIONS.includes(extension)) {
+    return 'Unsupported file type. Use PDF, TXT, MD, DOCX, PPTX, EPUB, HTML, SRT or VTT.';
+  }
+  // PDFs are sent inline as base64 (20MB limit); other files are parsed
+  // in the browser and only their text and a few images are kept
+  const maxSizeMb = extension === 'pdf' ? 20 : 50;
+  return file.size > maxSizeMb * 1024 * 1024 ? `File too large. Maximum size is ${maxSizeMb}MB.` : null;
+};
+
 const App: React.FC = () => {
   // ============================================================================
   // STATE MACHINE: Controls which onboarding step is displayed
   // ============================================================================
-  const [step, setStep] = useState<AppStep>('FORMAT_SELECT');
+  const [step, setStep] = useState<AppStep>('PROJECT_LIBRARY');
+
+  // ============================================================================
+  // ACTIVE PROJECT
+  // projectId keys the Workspace (remounts on change) and its autosave record.
+  // initialProject carries saved settings when reopening from the library.
+  // ============================================================================
+  const [projectId, setProjectId] = useState<string>(() => crypto.randomUUID());
+  const [initialProject, setInitialProject] = useState<Partial<CarouselProject> | undefined>(undefined);
 
   // ============================================================================
   // CAROUSEL SETTINGS (collected during onboarding)
@@ -50,35 +93,44 @@ const App: React.FC = () => {
     avatarUrl: 'https://picsum.photos/id/64/200/200'
   });
   const [slides, setSlides] = useState<Slide[]>(MOCK_SLIDES);
+  // Brand kit chosen on the profile step: its profile is applied immediately,
+  // its other settings seed every new project's Workspace
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
 
   // ============================================================================
   // AI GENERATION SETTINGS
   // ============================================================================
   const [aiTopic, setAiTopic] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
+  // Streamed generation shown in the Workspace (null when slides didn't come from a stream)
+  const [generation, setGeneration] = useState<CarouselGeneration | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [slideCount, setSlideCount] = useState(7);
-  const [selectedTextModel, setSelectedTextModel] = useState<string>(TEXT_MODEL_PRO);
+  const [selectedTextModel, setSelectedTextModel] = useState<string>(() => getModels().textPro.id);
+  const [framework, setFramework] = useState<CopyFramework>(DEFAULT_FRAMEWORK);
+  const [textModelOptions, setTextModelOptions] = useState(() => getModelOptions('text'));
 
   // ============================================================================
   // DOCUMENT UPLOAD STATE
   // ============================================================================
-  const [uploadedDocument, setUploadedDocument] = useState<UploadedDocument | null>(null);
+  const [attachedDocuments, setAttachedDocuments] = useState<AttachedDocument[]>([]);
   const [isProcessingDocument, setIsProcessingDocument] = useState(false);
   const [documentError, setDocumentError] = useState<string | null>(null);
+  // Article links in the topic are fetched and attached as documents
+  const [isFetchingArticle, setIsFetchingArticle] = useState(false);
+  const [creditSource, setCreditSource] = useState(false);
+  const articleUrl = extractArticleUrls(aiTopic)
+    .find(url => !attachedDocuments.some(({ document }) => document.source?.url === url));
 
   const fileInputRef = React.useRef<HTMLInputElement>(null);
-  const documentInputRef = React.useRef<HTMLInputElement>(null);
 
   // ============================================================================
   // API KEY MANAGEMENT
-  // Key can be configured via UI; persists to localStorage
+  // Keys can be configured via UI; persist to localStorage.
+  // The AI provider and its key are handled by <AIProviderSettings>.
   // ============================================================================
-  const [apiKeyInput, setApiKeyInput] = useState('');
-  const [apiKeyConfigured, setApiKeyConfigured] = useState(false);
-  const [showApiKeyInput, setShowApiKeyInput] = useState(false);
-  const [apiKeyDisplay, setApiKeyDisplay] = useState('');
 
-  // Apify API key (for Instagram scraping)
+  // Apify API key (for social post scraping)
   const [apifyKeyInput, setApifyKeyInput] = useState('');
   const [apifyKeyConfigured, setApifyKeyConfigured] = useState(false);
   const [showApifyKeyInput, setShowApifyKeyInput] = useState(false);
@@ -102,27 +154,17 @@ const App: React.FC = () => {
     setEditorTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
 
-  // Check if API keys are already configured on mount
+  // Check if the Apify key is already configured on mount
   useEffect(() => {
-    // Gemini API key
-    const geminiConfigured = hasApiKey();
-    setApiKeyConfigured(geminiConfigured);
-    setApiKeyDisplay(getApiKeyMasked());
-
-    // Apify API key
     const apifyConfigured = hasApifyApiKey();
     setApifyKeyConfigured(apifyConfigured);
     setApifyKeyDisplay(getApifyApiKeyMasked());
   }, []);
 
-  const handleSaveApiKey = () => {
-    if (apiKeyInput.trim()) {
-      setApiKey(apiKeyInput.trim());
-      setApiKeyConfigured(true);
-      setApiKeyDisplay(getApiKeyMasked());
-      setApiKeyInput('');
-      setShowApiKeyInput(false);
-    }
+  // Model names differ per provider: reset the selection to the new provider's Pro tier
+  const handleProviderChange = () => {
+    setSelectedTextModel(getModels().textPro.id);
+    setTextModelOptions(getModelOptions('text'));
   };
 
   const handleSaveApifyKey = () => {
@@ -135,14 +177,54 @@ const App: React.FC = () => {
     }
   };
 
+  // --- Step 0: Project Library ---
+  /**
+   * Restores a saved project and jumps straight to the Workspace.
+   */
+  const handleOpenProject = (project: CarouselProject) => {
+    setProjectId(project.id);
+    setInitialProject(project);
+    setStyle(project.style);
+    setAspectRatio(project.aspectRatio);
+    setProfile(project.profile);
+    setSlides(project.slides);
+    setGeneration(null);
+    setStep('WORKSPACE');
+  };
+
+  /**
+   * Starts a fresh project in the Workspace. Every new carousel gets its own
+   * ID so it never overwrites a previously saved project.
+   *
+   * @param seed - Settings for the new project: framework and post copy from the AI,
+   *               or a template's global settings (these override the brand kit)
+   */
+  const startNewProject = (newSlides: Slide[], name: string, seed?: Partial<CarouselProject>) => {
+    const brandSettings: Partial<CarouselProject> = brandKit ? {
+      theme: brandKit.theme,
+      accentColor: brandKit.accentColor,
+      fontStyle: brandKit.fontStyle,
+      fontScale: brandKit.fontScale,
+      headerScale: brandKit.headerScale,
+      layoutSettings: brandKit.layoutSettings,
+      globalImageStyle: brandKit.globalImageStyle
+    } : {};
+    setProjectId(crypto.randomUUID());
+    setInitialProject({ ...brandSettings, name, ...seed });
+    setSlides(newSlides);
+    setGeneration(null);
+    setStep('WORKSPACE');
+  };
+
+  const handleApplyBrandKit = (kit: BrandKit) => {
+    setBrandKit(kit);
+    setProfile(kit.profile);
+  };
+
   // --- Step 1: Select Format ---
   const handleFormatSelect = (selectedStyle: CarouselStyle) => {
-    if (selectedStyle === CarouselStyle.TWITTER || selectedStyle === CarouselStyle.STORYTELLER || selectedStyle === CarouselStyle.LESSON) {
-      setStyle(selectedStyle);
-      setStep('ASPECT_RATIO_SELECT');
-    } else {
-      alert("Coming soon!");
-    }
+    setStyle(selectedStyle);
+    setStep('ASPECT_RATIO_SELECT');
   };
 
   // --- Step 2: Aspect Ratio ---
@@ -182,109 +264,231 @@ const App: React.FC = () => {
   };
 
   // --- Document Upload Handlers ---
+  const attachDocument = (document: UploadedDocument): AttachedDocument => {
+    const attached = { id: crypto.randomUUID(), document, selection: {} };
+    setAttachedDocuments(prev => [...prev, attached]);
+    return attached;
+  };
+
   /**
-   * Handles document upload for AI carousel generation.
-   * Validates file type and size, then extracts content.
+   * Handles document uploads for AI carousel generation.
+   * Each file is validated (type, size) and its content extracted; files that
+   * fail are listed in the error, the others are attached.
    */
   const handleDocumentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    // Validate file type
-    const validTypes = ['pdf', 'txt', 'md'];
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    if (!extension || !validTypes.includes(extension)) {
-      setDocumentError('Unsupported file type. Use PDF, TXT, or MD.');
-      return;
-    }
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = ''; // The same file can be picked again after removing it
+    if (files.length === 0) return;
 
-    // Validate file size (20MB limit for inline base64)
-    const MAX_SIZE = 20 * 1024 * 1024; // 20MB
-    if (file.size > MAX_SIZE) {
-      setDocumentError('File too large. Maximum size is 20MB.');
+    if (attachedDocuments.length + files.length > MAX_ATTACHED_DOCUMENTS) {
+      setDocumentError(`Up to ${MAX_ATTACHED_DOCUMENTS} documents can be attached.`);
       return;
     }
 
     setIsProcessingDocument(true);
     setDocumentError(null);
+    const errors: string[] = [];
 
     try {
-      const doc = await processDocument(file);
-      setUploadedDocument(doc);
-    } catch (error) {
-      console.error('Document processing failed:', error);
-      setDocumentError('Failed to process document. Please try again.');
+      for (const file of files) {
+        const problem = validateDocumentFile(file);
+        if (problem) {
+          errors.push(`${file.name}: ${problem}`);
+          continue;
+        }
+        try {
+          attachDocument(await processDocument(file));
+        } catch (error) {
+          console.error('Document processing failed:', error);
+          errors.push(`${file.name}: Failed to process document. ${error instanceof Error ? error.message : 'Please try again.'}`);
+        }
+      }
     } finally {
+      setDocumentError(errors.length > 0 ? errors.join(' ') : null);
       setIsProcessingDocument(false);
     }
   };
 
+  const handleRemoveDocument = (id: string) => {
+    setAttachedDocuments(prev => prev.filter(attached => attached.id !== id));
+    setDocumentError(null);
+  };
+
+  const handleDocumentSelectionChange = (id: string, selection: DocumentSelection) => {
+    setAttachedDocuments(prev => prev.map(attached => (attached.id === id ? { ...attached, selection } : attached)));
+  };
+
   /**
-   * Removes the uploaded document.
+   * Fetches the article linked in the topic and attaches it as a document.
+   * Returns null, with the reason in documentError, if it can't be read.
    */
-  const handleRemoveDocument = () => {
-    setUploadedDocument(null);
+  const loadArticle = async (url: string, signal?: AbortSignal): Promise<AttachedDocument | null> => {
+    setIsFetchingArticle(true);
     setDocumentError(null);
-    if (documentInputRef.current) {
-      documentInputRef.current.value = '';
+
+    try {
+      return attachDocument(articleToDocument(await fetchArticle(url, signal)));
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error('Article fetch failed:', error);
+      setDocumentError(`Couldn't read the article. ${error.message}`);
+      return null;
+    } finally {
+      setIsFetchingArticle(false);
     }
   };
 
   // --- Step 4: Method Selection ---
   const handleManualCreate = () => {
-    setSlides([
+    startNewProject([
         { id: '1', type: SlideType.COVER, content: 'Your Hook Here', showImage: false },
         { id: '2', type: SlideType.CONTENT, content: 'Your content goes here.', showImage: true },
         { id: '3', type: SlideType.CTA, content: 'Link in bio.', showImage: false },
-    ]);
-    setStep('WORKSPACE');
+    ], 'Untitled carousel');
+  };
+
+  /**
+   * Creates a carousel from a saved template with its placeholders filled.
+   * The template's style and aspect ratio replace the ones picked during onboarding.
+   */
+  const handleCreateFromTemplate = (template: CarouselTemplate, values: Record<string, string>, topic: string) => {
+    setStyle(template.style);
+    setAspectRatio(template.aspectRatio);
+    startNewProject(fillTemplate(template, values), topic.substring(0, 60) || template.name, template.settings);
   };
 
   /**
-   * Generates carousel content using Gemini AI.
+   * Generates carousel content with the active AI provider, streaming slides
+   * into the Workspace as they are written.
    *
-   * The user selects a model (Pro, 2.5 Pro, or Flash) in the UI.
+   * The user selects a model (the provider's Pro or Flash tier) in the UI.
    * The geminiService handles automatic fallback if the selected model fails.
-   * Can use either a topic, an uploaded document, or both.
+   * Can use either a topic, attached documents, or both.
+   * An article link in the topic is fetched first and attached, replacing the link;
+   * if it can't be read, the user may go on with the link as text.
+   * Documents are cut to their selected pages/sections before they are sent.
+   *
+   * STREAMING:
+   * - The first slide opens the Workspace; later slides are appended as they arrive
+   *   (appended, not replaced, so edits made meanwhile are kept)
+   * - Caption and hashtags are handed to the Workspace when the stream completes
+   * - Cancel (onboarding or Workspace) aborts the request; slides so far are kept
    *
-   * On success: Navigate to Workspace with generated slides
-   * On failure: Show alert (user should check API key)
+   * On failure before any slide: Show alert and stay on this step (user should check API key)
+   * On failure midway: Keep the partial carousel and tell the user how far it got
    */
   const handleAiGenerate = async () => {
     // Require either topic OR document
-    if (!aiTopic.trim() && !uploadedDocument) return;
+    if (!aiTopic.trim() && attachedDocuments.length === 0) return;
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     setIsGenerating(true);
+
+    let received = 0;
+
     try {
+      let attached = attachedDocuments;
+      if (articleUrl) {
+        const article = await loadArticle(articleUrl, controller.signal);
+        if (article) attached = [...attached, article];
+        else if (!confirm('The linked article could not be read. Generate from the link text only?')) return;
+      }
+
+      let documents: UploadedDocument[];
+      try {
+        documents = (await Promise.all(attached.map(applyDocumentSelection))).filter((document): document is UploadedDocument => !!document);
+      } catch (error) {
+        console.error('Document selection failed:', error);
+        alert(`Couldn't prepare the documents. ${error instanceof Error ? error.message : ''}`);
+        return;
+      }
+      const topic = documents.reduce((text, document) => (document.source ? text.replace(document.source.url, '') : text), aiTopic).trim();
+      if (!topic && documents.length === 0) {
+        alert('Nothing is selected in the attached documents. Select some pages or sections, or enter a topic.');
+        return;
+      }
+
+      // Name the project after the topic (or the first document if no topic was given)
+      const projectName = topic.substring(0, 60) || documents[0]?.name || 'Untitled carousel';
+      // Offered as slide images in the Workspace
+      const documentImages = documents.flatMap(document => document.images ?? []);
+
       // Model fallback is handled internally by generateCarouselContent
-      const generatedSlides = await generateCarouselContent(
-        aiTopic,
+      const generated = await generateCarouselContent(
+        topic,
         slideCount,
         selectedTextModel,
-        uploadedDocument || undefined
+        documents,
+        framework,
+        {
+          signal: controller.signal,
+          onSlide: (slide) => {
+            received++;
+            if (received === 1) {
+              startNewProject([slide], projectName, { framework, documentImages });
+            } else {
+              setSlides(prev => [...prev, slide]);
+            }
+            setGeneration({ status: 'streaming', received, expected: slideCount });
+          }
+        },
+        creditSource
       );
-      setSlides(generatedSlides);
-      setUploadedDocument(null); // Clear after successful generation
-      setStep('WORKSPACE');
+
+      const postCopy = { caption: generated.caption, hashtags: generated.hashtags };
+      if (received === 0) {
+        startNewProject(generated.slides, projectName, { framework, documentImages, ...postCopy });
+      } else {
+        setGeneration({ status: 'done', received, expected: slideCount, postCopy });
+      }
+      setAttachedDocuments([]); // Clear after successful generation
     } catch (error) {
-      console.error(error);
-      alert("AI Generation failed. Please check your API Key and try again.");
+      const cancelled = isAbortError(error);
+      if (!cancelled) console.error(error);
+
+      if (received > 0) {
+        // Partial carousel stays in the Workspace
+        setGeneration({ status: cancelled ? 'cancelled' : 'failed', received, expected: slideCount });
+        setAttachedDocuments([]);
+        if (!cancelled) {
+          alert(`AI Generation stopped after ${received} of ${slideCount} slides. The slides written so far were kept.`);
+        }
+      } else if (!cancelled) {
+        alert("AI Generation failed. Please check your API Key and try again.");
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
   // --- Render Steps ---
 
   if (step === 'WORKSPACE') {
     return (
       <Workspace
+        key={projectId}
+        projectId={projectId}
+        initialProject={initialProject}
         slides={slides}
         profile={profile}
+        onProfileChange={setProfile}
         style={style}
         aspectRatio={aspectRatio}
         onUpdateSlides={setSlides}
         onStyleChange={setStyle}
-        onBack={() => setStep('METHOD_SELECT')}
+        activeBrandKitId={brandKit?.id}
+        generation={generation}
+        onCancelGeneration={handleCancelGeneration}
+        onBack={() => {
+          handleCancelGeneration();
+          setStep('METHOD_SELECT');
+        }}
         editorTheme={editorTheme}
         onEditorThemeToggle={toggleEditorTheme}
       />
@@ -313,68 +517,41 @@ const App: React.FC = () => {
 
         <CardContent className="p-8">
 
+            {/* 0. Project Library */}
+            {step === 'PROJECT_LIBRARY' && (
+                <ProjectLibrary
+                    onOpenProject={handleOpenProject}
+                    onNewProject={() => setStep('FORMAT_SELECT')}
+                    onBulkCreate={() => setStep('BATCH_GENERATE')}
+                />
+            )}
+
+            {/* 0b. Bulk generation from a CSV */}
+            {step === 'BATCH_GENERATE' && (
+                <BatchGenerator
+                    textModel={selectedTextModel}
+                    defaults={{ style, aspectRatio, profile }}
+                    onClose={() => setStep('PROJECT_LIBRARY')}
+                />
+            )}
+
             {/* 1. Format Selection */}
             {step === 'FORMAT_SELECT' && (
                 <div className="space-y-6">
-                    {/* API Key Configuration */}
-                    <div className="bg-muted/50 border border-border rounded-xl p-4">
-                        <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2">
-                                <Key className="h-5 w-5 text-muted-foreground" />
-                                <div>
-                                    <p className="text-sm font-medium">Gemini API Key</p>
-                                    {apiKeyConfigured ? (
-                                        <p className="text-xs text-green-600">Configured: {apiKeyDisplay}</p>
-                                    ) : (
-                                        <p className="text-xs text-amber-600">Required for AI features</p>
-                                    )}
-                                </div>
-                            </div>
-                            <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => setShowApiKeyInput(!showApiKeyInput)}
-                            >
-                                {showApiKeyInput ? 'Cancel' : (apiKeyConfigured ? 'Change' : 'Setup')}
-                            </Button>
-                        </div>
+                    {/* AI Provider & API Key */}
+                    <AIProviderSettings onChange={handleProviderChange} />
 
-                        {showApiKeyInput && (
-                            <div className="mt-3 pt-3 border-t border-border">
-                                <div className="flex gap-2">
-                                    <Input
-                                        type="password"
-                                        value={apiKeyInput}
-                                        onChange={(e) => setApiKeyInput(e.target.value)}
-                                        placeholder="Enter your Gemini API key"
-                                        onKeyDown={(e) => e.key === 'Enter' && handleSaveApiKey()}
-                                        className="flex-1"
-                                    />
-                                    <Button
-                                        onClick={handleSaveApiKey}
-                                        disabled={!apiKeyInput.trim()}
-                                    >
-                                        Save
-                                    </Button>
-                                </div>
-                                <p className="text-xs text-muted-foreground mt-2">
-                                    Get your API key from <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">Google AI Studio</a>
-                                </p>
-                            </div>
-                        )}
-                    </div>
-
-                    {/* Apify API Key Configuration (for Instagram) */}
+                    {/* Apify API Key Configuration (for social posts) */}
                     <div className="bg-muted/50 border border-border rounded-xl p-4">
                         <div className="flex items-center justify-between">
                             <div className="flex items-center gap-2">
                                 <Key className="h-5 w-5 text-muted-foreground" />
                                 <div>
-                                    <p className="text-sm font-medium">Apify API Token <span className="text-muted-foreground font-normal">(Instagram)</span></p>
+                                    <p className="text-sm font-medium">Apify API Token <span className="text-muted-foreground font-normal">(Social posts)</span></p>
                                     {apifyKeyConfigured ? (
                                         <p className="text-xs text-green-600">Configured: {apifyKeyDisplay}</p>
                                     ) : (
-                                        <p className="text-xs text-muted-foreground">Optional - for Instagram URL scraping</p>
+                                        <p className="text-xs text-muted-foreground">Optional - for Instagram, TikTok, Threads, X and LinkedIn links</p>
                                     )}
                                 </div>
                             </div>
@@ -412,8 +589,11 @@ const App: React.FC = () => {
                         )}
                     </div>
 
+                    {/* Article Proxy (for blog and newsletter links) */}
+                    <ArticleProxySettings />
+
                     <h2 className="text-xl font-semibold text-center">Choose a Style</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <button
                             onClick={() => handleFormatSelect(CarouselStyle.TWITTER)}
                             className="p-6 border-2 border-primary/50 bg-primary/5 rounded-xl text-left hover:shadow-lg hover:border-primary transition-all group"
@@ -438,7 +618,16 @@ const App: React.FC = () => {
                             <h3 className="font-bold group-hover:text-primary">Lesson</h3>
                             <p className="text-sm text-muted-foreground mt-1">Educational content with cover image, centered footer. Black or white slides.</p>
                         </button>
+                        <button
+                            onClick={() => handleFormatSelect(CarouselStyle.APPLE_NOTES)}
+                            className="p-6 border-2 border-muted bg-muted/30 rounded-xl text-left hover:shadow-lg hover:border-primary/50 transition-all group"
+                        >
+                            <div className="w-10 h-10 bg-muted text-foreground rounded-full flex items-center justify-center mb-4 text-xl font-bold">📝</div>
+                            <h3 className="font-bold group-hover:text-primary">Apple Notes</h3>
+                            <p className="text-sm text-muted-foreground mt-1">Personal notes-app page with date header and checklists. Casual, native feel.</p>
+                        </button>
                     </div>
+                    <Button variant="ghost" onClick={() => setStep('PROJECT_LIBRARY')} className="w-full">Back to Projects</Button>
                 </div>
             )}
 
@@ -476,6 +665,8 @@ const App: React.FC = () => {
                 <form onSubmit={handleProfileSubmit} className="space-y-6 animate-fade-in">
                     <h2 className="text-xl font-semibold text-center">Profile Setup</h2>
 
+                    <BrandKitPanel activeKitId={brandKit?.id} onApply={handleApplyBrandKit} />
+
                     <div className="flex flex-col items-center space-y-4">
                         <div className="relative group cursor-pointer" onClick={() => fileInputRef.current?.click()}>
                             <img src={profile.avatarUrl} alt="Avatar" className="w-24 h-24 rounded-full object-cover border-4 border-border shadow-sm" />
@@ -550,7 +741,7 @@ const App: React.FC = () => {
                                 <Sparkles className="h-5 w-5 text-primary" />
                                 <h3 className="font-bold text-lg">Use AI Magic</h3>
                             </div>
-                            <p className="text-sm text-muted-foreground">Give us a topic, URL, or upload a document (PDF, TXT, MD) and we'll create 5-10 slides automatically.</p>
+                            <p className="text-sm text-muted-foreground">Give us a topic, URL, or upload a document (PDF, Word, PowerPoint, EPUB, HTML, TXT, MD) and we'll create 5-10 slides automatically.</p>
                         </button>
 
                         <button
@@ -563,11 +754,31 @@ const App: React.FC = () => {
                             </div>
                             <p className="text-sm text-muted-foreground">Start from scratch. Add slides, write text, and upload images yourself.</p>
                         </button>
+
+                        <button
+                            onClick={() => setStep('TEMPLATE_SELECT')}
+                            className="p-6 border-2 border-border bg-card rounded-xl text-left hover:border-muted-foreground/30 transition-all"
+                        >
+                            <div className="flex items-center gap-2 mb-1">
+                                <LayoutTemplate className="h-5 w-5 text-muted-foreground" />
+                                <h3 className="font-bold text-lg">From a Template</h3>
+                            </div>
+                            <p className="text-sm text-muted-foreground">Reuse a saved layout. Fill in its text yourself or let AI write it from a topic.</p>
+                        </button>
                     </div>
                     <Button variant="ghost" onClick={() => setStep('PROFILE_INPUT')} className="w-full">Back</Button>
                 </div>
             )}
 
+            {/* 5b. Template Selection */}
+            {step === 'TEMPLATE_SELECT' && (
+                <TemplatePicker
+                    textModel={selectedTextModel}
+                    onCreate={handleCreateFromTemplate}
+                    onBack={() => setStep('METHOD_SELECT')}
+                />
+            )}
+
             {/* 5. AI Input */}
             {step === 'AI_INPUT' && (
                 <div className="space-y-6 animate-fade-in">
@@ -582,54 +793,63 @@ const App: React.FC = () => {
                             value={aiTopic}
                             onChange={(e) => setAiTopic(e.target.value)}
                             className="h-28 resize-none"
-                            placeholder="Enter a topic, paste a YouTube or Instagram URL, or describe what you want to create..."
+                            placeholder="Enter a topic, paste an article, YouTube or social post URL, or describe what you want to create..."
                         />
                     </div>
 
                     {/* Document Upload Section */}
+                    {attachedDocuments.length > 0 && (
+                        <AttachedDocumentList
+                            documents={attachedDocuments}
+                            onSelectionChange={handleDocumentSelectionChange}
+                            onRemove={handleRemoveDocument}
+                        />
+                    )}
+
                     <div className="border-2 border-dashed border-border rounded-lg p-4 text-center hover:border-primary/50 transition-colors">
-                        {uploadedDocument ? (
-                            <div className="flex items-center justify-between">
-                                <div className="flex items-center gap-2">
-                                    <span className="text-2xl">
-                                        {uploadedDocument.type === 'pdf' ? '📄' : '📃'}
-                                    </span>
-                                    <div className="text-left">
-                                        <p className="text-sm font-medium truncate max-w-[200px]">
-                                            {uploadedDocument.name}
-                                        </p>
-                                        <p className="text-xs text-muted-foreground">
-                                            {(uploadedDocument.size / 1024).toFixed(1)} KB
-                                        </p>
-                                    </div>
+                        {isProcessingDocument || isFetchingArticle ? (
+                            <div className="flex items-center justify-center gap-2 py-2">
+                                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                                <span className="text-sm text-muted-foreground">
+                                    {isFetchingArticle ? 'Fetching article...' : 'Processing documents...'}
+                                </span>
+                            </div>
+                        ) : articleUrl ? (
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <Link className="h-5 w-5 shrink-0 text-muted-foreground" />
+                                    <p className="text-sm text-left truncate" title={articleUrl}>
+                                        Article link: <span className="text-muted-foreground">{new URL(articleUrl).hostname}</span>
+                                    </p>
                                 </div>
                                 <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={handleRemoveDocument}
-                                    className="text-muted-foreground hover:text-destructive"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => loadArticle(articleUrl)}
+                                    disabled={attachedDocuments.length >= MAX_ATTACHED_DOCUMENTS}
                                 >
-                                    <X className="h-4 w-4" />
+                                    Fetch Article
                                 </Button>
                             </div>
-                        ) : isProcessingDocument ? (
-                            <div className="flex items-center justify-center gap-2 py-2">
-                                <Loader2 className="h-5 w-5 animate-spin text-primary" />
-                                <span className="text-sm text-muted-foreground">Processing document...</span>
-                            </div>
-                        ) : (
+                        ) : attachedDocuments.length < MAX_ATTACHED_DOCUMENTS ? (
                             <label className="cursor-pointer block py-2">
                                 <input
                                     type="file"
-                                    ref={documentInputRef}
+                                    multiple
                                     className="hidden"
-                                    accept=".pdf,.txt,.md"
+                                    accept={DOCUMENT_EXTENSIONS.map(extension => `.${extension}`).join(',')}
                                     onChange={handleDocumentUpload}
                                 />
                                 <Upload className="h-5 w-5 mx-auto mb-2 text-muted-foreground" />
-                                <span className="text-primary font-medium">Upload a document</span>
-                                <span className="text-muted-foreground text-sm ml-1">(PDF, TXT, MD)</span>
+                                <span className="text-primary font-medium">
+                                    {attachedDocuments.length > 0 ? 'Add more documents' : 'Upload documents'}
+                                </span>
+                                <span className="text-muted-foreground text-sm ml-1">(PDF, DOCX, PPTX, EPUB, HTML, TXT, MD, SRT, VTT)</span>
                             </label>
+                        ) : (
+                            <p className="text-sm text-muted-foreground py-2">
+                                {MAX_ATTACHED_DOCUMENTS} documents attached - remove one to add another.
+                            </p>
                         )}
                     </div>
 
@@ -638,11 +858,36 @@ const App: React.FC = () => {
                     )}
 
                     <p className="text-xs text-muted-foreground text-center">
-                        {uploadedDocument
-                            ? "Add a topic above to guide the carousel style, or generate directly from the document."
-                            : "Or upload a document to automatically extract content for your carousel."}
+                        {articleUrl
+                            ? "The article's text is read when you generate. Fetch it now to check what was found."
+                            : attachedDocuments.length > 0
+                                ? "Add a topic above to guide the carousel style, or generate directly from the documents. Use Select to send only some pages or sections."
+                                : `Or upload up to ${MAX_ATTACHED_DOCUMENTS} documents to automatically extract content for your carousel.`}
                     </p>
 
+                    {(attachedDocuments.some(({ document }) => document.source) || articleUrl) && (
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="credit-source" className="text-sm">Credit the article on the last slide</Label>
+                            <Switch id="credit-source" checked={creditSource} onCheckedChange={setCreditSource} />
+                        </div>
+                    )}
+
+                    {/* Copywriting Framework */}
+                    <div>
+                        <Label className="text-xs uppercase mb-2 block">Framework</Label>
+                        <Select value={framework} onValueChange={(value) => setFramework(value as CopyFramework)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {COPY_FRAMEWORKS.map(option => (
+                                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground mt-1.5">{getFramework(framework).description}</p>
+                    </div>
+
                     {/* Controls Row */}
                     <div className="grid grid-cols-2 gap-4">
                         <div>
@@ -666,8 +911,9 @@ const App: React.FC = () => {
                                     <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value={TEXT_MODEL_PRO}>Gemini 3 Pro (Best)</SelectItem>
-                                    <SelectItem value={TEXT_MODEL_FLASH}>Gemini 2.5 Flash (Fast)</SelectItem>
+                                    {textModelOptions.map(option => (
+                                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                                    ))}
                                 </SelectContent>
                             </Select>
                         </div>
@@ -675,7 +921,7 @@ const App: React.FC = () => {
 
                     <Button
                         onClick={handleAiGenerate}
-                        disabled={isGenerating || (!aiTopic.trim() && !uploadedDocument)}
+                        disabled={isGenerating || (!aiTopic.trim() && attachedDocuments.length === 0)}
                         className="w-full h-12"
                         size="lg"
                     >
@@ -692,7 +938,9 @@ const App: React.FC = () => {
                         )}
                     </Button>
 
-                    {!isGenerating && (
+                    {isGenerating ? (
+                        <Button variant="ghost" onClick={handleCancelGeneration} className="w-full">Cancel</Button>
+                    ) : (
                         <Button variant="ghost" onClick={() => setStep('METHOD_SELECT')} className="w-full">Back</Button>
                     )}
                 </div>
@@ -0,0 +1,166 @@
+/**
+ * AIProviderSettings Component
+ *
+ * Picks the AI provider (Gemini, OpenAI-compatible, offline mock) and configures it:
+ * API key for remote providers, plus base URL and model overrides for OpenAI-compatible
+ * servers. Used on the onboarding screen and in the Workspace settings.
+ * The parent is notified after every change so it can refresh its model selects.
+ */
+
+import React, { useState } from 'react';
+import {
+  AI_PROVIDERS,
+  AIProviderId,
+  getActiveProvider,
+  setActiveProvider,
+  getOpenAISettings,
+  setOpenAISettings,
+  DEFAULT_OPENAI_BASE_URL
+} from '../services/providers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { Key } from 'lucide-react';
+
+interface AIProviderSettingsProps {
+  onChange?: () => void;
+  className?: string;
+}
+
+const API_KEY_LINKS: Partial<Record<AIProviderId, { href: string; label: string }>> = {
+  gemini: { href: 'https://aistudio.google.com/apikey', label: 'Google AI Studio' },
+  openai: { href: 'https://platform.openai.com/api-keys', label: 'OpenAI Platform' }
+};
+
+const AIProviderSettings: React.FC<AIProviderSettingsProps> = ({ onChange, className }) => {
+  const [provider, setProvider] = useState(getActiveProvider());
+  const [showSetup, setShowSetup] = useState(false);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [openaiSettings, setOpenaiSettingsDraft] = useState(getOpenAISettings());
+  // Bumped after saving so the masked key and status re-read from storage
+  const [, setSavedCount] = useState(0);
+
+  const isOpenAI = provider.id === 'openai';
+  const configured = provider.hasApiKey();
+  const keyLink = API_KEY_LINKS[provider.id];
+
+  const handleProviderChange = (id: string) => {
+    setActiveProvider(id as AIProviderId);
+    setProvider(getActiveProvider());
+    setShowSetup(false);
+    setApiKeyInput('');
+    onChange?.();
+  };
+
+  const handleSave = () => {
+    if (apiKeyInput.trim()) provider.setApiKey(apiKeyInput.trim());
+    if (isOpenAI) {
+      setOpenAISettings(openaiSettings);
+      setOpenaiSettingsDraft(getOpenAISettings());
+    }
+    setApiKeyInput('');
+    setShowSetup(false);
+    setSavedCount(count => count + 1);
+    onChange?.();
+  };
+
+  // The key is optional for OpenAI-compatible servers (local servers run without one)
+  const canSave = isOpenAI || !!apiKeyInput.trim();
+
+  return (
+    <div className={cn("bg-muted/50 border border-border rounded-xl p-4", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Key className="h-5 w-5 text-muted-foreground shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium">AI Provider</p>
+            {!provider.needsApiKey ? (
+              <p className="text-xs text-muted-foreground">No API key needed</p>
+            ) : configured ? (
+              <p className="text-xs text-green-600 truncate">Configured{provider.getApiKeyMasked() ? `: ${provider.getApiKeyMasked()}` : ''}</p>
+            ) : (
+              <p className="text-xs text-amber-600">Required for AI features</p>
+            )}
+          </div>
+        </div>
+        <Select value={provider.id} onValueChange={handleProviderChange}>
+          <SelectTrigger className="w-[170px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AI_PROVIDERS.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <p className="text-xs text-muted-foreground">{provider.description}</p>
+        {provider.needsApiKey && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowSetup(!showSetup)}
+          >
+            {showSetup ? 'Cancel' : (configured ? 'Change' : 'Setup')}
+          </Button>
+        )}
+      </div>
+
+      {showSetup && (
+        <div className="mt-3 pt-3 border-t border-border space-y-2">
+          <Input
+            type="password"
+            value={apiKeyInput}
+            onChange={(e) => setApiKeyInput(e.target.value)}
+            placeholder={`Enter your ${provider.name} API key${isOpenAI ? ' (optional for local servers)' : ''}`}
+            onKeyDown={(e) => e.key === 'Enter' && canSave && handleSave()}
+          />
+          {isOpenAI && (
+            <>
+              <div>
+                <Label className="text-xs text-muted-foreground block mb-1">Base URL</Label>
+                <Input
+                  value={openaiSettings.baseUrl}
+                  onChange={(e) => setOpenaiSettingsDraft({ ...openaiSettings, baseUrl: e.target.value })}
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs text-muted-foreground block mb-1">Text model</Label>
+                  <Input
+                    value={openaiSettings.textModel}
+                    onChange={(e) => setOpenaiSettingsDraft({ ...openaiSettings, textModel: e.target.value })}
+                    placeholder="gpt-4.1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground block mb-1">Image model</Label>
+                  <Input
+                    value={openaiSettings.imageModel}
+                    onChange={(e) => setOpenaiSettingsDraft({ ...openaiSettings, imageModel: e.target.value })}
+                    placeholder="gpt-image-1"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+          <Button onClick={handleSave} disabled={!canSave} className="w-full" size="sm">
+            Save
+          </Button>
+          {keyLink && (
+            <p className="text-xs text-muted-foreground">
+              Get your API key from <a href={keyLink.href} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{keyLink.label}</a>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIProviderSettings;
@@ -0,0 +1,331 @@
+/**
+ * AppleNotesSlide Component
+ *
+ * Renders slides as a page from a notes app - the "I just jotted this down" look.
+ * Casual, personal and native-feeling; works best for lists, checklists and tips.
+ *
+ * LAYOUT (top to bottom):
+ * 1. Toolbar: "‹ Notes" folder link on the left, share/more icons on the right
+ * 2. Date header: centered, muted timestamp ("October 19, 2026 at 9:41 AM") -
+ *    when the project was created, so every render and re-export matches
+ * 3. Note body: markdown content on lined paper, optional inline image below the text
+ * 4. Footer: small creator signature and slide counter
+ *
+ * KEY FEATURES:
+ * - Checklists: `- [ ] item` renders an empty circle, `- [x] item` a filled one
+ * - Accent color tints the folder link, checkboxes and bullets (notes yellow by default)
+ * - Ruled paper lines follow the line height, hidden when a background image is used
+ */
+
+import React from 'react';
+import { Slide, Profile, Theme, FontStyle, LayoutSettings } from '../types';
+import { MarkdownTheme, renderMarkdown, getFontFamily } from '../lib/markdown';
+import { TextFit, useTextFit } from '../lib/textFit';
+import { DEFAULT_LAYOUT_SETTINGS } from '../services/projectSchema';
+
+interface AppleNotesSlideProps {
+  slide: Slide;
+  profile: Profile;
+  index: number;
+  total: number;
+  showSlideNumbers: boolean;
+  headerScale?: number;      // Size multiplier for toolbar/footer elements (0.5 - 2.0)
+  theme: Theme;
+  forExport?: boolean;       // True when rendering for PNG capture
+  showVerifiedBadge?: boolean;
+  accentColor?: string;      // Tint for folder link, checkboxes and highlights
+  fontStyle?: FontStyle;     // Global font style (can be overridden by slide)
+  fontScale?: number;        // Global font scale (can be overridden by slide)
+  layoutSettings?: LayoutSettings; // Global layout settings (can be overridden by slide)
+  noteDate: string;          // ISO timestamp shown in the date header (project createdAt)
+  onTextFitChange?: (fit: TextFit) => void;  // Reports whether the text fits (Workspace overflow check)
+}
+
+// Notes-app yellow, used when the accent color is disabled
+const NOTES_YELLOW = '#E5A50A';
+
+// ============================================================================
+// MARKDOWN THEME
+// ============================================================================
+
+/**
+ * Round checkbox in the notes-app style.
+ * Checked: filled tint circle with a white checkmark. Unchecked: hollow gray circle.
+ */
+const renderCheckbox = (checked: boolean, size: number, tint: string, theme: Theme) => (
+  <span
+    className="flex-shrink-0 rounded-full flex items-center justify-center"
+    style={{
+      width: `${size}px`,
+      height: `${size}px`,
+      backgroundColor: checked ? tint : 'transparent',
+      border: checked ? 'none' : `${Math.max(2, size / 12)}px solid ${theme === 'DARK' ? '#636366' : '#C7C7CC'}`
+    }}
+  >
+    {checked && (
+      <svg viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth={3.5} strokeLinecap="round" strokeLinejoin="round" style={{ width: `${size * 0.6}px`, height: `${size * 0.6}px` }}>
+        <path d="M5 12.5l4.5 4.5L19 7.5" />
+      </svg>
+    )}
+  </span>
+);
+
+/**
+ * Notes-app look for the shared markdown engine (lib/markdown.tsx).
+ * Tinted bullets and round checkboxes; `__text__` renders as a marker-style highlight.
+ */
+const getMarkdownTheme = (theme: Theme, tint: string, textColorOverride?: string): MarkdownTheme => ({
+  headingColor: textColorOverride || (theme === 'DARK' ? '#FFFFFF' : '#000000'),
+  textColor: textColorOverride || (theme === 'DARK' ? '#F2F2F7' : '#1C1C1E'),
+  bulletColor: tint,
+  numberColor: textColorOverride || (theme === 'DARK' ? '#F2F2F7' : '#1C1C1E'),
+  mutedColor: '#8E8E93',
+  linkColor: tint,
+  quoteBarColor: tint,
+  codeBackground: theme === 'DARK' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.06)',
+  sizes: { h1: 64, h2: 46, h3: 40, body: 36, bullet: 36 },
+  classNames: {
+    h1: 'font-bold tracking-tight',
+    h2: 'font-bold',
+    h3: 'font-semibold',
+    body: '',
+    number: 'font-semibold',
+    strong: `font-bold ${theme === 'DARK' ? 'text-white' : 'text-black'}`,
+    em: `italic ${theme === 'DARK' ? 'text-gray-300' : 'text-gray-600'}`,
+    strike: 'opacity-70'
+  },
+  bullet: '•',
+  headingLineHeight: 1.2,
+  underlineStyle: 'highlight',
+  highlightColor: `${tint}4D`,
+  renderCheckbox: (checked, size) => renderCheckbox(checked, size, tint, theme)
+});
+
+/**
+ * Formats the note's date header ("October 19, 2026 at 9:41 AM").
+ */
+const formatNoteDate = (date: Date): string => {
+  const day = date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${day} at ${time}`;
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const AppleNotesSlide: React.FC<AppleNotesSlideProps> = ({
+  slide,
+  profile,
+  index,
+  total,
+  showSlideNumbers,
+  headerScale = 1.0,
+  theme,
+  forExport = false,
+  showVerifiedBadge = true,
+  accentColor,
+  fontStyle = 'MODERN',
+  fontScale = 1.0,
+  layoutSettings,
+  noteDate,
+  onTextFitChange
+}) => {
+
+  // Measures the text boxes (data-text-box) for the overflow check, see lib/textFit.ts
+  const rootRef = useTextFit<HTMLDivElement>(onTextFitChange);
+
+  // EFFECTIVE LAYOUT VALUES (per-slide override > global > default)
+  const effectiveContentPadding = slide.contentPadding ?? layoutSettings?.contentPadding ?? DEFAULT_LAYOUT_SETTINGS.contentPadding;
+  const effectiveLineHeight = slide.textLineHeight ?? layoutSettings?.textLineHeight ?? DEFAULT_LAYOUT_SETTINGS.textLineHeight;
+  const effectiveParagraphGap = slide.paragraphGap ?? layoutSettings?.paragraphGap ?? DEFAULT_LAYOUT_SETTINGS.paragraphGap;
+  const effectiveTextAlignment = slide.textAlignment ?? layoutSettings?.textAlignment ?? DEFAULT_LAYOUT_SETTINGS.textAlignment;
+
+  // FONT SETTINGS
+  const effectiveFontStyle = slide.fontStyle || fontStyle;
+  const effectiveFontScale = slide.fontScale !== undefined ? slide.fontScale : fontScale;
+  const fontFamily = getFontFamily(effectiveFontStyle);
+
+  // IMAGE SETTINGS
+  const imageScale = slide.imageScale || 50;
+  const imageOffsetY = slide.imageOffsetY !== undefined ? slide.imageOffsetY : 50;
+
+  // BACKGROUND IMAGE SETTINGS
+  const showBackground = slide.showBackgroundImage && slide.backgroundImageUrl;
+  const bgOverlayColor = slide.backgroundOverlayColor || (theme === 'DARK' ? '#1C1C1E' : '#FFFFFF');
+  const bgOverlayOpacity = slide.backgroundOverlayOpacity !== undefined ? slide.backgroundOverlayOpacity : 50;
+
+  // THEME COLORS (notes paper)
+  const tint = accentColor || NOTES_YELLOW;
+  const paperColor = theme === 'DARK' ? '#1C1C1E' : '#FFFEF9';
+  const ruleColor = theme === 'DARK' ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.06)';
+  const mutedColor = '#8E8E93';
+  const textColor = slide.backgroundTextColor || (theme === 'DARK' ? '#F2F2F7' : '#1C1C1E');
+
+  // Markdown styling and layout (shared engine, notes theme)
+  const markdownTheme = getMarkdownTheme(theme, tint, showBackground ? slide.backgroundTextColor : undefined);
+  const markdownLayout = {
+    fontScale: effectiveFontScale,
+    lineHeight: effectiveLineHeight,
+    paragraphGap: effectiveParagraphGap,
+    textAlignment: effectiveTextAlignment
+  };
+
+  // Ruled lines spaced to the body text line height (36px base body size)
+  const ruleSpacing = 36 * effectiveFontScale * effectiveLineHeight;
+
+  // TOOLBAR / FOOTER SIZING
+  const toolbarSize = 34 * headerScale;
+  const dateSize = 24 * headerScale;
+  const avatarSize = 44 * headerScale;
+  const signatureSize = 24 * headerScale;
+  const verifiedSize = 22 * headerScale;
+
+  // ============================================================================
+  // TOOLBAR (folder link + actions)
+  // ============================================================================
+  const renderToolbar = () => (
+    <div
+      className="flex items-center justify-between flex-shrink-0 relative z-10"
+      style={{ paddingLeft: `${effectiveContentPadding * 0.6}px`, paddingRight: `${effectiveContentPadding * 0.6}px`, paddingTop: `${40 * headerScale}px` }}
+    >
+      <div className="flex items-center font-medium" style={{ color: tint, fontSize: `${toolbarSize}px` }}>
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2.5} strokeLinecap="round" strokeLinejoin="round" style={{ width: `${toolbarSize * 1.2}px`, height: `${toolbarSize * 1.2}px` }}>
+          <path d="M15 18l-6-6 6-6" />
+        </svg>
+        <span>Notes</span>
+      </div>
+      <div className="flex items-center" style={{ color: tint, gap: `${toolbarSize * 0.9}px` }}>
+        {/* Share */}
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" style={{ width: `${toolbarSize}px`, height: `${toolbarSize}px` }}>
+          <path d="M12 3v12M7 8l5-5 5 5M5 13v6a2 2 0 002 2h10a2 2 0 002-2v-6" />
+        </svg>
+        {/* More */}
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} style={{ width: `${toolbarSize}px`, height: `${toolbarSize}px` }}>
+          <circle cx="12" cy="12" r="10" />
+          <circle cx="7.5" cy="12" r="1" fill="currentColor" />
+          <circle cx="12" cy="12" r="1" fill="currentColor" />
+          <circle cx="16.5" cy="12" r="1" fill="currentColor" />
+        </svg>
+      </div>
+    </div>
+  );
+
+  // ============================================================================
+  // FOOTER (signature + slide counter)
+  // ============================================================================
+  const renderFooter = () => (
+    <div
+      className="flex items-center justify-between flex-shrink-0 relative z-10"
+      style={{ paddingLeft: `${effectiveContentPadding}px`, paddingRight: `${effectiveContentPadding}px`, paddingBottom: `${40 * headerScale}px`, paddingTop: `${16 * headerScale}px` }}
+    >
+      <div className="flex items-center gap-3">
+        <img
+          src={profile.avatarUrl || "https://picsum.photos/200"}
+          alt={profile.name}
+          {...(profile.avatarUrl?.startsWith('data:') ? {} : { crossOrigin: 'anonymous' })}
+          className="rounded-full object-cover"
+          style={{ width: `${avatarSize}px`, height: `${avatarSize}px` }}
+        />
+        <span className="font-semibold" style={{ fontSize: `${signatureSize}px`, color: textColor }}>{profile.name}</span>
+        {showVerifiedBadge && (
+          <img
+            src="https://upload.wikimedia.org/wikipedia/commons/thumb/e/e4/Twitter_Verified_Badge.svg/1200px-Twitter_Verified_Badge.svg.png"
+            alt="Verified"
+            crossOrigin="anonymous"
+            style={{ width: `${verifiedSize}px`, height: `${verifiedSize}px` }}
+          />
+        )}
+        <span style={{ fontSize: `${signatureSize}px`, color: mutedColor }}>@{profile.handle}</span>
+      </div>
+      {showSlideNumbers && (
+        <span className="font-medium" style={{ fontSize: `${signatureSize}px`, color: mutedColor }}>
+          {index + 1}/{total}
+        </span>
+      )}
+    </div>
+  );
+
+  // ============================================================================
+  // MAIN RENDER
+  // ============================================================================
+  return (
+    <div
+      ref={rootRef}
+      className={`w-full h-full flex flex-col relative overflow-hidden ${forExport ? '' : 'transition-colors duration-300'}`}
+      style={{ backgroundColor: paperColor, fontFamily }}
+    >
+      {/* Background Image Layer */}
+      {showBackground && (
+        <>
+          <div className="absolute inset-0 z-0">
+            <img
+              src={slide.backgroundImageUrl}
+              alt=""
+              {...(slide.backgroundImageUrl?.startsWith('data:') ? {} : { crossOrigin: 'anonymous' })}
+              className="w-full h-full object-cover"
+            />
+          </div>
+          <div
+            className="absolute inset-0 z-[1]"
+            style={{ backgroundColor: bgOverlayColor, opacity: bgOverlayOpacity / 100 }}
+          />
+        </>
+      )}
+
+      {renderToolbar()}
+
+      {/* Date Header */}
+      <div className="text-center flex-shrink-0 relative z-10" style={{ fontSize: `${dateSize}px`, color: mutedColor, marginTop: `${24 * headerScale}px` }}>
+        {formatNoteDate(new Date(noteDate))}
+      </div>
+
+      {/* Note Body (ruled paper) */}
+      <div
+        className="flex-1 flex flex-col min-h-0 relative z-10"
+        style={{
+          paddingLeft: `${effectiveContentPadding}px`,
+          paddingRight: `${effectiveContentPadding}px`,
+          paddingTop: `${effectiveContentPadding * 0.5}px`,
+          backgroundImage: showBackground
+            ? undefined
+            : `repeating-linear-gradient(to bottom, transparent 0, transparent ${ruleSpacing - 1}px, ${ruleColor} ${ruleSpacing - 1}px, ${ruleColor} ${ruleSpacing}px)`
+        }}
+      >
+        <div className="flex-shrink min-h-0 overflow-hidden" data-text-box>
+          {renderMarkdown(slide.content, markdownTheme, markdownLayout)}
+        </div>
+
+        {/* Inline Image (attached below the text, like a photo pasted into a note) */}
+        {slide.showImage && (
+          <div className="w-full flex-shrink-0 mt-4" style={{ height: `${imageScale}%` }}>
+            {slide.imageUrl ? (
+              <div className="w-full h-full rounded-3xl overflow-hidden">
+                <img
+                  src={slide.imageUrl}
+                  alt="Slide visual"
+                  {...(slide.imageUrl?.startsWith('data:') ? {} : { crossOrigin: 'anonymous' })}
+                  className={`w-full h-full object-cover ${forExport ? '' : 'transition-all duration-300'}`}
+                  style={{ objectPosition: `center ${imageOffsetY}%` }}
+                />
+              </div>
+            ) : (
+              <div className={`w-full h-full rounded-3xl flex items-center justify-center border-4 border-dashed ${theme === 'DARK' ? 'bg-gray-900 border-gray-800' : 'bg-gray-50 border-gray-200'}`}>
+                <div className="flex flex-col items-center text-gray-500 animate-pulse scale-150">
+                  <svg className="w-12 h-12 mb-4 opacity-50" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  <span className="text-lg font-medium">Generating...</span>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {renderFooter()}
+    </div>
+  );
+};
+
+export default AppleNotesSlide;
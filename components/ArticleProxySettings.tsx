@@ -0,0 +1,76 @@
+/**
+ * ArticleProxySettings Component
+ *
+ * Configures the proxy web articles are fetched through when a blog post or
+ * newsletter link is used as the carousel topic (services/articleService.ts).
+ * Shown on the onboarding screen next to the Apify token.
+ */
+
+import React, { useState } from 'react';
+import { getArticleProxy, setArticleProxy } from '../services/articleService';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Globe } from 'lucide-react';
+
+const ArticleProxySettings: React.FC = () => {
+  const [proxy, setProxy] = useState(getArticleProxy);
+  const [proxyInput, setProxyInput] = useState(proxy);
+  const [showInput, setShowInput] = useState(false);
+
+  const handleSave = () => {
+    setArticleProxy(proxyInput);
+    setProxy(getArticleProxy());
+    setShowInput(false);
+  };
+
+  return (
+    <div className="bg-muted/50 border border-border rounded-xl p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Globe className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <p className="text-sm font-medium">Article Proxy <span className="text-muted-foreground font-normal">(Article links)</span></p>
+            {proxy ? (
+              <p className="text-xs text-green-600 truncate max-w-[260px]" title={proxy}>Configured: {proxy}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Optional - most sites can only be read through a proxy</p>
+            )}
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setProxyInput(proxy);
+            setShowInput(!showInput);
+          }}
+        >
+          {showInput ? 'Cancel' : (proxy ? 'Change' : 'Setup')}
+        </Button>
+      </div>
+
+      {showInput && (
+        <div className="mt-3 pt-3 border-t border-border">
+          <div className="flex gap-2">
+            <Input
+              value={proxyInput}
+              onChange={(e) => setProxyInput(e.target.value)}
+              placeholder="https://proxy.example.com/?url={url}"
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              className="flex-1"
+            />
+            <Button onClick={handleSave} disabled={proxyInput.trim() === proxy}>
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            {'{url}'} is replaced by the encoded article URL; without it, the URL is appended.
+            Leave empty to fetch pages directly.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArticleProxySettings;
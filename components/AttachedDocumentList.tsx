@@ -0,0 +1,170 @@
+/**
+ * AttachedDocumentList Component
+ *
+ * The source documents attached on the AI input step. Each card can be expanded
+ * to preview the document's outline and pick what to send:
+ * - PDF: page ranges ("1-5, 9")
+ * - Text documents: the sections under their headings (ticking a heading ticks
+ *   the headings nested under it)
+ *
+ * The selection is applied when generating (services/documentSelection.ts).
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AttachedDocument, DocumentSelection } from '../types';
+import { getDocumentOutline, getSectionWithSubsections, parsePageRanges, describePages } from '../lib/documentOutline';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface AttachedDocumentListProps {
+  documents: AttachedDocument[];
+  onSelectionChange: (id: string, selection: DocumentSelection) => void;
+  onRemove: (id: string) => void;
+}
+
+// ============================================================================
+// DOCUMENT CARD
+// ============================================================================
+
+interface DocumentCardProps {
+  attached: AttachedDocument;
+  onSelectionChange: (selection: DocumentSelection) => void;
+  onRemove: () => void;
+}
+
+const DocumentCard: React.FC<DocumentCardProps> = ({ attached: { document, selection }, onSelectionChange, onRemove }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isPdf = document.type === 'pdf';
+  const outline = useMemo(() => (isPdf ? [] : getDocumentOutline(document.content)), [isPdf, document.content]);
+  const selectedSections = selection.sections ?? outline.map((_, i) => i);
+  const pages = isPdf && selection.pages?.trim() && document.pageCount
+    ? parsePageRanges(selection.pages, document.pageCount)
+    : undefined;
+
+  // What will be sent, e.g. "pages 3-10" or "4 of 12 sections"
+  const summary = isPdf
+    ? pages === null ? 'Invalid page range' : pages ? describePages(pages) : document.pageCount ? `All ${document.pageCount} pages` : ''
+    : outline.length > 1 ? `${selectedSections.length} of ${outline.length} sections` : '';
+  const canSelect = isPdf ? !!document.pageCount : outline.length > 1;
+
+  const toggleSection = (index: number) => {
+    const group = getSectionWithSubsections(outline, index);
+    const sections = selectedSections.includes(index)
+      ? selectedSections.filter(i => !group.includes(i))
+      : [...new Set([...selectedSections, ...group])].sort((a, b) => a - b);
+    onSelectionChange({ ...selection, sections });
+  };
+
+  return (
+    <div className="rounded-lg border border-border text-left">
+      <div className="flex items-center justify-between gap-2 p-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {document.source?.imageUrl ? (
+            <img src={document.source.imageUrl} alt="" className="w-10 h-10 rounded object-cover border border-border shrink-0" />
+          ) : (
+            <span className="text-2xl shrink-0">
+              {isPdf ? '📄' : document.type === 'article' ? '🔗' : document.type === 'srt' || document.type === 'vtt' ? '🎬' : '📃'}
+            </span>
+          )}
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate" title={document.name}>{document.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {document.source
+                ? [document.source.siteName, document.source.author].filter(Boolean).join(' · ')
+                : `${(document.size / 1024).toFixed(1)} KB`}
+              {document.images?.length
+                ? ` · ${document.images.length} image${document.images.length === 1 ? '' : 's'}`
+                : ''}
+              {summary && <span className={cn(pages === null && 'text-destructive')}> · {summary}</span>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center shrink-0">
+          {canSelect && (
+            <Button variant="ghost" size="sm" onClick={() => setIsExpanded(!isExpanded)} className="text-xs">
+              Select
+              {isExpanded ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRemove}
+            className="text-muted-foreground hover:text-destructive"
+            title="Remove document"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isExpanded && isPdf && (
+        <div className="border-t border-border p-3">
+          <Input
+            value={selection.pages ?? ''}
+            onChange={(e) => onSelectionChange({ ...selection, pages: e.target.value })}
+            placeholder={`All pages (1-${document.pageCount})`}
+            className={cn('h-8 text-sm', pages === null && 'border-destructive')}
+          />
+          <p className={cn('text-xs mt-1.5', pages === null ? 'text-destructive' : 'text-muted-foreground')}>
+            {pages === null
+              ? `Use page numbers from 1 to ${document.pageCount}, e.g. 1-5, 9, 12-`
+              : 'Pages and ranges separated by commas, e.g. 1-5, 9, 12- (to the end)'}
+          </p>
+        </div>
+      )}
+
+      {isExpanded && !isPdf && (
+        <div className="border-t border-border p-3">
+          <div className="flex justify-between items-center mb-1.5 text-xs text-muted-foreground">
+            <span className="uppercase font-bold text-[10px]">Outline</span>
+            <span className="flex gap-2">
+              <button className="hover:text-foreground" onClick={() => onSelectionChange({ ...selection, sections: undefined })}>All</button>
+              <button className="hover:text-foreground" onClick={() => onSelectionChange({ ...selection, sections: [] })}>None</button>
+            </span>
+          </div>
+          <div className="max-h-48 overflow-y-auto space-y-0.5">
+            {outline.map((section, i) => (
+              <label
+                key={i}
+                className="flex items-center gap-2 text-sm cursor-pointer py-0.5"
+                style={{ paddingLeft: `${Math.max(0, section.level - 1) * 12}px` }}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedSections.includes(i)}
+                  onChange={() => toggleSection(i)}
+                  className="w-4 h-4 rounded border-border text-primary focus:ring-primary cursor-pointer shrink-0"
+                />
+                <span className={cn('truncate', section.level === 0 && 'italic text-muted-foreground')} title={section.title}>
+                  {section.title}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// LIST
+// ============================================================================
+
+const AttachedDocumentList: React.FC<AttachedDocumentListProps> = ({ documents, onSelectionChange, onRemove }) => (
+  <div className="space-y-2">
+    {documents.map(attached => (
+      <DocumentCard
+        key={attached.id}
+        attached={attached}
+        onSelectionChange={(selection) => onSelectionChange(attached.id, selection)}
+        onRemove={() => onRemove(attached.id)}
+      />
+    ))}
+  </div>
+);
+
+export default AttachedDocumentList;
@@ -0,0 +1,224 @@
+/**
+ * BatchGenerator Component
+ *
+ * Bulk mode: import a content calendar CSV, review the rows, then generate
+ * every carousel (and optionally its images) into the project library.
+ * Each row shows its status while the queue runs; the report can be downloaded as CSV.
+ * Generation itself lives in services/batchGeneration.ts.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { BrandKit } from '../types';
+import { listBrandKits } from '../services/projectStorage';
+import { getModels } from '../services/geminiService';
+import {
+  BatchRow,
+  BatchRowResult,
+  BatchDefaults,
+  parseContentCalendar,
+  runBatch,
+  buildBatchReport
+} from '../services/batchGeneration';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { Upload, Loader2, Download, X, Check, AlertCircle, FileSpreadsheet } from 'lucide-react';
+
+interface BatchGeneratorProps {
+  textModel: string;
+  defaults: BatchDefaults;   // Style, aspect ratio and profile for rows that don't set them
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchRowResult['status'], string> = {
+  invalid: 'Skipped',
+  queued: 'Queued',
+  writing: 'Writing...',
+  images: 'Images...',
+  done: 'Saved',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const EXAMPLE_CSV = 'topic,slides,style,aspect ratio,brand,image style\n"5 habits of calm founders",7,Twitter,4:5,,"Soft watercolor"';
+
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ textModel, defaults, onClose }) => {
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [results, setResults] = useState<BatchRowResult[]>([]);
+  const [generateImages, setGenerateImages] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listBrandKits().then(setBrandKits).catch(error => console.error('Failed to load brand kits:', error));
+    // Stop the queue if the screen is left mid-run
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const validCount = rows.filter(row => !row.error).length;
+  const finishedCount = results.filter(r => ['done', 'failed', 'cancelled'].includes(r.status)).length;
+  const hasRun = results.some(r => r.status !== 'queued' && r.status !== 'invalid');
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const parsed = parseContentCalendar(event.target?.result as string, brandKits, defaults);
+        setFileName(file.name);
+        setRows(parsed);
+        setResults(parsed.map(row => (row.error ? { status: 'invalid', message: row.error } : { status: 'queued' })));
+      } catch (error) {
+        console.error('Failed to read content calendar:', error);
+        alert(`Failed to read the CSV file. ${error instanceof Error ? error.message : ''}`);
+      }
+    };
+    reader.readAsText(file);
+
+    // Reset input so same file can be imported again
+    if (e.target) e.target.value = '';
+  };
+
+  const handleRun = async () => {
+    if (validCount === 0 || isRunning) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults(rows.map(row => (row.error ? { status: 'invalid', message: row.error } : { status: 'queued' })));
+
+    try {
+      await runBatch(rows, {
+        generateImages,
+        textModel,
+        imageModel: getModels().imagePro.id,
+        defaults,
+        signal: controller.signal,
+        onUpdate: (index, result) => setResults(prev => prev.map((r, i) => (i === index ? result : r)))
+      });
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    const blob = new Blob([buildBatchReport(rows, results)], { type: 'text/csv' });
+    window.saveAs(blob, `${fileName.replace(/\.csv$/i, '') || 'batch'}-report.csv`);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <h2 className="text-xl font-semibold text-center">Bulk Create from CSV</h2>
+
+      {/* File picker */}
+      <div className="border-2 border-dashed border-border rounded-lg p-4 text-center hover:border-primary/50 transition-colors">
+        <input type="file" ref={fileInputRef} className="hidden" accept=".csv,text/csv" onChange={handleFileUpload} />
+        {fileName ? (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-left">
+              <FileSpreadsheet className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <p className="text-sm font-medium truncate max-w-[240px]">{fileName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {rows.length} rows · {validCount} ready{rows.length > validCount ? ` · ${rows.length - validCount} skipped` : ''}
+                </p>
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+              Replace
+            </Button>
+          </div>
+        ) : (
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="w-full py-2">
+            <Upload className="h-5 w-5 mx-auto mb-2 text-muted-foreground" />
+            <span className="text-primary font-medium">Upload a content calendar</span>
+            <span className="text-muted-foreground text-sm ml-1">(CSV)</span>
+          </button>
+        )}
+      </div>
+
+      {!fileName && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>One carousel per row. Only <code>topic</code> is required; brand matches a saved brand kit by name.</p>
+          <pre className="bg-muted/50 p-2 rounded text-[10px] overflow-x-auto">{EXAMPLE_CSV}</pre>
+        </div>
+      )}
+
+      {/* Rows and their status */}
+      {rows.length > 0 && (
+        <div className="max-h-[320px] overflow-y-auto border border-border rounded-lg divide-y divide-border">
+          {rows.map((row, i) => {
+            const result = results[i];
+            return (
+              <div key={row.line} className="flex items-start justify-between gap-3 p-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{row.topic || <span className="text-muted-foreground">(no topic)</span>}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Line {row.line} · {row.slideCount} slides{row.brandKit ? ` · ${row.brandKit.name}` : ''}
+                    {result?.message && <span className={cn(result.status !== 'done' && 'text-destructive')}> · {result.message}</span>}
+                  </p>
+                </div>
+                <span className={cn(
+                  "text-xs whitespace-nowrap flex items-center gap-1",
+                  result?.status === 'done' && 'text-green-600',
+                  (result?.status === 'failed' || result?.status === 'invalid') && 'text-destructive',
+                  (result?.status === 'queued' || result?.status === 'cancelled') && 'text-muted-foreground'
+                )}>
+                  {(result?.status === 'writing' || result?.status === 'images') && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {result?.status === 'done' && <Check className="h-3 w-3" />}
+                  {(result?.status === 'failed' || result?.status === 'invalid') && <AlertCircle className="h-3 w-3" />}
+                  {result?.status === 'images'
+                    ? `Images ${result.imagesGenerated ?? 0}/${result.slides ?? '?'}`
+                    : STATUS_LABELS[result?.status ?? 'queued']}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="batch-images" className="text-sm">Generate images (slower, uses image credits)</Label>
+          <Switch id="batch-images" checked={generateImages} onCheckedChange={setGenerateImages} disabled={isRunning} />
+        </div>
+      )}
+
+      {isRunning ? (
+        <div className="flex gap-3">
+          <div className="flex-[2] flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {finishedCount} of {validCount} done
+          </div>
+          <Button variant="outline" onClick={() => abortRef.current?.abort()} className="flex-1">
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={onClose} className="flex-1">
+            {hasRun ? 'Done' : 'Back'}
+          </Button>
+          {hasRun && (
+            <Button variant="outline" onClick={handleDownloadReport} className="flex-1">
+              <Download className="h-4 w-4 mr-2" />
+              Report
+            </Button>
+          )}
+          <Button onClick={handleRun} disabled={validCount === 0} className="flex-[2]">
+            {hasRun ? 'Run Again' : `Generate ${validCount} Carousel${validCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchGenerator;
@@ -0,0 +1,223 @@
+/**
+ * BrandKitPanel Component
+ *
+ * Picks, saves and shares brand kits (profile, colors, typography, layout and
+ * image style stored under a name - see BrandKit in types.ts).
+ * Used on the onboarding profile step and in the Workspace global settings.
+ *
+ * ACTIONS:
+ * - Choose a kit: applies it right away (onApply)
+ * - Save: stores the current settings as a kit (Workspace only); an existing name is overwritten
+ * - Export / Import: JSON files for sharing kits with teammates
+ * - Delete: permanent removal (with confirmation)
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { BrandKit, BrandKitSettings } from '../types';
+import { listBrandKits, saveBrandKit, deleteBrandKit } from '../services/projectStorage';
+import { parseBrandKit, formatSchemaIssues, CURRENT_BRAND_KIT_VERSION } from '../services/projectSchema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { Download, Upload, Trash2, Save } from 'lucide-react';
+
+interface BrandKitPanelProps {
+  activeKitId?: string | null;            // Kit applied most recently (shown as selected)
+  currentSettings?: BrandKitSettings;     // When set, the current settings can be saved as a kit
+  onApply: (kit: BrandKit) => void;
+  className?: string;
+}
+
+// "Acme Co." → "acme-co" for export file names
+const toFileSlug = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'brand-kit';
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ activeKitId, currentSettings, onApply, className }) => {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(activeKitId ?? null);
+  const [newKitName, setNewKitName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedKit = kits.find(kit => kit.id === selectedId);
+
+  const refresh = async () => {
+    try {
+      setKits(await listBrandKits());
+    } catch (error) {
+      console.error('Failed to load brand kits:', error);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSelect = (id: string) => {
+    const kit = kits.find(k => k.id === id);
+    if (!kit) return;
+    setSelectedId(id);
+    onApply(kit);
+  };
+
+  const handleSave = async () => {
+    const name = newKitName.trim();
+    if (!name || !currentSettings) return;
+
+    const existing = kits.find(kit => kit.name.toLowerCase() === name.toLowerCase());
+    if (existing && !confirm(`Replace the brand kit "${existing.name}" with the current settings?`)) return;
+
+    const now = new Date().toISOString();
+    const kit: BrandKit = {
+      ...currentSettings,
+      schemaVersion: CURRENT_BRAND_KIT_VERSION,
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    try {
+      await saveBrandKit(kit);
+      setNewKitName('');
+      setSelectedId(kit.id);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to save brand kit:', error);
+      alert('Failed to save the brand kit. Your browser may be blocking storage.');
+    }
+  };
+
+  const handleExport = () => {
+    if (!selectedKit) return;
+    const blob = new Blob([JSON.stringify(selectedKit, null, 2)], { type: 'application/json' });
+    window.saveAs(blob, `brand-kit-${toFileSlug(selectedKit.name)}.json`);
+  };
+
+  /**
+   * Imports a kit file. Kits keep their ID, so re-importing an updated file
+   * from a teammate replaces the older copy instead of duplicating it.
+   */
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.target?.result as string);
+      } catch (error) {
+        console.error('Failed to import brand kit:', error);
+        alert('Failed to import brand kit. The file is not valid JSON.');
+        return;
+      }
+
+      const result = parseBrandKit(data);
+      if (!result.kit) {
+        console.error('Invalid brand kit file:', result.issues);
+        alert(`Failed to import brand kit. Invalid fields:\n\n${formatSchemaIssues(result.issues)}`);
+        return;
+      }
+
+      try {
+        await saveBrandKit(result.kit);
+        await refresh();
+        setSelectedId(result.kit.id);
+        onApply(result.kit);
+      } catch (error) {
+        console.error('Failed to save imported brand kit:', error);
+        alert('Failed to save the brand kit. Your browser may be blocking storage.');
+      }
+    };
+    reader.readAsText(file);
+
+    // Reset input so same file can be imported again
+    if (e.target) e.target.value = '';
+  };
+
+  const handleDelete = async () => {
+    if (!selectedKit || !confirm(`Delete the brand kit "${selectedKit.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteBrandKit(selectedKit.id);
+      setSelectedId(null);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete brand kit:', error);
+      alert('Failed to delete the brand kit.');
+    }
+  };
+
+  return (
+    <div className={cn("p-3 bg-secondary rounded-lg space-y-2", className)}>
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Brand Kit</Label>
+        <input
+          type="file"
+          ref={importInputRef}
+          className="hidden"
+          accept=".json,application/json"
+          onChange={handleImport}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => importInputRef.current?.click()}
+          className="h-7 text-xs"
+        >
+          <Upload className="h-3 w-3 mr-1" />
+          Import
+        </Button>
+      </div>
+
+      <Select value={selectedKit ? selectedKit.id : ''} onValueChange={handleSelect} disabled={kits.length === 0}>
+        <SelectTrigger className="h-8">
+          <SelectValue placeholder={kits.length === 0 ? 'No brand kits yet' : 'Apply a brand kit...'} />
+        </SelectTrigger>
+        <SelectContent>
+          {kits.map(kit => (
+            <SelectItem key={kit.id} value={kit.id}>{kit.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {selectedKit && (
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={handleExport} className="flex-1 h-7 text-xs">
+            <Download className="h-3 w-3 mr-1" />
+            Export
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleDelete}
+            className="h-7 text-xs text-muted-foreground hover:text-destructive"
+            title="Delete brand kit"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      {currentSettings && (
+        <div className="flex gap-2">
+          <Input
+            value={newKitName}
+            onChange={(e) => setNewKitName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Save current settings as..."
+            className="h-8 text-xs"
+          />
+          <Button type="button" size="sm" onClick={handleSave} disabled={!newKitName.trim()} className="h-8">
+            <Save className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitPanel;
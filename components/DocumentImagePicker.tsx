@@ -0,0 +1,49 @@
+/**
+ * DocumentImagePicker Component
+ *
+ * Thumbnails of the images extracted from the document the carousel was generated
+ * from (DOCX, PPTX, EPUB, HTML - see services/documentParsers.ts), shown in the slide
+ * image section. Picking one opens the upload dialog (use as-is or stylize);
+ * images that aren't useful can be removed from the project.
+ */
+
+import React from 'react';
+import { DocumentImage } from '../types';
+import { X } from 'lucide-react';
+
+interface DocumentImagePickerProps {
+  images: DocumentImage[];
+  onPick: (image: DocumentImage) => void;
+  onRemove: (imageId: string) => void;
+}
+
+const DocumentImagePicker: React.FC<DocumentImagePickerProps> = ({ images, onPick, onRemove }) => (
+  <div className="mb-3">
+    <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+      <span className="uppercase font-bold">From Your Document</span>
+      <span>{images.length} image{images.length === 1 ? '' : 's'}</span>
+    </div>
+    <div className="flex gap-1.5 overflow-x-auto pb-1">
+      {images.map(image => (
+        <div key={image.id} className="relative flex-shrink-0 group">
+          <button
+            onClick={() => onPick(image)}
+            title={`Use ${image.name} on this slide`}
+            className="block w-12 h-12 rounded overflow-hidden border-2 border-transparent hover:border-muted-foreground transition-colors"
+          >
+            <img src={image.imageUrl} alt={image.name} className="w-full h-full object-cover" />
+          </button>
+          <button
+            onClick={() => onRemove(image.id)}
+            className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center h-4 w-4 rounded-full bg-black/70 text-white hover:bg-destructive"
+            title="Remove from the project"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default DocumentImagePicker;
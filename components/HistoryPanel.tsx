@@ -0,0 +1,65 @@
+/**
+ * HistoryPanel Component
+ *
+ * Dropdown listing every recorded edit in the Workspace undo/redo history.
+ * Clicking an entry jumps straight to that state; entries after the current
+ * position are dimmed (they are the redo stack and are discarded on the next edit).
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { HistoryEntry } from '../lib/history';
+import { cn } from '@/lib/utils';
+import { X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJump, onClose }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current entry visible as the user undoes/redoes
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex]);
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-72 bg-popover text-popover-foreground border border-border rounded-lg shadow-xl z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-bold uppercase text-muted-foreground">History</span>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground" title="Close">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="max-h-80 overflow-y-auto py-1">
+        {/* Newest first */}
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <button
+            key={entry.id}
+            ref={index === currentIndex ? currentRef : undefined}
+            onClick={() => onJump(index)}
+            className={cn(
+              "w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-sm hover:bg-accent transition-colors",
+              index === currentIndex && "bg-primary/10 text-primary font-semibold",
+              index > currentIndex && "text-muted-foreground opacity-60"
+            )}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="text-[10px] text-muted-foreground flex-shrink-0">{formatTime(entry.timestamp)}</span>
+          </button>
+        ))}
+      </div>
+      <div className="px-3 py-2 border-t border-border text-[10px] text-muted-foreground">
+        Ctrl+Z to undo · Ctrl+Shift+Z to redo
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,75 @@
+/**
+ * ImageVariantStrip Component
+ *
+ * Filmstrip of a slide's image history (see lib/imageVariants.ts), shown under the
+ * image preview. Clicking a thumbnail makes it the slide's image; hovering shows
+ * how it was made (prompt, model, style). Old variants can be removed one by one.
+ */
+
+import React from 'react';
+import { ImageVariant, ImageVariantSource } from '../types';
+import { cn } from '@/lib/utils';
+import { X } from 'lucide-react';
+
+interface ImageVariantStripProps {
+  variants: ImageVariant[];
+  currentUrl?: string;          // The slide's current image, highlighted in the strip
+  onRestore: (variantId: string) => void;
+  onRemove: (variantId: string) => void;
+}
+
+const SOURCE_LABELS: Record<ImageVariantSource, string> = {
+  generate: 'Generated',
+  edit: 'Edited',
+  stylize: 'Stylized',
+  upload: 'Uploaded',
+  previous: 'Earlier image'
+};
+
+const describeVariant = (variant: ImageVariant): string =>
+  [
+    `${SOURCE_LABELS[variant.source]} · ${new Date(variant.createdAt).toLocaleString()}`,
+    variant.prompt && `Prompt: ${variant.prompt}`,
+    variant.model && `Model: ${variant.model}`,
+    variant.style && `Style: ${variant.style}`
+  ].filter(Boolean).join('\n');
+
+const ImageVariantStrip: React.FC<ImageVariantStripProps> = ({ variants, currentUrl, onRestore, onRemove }) => (
+  <div className="mb-3">
+    <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+      <span className="uppercase font-bold">Image History</span>
+      <span>{variants.length} version{variants.length === 1 ? '' : 's'}</span>
+    </div>
+    <div className="flex gap-1.5 overflow-x-auto pb-1">
+      {/* Newest first */}
+      {[...variants].reverse().map(variant => {
+        const isCurrent = variant.imageUrl === currentUrl;
+        return (
+          <div key={variant.id} className="relative flex-shrink-0 group">
+            <button
+              onClick={() => onRestore(variant.id)}
+              title={describeVariant(variant)}
+              className={cn(
+                "block w-12 h-12 rounded overflow-hidden border-2 transition-colors",
+                isCurrent ? "border-primary" : "border-transparent hover:border-muted-foreground"
+              )}
+            >
+              <img src={variant.imageUrl} alt={SOURCE_LABELS[variant.source]} className="w-full h-full object-cover" />
+            </button>
+            {!isCurrent && (
+              <button
+                onClick={() => onRemove(variant.id)}
+                className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center h-4 w-4 rounded-full bg-black/70 text-white hover:bg-destructive"
+                title="Remove from history"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default ImageVariantStrip;
@@ -0,0 +1,142 @@
+/**
+ * JobsPanel Component
+ *
+ * Dropdown listing the AI requests in the request queue (services/requestQueue.ts):
+ * queued, running, retrying after a rate limit, and recently finished or failed.
+ * Active jobs can be cancelled; the concurrency limit and retry count are set at the bottom.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { QueueJob, JobStatus, getQueueSettings, setQueueSettings } from '../services/requestQueue';
+import { cn } from '@/lib/utils';
+import { X, Loader2, Clock, RotateCw, Check, AlertCircle, Ban, Image as ImageIcon, Type } from 'lucide-react';
+
+interface JobsPanelProps {
+  jobs: QueueJob[];
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_ICONS: Record<JobStatus, React.ReactNode> = {
+  queued: <Clock className="h-3.5 w-3.5 text-muted-foreground" />,
+  running: <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />,
+  retrying: <RotateCw className="h-3.5 w-3.5 text-amber-500" />,
+  done: <Check className="h-3.5 w-3.5 text-green-600" />,
+  failed: <AlertCircle className="h-3.5 w-3.5 text-destructive" />,
+  cancelled: <Ban className="h-3.5 w-3.5 text-muted-foreground" />
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+const RETRY_OPTIONS = [0, 2, 4, 6];
+
+const isActive = (job: QueueJob) => !job.finishedAt;
+
+const describeStatus = (job: QueueJob, now: number): string => {
+  switch (job.status) {
+    case 'queued': return 'Waiting for a free slot';
+    case 'running': return job.attempts > 1 ? `Running (attempt ${job.attempts})` : 'Running';
+    case 'retrying': return `Rate limited, retrying in ${Math.max(0, Math.ceil(((job.retryAt ?? now) - now) / 1000))}s`;
+    case 'done': return 'Done';
+    case 'failed': return job.error || 'Failed';
+    case 'cancelled': return 'Cancelled';
+  }
+};
+
+const JobsPanel: React.FC<JobsPanelProps> = ({ jobs, onCancel, onClearFinished, onClose }) => {
+  const [settings, setSettings] = useState(getQueueSettings);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the retry countdowns
+  const hasRetrying = jobs.some(job => job.status === 'retrying');
+  useEffect(() => {
+    if (!hasRetrying) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRetrying]);
+
+  const updateSettings = (changes: Partial<typeof settings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setQueueSettings(next);
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-popover text-popover-foreground border border-border rounded-lg shadow-xl z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-bold uppercase text-muted-foreground">AI Requests</span>
+        <div className="flex items-center gap-2">
+          {jobs.some(job => !isActive(job)) && (
+            <button onClick={onClearFinished} className="text-xs text-muted-foreground hover:text-foreground">
+              Clear finished
+            </button>
+          )}
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto py-1">
+        {jobs.length === 0 && (
+          <p className="px-3 py-4 text-sm text-center text-muted-foreground">No requests yet.</p>
+        )}
+        {/* Newest first */}
+        {[...jobs].reverse().map(job => (
+          <div key={job.id} className={cn("flex items-start gap-2 px-3 py-1.5 text-sm", !isActive(job) && "opacity-70")}>
+            <span className="mt-0.5 flex-shrink-0">{STATUS_ICONS[job.status]}</span>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-1">
+                {job.kind === 'image'
+                  ? <ImageIcon className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                  : <Type className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
+                <span className="truncate font-medium">{job.label}</span>
+              </div>
+              {job.detail && <p className="truncate text-xs text-muted-foreground">{job.detail}</p>}
+              <p
+                className={cn("text-[10px] truncate", job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground')}
+                title={job.error}
+              >
+                {describeStatus(job, now)} · {job.model}
+              </p>
+            </div>
+            {isActive(job) && (
+              <button
+                onClick={() => onCancel(job.id)}
+                className="text-muted-foreground hover:text-destructive flex-shrink-0"
+                title="Cancel request"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-border text-[10px] text-muted-foreground">
+        <label className="flex items-center gap-1">
+          At once
+          <select
+            value={settings.concurrency}
+            onChange={(e) => updateSettings({ concurrency: Number(e.target.value) })}
+            className="bg-background border border-border rounded px-1 py-0.5"
+          >
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Retries on 429/503
+          <select
+            value={settings.maxRetries}
+            onChange={(e) => updateSettings({ maxRetries: Number(e.target.value) })}
+            className="bg-background border border-border rounded px-1 py-0.5"
+          >
+            {RETRY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default JobsPanel;
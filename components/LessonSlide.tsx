@@ -16,7 +16,9 @@
  */
 
 import React from 'react';
-import { Slide, Profile, Theme, FontStyle, LayoutSettings, SlideType, TextAlignment } from '../types';
+import { Slide, Profile, Theme, FontStyle, LayoutSettings, SlideType } from '../types';
+import { MarkdownTheme, renderMarkdown, getFontFamily, splitContentByHeaders } from '../lib/markdown';
+import { TextFit, useTextFit } from '../lib/textFit';
 
 interface LessonSlideProps {
   slide: Slide;
@@ -32,167 +34,44 @@ interface LessonSlideProps {
   fontStyle?: FontStyle;     // Global font style (can be overridden by slide)
   fontScale?: number;        // Global font scale (can be overridden by slide)
   layoutSettings?: LayoutSettings; // Global layout settings (can be overridden by slide)
+  onTextFitChange?: (fit: TextFit) => void;  // Reports whether the text fits (Workspace overflow check)
 }
 
 // ============================================================================
-// FONT CONFIGURATION
+// MARKDOWN THEME
 // ============================================================================
 
 /**
- * Maps FontStyle to CSS font-family values.
- * Uses Google Fonts loaded via CDN in index.html
+ * Lesson look for the shared markdown engine (lib/markdown.tsx).
+ * Pure black/white text with accent-colored markers and `__text__` highlights.
  */
-const getFontFamily = (style: FontStyle): string => {
-  switch (style) {
-    case 'SERIF':
-      return '"Playfair Display", Georgia, serif';
-    case 'TECH':
-      return '"JetBrains Mono", "Fira Code", monospace';
-    case 'MODERN':
-    default:
-      return 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-  }
-};
-
-// ============================================================================
-// MARKDOWN PARSER
-// ============================================================================
-
-/**
- * Parses inline markdown syntax and returns React elements.
- */
-const parseInline = (text: string, theme: Theme, accentColor?: string) => {
-  const boldColor = theme === 'DARK' ? 'text-white' : 'text-black';
-  const italicColor = theme === 'DARK' ? 'text-gray-300' : 'text-gray-600';
-
-  const highlightStyle = accentColor
-    ? { backgroundColor: `${accentColor}4D` }
-    : { backgroundColor: theme === 'DARK' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)' };
-
-  const parts = text.split(/(\*\*.*?\*\*|\*.*?\*|~~.*?~~|__.*?__)/g);
-  return parts.map((part, i) => {
-    if (part.startsWith('**') && part.endsWith('**')) return <strong key={i} className={`font-bold ${boldColor}`}>{part.slice(2, -2)}</strong>;
-    if (part.startsWith('*') && part.endsWith('*')) return <em key={i} className={`italic ${italicColor}`}>{part.slice(1, -1)}</em>;
-    if (part.startsWith('~~') && part.endsWith('~~')) return <s key={i} className="opacity-70">{part.slice(2, -2)}</s>;
-    if (part.startsWith('__') && part.endsWith('__')) return <span key={i} style={highlightStyle} className="px-1 rounded font-semibold">{part.slice(2, -2)}</span>;
-    return part;
-  });
-};
-
-/**
- * Renders markdown content with customizable styling.
- */
-const renderMarkdown = (
-  text: string,
-  theme: Theme,
-  accentColor?: string,
-  fontScale: number = 1.0,
-  lineHeight: number = 1.5,
-  paragraphGap: number = 1,
-  textAlignment: TextAlignment = 'left'
-) => {
-  const lines = text.split('\n');
-  const textColor = theme === 'DARK' ? '#F3F4F6' : '#111827';
-  const headingColor = theme === 'DARK' ? '#FFFFFF' : '#000000';
-  const bulletStyle = accentColor
-    ? { color: accentColor }
-    : { color: theme === 'DARK' ? '#cbd5e1' : '#475569' };
-
-  // Base font sizes in pixels (for 1080px width)
-  const h1Size = 72 * fontScale;
-  const h2Size = 48 * fontScale;
-  const bodySize = 36 * fontScale;
-
-  const paragraphSpacing = paragraphGap * 16;
-  const listJustify = textAlignment === 'center' ? 'justify-center' : textAlignment === 'right' ? 'justify-end' : '';
-
-  return lines.map((line, idx) => {
-    const trimmed = line.trim();
-
-    // Headers
-    if (line.startsWith('# ')) {
-      return (
-        <h1
-          key={idx}
-          className="font-black tracking-tighter"
-          style={{ fontSize: `${h1Size}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing}px`, color: headingColor, textAlign: textAlignment }}
-        >
-          {parseInline(line.slice(2), theme, accentColor)}
-        </h1>
-      );
-    }
-    if (line.startsWith('## ')) {
-      return (
-        <h2
-          key={idx}
-          className="font-extrabold tracking-tight"
-          style={{ fontSize: `${h2Size}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing * 0.75}px`, color: headingColor, textAlign: textAlignment }}
-        >
-          {parseInline(line.slice(3), theme, accentColor)}
-        </h2>
-      );
-    }
-
-    // Bullet list
-    if (trimmed.startsWith('- ')) {
-      return (
-        <div key={idx} className={`flex items-start ${textAlignment === 'left' ? 'ml-2' : ''} ${listJustify}`} style={{ marginBottom: `${paragraphSpacing * 0.5}px` }}>
-          <span className="mr-4 mt-1" style={{ ...bulletStyle, fontSize: `${bodySize}px` }}>●</span>
-          <span className="font-medium" style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, color: textColor }}>{parseInline(line.slice(2), theme, accentColor)}</span>
-        </div>
-      );
-    }
-
-    // Numbered list
-    if (/^\d+\. /.test(trimmed)) {
-      const number = trimmed.match(/^\d+/)?.[0];
-      const content = trimmed.replace(/^\d+\. /, '');
-      return (
-        <div key={idx} className={`flex items-start ${textAlignment === 'left' ? 'ml-2' : ''} ${listJustify}`} style={{ marginBottom: `${paragraphSpacing * 0.5}px` }}>
-          <span className="mr-4 font-black" style={{ ...bulletStyle, fontSize: `${bodySize}px` }}>{number}.</span>
-          <span className="font-medium" style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, color: textColor }}>{parseInline(content, theme, accentColor)}</span>
-        </div>
-      );
-    }
-
-    // Empty lines
-    if (!trimmed) return <div key={idx} style={{ height: `${paragraphSpacing * 0.5}px` }}></div>;
-
-    // Body text
-    return (
-      <p
-        key={idx}
-        className="font-medium"
-        style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing}px`, color: textColor, textAlign: textAlignment }}
-      >
-        {parseInline(line, theme, accentColor)}
-      </p>
-    );
-  });
-};
-
-/**
- * Splits content into title (H1/H2 headers) and body (everything else).
- */
-const splitContentByHeaders = (content: string): { titleLines: string; bodyLines: string } => {
-  const lines = content.split('\n');
-  const titleLines: string[] = [];
-  const bodyLines: string[] = [];
-  let foundNonHeader = false;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!foundNonHeader && (trimmed.startsWith('# ') || trimmed.startsWith('## ') || trimmed === '')) {
-      titleLines.push(line);
-    } else {
-      foundNonHeader = true;
-      bodyLines.push(line);
-    }
-  }
+const getMarkdownTheme = (theme: Theme, accentColor?: string): MarkdownTheme => {
+  const markerColor = accentColor || (theme === 'DARK' ? '#cbd5e1' : '#475569');
 
   return {
-    titleLines: titleLines.join('\n'),
-    bodyLines: bodyLines.join('\n')
+    headingColor: theme === 'DARK' ? '#FFFFFF' : '#000000',
+    textColor: theme === 'DARK' ? '#F3F4F6' : '#111827',
+    bulletColor: markerColor,
+    numberColor: markerColor,
+    mutedColor: theme === 'DARK' ? '#9CA3AF' : '#4B5563',
+    linkColor: accentColor || (theme === 'DARK' ? '#FFFFFF' : '#000000'),
+    quoteBarColor: markerColor,
+    codeBackground: theme === 'DARK' ? 'rgba(255,255,255,0.12)' : 'rgba(0,0,0,0.08)',
+    sizes: { h1: 72, h2: 48, h3: 42, body: 36, bullet: 36 },
+    classNames: {
+      h1: 'font-black tracking-tighter',
+      h2: 'font-extrabold tracking-tight',
+      h3: 'font-bold tracking-tight',
+      body: 'font-medium',
+      number: 'font-black',
+      strong: `font-bold ${theme === 'DARK' ? 'text-white' : 'text-black'}`,
+      em: `italic ${theme === 'DARK' ? 'text-gray-300' : 'text-gray-600'}`,
+      strike: 'opacity-70'
+    },
+    bullet: '●',
+    underlineStyle: 'highlight',
+    highlightColor: accentColor ? `${accentColor}4D` : (theme === 'DARK' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'),
+    highlightClassName: 'font-semibold'
   };
 };
 
@@ -213,9 +92,13 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
   accentColor,
   fontStyle = 'MODERN',
   fontScale = 1.0,
-  layoutSettings
+  layoutSettings,
+  onTextFitChange
 }) => {
 
+  // Measures the text boxes (data-text-box) for the overflow check, see lib/textFit.ts
+  const rootRef = useTextFit<HTMLDivElement>(onTextFitChange);
+
   // ============================================================================
   // DEFAULT LAYOUT SETTINGS
   // ============================================================================
@@ -225,19 +108,29 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
     imageMargin: 0,
     textLineHeight: 1.5,
     paragraphGap: 1,
+    textAlignment: 'left',
   };
 
   // EFFECTIVE LAYOUT VALUES (per-slide override > global > default)
   const effectiveContentPadding = slide.contentPadding ?? layoutSettings?.contentPadding ?? defaultLayoutSettings.contentPadding;
   const effectiveLineHeight = slide.textLineHeight ?? layoutSettings?.textLineHeight ?? defaultLayoutSettings.textLineHeight;
   const effectiveParagraphGap = slide.paragraphGap ?? layoutSettings?.paragraphGap ?? defaultLayoutSettings.paragraphGap;
-  const effectiveTextAlignment = slide.textAlignment ?? layoutSettings?.textAlignment ?? 'left';
+  const effectiveTextAlignment = slide.textAlignment ?? layoutSettings?.textAlignment ?? defaultLayoutSettings.textAlignment;
 
   // FONT SETTINGS
   const effectiveFontStyle = slide.fontStyle || fontStyle;
   const effectiveFontScale = slide.fontScale !== undefined ? slide.fontScale : fontScale;
   const fontFamily = getFontFamily(effectiveFontStyle);
 
+  // Markdown styling and layout (shared engine, Lesson theme)
+  const markdownTheme = getMarkdownTheme(theme, accentColor);
+  const markdownLayout = {
+    fontScale: effectiveFontScale,
+    lineHeight: effectiveLineHeight,
+    paragraphGap: effectiveParagraphGap,
+    textAlignment: effectiveTextAlignment
+  };
+
   // IMAGE SETTINGS
   const imageScale = slide.imageScale || 50;
   const imageOffsetY = slide.imageOffsetY !== undefined ? slide.imageOffsetY : 50;
@@ -371,9 +264,9 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
               top: `${imageOffsetY}%`
             }}
           >
-            <div className="flex-1 flex items-end w-full">
+            <div className="flex-1 flex items-end w-full" data-text-box>
               <div className="w-full">
-                {renderMarkdown(slide.content, theme, accentColor, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, effectiveTextAlignment)}
+                {renderMarkdown(slide.content, markdownTheme, markdownLayout)}
               </div>
             </div>
           </div>
@@ -409,6 +302,7 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
         {/* Text Content Area (below image) */}
         <div
           className="flex-1 flex flex-col items-center justify-center min-h-0 pb-32"
+          data-text-box
           style={{
             paddingLeft: `${effectiveContentPadding}px`,
             paddingRight: `${effectiveContentPadding}px`,
@@ -416,7 +310,7 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
           }}
         >
           <div className="w-full">
-            {renderMarkdown(slide.content, theme, accentColor, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, effectiveTextAlignment)}
+            {renderMarkdown(slide.content, markdownTheme, markdownLayout)}
           </div>
         </div>
 
@@ -442,7 +336,7 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
         {/* Title Section */}
         {titleLines.trim() && (
           <div className="flex-shrink-0 w-full mb-4">
-            {renderMarkdown(titleLines, theme, accentColor, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, effectiveTextAlignment)}
+            {renderMarkdown(titleLines, markdownTheme, markdownLayout)}
           </div>
         )}
 
@@ -478,8 +372,9 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
           <div
             className="flex-1 w-full overflow-y-auto pr-4 no-scrollbar"
             style={{ paddingTop: `${imageTextSpacing}px` }}
+            data-text-box
           >
-            {renderMarkdown(bodyLines, theme, accentColor, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, effectiveTextAlignment)}
+            {renderMarkdown(bodyLines, markdownTheme, markdownLayout)}
           </div>
         )}
       </div>
@@ -502,8 +397,8 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
           paddingTop: `${effectiveContentPadding}px`
         }}
       >
-        <div className="flex-1 w-full overflow-y-auto pr-4 no-scrollbar">
-          {renderMarkdown(slide.content, theme, accentColor, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, effectiveTextAlignment)}
+        <div className="flex-1 w-full overflow-y-auto pr-4 no-scrollbar" data-text-box>
+          {renderMarkdown(slide.content, markdownTheme, markdownLayout)}
         </div>
       </div>
 
@@ -517,6 +412,7 @@ const LessonSlide: React.FC<LessonSlideProps> = ({
   // ============================================================================
   return (
     <div
+      ref={rootRef}
       className={`w-full h-full flex flex-col relative overflow-hidden ${forExport ? '' : 'transition-colors duration-300'}`}
       style={{ backgroundColor: bgColor, fontFamily }}
     >
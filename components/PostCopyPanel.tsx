@@ -0,0 +1,200 @@
+/**
+ * PostCopyPanel Component
+ *
+ * "Post" tab of the Workspace sidebar: the caption, ranked hashtags and
+ * per-slide alt text that get published alongside the carousel.
+ * Everything is editable; "Write with AI" (re)generates all three from the slides.
+ * The same text is included in the ZIP export as caption.txt and alt-text.json.
+ */
+
+import React, { useState } from 'react';
+import { Slide } from '../types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { formatPostText, parseHashtagInput, normalizeHashtags, MAX_HASHTAGS } from '../lib/postCopy';
+import { Sparkles, Loader2, Copy, Check, X, ChevronUp } from 'lucide-react';
+
+interface PostCopyPanelProps {
+  slides: Slide[];
+  activeSlideId: string;
+  caption: string;
+  hashtags: string[];
+  isGenerating: boolean;
+  onCaptionChange: (caption: string) => void;
+  onHashtagsChange: (hashtags: string[]) => void;
+  onAltTextChange: (slideId: string, altText: string) => void;
+  onSelectSlide: (slideId: string) => void;
+  onGenerate: () => void;
+}
+
+// Instagram truncates captions at 2,200 characters
+const MAX_CAPTION_LENGTH = 2200;
+
+const PostCopyPanel: React.FC<PostCopyPanelProps> = ({
+  slides, activeSlideId, caption, hashtags, isGenerating,
+  onCaptionChange, onHashtagsChange, onAltTextChange, onSelectSlide, onGenerate
+}) => {
+  const [hashtagInput, setHashtagInput] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const addHashtags = () => {
+    const added = parseHashtagInput(hashtagInput);
+    if (added.length === 0) return;
+    onHashtagsChange(normalizeHashtags([...hashtags, ...added]));
+    setHashtagInput('');
+  };
+
+  // Ranking is the list order; moving a tag up raises its rank
+  const moveHashtagUp = (index: number) => {
+    if (index === 0) return;
+    const next = [...hashtags];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onHashtagsChange(next);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatPostText(caption, hashtags));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Copy failed:', err);
+      alert('Could not copy to the clipboard.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* AI Generation */}
+      <Button
+        onClick={onGenerate}
+        disabled={isGenerating}
+        className="w-full"
+      >
+        {isGenerating ? (
+          <>
+            <Loader2 className="animate-spin h-4 w-4 mr-2" />
+            Writing...
+          </>
+        ) : (
+          <>
+            <Sparkles className="h-4 w-4 mr-2" />
+            {caption || hashtags.length > 0 ? 'Rewrite with AI' : 'Write with AI'}
+          </>
+        )}
+      </Button>
+
+      {/* Caption */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-bold uppercase text-muted-foreground">Caption</Label>
+          <span className={cn(
+            "text-xs",
+            caption.length > MAX_CAPTION_LENGTH ? 'text-destructive font-semibold' : 'text-muted-foreground'
+          )}>
+            {caption.length}/{MAX_CAPTION_LENGTH}
+          </span>
+        </div>
+        <Textarea
+          data-history-field
+          value={caption}
+          onChange={(e) => onCaptionChange(e.target.value)}
+          placeholder="Write the caption posted with the carousel..."
+          className="w-full h-40 text-sm"
+        />
+      </div>
+
+      {/* Hashtags */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-bold uppercase text-muted-foreground">Hashtags</Label>
+          <span className="text-xs text-muted-foreground">{hashtags.length}/{MAX_HASHTAGS}</span>
+        </div>
+        {hashtags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {hashtags.map((tag, index) => (
+              <span
+                key={tag}
+                className="group inline-flex items-center gap-1 rounded-full bg-secondary text-secondary-foreground pl-2.5 pr-1 py-0.5 text-xs"
+              >
+                <span className="text-muted-foreground">{index + 1}.</span>
+                #{tag}
+                {index > 0 && (
+                  <button
+                    onClick={() => moveHashtagUp(index)}
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                    title="Rank higher"
+                  >
+                    <ChevronUp className="h-3 w-3" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onHashtagsChange(hashtags.filter((_, i) => i !== index))}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Remove"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={hashtagInput}
+            onChange={(e) => setHashtagInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addHashtags(); } }}
+            placeholder="#marketing, growth"
+            className="flex-1 h-9 rounded-md border border-input bg-background px-3 text-sm"
+          />
+          <Button variant="secondary" size="sm" onClick={addHashtags} disabled={!hashtagInput.trim()}>
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {/* Copy caption + hashtags */}
+      <Button
+        variant="outline"
+        onClick={handleCopy}
+        disabled={!caption && hashtags.length === 0}
+        className="w-full"
+      >
+        {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+        {copied ? 'Copied' : 'Copy caption & hashtags'}
+      </Button>
+
+      {/* Alt text */}
+      <div className="space-y-2">
+        <Label className="text-xs font-bold uppercase text-muted-foreground">Alt Text</Label>
+        <p className="text-xs text-muted-foreground">Describes each slide for screen readers. Paste into "Advanced settings → Write alt text" when posting.</p>
+        <div className="space-y-3">
+          {slides.map((slide, index) => (
+            <div key={slide.id} className="space-y-1">
+              <button
+                onClick={() => onSelectSlide(slide.id)}
+                className={cn(
+                  "text-xs font-semibold hover:text-foreground",
+                  slide.id === activeSlideId ? 'text-primary' : 'text-muted-foreground'
+                )}
+              >
+                Slide {index + 1}
+              </button>
+              <Textarea
+                data-history-field
+                value={slide.altText || ''}
+                onChange={(e) => onAltTextChange(slide.id, e.target.value)}
+                placeholder="Describe this slide..."
+                className="w-full h-16 text-xs resize-none"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PostCopyPanel;
@@ -0,0 +1,276 @@
+/**
+ * ProjectLibrary Component
+ *
+ * Start screen listing every project autosaved in IndexedDB.
+ * Shown before the onboarding wizard so users can pick up where they left off.
+ *
+ * ACTIONS PER PROJECT:
+ * - Open: Loads the full project and jumps straight to the Workspace
+ * - Rename: Inline name editing (Enter to save, Escape to cancel)
+ * - Duplicate: Independent copy with new project/slide IDs
+ * - Delete: Permanent removal (with confirmation)
+ *
+ * The header also opens the AI usage dashboard (costs across all projects).
+ */
+
+import React, { useState, useEffect } from 'react';
+import { CarouselProject, CarouselStyle } from '../types';
+import {
+  ProjectSummary,
+  listProjects,
+  getProject,
+  renameProject,
+  duplicateProject,
+  deleteProject
+} from '../services/projectStorage';
+import UsageDashboard from './UsageDashboard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus, Pencil, Copy, Trash2, Check, X, FolderOpen, FileSpreadsheet, Coins } from 'lucide-react';
+
+interface ProjectLibraryProps {
+  onOpenProject: (project: CarouselProject) => void;
+  onNewProject: () => void;
+  onBulkCreate: () => void;   // Opens the CSV content calendar import
+}
+
+const STYLE_LABELS: Record<CarouselStyle, string> = {
+  [CarouselStyle.TWITTER]: 'Twitter',
+  [CarouselStyle.APPLE_NOTES]: 'Apple Notes',
+  [CarouselStyle.STORYTELLER]: 'Storyteller',
+  [CarouselStyle.LESSON]: 'Lesson'
+};
+
+/**
+ * Formats an ISO timestamp as a short relative/absolute label ("5 min ago", "Mar 3").
+ */
+const formatUpdatedAt = (iso: string): string => {
+  const date = new Date(iso);
+  const diffMs = Date.now() - date.getTime();
+  const minutes = Math.floor(diffMs / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpenProject, onNewProject, onBulkCreate }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyProjectId, setBusyProjectId] = useState<string | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+
+  // Inline rename state
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+      setError('Could not load saved projects. Your browser may be blocking storage.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleOpen = async (id: string) => {
+    setBusyProjectId(id);
+    try {
+      const project = await getProject(id);
+      if (!project) {
+        alert('This project could not be found. It may have been deleted in another tab.');
+        await refresh();
+        return;
+      }
+      onOpenProject(project);
+    } catch (err) {
+      console.error('Failed to open project:', err);
+      alert(`Failed to open project.\n\n${err instanceof Error ? err.message : 'Please try again.'}`);
+    } finally {
+      setBusyProjectId(null);
+    }
+  };
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const cancelRename = () => {
+    setRenamingId(null);
+    setRenameValue('');
+  };
+
+  const handleRename = async () => {
+    if (!renamingId || !renameValue.trim()) return;
+    const id = renamingId;
+    setBusyProjectId(id);
+    try {
+      await renameProject(id, renameValue.trim());
+      cancelRename();
+      await refresh();
+    } catch (err) {
+      console.error('Failed to rename project:', err);
+      alert('Failed to rename project. Please try again.');
+    } finally {
+      setBusyProjectId(null);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    setBusyProjectId(id);
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to duplicate project:', err);
+      alert('Failed to duplicate project. Please try again.');
+    } finally {
+      setBusyProjectId(null);
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    setBusyProjectId(project.id);
+    try {
+      await deleteProject(project.id);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to delete project:', err);
+      alert('Failed to delete project. Please try again.');
+    } finally {
+      setBusyProjectId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Your Projects</h2>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="icon" onClick={() => setShowUsage(true)} title="AI usage and costs">
+            <Coins className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={onBulkCreate} title="Generate several carousels from a CSV content calendar">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Bulk Create
+          </Button>
+          <Button onClick={onNewProject}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Carousel
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-10">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          <span className="text-sm text-muted-foreground">Loading projects...</span>
+        </div>
+      ) : error ? (
+        <p className="text-destructive text-sm text-center py-6">{error}</p>
+      ) : projects.length === 0 ? (
+        <div className="border-2 border-dashed border-border rounded-xl p-10 text-center">
+          <FolderOpen className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+          <p className="font-medium">No saved projects yet</p>
+          <p className="text-sm text-muted-foreground mt-1">Carousels are saved automatically while you edit.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto pr-1">
+          {projects.map(project => {
+            const isBusy = busyProjectId === project.id;
+            const isRenaming = renamingId === project.id;
+
+            return (
+              <div
+                key={project.id}
+                className="border border-border rounded-xl overflow-hidden bg-card hover:border-primary/50 hover:shadow-md transition-all group"
+              >
+                {/* Thumbnail */}
+                <button
+                  onClick={() => handleOpen(project.id)}
+                  disabled={isBusy}
+                  className="block w-full aspect-video bg-muted relative overflow-hidden text-left"
+                  title="Open project"
+                >
+                  {project.thumbnailUrl ? (
+                    <img src={project.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full p-4 flex items-center">
+                      <p className="text-sm font-bold line-clamp-3">{project.coverText || 'Untitled'}</p>
+                    </div>
+                  )}
+                  {isBusy && (
+                    <div className="absolute inset-0 bg-background/60 flex items-center justify-center">
+                      <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    </div>
+                  )}
+                </button>
+
+                {/* Details */}
+                <div className="p-3">
+                  {isRenaming ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') cancelRename();
+                        }}
+                        className="h-8 text-sm"
+                        autoFocus
+                      />
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleRename} disabled={!renameValue.trim()} title="Save name">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={cancelRename} title="Cancel">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="font-semibold text-sm truncate" title={project.name}>{project.name}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {STYLE_LABELS[project.style] || project.style} · {project.slideCount} slides · {formatUpdatedAt(project.updatedAt)}
+                  </p>
+
+                  {!isRenaming && (
+                    <div className="flex items-center gap-1 mt-2">
+                      <Button variant="secondary" size="sm" className="flex-1 h-7 text-xs" onClick={() => handleOpen(project.id)} disabled={isBusy}>
+                        Open
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(project)} disabled={isBusy} title="Rename">
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDuplicate(project.id)} disabled={isBusy} title="Duplicate">
+                        <Copy className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 hover:text-destructive" onClick={() => handleDelete(project)} disabled={isBusy} title="Delete">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showUsage && <UsageDashboard onClose={() => setShowUsage(false)} />}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
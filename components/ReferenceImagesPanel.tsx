@@ -0,0 +1,152 @@
+/**
+ * ReferenceImagesPanel Component
+ *
+ * Project reference images in Global Settings: a product photo, a mascot, the
+ * profile avatar... They are sent with every slide image prompt so a recurring
+ * subject and the palette stay consistent across the carousel.
+ * Images are downscaled on the way in; they travel with every image request.
+ */
+
+import React, { useRef, useState } from 'react';
+import { ReferenceImage } from '../types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Upload, UserCircle, X, Loader2 } from 'lucide-react';
+
+interface ReferenceImagesPanelProps {
+  images: ReferenceImage[];
+  avatarUrl?: string;           // Profile avatar, offered as a one-click reference
+  onChange: (images: ReferenceImage[]) => void;
+}
+
+// More references make every image request larger and slower
+const MAX_REFERENCE_IMAGES = 3;
+
+// Longest side in px - plenty for identity and palette
+const MAX_REFERENCE_SIZE = 1024;
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Shrinks an image so its longest side is at most MAX_REFERENCE_SIZE.
+ * PNGs stay PNG (transparent product cutouts); everything else becomes JPEG.
+ */
+const downscaleImage = async (dataUrl: string): Promise<string> => {
+  const img = new window.Image();
+  img.src = dataUrl;
+  await img.decode();
+
+  const scale = Math.min(1, MAX_REFERENCE_SIZE / Math.max(img.width, img.height));
+  if (scale === 1) return dataUrl;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return dataUrl.startsWith('data:image/png')
+    ? canvas.toDataURL('image/png')
+    : canvas.toDataURL('image/jpeg', 0.9);
+};
+
+const ReferenceImagesPanel: React.FC<ReferenceImagesPanelProps> = ({ images, avatarUrl, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const isFull = images.length >= MAX_REFERENCE_IMAGES;
+
+  const addImages = async (sources: { name: string; load: () => Promise<string> }[]) => {
+    setIsAdding(true);
+    try {
+      const added: ReferenceImage[] = [];
+      for (const source of sources.slice(0, MAX_REFERENCE_IMAGES - images.length)) {
+        added.push({ id: crypto.randomUUID(), name: source.name, imageUrl: await downscaleImage(await source.load()) });
+      }
+      onChange([...images, ...added]);
+    } catch (error) {
+      console.error('Failed to add reference image:', error);
+      alert('Failed to load the image. It may be corrupted, in an unsupported format, or blocked by its website.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    addImages(files.map(file => ({ name: file.name, load: () => readAsDataUrl(file) })));
+    // Reset input so same file can be added again
+    if (e.target) e.target.value = '';
+  };
+
+  const handleUseAvatar = () => {
+    if (!avatarUrl) return;
+    addImages([{
+      name: 'Profile avatar',
+      // Remote avatars are downloaded so they can be sent inline
+      load: async () => avatarUrl.startsWith('data:') ? avatarUrl : readAsDataUrl(await (await fetch(avatarUrl)).blob())
+    }]);
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-secondary rounded-lg">
+      <Label className="text-sm font-medium mb-2 block">Reference Images</Label>
+
+      {images.length > 0 && (
+        <div className="flex gap-2 mb-2">
+          {images.map(image => (
+            <div key={image.id} className="relative group">
+              <img
+                src={image.imageUrl}
+                alt={image.name}
+                title={image.name}
+                className="w-14 h-14 rounded object-cover border border-border"
+              />
+              <button
+                onClick={() => onChange(images.filter(i => i.id !== image.id))}
+                className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center h-4 w-4 rounded-full bg-black/70 text-white hover:bg-destructive"
+                title="Remove reference"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input type="file" ref={fileInputRef} className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isFull || isAdding}
+          className="flex-1 text-xs"
+        >
+          {isAdding ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Upload className="h-3 w-3 mr-1" />}
+          Add Image
+        </Button>
+        {avatarUrl && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleUseAvatar}
+            disabled={isFull || isAdding}
+            className="flex-1 text-xs"
+          >
+            <UserCircle className="h-3 w-3 mr-1" />
+            Use Avatar
+          </Button>
+        )}
+      </div>
+      <p className="text-[10px] text-muted-foreground mt-1">
+        Sent with every slide image so people, mascots or products look the same throughout (up to {MAX_REFERENCE_IMAGES}).
+      </p>
+    </div>
+  );
+};
+
+export default ReferenceImagesPanel;
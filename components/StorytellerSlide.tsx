@@ -14,7 +14,9 @@
  */
 
 import React from 'react';
-import { Slide, Profile, Theme, FontStyle, LayoutSettings, TextAlignment } from '../types';
+import { Slide, Profile, Theme, FontStyle, LayoutSettings } from '../types';
+import { MarkdownTheme, renderMarkdown, getFontFamily } from '../lib/markdown';
+import { TextFit, useTextFit } from '../lib/textFit';
 
 interface StorytellerSlideProps {
   slide: Slide;
@@ -30,135 +32,59 @@ interface StorytellerSlideProps {
   fontStyle?: FontStyle;     // Global font style (can be overridden by slide)
   fontScale?: number;        // Global font scale (can be overridden by slide)
   layoutSettings?: LayoutSettings; // Global layout settings (can be overridden by slide)
+  onTextFitChange?: (fit: TextFit) => void;  // Reports whether the text fits (Workspace overflow check)
 }
 
 // ============================================================================
-// FONT CONFIGURATION
+// MARKDOWN THEME
 // ============================================================================
 
 /**
- * Maps FontStyle to CSS font-family values.
- * Uses Google Fonts loaded via CDN in index.html
- */
-const getFontFamily = (style: FontStyle): string => {
-  switch (style) {
-    case 'SERIF':
-      return '"Playfair Display", Georgia, serif';
-    case 'TECH':
-      return '"JetBrains Mono", "Fira Code", monospace';
-    case 'MODERN':
-    default:
-      return 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-  }
-};
-
-// ============================================================================
-// MARKDOWN PARSER
-// ============================================================================
-
-/**
- * Parses inline markdown syntax and returns React elements.
- *
- * SUPPORTED SYNTAX:
- * - **bold** → Strong, high contrast
- * - *italic* → Emphasized, muted
- * - ~~strikethrough~~ → Crossed out, dimmed
- * - __highlighted__ → Background highlight using accent color
+ * Storyteller look for the shared markdown engine (lib/markdown.tsx).
+ * Bold, cinematic typography with accent-colored bullets and numbers.
  *
  * ACCENT COLOR HIGHLIGHTING:
- * When accentColor is provided (e.g., "#EAB308"), highlighted text gets
+ * When accentColor is provided (e.g., "#EAB308"), `__text__` gets
  * a semi-transparent background: `#EAB3084D` (4D = ~30% opacity in hex)
+ *
+ * @param textColorOverride - Custom text color (for background image mode)
  */
-const parseInline = (text: string, theme: Theme, accentColor?: string) => {
-  const boldColor = theme === 'DARK' ? 'text-white' : 'text-black';
-  const italicColor = theme === 'DARK' ? 'text-gray-300' : 'text-gray-600';
-
-  // Hex alpha: 4D ≈ 30% opacity (77/255)
-  const highlightStyle = accentColor
-    ? { backgroundColor: `${accentColor}4D` }
-    : { backgroundColor: theme === 'DARK' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)' };
-
-  // Regex splits text while keeping markdown tokens as separate parts
-  const parts = text.split(/(\*\*.*?\*\*|\*.*?\*|~~.*?~~|__.*?__)/g);
-  return parts.map((part, i) => {
-    if (part.startsWith('**') && part.endsWith('**')) return <strong key={i} className={`font-black ${boldColor}`}>{part.slice(2, -2)}</strong>;
-    if (part.startsWith('*') && part.endsWith('*')) return <em key={i} className={`italic ${italicColor}`}>{part.slice(1, -1)}</em>;
-    if (part.startsWith('~~') && part.endsWith('~~')) return <s key={i} className="opacity-70">{part.slice(2, -2)}</s>;
-    if (part.startsWith('__') && part.endsWith('__')) return <span key={i} style={highlightStyle} className="px-1 rounded font-semibold">{part.slice(2, -2)}</span>;
-    return part;
-  });
-};
-
-const renderMarkdown = (
-  text: string,
-  theme: Theme,
-  accentColor?: string,
-  fontScale: number = 1.0,
-  lineHeight: number = 1.5,
-  paragraphGap: number = 1,
-  textColorOverride?: string,
-  textAlignment: TextAlignment = 'left'
-) => {
-  const lines = text.split('\n');
-  const textColor = textColorOverride || (theme === 'DARK' ? '#F3F4F6' : '#111827');
-  const headingColor = textColorOverride || (theme === 'DARK' ? '#FFFFFF' : '#000000');
-
+const getMarkdownTheme = (theme: Theme, accentColor?: string, textColorOverride?: string): MarkdownTheme => {
   // Use accent color for bullets/numbers if provided. Otherwise generic color.
-  const bulletStyle = accentColor
-    ? { color: accentColor }
-    : { color: textColorOverride || (theme === 'DARK' ? '#cbd5e1' : '#475569') };
-
-  // Base font sizes in pixels (for 1080px width), then multiplied by fontScale
-  const h1Size = 72 * fontScale;
-  const h2Size = 48 * fontScale;
-  const bodySize = 36 * fontScale;
-
-  // Paragraph spacing in pixels (rem * 16px base)
-  const paragraphSpacing = paragraphGap * 16;
-
-  // List alignment classes based on textAlignment
-  const listJustify = textAlignment === 'center' ? 'justify-center' : textAlignment === 'right' ? 'justify-end' : '';
-
-  return lines.map((line, idx) => {
-    const trimmed = line.trim();
-
-    // Huge Headers
-    if (line.startsWith('# ')) {
-      return <h1 key={idx} className="font-black tracking-tighter uppercase drop-shadow-sm" style={{ fontSize: `${h1Size}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing}px`, color: headingColor, textAlign: textAlignment }}>{parseInline(line.slice(2), theme, accentColor)}</h1>;
-    }
-    if (line.startsWith('## ')) {
-      return <h2 key={idx} className="font-extrabold tracking-tight" style={{ fontSize: `${h2Size}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing * 0.75}px`, color: headingColor, textAlign: textAlignment }}>{parseInline(line.slice(3), theme, accentColor)}</h2>;
-    }
-
-    // Lists with accent color
-    if (trimmed.startsWith('- ')) {
-       return (
-         <div key={idx} className={`flex items-start ${textAlignment === 'left' ? 'ml-2' : ''} ${listJustify}`} style={{ marginBottom: `${paragraphSpacing * 0.5}px` }}>
-            <span className="mr-4 mt-1" style={{ ...bulletStyle, fontSize: `${bodySize}px` }}>●</span>
-            <span className="font-medium" style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, color: textColor }}>{parseInline(line.slice(2), theme, accentColor)}</span>
-         </div>
-       );
-    }
-    if (/^\d+\. /.test(trimmed)) {
-        const number = trimmed.match(/^\d+/)?.[0];
-        const content = trimmed.replace(/^\d+\. /, '');
-        return (
-            <div key={idx} className={`flex items-start ${textAlignment === 'left' ? 'ml-2' : ''} ${listJustify}`} style={{ marginBottom: `${paragraphSpacing * 0.5}px` }}>
-               <span className="mr-4 font-black" style={{ ...bulletStyle, fontSize: `${bodySize}px` }}>{number}.</span>
-               <span className="font-medium" style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, color: textColor }}>{parseInline(content, theme, accentColor)}</span>
-            </div>
-          );
-    }
-
-    // Empty lines
-    if (!trimmed) return <div key={idx} style={{ height: `${paragraphSpacing * 0.5}px` }}></div>;
-
-    // Body Text
-    return <p key={idx} className="font-medium" style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing}px`, color: textColor, textAlign: textAlignment }}>{parseInline(line, theme, accentColor)}</p>;
-  });
+  const markerColor = accentColor || textColorOverride || (theme === 'DARK' ? '#cbd5e1' : '#475569');
+
+  return {
+    headingColor: textColorOverride || (theme === 'DARK' ? '#FFFFFF' : '#000000'),
+    textColor: textColorOverride || (theme === 'DARK' ? '#F3F4F6' : '#111827'),
+    bulletColor: markerColor,
+    numberColor: markerColor,
+    mutedColor: textColorOverride || (theme === 'DARK' ? '#9CA3AF' : '#4B5563'),
+    linkColor: accentColor || (theme === 'DARK' ? '#FFFFFF' : '#000000'),
+    quoteBarColor: markerColor,
+    codeBackground: theme === 'DARK' ? 'rgba(255,255,255,0.12)' : 'rgba(0,0,0,0.08)',
+    sizes: { h1: 72, h2: 48, h3: 42, body: 36, bullet: 36 },
+    classNames: {
+      h1: 'font-black tracking-tighter uppercase drop-shadow-sm',
+      h2: 'font-extrabold tracking-tight',
+      h3: 'font-bold tracking-tight',
+      body: 'font-medium',
+      number: 'font-black',
+      strong: `font-black ${theme === 'DARK' ? 'text-white' : 'text-black'}`,
+      em: `italic ${theme === 'DARK' ? 'text-gray-300' : 'text-gray-600'}`,
+      strike: 'opacity-70'
+    },
+    bullet: '●',
+    underlineStyle: 'highlight',
+    // Hex alpha: 4D ≈ 30% opacity (77/255)
+    highlightColor: accentColor ? `${accentColor}4D` : (theme === 'DARK' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'),
+    highlightClassName: 'font-semibold'
+  };
 };
 
-const StorytellerSlide: React.FC<StorytellerSlideProps> = ({ slide, profile, index, total, showSlideNumbers, headerScale = 1.0, theme, forExport = false, showVerifiedBadge = true, accentColor, fontStyle = 'MODERN', fontScale = 1.0, layoutSettings }) => {
+const StorytellerSlide: React.FC<StorytellerSlideProps> = ({ slide, profile, index, total, showSlideNumbers, headerScale = 1.0, theme, forExport = false, showVerifiedBadge = true, accentColor, fontStyle = 'MODERN', fontScale = 1.0, layoutSettings, onTextFitChange }) => {
+
+  // Measures the text boxes (data-text-box) for the overflow check, see lib/textFit.ts
+  const rootRef = useTextFit<HTMLDivElement>(onTextFitChange);
 
   // ============================================================================
   // DEFAULT LAYOUT SETTINGS
@@ -169,13 +95,14 @@ const StorytellerSlide: React.FC<StorytellerSlideProps> = ({ slide, profile, ind
     imageMargin: 0,
     textLineHeight: 1.5,
     paragraphGap: 1,
+    textAlignment: 'left',
   };
 
   // EFFECTIVE LAYOUT VALUES (per-slide override > global > default)
   const effectiveContentPadding = slide.contentPadding ?? layoutSettings?.contentPadding ?? defaultLayoutSettings.contentPadding;
   const effectiveLineHeight = slide.textLineHeight ?? layoutSettings?.textLineHeight ?? defaultLayoutSettings.textLineHeight;
   const effectiveParagraphGap = slide.paragraphGap ?? layoutSettings?.paragraphGap ?? defaultLayoutSettings.paragraphGap;
-  const effectiveTextAlignment = slide.textAlignment ?? layoutSettings?.textAlignment ?? 'left';
+  const effectiveTextAlignment = slide.textAlignment ?? layoutSettings?.textAlignment ?? defaultLayoutSettings.textAlignment;
 
   // ============================================================================
   // LAYOUT MODE DETERMINATION
@@ -208,6 +135,15 @@ const StorytellerSlide: React.FC<StorytellerSlideProps> = ({ slide, profile, ind
   const effectiveFontScale = slide.fontScale !== undefined ? slide.fontScale : fontScale;
   const fontFamily = getFontFamily(effectiveFontStyle);
 
+  // Markdown styling and layout (shared engine, Storyteller theme)
+  const markdownTheme = getMarkdownTheme(theme, accentColor, textColorOverride);
+  const markdownLayout = {
+    fontScale: effectiveFontScale,
+    lineHeight: effectiveLineHeight,
+    paragraphGap: effectiveParagraphGap,
+    textAlignment: effectiveTextAlignment
+  };
+
   // Calculate layout percentages based on mode
   const splitTextHeight = 100 - imageScale;   // Split mode: remaining space for text
   const splitImageHeight = imageScale;         // Split mode: image takes imageScale%
@@ -227,6 +163,7 @@ const StorytellerSlide: React.FC<StorytellerSlideProps> = ({ slide, profile, ind
 
   return (
     <div
+      ref={rootRef}
       className={`w-full h-full flex flex-col relative overflow-hidden ${forExport ? '' : 'transition-colors duration-300'}`}
       style={{ backgroundColor: bgColor, fontFamily }}
     >
@@ -341,8 +278,8 @@ const StorytellerSlide: React.FC<StorytellerSlideProps> = ({ slide, profile, ind
         }}
       >
           <div className="w-full h-full overflow-hidden flex flex-col">
-               <div className={`flex-1 w-full overflow-y-auto pr-4 no-scrollbar ${!showSplit && 'flex flex-col justify-center'}`}>
-                    {renderMarkdown(slide.content, theme, accentColor, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, textColorOverride, effectiveTextAlignment)}
+               <div className={`flex-1 w-full overflow-y-auto pr-4 no-scrollbar ${!showSplit && 'flex flex-col justify-center'}`} data-text-box>
+                    {renderMarkdown(slide.content, markdownTheme, markdownLayout)}
                </div>
           </div>
       </div>
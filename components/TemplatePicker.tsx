@@ -0,0 +1,207 @@
+/**
+ * TemplatePicker Component
+ *
+ * "Start from a template" onboarding step: lists the templates saved from the
+ * Workspace, then shows a form with one field per placeholder.
+ * Fields can be typed by hand or written by the AI from a topic (then reviewed).
+ * Templates are created with "Save as template" in the Workspace toolbar.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { CarouselStyle, CarouselTemplate } from '../types';
+import { listTemplates, deleteTemplate } from '../services/projectStorage';
+import { fillTemplatePlaceholders } from '../services/geminiService';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Sparkles, Trash2, LayoutTemplate } from 'lucide-react';
+
+interface TemplatePickerProps {
+  textModel: string;   // Model for "Fill with AI" (the AI step's selection)
+  onCreate: (template: CarouselTemplate, values: Record<string, string>, topic: string) => void;
+  onBack: () => void;
+}
+
+const STYLE_LABELS: Record<CarouselStyle, string> = {
+  [CarouselStyle.TWITTER]: 'Twitter',
+  [CarouselStyle.APPLE_NOTES]: 'Apple Notes',
+  [CarouselStyle.STORYTELLER]: 'Storyteller',
+  [CarouselStyle.LESSON]: 'Lesson'
+};
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ textModel, onCreate, onBack }) => {
+  const [templates, setTemplates] = useState<CarouselTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<CarouselTemplate | null>(null);
+
+  // Fill form
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [topic, setTopic] = useState('');
+  const [isFilling, setIsFilling] = useState(false);
+
+  useEffect(() => {
+    listTemplates()
+      .then(setTemplates)
+      .catch(error => console.error('Failed to load templates:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSelect = (template: CarouselTemplate) => {
+    setSelected(template);
+    setValues({});
+  };
+
+  const handleDelete = async (template: CarouselTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      alert('Failed to delete the template.');
+    }
+  };
+
+  const handleFillWithAI = async () => {
+    if (!selected || !topic.trim() || isFilling) return;
+    setIsFilling(true);
+    try {
+      setValues(await fillTemplatePlaceholders(topic, selected, textModel));
+    } catch (error) {
+      console.error('Failed to fill template:', error);
+      alert('AI could not fill the template. Please check your API Key and try again.');
+    } finally {
+      setIsFilling(false);
+    }
+  };
+
+  // ============================================================================
+  // TEMPLATE LIST
+  // ============================================================================
+
+  if (!selected) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <h2 className="text-xl font-semibold text-center">Start from a Template</h2>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground space-y-2">
+            <LayoutTemplate className="h-8 w-8 mx-auto opacity-50" />
+            <p>No templates yet.</p>
+            <p>Open a carousel and use "Save as template" in the toolbar to reuse its layout.</p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[420px] overflow-y-auto">
+            {templates.map(template => (
+              <div
+                key={template.id}
+                onClick={() => handleSelect(template)}
+                className="flex items-center justify-between p-3 border-2 border-border rounded-lg cursor-pointer hover:border-primary hover:bg-primary/5 transition-all group"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{template.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {STYLE_LABELS[template.style]} · {template.slides.length} slides · {template.placeholders.length} fields
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(template);
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  title="Delete template"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="ghost" onClick={onBack} className="w-full">Back</Button>
+      </div>
+    );
+  }
+
+  // ============================================================================
+  // FILL FORM
+  // ============================================================================
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <h2 className="text-xl font-semibold text-center">{selected.name}</h2>
+
+      {/* AI fill */}
+      <div className="p-3 bg-secondary rounded-lg space-y-2">
+        <Label className="text-sm font-medium block">Fill with AI</Label>
+        <div className="flex gap-2">
+          <Input
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleFillWithAI()}
+            placeholder="Topic, e.g. 'Morning routines for remote workers'"
+            disabled={isFilling}
+          />
+          <Button onClick={handleFillWithAI} disabled={!topic.trim() || isFilling}>
+            {isFilling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Or type the text yourself below. Empty fields keep their label.</p>
+      </div>
+
+      {/* Placeholders, grouped by slide */}
+      <div className="space-y-4 max-h-[360px] overflow-y-auto pr-1">
+        {selected.slides.map((slide, slideIndex) => {
+          const placeholders = selected.placeholders.filter(p => p.slideIndex === slideIndex);
+          if (placeholders.length === 0) return null;
+          return (
+            <div key={slide.id} className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {slide.type} {slideIndex + 1}
+              </p>
+              {placeholders.map(p => (
+                <div key={p.key}>
+                  <Label className="text-xs mb-1 block">{p.label}</Label>
+                  {p.kind === 'text' ? (
+                    <Textarea
+                      value={values[p.key] || ''}
+                      onChange={(e) => setValues(prev => ({ ...prev, [p.key]: e.target.value }))}
+                      placeholder={p.example}
+                      className="h-16 resize-none text-sm"
+                    />
+                  ) : (
+                    <Input
+                      value={values[p.key] || ''}
+                      onChange={(e) => setValues(prev => ({ ...prev, [p.key]: e.target.value }))}
+                      placeholder={p.example}
+                      className="text-sm"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3">
+        <Button variant="secondary" onClick={() => setSelected(null)} className="flex-1" disabled={isFilling}>
+          Back
+        </Button>
+        <Button onClick={() => onCreate(selected, values, topic.trim())} className="flex-[2]" disabled={isFilling}>
+          Create Carousel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -15,7 +15,9 @@
  */
 
 import React from 'react';
-import { Slide, Profile, Theme, FontStyle, ContentLayout, LayoutSettings, TextAlignment } from '../types';
+import { Slide, Profile, Theme, FontStyle, ContentLayout, LayoutSettings } from '../types';
+import { MarkdownTheme, renderMarkdown, getFontFamily, splitContentByHeaders } from '../lib/markdown';
+import { TextFit, useTextFit } from '../lib/textFit';
 
 interface TwitterSlideProps {
   slide: Slide;
@@ -31,181 +33,54 @@ interface TwitterSlideProps {
   fontStyle?: FontStyle;     // Global font style (can be overridden by slide)
   fontScale?: number;        // Global font scale (can be overridden by slide)
   layoutSettings?: LayoutSettings; // Global layout settings (can be overridden by slide)
+  onTextFitChange?: (fit: TextFit) => void;  // Reports whether the text fits (Workspace overflow check)
 }
 
 // ============================================================================
-// FONT CONFIGURATION
+// MARKDOWN THEME
 // ============================================================================
 
 /**
- * Maps FontStyle to CSS font-family values.
- * Uses Google Fonts loaded via CDN in index.html
- */
-const getFontFamily = (style: FontStyle): string => {
-  switch (style) {
-    case 'SERIF':
-      return '"Playfair Display", Georgia, serif';
-    case 'TECH':
-      return '"JetBrains Mono", "Fira Code", monospace';
-    case 'MODERN':
-    default:
-      return 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-  }
-};
-
-// ============================================================================
-// MARKDOWN PARSER
-// ============================================================================
-
-/**
- * Parses inline markdown syntax and returns React elements.
- *
- * SUPPORTED SYNTAX:
- * - **bold** → Strong weight
- * - *italic* → Italic style
- * - ~~strikethrough~~ → Crossed out text
- * - __underlined__ → Underlined text (different from Storyteller's highlight)
- *
- * The regex splits text while preserving markdown tokens as separate array elements,
- * which are then mapped to their respective React components.
- */
-const parseInline = (text: string, theme: Theme) => {
-  const boldColor = theme === 'DARK' ? 'text-white' : 'text-gray-900';
-  const italicColor = theme === 'DARK' ? 'text-gray-300' : 'text-gray-800';
-  const strikeColor = theme === 'DARK' ? 'text-gray-600' : 'text-gray-500';
-
-  const parts = text.split(/(\*\*.*?\*\*|\*.*?\*|~~.*?~~|__.*?__)/g);
-  return parts.map((part, i) => {
-    if (part.startsWith('**') && part.endsWith('**')) return <strong key={i} className={`font-bold ${boldColor}`}>{part.slice(2, -2)}</strong>;
-    if (part.startsWith('*') && part.endsWith('*')) return <em key={i} className={`italic ${italicColor}`}>{part.slice(1, -1)}</em>;
-    if (part.startsWith('~~') && part.endsWith('~~')) return <s key={i} className={strikeColor}>{part.slice(2, -2)}</s>;
-    if (part.startsWith('__') && part.endsWith('__')) return <u key={i} className="decoration-4 underline-offset-4">{part.slice(2, -2)}</u>;
-    return part;
-  });
-};
-
-/**
- * Renders full markdown content (block-level elements).
- *
- * SUPPORTED SYNTAX:
- * - # Header 1 → 7xl font (largest)
- * - ## Header 2 → 6xl font
- * - - bullet list → Bullet points
- * - 1. numbered list → Numbered items
- * - Empty line → Vertical spacing
- * - Regular text → 5xl paragraph
+ * Twitter look for the shared markdown engine (lib/markdown.tsx).
+ * High-contrast grays; `__text__` renders as a thick underline (not a highlight).
  *
- * FONT SCALING:
- * Base sizes are pre-calculated for 1080px width output, then multiplied by fontScale.
- * text-7xl ≈ 72px, text-6xl ≈ 60px, text-5xl ≈ 48px, text-4xl ≈ 36px
+ * FONT SIZES (1080px width): h1 72px, h2 60px, h3 52px, body 48px, bullets 36px
  *
- * LAYOUT OPTIONS:
- * - lineHeight: Controls text line-height (1.2-2.0)
- * - paragraphGap: Space between paragraphs in rem (0.5-2.0)
- * - textColorOverride: Custom text color (for background image mode)
+ * @param textColorOverride - Custom text color (for background image mode)
  */
-const renderMarkdown = (
-  text: string,
-  theme: Theme,
-  fontScale: number = 1.0,
-  lineHeight: number = 1.5,
-  paragraphGap: number = 1,
-  textColorOverride?: string,
-  textAlignment: TextAlignment = 'left'
-) => {
-  const lines = text.split('\n');
-
-  const hColor = textColorOverride || (theme === 'DARK' ? '#FFFFFF' : '#111827');
-  const textColor = textColorOverride || (theme === 'DARK' ? '#E5E7EB' : '#1F2937');
-  const bulletColor = textColorOverride || (theme === 'DARK' ? '#6B7280' : '#9CA3AF');
-  const numberColor = textColorOverride || (theme === 'DARK' ? '#FFFFFF' : '#111827');
-
-  // Base font sizes in pixels (for 1080px width)
-  const h1Size = 72 * fontScale;
-  const h2Size = 60 * fontScale;
-  const bodySize = 48 * fontScale;
-  const bulletSize = 36 * fontScale;
-
-  // Paragraph spacing in pixels (rem * 16px base)
-  const paragraphSpacing = paragraphGap * 16;
-
-  // List alignment classes based on textAlignment
-  const listJustify = textAlignment === 'center' ? 'justify-center' : textAlignment === 'right' ? 'justify-end' : '';
-
-  return lines.map((line, idx) => {
-    const trimmed = line.trim();
-
-    // Headers
-    if (line.startsWith('# ')) {
-      return <h1 key={idx} className="font-extrabold tracking-tight" style={{ fontSize: `${h1Size}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing}px`, color: hColor, textAlign: textAlignment }}>{parseInline(line.slice(2), theme)}</h1>;
-    }
-    if (line.startsWith('## ')) {
-      return <h2 key={idx} className="font-bold tracking-tight" style={{ fontSize: `${h2Size}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing * 0.75}px`, color: hColor, textAlign: textAlignment }}>{parseInline(line.slice(3), theme)}</h2>;
-    }
-
-    // Bullet list
-    if (trimmed.startsWith('- ')) {
-       return (
-         <div key={idx} className={`flex items-start ${textAlignment === 'left' ? 'ml-2' : ''} ${listJustify}`} style={{ marginBottom: `${paragraphSpacing * 0.5}px` }}>
-            <span className="mr-4 mt-1" style={{ fontSize: `${bulletSize}px`, color: bulletColor }}>•</span>
-            <span style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, color: textColor }}>{parseInline(line.slice(2), theme)}</span>
-         </div>
-       );
-    }
-
-    // Numbered list
-    if (/^\d+\. /.test(trimmed)) {
-        const number = trimmed.match(/^\d+/)?.[0];
-        const content = trimmed.replace(/^\d+\. /, '');
-        return (
-            <div key={idx} className={`flex items-start ${textAlignment === 'left' ? 'ml-2' : ''} ${listJustify}`} style={{ marginBottom: `${paragraphSpacing * 0.5}px` }}>
-               <span className="mr-4 font-bold" style={{ fontSize: `${bodySize}px`, color: numberColor }}>{number}.</span>
-               <span style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, color: textColor }}>{parseInline(content, theme)}</span>
-            </div>
-          );
-    }
-
-    // Empty lines create vertical spacing
-    if (!trimmed) return <div key={idx} style={{ height: `${paragraphSpacing * 0.5}px` }}></div>;
-
-    // Regular paragraph
-    return <p key={idx} style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing}px`, color: textColor, textAlign: textAlignment }}>{parseInline(line, theme)}</p>;
-  });
-};
-
-/**
- * Splits content into title (H1/H2 headers) and body (everything else).
- * Used for 'image-after-title' layout to render image between headers and body.
- */
-const splitContentByHeaders = (content: string): { titleLines: string; bodyLines: string } => {
-  const lines = content.split('\n');
-  const titleLines: string[] = [];
-  const bodyLines: string[] = [];
-  let foundNonHeader = false;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    // Consider lines starting with # or ## as title content
-    // Also include empty lines before body starts as part of title
-    if (!foundNonHeader && (trimmed.startsWith('# ') || trimmed.startsWith('## ') || trimmed === '')) {
-      titleLines.push(line);
-    } else {
-      foundNonHeader = true;
-      bodyLines.push(line);
-    }
-  }
-
-  return {
-    titleLines: titleLines.join('\n'),
-    bodyLines: bodyLines.join('\n')
-  };
-};
+const getMarkdownTheme = (theme: Theme, textColorOverride?: string): MarkdownTheme => ({
+  headingColor: textColorOverride || (theme === 'DARK' ? '#FFFFFF' : '#111827'),
+  textColor: textColorOverride || (theme === 'DARK' ? '#E5E7EB' : '#1F2937'),
+  bulletColor: textColorOverride || (theme === 'DARK' ? '#6B7280' : '#9CA3AF'),
+  numberColor: textColorOverride || (theme === 'DARK' ? '#FFFFFF' : '#111827'),
+  mutedColor: textColorOverride || (theme === 'DARK' ? '#9CA3AF' : '#6B7280'),
+  linkColor: '#1D9BF0',
+  quoteBarColor: theme === 'DARK' ? '#374151' : '#D1D5DB',
+  codeBackground: theme === 'DARK' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.06)',
+  sizes: { h1: 72, h2: 60, h3: 52, body: 48, bullet: 36 },
+  classNames: {
+    h1: 'font-extrabold tracking-tight',
+    h2: 'font-bold tracking-tight',
+    h3: 'font-bold',
+    body: '',
+    number: 'font-bold',
+    strong: `font-bold ${theme === 'DARK' ? 'text-white' : 'text-gray-900'}`,
+    em: `italic ${theme === 'DARK' ? 'text-gray-300' : 'text-gray-800'}`,
+    strike: theme === 'DARK' ? 'text-gray-600' : 'text-gray-500'
+  },
+  bullet: '•',
+  underlineStyle: 'underline',
+  highlightColor: 'transparent'
+});
 
 // ============================================================================
 // COMPONENT
 // ============================================================================
 
-const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, total, showSlideNumbers, headerScale = 1.0, theme, forExport = false, showVerifiedBadge = true, accentColor, fontStyle = 'MODERN', fontScale = 1.0, layoutSettings }) => {
+const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, total, showSlideNumbers, headerScale = 1.0, theme, forExport = false, showVerifiedBadge = true, accentColor, fontStyle = 'MODERN', fontScale = 1.0, layoutSettings, onTextFitChange }) => {
+
+  // Measures the text boxes (data-text-box) for the overflow check, see lib/textFit.ts
+  const rootRef = useTextFit<HTMLDivElement>(onTextFitChange);
 
   // DEFAULT LAYOUT SETTINGS
   const defaultLayoutSettings: LayoutSettings = {
@@ -214,6 +89,7 @@ const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, tota
     imageMargin: 0,
     textLineHeight: 1.5,
     paragraphGap: 1,
+    textAlignment: 'left',
   };
 
   // EFFECTIVE LAYOUT VALUES (per-slide override > global > default)
@@ -222,7 +98,7 @@ const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, tota
   const effectiveImageMargin = slide.imageMargin ?? layoutSettings?.imageMargin ?? defaultLayoutSettings.imageMargin;
   const effectiveLineHeight = slide.textLineHeight ?? layoutSettings?.textLineHeight ?? defaultLayoutSettings.textLineHeight;
   const effectiveParagraphGap = slide.paragraphGap ?? layoutSettings?.paragraphGap ?? defaultLayoutSettings.paragraphGap;
-  const effectiveTextAlignment = slide.textAlignment ?? layoutSettings?.textAlignment ?? 'left';
+  const effectiveTextAlignment = slide.textAlignment ?? layoutSettings?.textAlignment ?? defaultLayoutSettings.textAlignment;
 
   // LAYOUT CALCULATIONS
   // When an image is shown, it takes imageScale% of height; text takes the rest
@@ -331,14 +207,23 @@ const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, tota
   // Text color override when background image is set
   const textColorOverride = showBackground && bgTextColor ? bgTextColor : undefined;
 
+  // Markdown styling and layout (shared engine, Twitter theme)
+  const markdownTheme = getMarkdownTheme(theme, textColorOverride);
+  const markdownLayout = {
+    fontScale: effectiveFontScale,
+    lineHeight: effectiveLineHeight,
+    paragraphGap: effectiveParagraphGap,
+    textAlignment: effectiveTextAlignment
+  };
+
   /** Renders text content */
   const renderTextContent = (content: string, heightPercent: number) => (
     <div
       className="w-full overflow-hidden flex flex-col transition-all duration-300 ease-in-out"
       style={{ height: `${heightPercent}%` }}
     >
-      <div className="flex-1 w-full overflow-y-auto pr-4 no-scrollbar">
-        {renderMarkdown(content, theme, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, textColorOverride, effectiveTextAlignment)}
+      <div className="flex-1 w-full overflow-y-auto pr-4 no-scrollbar" data-text-box>
+        {renderMarkdown(content, markdownTheme, markdownLayout)}
       </div>
     </div>
   );
@@ -368,7 +253,7 @@ const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, tota
             {titleLines.trim() && (
               <div className="flex-shrink-0 w-full overflow-hidden">
                 <div className="w-full overflow-y-auto pr-4 no-scrollbar">
-                  {renderMarkdown(titleLines, theme, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, textColorOverride, effectiveTextAlignment)}
+                  {renderMarkdown(titleLines, markdownTheme, markdownLayout)}
                 </div>
               </div>
             )}
@@ -379,8 +264,8 @@ const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, tota
                 className="flex-1 w-full overflow-hidden flex flex-col min-h-0"
                 style={{ paddingTop: `${imageTextSpacing}px` }}
               >
-                <div className="flex-1 w-full overflow-y-auto pr-4 no-scrollbar">
-                  {renderMarkdown(bodyLines, theme, effectiveFontScale, effectiveLineHeight, effectiveParagraphGap, textColorOverride, effectiveTextAlignment)}
+                <div className="flex-1 w-full overflow-y-auto pr-4 no-scrollbar" data-text-box>
+                  {renderMarkdown(bodyLines, markdownTheme, markdownLayout)}
                 </div>
               </div>
             )}
@@ -401,6 +286,7 @@ const TwitterSlide: React.FC<TwitterSlideProps> = ({ slide, profile, index, tota
 
   return (
     <div
+      ref={rootRef}
       className={`w-full h-full flex flex-col relative overflow-hidden shadow-sm ${forExport ? '' : 'transition-colors duration-300'}`}
       style={{ backgroundColor: bgColor, fontFamily }}
     >
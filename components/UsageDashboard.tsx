@@ -0,0 +1,252 @@
+/**
+ * UsageDashboard Component
+ *
+ * AI usage from the usage ledger (services/usageLedger.ts): totals for a period,
+ * then per-day and per-project breakdowns with calls, tokens, images and estimated cost.
+ * The optional monthly budget is set here; AI calls ask for confirmation near it.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { UsageEntry } from '../types';
+import { listProjects } from '../services/projectStorage';
+import {
+  UsageTotals, listUsage, clearUsage, sumUsage, groupUsage, dayKey, formatCost,
+  getMonthStart, getMonthlyBudget, setMonthlyBudget
+} from '../services/usageLedger';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { X, Loader2, Trash2 } from 'lucide-react';
+
+interface UsageDashboardProps {
+  currentProjectId?: string;    // Highlighted in the per-project list (Workspace)
+  onClose: () => void;
+}
+
+type UsagePeriod = 'month' | '30days' | 'all';
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  month: 'This month',
+  '30days': 'Last 30 days',
+  all: 'All time'
+};
+
+const periodStart = (period: UsagePeriod): string | undefined => {
+  if (period === 'month') return getMonthStart();
+  if (period === '30days') return new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+  return undefined;
+};
+
+// Calls made outside a project (batch runs, template filling)
+const NO_PROJECT = '';
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k`
+    : String(tokens);
+
+const formatDay = (day: string): string =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const UsageTable: React.FC<{ title: string; rows: { key: string; label: string; totals: UsageTotals; highlight?: boolean }[] }> = ({ title, rows }) => (
+  <div>
+    <Label className="text-xs text-muted-foreground uppercase mb-1 block">{title}</Label>
+    <div className="border border-border rounded-lg overflow-hidden">
+      <table className="w-full text-xs">
+        <thead className="bg-secondary text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-1.5"></th>
+            <th className="text-right font-medium px-2 py-1.5">Calls</th>
+            <th className="text-right font-medium px-2 py-1.5" title="Input / output tokens">Tokens</th>
+            <th className="text-right font-medium px-2 py-1.5">Images</th>
+            <th className="text-right font-medium px-3 py-1.5">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className={cn("border-t border-border", row.highlight && "bg-primary/10")}>
+              <td className="px-3 py-1.5 truncate max-w-[180px]" title={row.label}>{row.label}</td>
+              <td className="text-right px-2 py-1.5">{row.totals.calls}</td>
+              <td className="text-right px-2 py-1.5 whitespace-nowrap">
+                {formatTokens(row.totals.inputTokens)} / {formatTokens(row.totals.outputTokens)}
+              </td>
+              <td className="text-right px-2 py-1.5">{row.totals.images}</td>
+              <td className="text-right px-3 py-1.5 font-medium">{formatCost(row.totals.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ currentProjectId, onClose }) => {
+  const [period, setPeriod] = useState<UsagePeriod>('month');
+  const [entries, setEntries] = useState<UsageEntry[] | null>(null);
+  const [monthCost, setMonthCost] = useState(0);
+  const [projectNames, setProjectNames] = useState<Record<string, string>>({});
+  const [budgetInput, setBudgetInput] = useState(() => String(getMonthlyBudget() ?? ''));
+  const [budget, setBudget] = useState(getMonthlyBudget);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    Promise.all([listUsage(periodStart(period)), listUsage(getMonthStart()), listProjects()])
+      .then(([periodEntries, monthEntries, projects]) => {
+        if (cancelled) return;
+        setEntries(periodEntries);
+        setMonthCost(sumUsage(monthEntries).cost);
+        setProjectNames(Object.fromEntries(projects.map(p => [p.id, p.name])));
+      })
+      .catch(error => {
+        console.error('Failed to load AI usage:', error);
+        if (!cancelled) setEntries([]);
+      });
+    return () => { cancelled = true; };
+  }, [period]);
+
+  const totals = useMemo(() => sumUsage(entries ?? []), [entries]);
+
+  const dayRows = useMemo(() =>
+    groupUsage(entries ?? [], entry => dayKey(entry.timestamp))
+      .sort((a, b) => b.key.localeCompare(a.key))
+      .map(({ key, totals }) => ({ key, label: formatDay(key), totals })),
+  [entries]);
+
+  const projectRows = useMemo(() =>
+    groupUsage(entries ?? [], entry => entry.projectId ?? NO_PROJECT)
+      .map(({ key, totals }) => ({
+        key,
+        label: key === NO_PROJECT ? 'Outside a project (batch, templates)' : projectNames[key] ?? 'Deleted project',
+        totals,
+        highlight: !!currentProjectId && key === currentProjectId
+      })),
+  [entries, projectNames, currentProjectId]);
+
+  const handleSaveBudget = () => {
+    const value = parseFloat(budgetInput);
+    const next = value > 0 ? value : null;
+    setMonthlyBudget(next);
+    setBudget(next);
+    setBudgetInput(next ? String(next) : '');
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete the whole usage history? The budget setting is kept.')) return;
+    try {
+      await clearUsage();
+      setEntries([]);
+      setMonthCost(0);
+    } catch (error) {
+      console.error('Failed to clear AI usage:', error);
+      alert('Failed to clear the usage history. Please try again.');
+    }
+  };
+
+  const budgetRatio = budget ? Math.min(1, monthCost / budget) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-card rounded-2xl p-6 w-full max-w-2xl mx-4 shadow-2xl border border-border max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-foreground">AI Usage</h3>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-5 overflow-y-auto pr-1">
+          {/* Monthly budget */}
+          <div className="p-3 bg-secondary rounded-lg space-y-2">
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label className="text-sm font-medium mb-1 block">Monthly Budget (USD)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveBudget()}
+                  placeholder="No budget"
+                  className="h-8"
+                />
+              </div>
+              <Button size="sm" variant="outline" onClick={handleSaveBudget} disabled={budgetInput === String(budget ?? '')}>
+                Save
+              </Button>
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>This month: {formatCost(monthCost)}{budget ? ` of ${formatCost(budget)}` : ''}</span>
+              {budget && <span>{Math.round(monthCost / budget * 100)}%</span>}
+            </div>
+            {budget && (
+              <div className="h-1.5 rounded-full bg-background overflow-hidden">
+                <div
+                  className={cn("h-full", budgetRatio >= 1 ? "bg-destructive" : budgetRatio >= 0.8 ? "bg-amber-500" : "bg-primary")}
+                  style={{ width: `${budgetRatio * 100}%` }}
+                />
+              </div>
+            )}
+            <p className="text-[10px] text-muted-foreground">
+              You're asked before AI calls once 80% of the budget is used, and again when it is exceeded.
+            </p>
+          </div>
+
+          {/* Period totals */}
+          <div className="flex items-center justify-between">
+            <Select value={period} onValueChange={(value) => setPeriod(value as UsagePeriod)}>
+              <SelectTrigger className="w-40 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PERIOD_LABELS) as UsagePeriod[]).map(p => (
+                  <SelectItem key={p} value={p}>{PERIOD_LABELS[p]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={handleClear} className="text-xs text-muted-foreground">
+              <Trash2 className="h-3.5 w-3.5 mr-1" />
+              Clear History
+            </Button>
+          </div>
+
+          {entries === null ? (
+            <div className="flex items-center justify-center gap-2 py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              <span className="text-sm text-muted-foreground">Loading usage...</span>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No AI calls in this period.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-4 gap-2">
+                {[
+                  ['Calls', String(totals.calls)],
+                  ['Tokens', `${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}`],
+                  ['Images', String(totals.images)],
+                  ['Est. cost', formatCost(totals.cost)]
+                ].map(([label, value]) => (
+                  <div key={label} className="p-3 bg-secondary rounded-lg">
+                    <div className="text-[10px] text-muted-foreground uppercase font-bold">{label}</div>
+                    <div className="text-base font-semibold">{value}</div>
+                  </div>
+                ))}
+              </div>
+              <UsageTable title="By Project" rows={projectRows} />
+              <UsageTable title="By Day" rows={dayRows} />
+              <p className="text-[10px] text-muted-foreground">
+                Costs are estimates from list prices; custom and offline models count as $0.
+                Tokens are input / output as reported by the API.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
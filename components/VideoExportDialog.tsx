@@ -0,0 +1,200 @@
+/**
+ * VideoExportDialog Component
+ *
+ * Settings for the MP4/GIF export: format, per-slide duration and transition,
+ * and an optional audio track (MP4 only). Rendering happens in the Workspace
+ * (services/videoExport), which shows progress and Cancel in the toolbar.
+ */
+
+import React, { useState } from 'react';
+import { Slide } from '../types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { X, Music, Film } from 'lucide-react';
+import {
+  VideoFormat, VideoTransition, VideoSlideTiming, VIDEO_TRANSITION_LABELS, isMp4ExportSupported
+} from '../services/videoExport';
+
+interface VideoExportDialogProps {
+  slides: Slide[];
+  onExport: (format: VideoFormat, timings: VideoSlideTiming[], audio: File | null) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_DURATION = 3;
+const DEFAULT_TRANSITION: VideoTransition = 'crossfade';
+
+// First line of the slide without markdown markers, for the per-slide list
+const slideSnippet = (slide: Slide): string =>
+  slide.content.split('\n').find(line => line.trim())?.replace(/[#*_~>`[\]]/g, '').trim() || 'Empty slide';
+
+const TransitionSelect: React.FC<{ value: VideoTransition; onChange: (value: VideoTransition) => void; className?: string }> = ({ value, onChange, className }) => (
+  <Select value={value} onValueChange={(v) => onChange(v as VideoTransition)}>
+    <SelectTrigger className={cn("h-8 text-xs", className)}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {(Object.keys(VIDEO_TRANSITION_LABELS) as VideoTransition[]).map(transition => (
+        <SelectItem key={transition} value={transition}>{VIDEO_TRANSITION_LABELS[transition]}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const VideoExportDialog: React.FC<VideoExportDialogProps> = ({ slides, onExport, onClose }) => {
+  const mp4Supported = isMp4ExportSupported();
+  const [format, setFormat] = useState<VideoFormat>(mp4Supported ? 'mp4' : 'gif');
+  const [defaultDuration, setDefaultDuration] = useState(DEFAULT_DURATION);
+  const [defaultTransition, setDefaultTransition] = useState<VideoTransition>(DEFAULT_TRANSITION);
+  const [timings, setTimings] = useState<VideoSlideTiming[]>(
+    slides.map(() => ({ duration: DEFAULT_DURATION, transition: DEFAULT_TRANSITION }))
+  );
+  const [audio, setAudio] = useState<File | null>(null);
+
+  const totalSeconds = timings.reduce((sum, timing) => sum + timing.duration, 0);
+
+  const updateTiming = (index: number, updates: Partial<VideoSlideTiming>) => {
+    setTimings(prev => prev.map((timing, i) => (i === index ? { ...timing, ...updates } : timing)));
+  };
+
+  const applyDefaultsToAll = () => {
+    setTimings(slides.map(() => ({ duration: defaultDuration, transition: defaultTransition })));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-card rounded-2xl p-6 w-full max-w-lg mx-4 shadow-2xl border border-border max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-foreground">Export Video</h3>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-5 overflow-y-auto pr-1">
+          {/* Format */}
+          <div className="space-y-2">
+            <Label className="text-xs font-bold uppercase text-muted-foreground">Format</Label>
+            <div className="flex bg-muted rounded-lg p-1">
+              <button
+                onClick={() => setFormat('mp4')}
+                disabled={!mp4Supported}
+                title={mp4Supported ? 'H.264 video for Reels and TikTok' : 'Not supported in this browser'}
+                className={cn(
+                  "flex-1 py-1.5 rounded-md text-sm font-medium transition-all disabled:opacity-40",
+                  format === 'mp4' ? 'bg-primary text-primary-foreground shadow' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                MP4
+              </button>
+              <button
+                onClick={() => setFormat('gif')}
+                className={cn(
+                  "flex-1 py-1.5 rounded-md text-sm font-medium transition-all",
+                  format === 'gif' ? 'bg-primary text-primary-foreground shadow' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                GIF
+              </button>
+            </div>
+            {format === 'gif' && (
+              <p className="text-xs text-muted-foreground">GIFs are exported at half resolution and have no sound.</p>
+            )}
+          </div>
+
+          {/* Defaults */}
+          <div className="space-y-3">
+            <Label className="text-xs font-bold uppercase text-muted-foreground">All Slides</Label>
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-20">{defaultDuration.toFixed(1)}s</span>
+              <Slider
+                value={[defaultDuration]}
+                onValueChange={([value]) => setDefaultDuration(value)}
+                min={1}
+                max={10}
+                step={0.5}
+                className="flex-1"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <TransitionSelect value={defaultTransition} onChange={setDefaultTransition} className="flex-1" />
+              <Button variant="secondary" size="sm" onClick={applyDefaultsToAll}>
+                Apply to all
+              </Button>
+            </div>
+          </div>
+
+          {/* Per-slide overrides */}
+          <div className="space-y-2">
+            <Label className="text-xs font-bold uppercase text-muted-foreground">Per Slide</Label>
+            <div className="space-y-1.5">
+              {slides.map((slide, index) => (
+                <div key={slide.id} className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-5 text-right">{index + 1}</span>
+                  <span className="text-sm flex-1 truncate" title={slideSnippet(slide)}>{slideSnippet(slide)}</span>
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={30}
+                    step={0.5}
+                    value={timings[index].duration}
+                    onChange={(e) => updateTiming(index, { duration: Math.max(0.5, Number(e.target.value) || DEFAULT_DURATION) })}
+                    className="w-16 h-8 rounded-md border border-input bg-background px-2 text-xs"
+                    title="Seconds on screen"
+                  />
+                  <TransitionSelect
+                    value={timings[index].transition}
+                    onChange={(transition) => updateTiming(index, { transition })}
+                    className="w-32"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Transitions play when entering a slide. Ken Burns slowly zooms into the slide image.</p>
+          </div>
+
+          {/* Audio (MP4 only) */}
+          {format === 'mp4' && (
+            <div className="space-y-2">
+              <Label className="text-xs font-bold uppercase text-muted-foreground">Audio (optional)</Label>
+              {audio ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <Music className="h-4 w-4 text-muted-foreground" />
+                  <span className="flex-1 truncate">{audio.name}</span>
+                  <button onClick={() => setAudio(null)} className="text-muted-foreground hover:text-foreground" title="Remove audio">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : (
+                <label className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground cursor-pointer">
+                  <Music className="h-4 w-4" />
+                  Add a music or voice-over file
+                  <input
+                    type="file"
+                    accept="audio/*"
+                    className="hidden"
+                    onChange={(e) => setAudio(e.target.files?.[0] || null)}
+                  />
+                </label>
+              )}
+              <p className="text-xs text-muted-foreground">Trimmed to the video length with a short fade-out.</p>
+            </div>
+          )}
+        </div>
+
+        <Button
+          onClick={() => onExport(format, timings, format === 'mp4' ? audio : null)}
+          className="w-full mt-5"
+        >
+          <Film className="h-4 w-4 mr-2" />
+          Export {format.toUpperCase()} ({totalSeconds.toFixed(1)}s)
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoExportDialog;
@@ -15,18 +15,43 @@
  * - PNG export (single slide or ZIP of all)
  * - Markdown text editing with toolbar
  * - Theme, color, and layout customization
+ * - Autosave of the full project to IndexedDB (see projectStorage)
  */
 
-import React, { useState, useRef, useEffect, forwardRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useSyncExternalStore, forwardRef } from 'react';
 import { DndContext, closestCenter, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy, useSortable, arrayMove } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Slide, Profile, CarouselStyle, CarouselProject, SlideType, AspectRatio, Theme, FontStyle, ContentLayout, LayoutSettings, TextAlignment } from '../types';
+import { Slide, Profile, BrandKit, ReferenceImage, DocumentImage, CarouselStyle, CarouselProject, CarouselGeneration, CopyFramework, SlideType, AspectRatio, Theme, FontStyle, ContentLayout, LayoutSettings, TextAlignment } from '../types';
 import TwitterSlide from './TwitterSlide';
 import StorytellerSlide from './StorytellerSlide';
 import LessonSlide from './LessonSlide';
-import { generateSlideImage, stylizeImage, editImage, refineCarouselContent, getApiAspectRatio, IMAGE_MODEL_PRO, IMAGE_MODEL_FLASH, DEFAULT_IMAGE_STYLE, setApiKey, getApiKeyMasked, hasApiKey } from '../services/geminiService';
-import { setApifyApiKey, getApifyApiKeyMasked, hasApifyApiKey } from '../services/instagramService';
+import AppleNotesSlide from './AppleNotesSlide';
+import HistoryPanel from './HistoryPanel';
+import JobsPanel from './JobsPanel';
+import UsageDashboard from './UsageDashboard';
+import VideoExportDialog from './VideoExportDialog';
+import PostCopyPanel from './PostCopyPanel';
+import AIProviderSettings from './AIProviderSettings';
+import BrandKitPanel from './BrandKitPanel';
+import ImageVariantStrip from './ImageVariantStrip';
+import ReferenceImagesPanel from './ReferenceImagesPanel';
+import DocumentImagePicker from './DocumentImagePicker';
+import { generateSlideImage, stylizeImage, editImage, refineCarouselContent, generatePostCopy, getApiAspectRatio, getModels, getModelOptions, DEFAULT_IMAGE_STYLE } from '../services/geminiService';
+import { subscribeJobs, getJobs, cancelJob, clearFinishedJobs } from '../services/requestQueue';
+import { setUsageProject } from '../services/usageLedger';
+import { setApifyApiKey, getApifyApiKeyMasked, hasApifyApiKey } from '../services/social';
+import { saveProject, saveTemplate } from '../services/projectStorage';
+import { parseProject, formatSchemaIssues, CURRENT_SCHEMA_VERSION, DEFAULT_LAYOUT_SETTINGS, DEFAULT_ACCENT_COLOR, IMAGE_CANVAS_OFFSET_LIMIT } from '../services/projectSchema';
+import { extractTextLayer, createCarouselPdf } from '../services/pdfExport';
+import { exportSlides, dataUrlToBlob, isAbortError, ExportProgress, ExportedSlide } from '../services/exportService';
+import { renderVideo, findImageRegion, VideoFormat, VideoSlideTiming } from '../services/videoExport';
+import { EditorSnapshot, createHistory, recordHistory, jumpToHistory, canUndo, canRedo, describeEditorChange } from '../lib/history';
+import { formatPostText, buildAltTextManifest } from '../lib/postCopy';
+import { DEFAULT_FRAMEWORK, getFramework } from '../lib/frameworks';
+import { createTemplate } from '../lib/templates';
+import { TextFit, isTextOverflowing, isSameTextFit, getAutoFitFontScale, buildShortenFeedback, MIN_AUTO_FIT_SCALE } from '../lib/textFit';
+import { createImageVariant, addImageVariants, restoreImageVariant, removeImageVariant, stripImageVariants } from '../lib/imageVariants';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -39,29 +64,45 @@ import {
   Plus, Trash2, Download, ArrowLeft, Zap, Upload, X, Loader2,
   ChevronDown, ChevronUp, Settings, Image, Type, Palette,
   CheckSquare, Square, RefreshCw, Sparkles, Pencil, Sun, Moon,
-  FileDown, FolderDown, Save, FolderOpen, GripVertical, Copy
+  FileDown, FolderDown, Save, FolderOpen, GripVertical, Copy, Cloud, CloudOff,
+  Undo2, Redo2, History, FileText, Film, Hash, LayoutTemplate, ListChecks, Coins, AlertTriangle, Shrink, Clock
 } from 'lucide-react';
 
 type EditorTheme = 'light' | 'dark';
 
 interface WorkspaceProps {
+  projectId: string;                          // ID used for IndexedDB autosave
+  initialProject?: Partial<CarouselProject>;  // Saved settings to restore (when reopening a project)
   slides: Slide[];
   profile: Profile;
+  onProfileChange?: (profile: Profile) => void;  // Brand kits carry a profile
+  activeBrandKitId?: string | null;              // Kit chosen during onboarding
   style: CarouselStyle;
   aspectRatio: AspectRatio;
   onUpdateSlides: (slides: Slide[]) => void;
   onStyleChange?: (style: CarouselStyle) => void;  // For style conversion
   onBack: () => void;
+  generation?: CarouselGeneration | null;     // Streamed AI generation filling this project (App.handleAiGenerate)
+  onCancelGeneration?: () => void;
   editorTheme?: EditorTheme;
   onEditorThemeToggle?: () => void;
 }
 
+// Delay between the last edit and the autosave write (debounce)
+const AUTOSAVE_DELAY_MS = 1000;
+
+// A project's saved content, ignoring when it was saved (for change detection)
+const getProjectContent = (project: CarouselProject | null): string =>
+  JSON.stringify({ ...project, updatedAt: undefined });
+
 // External libraries loaded via CDN in index.html
 declare global {
   interface Window {
     htmlToImage: any;  // PNG export library
     JSZip: any;        // ZIP creation for batch export
     saveAs: any;       // File download helper
+    jspdf: any;        // PDF creation for LinkedIn document export
+    PDFLib: any;       // PDF page selection for uploaded documents
   }
 }
 
@@ -76,6 +117,7 @@ interface SortableSlideItemProps {
   isSelected: boolean;
   generationStatus?: 'idle' | 'generating' | 'success' | 'error';
   isGenerating: boolean;
+  textOverflows: boolean;    // Text doesn't fit the slide (see lib/textFit.ts)
   onSelect: () => void;
   onToggleSelection: () => void;
   onDelete: () => void;
@@ -90,6 +132,7 @@ const SortableSlideItem: React.FC<SortableSlideItemProps> = ({
   isSelected,
   generationStatus,
   isGenerating,
+  textOverflows,
   onSelect,
   onToggleSelection,
   onDelete,
@@ -212,17 +255,28 @@ const SortableSlideItem: React.FC<SortableSlideItemProps> = ({
           {slide.imageUrl ? 'Has image' : 'Needs image'}
         </div>
       )}
+
+      {/* Overflow warning */}
+      {textOverflows && (
+        <div className={cn("mt-1 flex items-center gap-1 text-xs", isActive && !batchMode ? "text-primary-foreground" : "text-amber-500")}>
+          <AlertTriangle className="w-3 h-3" />
+          Text overflows
+        </div>
+      )}
     </div>
   );
 };
 
-const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRatio, onUpdateSlides, onStyleChange, onBack, editorTheme = 'light', onEditorThemeToggle }) => {
+const Workspace: React.FC<WorkspaceProps> = ({ projectId, initialProject, slides, profile, onProfileChange, activeBrandKitId, style, aspectRatio, onUpdateSlides, onStyleChange, onBack, generation, onCancelGeneration, editorTheme = 'light', onEditorThemeToggle }) => {
   // ============================================================================
   // CORE STATE
   // ============================================================================
   const [activeSlideId, setActiveSlideId] = useState<string>(slides[0].id);
   const [generatingSlideIds, setGeneratingSlideIds] = useState<Set<string>>(new Set()); // Per-slide loading state
-  const [isDownloading, setIsDownloading] = useState(false);
+  const [variantCount, setVariantCount] = useState(1); // Images per "AI Generate" click (all kept in the slide's history)
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null); // Non-null while an export runs
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [showVideoExport, setShowVideoExport] = useState(false);
 
   // PATTERN: Stale Closure Workaround
   // Problem: Async handlers (image generation, stylization) capture `slides` at call time.
@@ -234,48 +288,68 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     slidesRef.current = slides;
   }, [slides]);
   
+  // ============================================================================
+  // PROJECT METADATA (used for autosave and JSON export)
+  // ============================================================================
+  const [projectName] = useState(initialProject?.name || `carousel-${new Date().toISOString().split('T')[0]}`);
+  const [createdAt] = useState(initialProject?.createdAt || new Date().toISOString());
+  // Time of the last edit; only changes when an edited version is saved
+  const updatedAtRef = useRef(initialProject?.updatedAt || createdAt);
+  const exportFileName = projectName.replace(/[^\w\- ]+/g, '').trim() || 'carousel';
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
   // ============================================================================
   // GLOBAL SETTINGS (apply to all slides)
+  // Initial values come from the reopened project, if any
   // ============================================================================
-  const [showSlideNumbers, setShowSlideNumbers] = useState(true);
-  const [showVerifiedBadge, setShowVerifiedBadge] = useState(true);
+  const [showSlideNumbers, setShowSlideNumbers] = useState(initialProject?.showSlideNumbers ?? true);
+  const [showVerifiedBadge, setShowVerifiedBadge] = useState(initialProject?.showVerifiedBadge ?? true);
   const [zoomLevel, setZoomLevel] = useState(0.4);           // Canvas preview scale (0.2 - 1.0)
-  const [headerScale, setHeaderScale] = useState(1.0);       // Profile header size multiplier (0.5 - 2.0)
-  const [accentColor, setAccentColor] = useState('#EAB308'); // Highlight color for markdown
-  const [showAccent, setShowAccent] = useState(true);
+  const [headerScale, setHeaderScale] = useState(initialProject?.headerScale ?? 1.0);       // Profile header size multiplier (0.5 - 2.0)
+  const [accentColor, setAccentColor] = useState(initialProject?.accentColor ?? DEFAULT_ACCENT_COLOR); // Highlight color for markdown
+  const [showAccent, setShowAccent] = useState(initialProject?.showAccent ?? true);
 
   // ============================================================================
   // FONT SETTINGS (global, can be overridden per-slide)
   // ============================================================================
-  const [fontStyle, setFontStyle] = useState<FontStyle>('MODERN');
-  const [fontScale, setFontScale] = useState(1.0); // 0.5 - 1.5
+  const [fontStyle, setFontStyle] = useState<FontStyle>(initialProject?.fontStyle ?? 'MODERN');
+  const [fontScale, setFontScale] = useState(initialProject?.fontScale ?? 1.0); // 0.5 - 1.5
 
   // ============================================================================
   // LAYOUT SETTINGS (global, can be overridden per-slide)
   // ============================================================================
-  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>({
-    contentPadding: 64,      // 32-96 px
-    imageCanvasOffset: 0,    // -50 to +50 px
-    imageMargin: 0,          // 0-32 px
-    textLineHeight: 1.5,     // 1.2-2.0
-    paragraphGap: 1,         // 0.5-2.0 rem
-    textAlignment: 'left',   // left, center, right
-  });
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(initialProject?.layoutSettings ?? DEFAULT_LAYOUT_SETTINGS);
 
   // ============================================================================
   // GLOBAL IMAGE STYLE
   // ============================================================================
-  const [globalImageStyle, setGlobalImageStyle] = useState<string>(DEFAULT_IMAGE_STYLE);
+  const [globalImageStyle, setGlobalImageStyle] = useState<string>(initialProject?.globalImageStyle ?? DEFAULT_IMAGE_STYLE);
+
+  // ============================================================================
+  // POST COPY (caption + hashtags; alt text lives on each slide)
+  // ============================================================================
+  const [caption, setCaption] = useState(initialProject?.caption ?? '');
+  const [hashtags, setHashtags] = useState<string[]>(initialProject?.hashtags ?? []);
+
+  // Copywriting framework the slides were generated with; AI refinement keeps its structure
+  const [framework, setFramework] = useState<CopyFramework>(initialProject?.framework ?? DEFAULT_FRAMEWORK);
+
+  // Sent with every slide image prompt so recurring subjects look the same
+  const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>(initialProject?.referenceImages ?? []);
+
+  // Images extracted from the document the carousel was generated from, offered as slide images
+  const [documentImages, setDocumentImages] = useState<DocumentImage[]>(initialProject?.documentImages ?? []);
 
   // ============================================================================
   // IMAGE GENERATION SETTINGS
   // ============================================================================
-  const [selectedImageModel, setSelectedImageModel] = useState<string>(IMAGE_MODEL_PRO);
+  const [selectedImageModel, setSelectedImageModel] = useState<string>(() => getModels().imagePro.id);
+  const [imageModelOptions, setImageModelOptions] = useState(() => getModelOptions('image'));
   const [imageAspectRatio, setImageAspectRatio] = useState<AspectRatio>('16/9');
 
   // Default theme: Storyteller uses dark (cinematic), Twitter uses light (clean)
   const [theme, setTheme] = useState<Theme>(
-    style === CarouselStyle.STORYTELLER ? 'DARK' : 'LIGHT'
+    initialProject?.theme ?? (style === CarouselStyle.STORYTELLER ? 'DARK' : 'LIGHT')
   );
 
   // ============================================================================
@@ -379,16 +453,14 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
   // ============================================================================
   // SIDEBAR VIEW MODE (toggle between Global and Per-Slide settings)
   // ============================================================================
-  const [sidebarView, setSidebarView] = useState<'global' | 'slide'>('slide');
+  const [sidebarView, setSidebarView] = useState<'global' | 'slide' | 'post'>('slide');
 
   // ============================================================================
   // API KEY MANAGEMENT (in-workspace override)
+  // The AI provider and its key are handled by <AIProviderSettings>.
   // ============================================================================
-  const [showApiKeyInput, setShowApiKeyInput] = useState(false);
-  const [apiKeyInput, setApiKeyInput] = useState('');
-  const [apiKeyDisplay, setApiKeyDisplay] = useState(getApiKeyMasked());
 
-  // Apify API key (for Instagram scraping)
+  // Apify API key (for social post scraping)
   const [showApifyKeyInput, setShowApifyKeyInput] = useState(false);
   const [apifyKeyInput, setApifyKeyInput] = useState('');
   const [apifyKeyDisplay, setApifyKeyDisplay] = useState(getApifyApiKeyMasked());
@@ -491,41 +563,48 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     setActiveSlideId(duplicatedSlide.id); // Select the new slide
   };
   
+  /**
+   * Opens the upload modal (use as-is or stylize) for an image given as a data URI:
+   * an uploaded file or an image from the source document.
+   */
+  const openUploadModal = (dataUri: string, name: string) => {
+    // Extract mime type and raw base64
+    const mimeMatch = dataUri.match(/^data:(image\/\w+);base64,/);
+    const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
+    const rawBase64 = dataUri.replace(/^data:image\/\w+;base64,/, '');
+
+    // Create an Image to detect dimensions (use window.Image because Image from lucide-react shadows it)
+    const img = new window.Image();
+    img.onload = () => {
+      const width = img.width;
+      const height = img.height;
+      const ratio = width / height;
+      const detectedRatio = getClosestApiRatio(ratio);
+
+      setPendingUploadImage({
+        base64: dataUri,
+        rawBase64: rawBase64,
+        mimeType: mimeType,
+        width,
+        height,
+        detectedRatio
+      });
+      setShowUploadModal(true);
+    };
+    img.onerror = () => {
+      console.error('Failed to load image:', name);
+      alert(`Failed to load image "${name}". The file may be corrupted or in an unsupported format.`);
+    };
+    img.src = dataUri;
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       const reader = new FileReader();
       reader.onload = (event) => {
         if (event.target?.result) {
-          const dataUri = event.target.result as string;
-          // Extract mime type and raw base64
-          const mimeMatch = dataUri.match(/^data:(image\/\w+);base64,/);
-          const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
-          const rawBase64 = dataUri.replace(/^data:image\/\w+;base64,/, '');
-
-          // Create an Image to detect dimensions (use window.Image because Image from lucide-react shadows it)
-          const img = new window.Image();
-          img.onload = () => {
-            const width = img.width;
-            const height = img.height;
-            const ratio = width / height;
-            const detectedRatio = getClosestApiRatio(ratio);
-
-            setPendingUploadImage({
-              base64: dataUri,
-              rawBase64: rawBase64,
-              mimeType: mimeType,
-              width,
-              height,
-              detectedRatio
-            });
-            setShowUploadModal(true);
-          };
-          img.onerror = () => {
-            console.error('Failed to load image:', file.name);
-            alert(`Failed to load image "${file.name}". The file may be corrupted or in an unsupported format.`);
-          };
-          img.src = dataUri;
+          openUploadModal(event.target.result as string, file.name);
         }
       };
       reader.onerror = () => {
@@ -544,9 +623,8 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     const newSlides = [...slides];
     const isStoryteller = style === CarouselStyle.STORYTELLER;
     newSlides[activeIndex] = {
-      ...activeSlide,
+      ...addImageVariants(activeSlide, [createImageVariant(pendingUploadImage.base64, 'upload')]),
       showImage: true,
-      imageUrl: pendingUploadImage.base64,
       imageScale: activeSlide.imageScale || (isStoryteller ? 45 : 50),
       overlayImage: isStoryteller ? true : undefined
     };
@@ -588,10 +666,10 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
       const slide = currentSlides[slideIndex];
       const newSlides = [...currentSlides];
       const isStoryteller = style === CarouselStyle.STORYTELLER;
+      const variant = createImageVariant(stylizedImage, 'stylize', { prompt: stylizePrompt, model: selectedImageModel });
       newSlides[slideIndex] = {
-        ...slide,
+        ...addImageVariants(slide, [variant]),
         showImage: true,
-        imageUrl: stylizedImage,
         imageScale: slide.imageScale || (isStoryteller ? 45 : 50),
         overlayImage: isStoryteller ? true : undefined
       };
@@ -602,6 +680,7 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
       setPendingUploadImage(null);
       setStylizePrompt('');
     } catch (error) {
+      if (isAbortError(error)) return;  // Cancelled from the jobs panel
       console.error("Stylization failed:", error);
       alert("Failed to stylize image. Try again or use the image as-is.");
     } finally {
@@ -689,16 +768,16 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
 
       const slide = currentSlides[slideIndex];
       const newSlides = [...currentSlides];
-      newSlides[slideIndex] = {
-        ...slide,
-        imageUrl: editedImage
-      };
+      newSlides[slideIndex] = addImageVariants(slide, [
+        createImageVariant(editedImage, 'edit', { prompt: editImagePrompt, model: selectedImageModel })
+      ]);
       onUpdateSlides(newSlides);
 
       // Close modal and reset
       setShowEditImageModal(false);
       setEditImagePrompt('');
     } catch (error) {
+      if (isAbortError(error)) return;  // Cancelled from the jobs panel
       console.error("Image editing failed:", error);
       alert("Failed to edit image. Please try again.");
     } finally {
@@ -706,6 +785,28 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     }
   };
 
+  // ============================================================================
+  // BRAND KITS
+  // ============================================================================
+
+  const [brandKitId, setBrandKitId] = useState<string | null>(activeBrandKitId ?? null);
+
+  /**
+   * Applies a brand kit's profile and global settings in one step.
+   */
+  const handleApplyBrandKit = (kit: BrandKit) => {
+    labelNextChange(`Apply brand kit "${kit.name}"`);
+    setBrandKitId(kit.id);
+    setTheme(kit.theme);
+    setAccentColor(kit.accentColor);
+    setFontStyle(kit.fontStyle);
+    setFontScale(kit.fontScale);
+    setHeaderScale(kit.headerScale);
+    setLayoutSettings(kit.layoutSettings);
+    setGlobalImageStyle(kit.globalImageStyle);
+    onProfileChange?.(kit.profile);
+  };
+
   // ============================================================================
   // AI CONTENT REFINEMENT HANDLERS
   // ============================================================================
@@ -719,10 +820,12 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
 
     setIsRefining(true);
     try {
-      const refinedSlides = await refineCarouselContent(slides, globalFeedback);
+      const refinedSlides = await refineCarouselContent(slides, globalFeedback, undefined, undefined, framework);
+      labelNextChange('AI refine all slides');
       onUpdateSlides(refinedSlides);
       setGlobalFeedback('');
     } catch (error) {
+      if (isAbortError(error)) return;  // Cancelled from the jobs panel
       console.error("Failed to refine content:", error);
       alert("Failed to refine content. Please try again.");
     } finally {
@@ -738,10 +841,12 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
 
     setIsRefining(true);
     try {
-      const refinedSlides = await refineCarouselContent(slides, slideFeedback, activeIndex);
+      const refinedSlides = await refineCarouselContent(slides, slideFeedback, activeIndex, undefined, framework);
+      labelNextChange(`AI refine slide ${activeIndex + 1}`);
       onUpdateSlides(refinedSlides);
       setSlideFeedback('');
     } catch (error) {
+      if (isAbortError(error)) return;  // Cancelled from the jobs panel
       console.error("Failed to refine slide:", error);
       alert("Failed to refine slide. Please try again.");
     } finally {
@@ -749,6 +854,42 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     }
   };
 
+  // ============================================================================
+  // POST COPY HANDLERS
+  // ============================================================================
+
+  const [isWritingPostCopy, setIsWritingPostCopy] = useState(false);
+
+  /**
+   * Writes caption, hashtags and alt text for the current slides with AI.
+   * Replaces the existing post copy (undoable as one step).
+   */
+  const handleGeneratePostCopy = async () => {
+    if (isWritingPostCopy) return;
+
+    setIsWritingPostCopy(true);
+    try {
+      const postCopy = await generatePostCopy(slidesRef.current);
+      labelNextChange('AI write post copy');
+      setCaption(postCopy.caption);
+      setHashtags(postCopy.hashtags);
+      onUpdateSlides(slidesRef.current.map((slide, i) => ({
+        ...slide,
+        altText: postCopy.altTexts[i] || slide.altText
+      })));
+    } catch (error) {
+      if (isAbortError(error)) return;  // Cancelled from the jobs panel
+      console.error("Failed to write post copy:", error);
+      alert("Failed to write post copy. Please try again.");
+    } finally {
+      setIsWritingPostCopy(false);
+    }
+  };
+
+  const handleAltTextChange = (slideId: string, altText: string) => {
+    onUpdateSlides(slides.map(slide => (slide.id === slideId ? { ...slide, altText } : slide)));
+  };
+
   // ============================================================================
   // PROJECT EXPORT/IMPORT HANDLERS
   // ============================================================================
@@ -756,13 +897,13 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
   const projectImportRef = useRef<HTMLInputElement>(null);
 
   /**
-   * Exports the current carousel project as a JSON file.
-   * Includes all slides, profile, and global settings.
+   * Snapshots the current editor state as a CarouselProject.
+   * Shared by the JSON export and the IndexedDB autosave.
    */
-  const handleExportProject = () => {
-    const project: CarouselProject = {
-      id: crypto.randomUUID(),
-      name: `carousel-${new Date().toISOString().split('T')[0]}`,
+  const buildProject = (): CarouselProject => ({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id: projectId,
+      name: projectName,
       style,
       aspectRatio,
       profile,
@@ -777,16 +918,237 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
       fontScale,
       globalImageStyle,
       layoutSettings,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
+      caption,
+      hashtags,
+      framework,
+      referenceImages,
+      documentImages,
+      createdAt,
+      updatedAt: updatedAtRef.current
+  });
 
+  /**
+   * Saves the current layout as a reusable template (text becomes placeholders,
+   * images are dropped). Templates are picked from "From a Template" in onboarding.
+   */
+  const handleSaveAsTemplate = async () => {
+    const name = prompt('Template name', projectName)?.trim();
+    if (!name) return;
+    try {
+      const template = createTemplate(buildProject(), name);
+      await saveTemplate(template);
+      alert(`Template "${name}" saved with ${template.placeholders.length} text fields.`);
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      alert('Failed to save the template. Your browser may be blocking storage.');
+    }
+  };
+
+  /**
+   * Exports the current carousel project as a JSON file.
+   * Includes all slides, profile, and global settings.
+   */
+  const handleExportProject = () => {
+    // Image history stays in the browser; the file only carries the current images
+    const project = { ...buildProject(), slides: stripImageVariants(slides) };
     const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
-    window.saveAs(blob, `${project.name}.json`);
+    window.saveAs(blob, `${exportFileName}.json`);
+  };
+
+  // ============================================================================
+  // AUTOSAVE (IndexedDB)
+  // ============================================================================
+
+  // Latest snapshot, kept in a ref so the unmount flush saves the newest state
+  const latestProjectRef = useRef<CarouselProject | null>(null);
+  latestProjectRef.current = buildProject();
+
+  // Content of the last saved version (everything but updatedAt). A reopened
+  // project starts saved, so opening it without editing doesn't rewrite it or
+  // move it to the top of the library; a new project is saved right away.
+  const savedContentRef = useRef<string | null>(null);
+  if (savedContentRef.current === null && initialProject?.updatedAt) {
+    savedContentRef.current = getProjectContent(latestProjectRef.current);
+  }
+
+  /**
+   * Saves the latest snapshot if it changed since the last save, stamping
+   * updatedAt with the time of the edit. Returns false when there was nothing to save.
+   *
+   * @param onSave - Called before writing (not when unchanged)
+   */
+  const saveIfChanged = async (onSave?: () => void): Promise<boolean> => {
+    const project = latestProjectRef.current;
+    if (!project) return false;
+    const content = getProjectContent(project);
+    if (content === savedContentRef.current) return false;
+    onSave?.();
+    updatedAtRef.current = new Date().toISOString();
+    await saveProject({ ...project, updatedAt: updatedAtRef.current });
+    savedContentRef.current = content;
+    return true;
   };
 
+  /**
+   * Debounced autosave: writes the project 1s after the last change.
+   * Runs on every change to slides, profile, style or any global setting.
+   */
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        if (await saveIfChanged(() => setSaveStatus('saving'))) setSaveStatus('saved');
+      } catch (error) {
+        console.error('Autosave failed:', error);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [slides, profile, style, aspectRatio, theme, accentColor, showAccent, showSlideNumbers, showVerifiedBadge, headerScale, fontStyle, fontScale, globalImageStyle, layoutSettings, caption, hashtags, framework, referenceImages, documentImages]);
+
+  // Flush pending changes when leaving the Workspace (e.g. "Back to Setup")
+  useEffect(() => {
+    return () => {
+      saveIfChanged().catch(error => console.error('Autosave on exit failed:', error));
+    };
+  }, []);
+
+  // ============================================================================
+  // UNDO / REDO HISTORY
+  // ============================================================================
+  // The effect below records every change to slides or global settings as a
+  // snapshot, so individual handlers don't need to know about history.
+  // Rapid edits of the same kind (typing, slider drags) are grouped into one step.
+
+  const currentSnapshot: EditorSnapshot = {
+    slides, style, theme, accentColor, showAccent, showSlideNumbers, showVerifiedBadge,
+    headerScale, fontStyle, fontScale, globalImageStyle, layoutSettings, caption, hashtags
+  };
+
+  const [history, setHistory] = useState(() => createHistory(currentSnapshot, 'Open project'));
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+
+  // AI request queue (shared with the rest of the app), shown in the jobs panel
+  const jobs = useSyncExternalStore(subscribeJobs, getJobs);
+  const activeJobCount = jobs.filter(job => !job.finishedAt).length;
+  const [showJobsPanel, setShowJobsPanel] = useState(false);
+  const [showUsageDashboard, setShowUsageDashboard] = useState(false);
+
+  // AI calls made while this project is open are attributed to it in the usage ledger
+  useEffect(() => {
+    setUsageProject(projectId);
+    return () => setUsageProject(null);
+  }, [projectId]);
+
+  // Optional label for the next recorded change (e.g. "AI refine all slides").
+  // When unset, the label is derived from what changed.
+  const pendingHistoryLabelRef = useRef<string | null>(null);
+  const labelNextChange = (label: string) => {
+    pendingHistoryLabelRef.current = label;
+  };
+
+  // Slides arriving from a streamed generation aren't individual steps;
+  // the whole carousel becomes the starting point once the stream ends (below)
+  const isStreaming = generation?.status === 'streaming';
+
+  useEffect(() => {
+    if (isStreaming) return;
+    const explicitLabel = pendingHistoryLabelRef.current;
+    pendingHistoryLabelRef.current = null;
+    setHistory(prev => {
+      // Restoring an entry sets state to that entry's snapshot, which shows up
+      // here as "no change" - so undo/redo never records itself.
+      const autoLabel = describeEditorChange(prev.entries[prev.index].snapshot, currentSnapshot);
+      if (!autoLabel) return prev;
+      return recordHistory(prev, currentSnapshot, explicitLabel || autoLabel);
+    });
+  }, [slides, style, theme, accentColor, showAccent, showSlideNumbers, showVerifiedBadge, headerScale, fontStyle, fontScale, globalImageStyle, layoutSettings, caption, hashtags]);
+
+  // When the stream ends, apply the post copy it produced and start history from there
+  const wasStreamingRef = useRef(isStreaming);
+  useEffect(() => {
+    if (isStreaming || !wasStreamingRef.current) {
+      wasStreamingRef.current = isStreaming;
+      return;
+    }
+    wasStreamingRef.current = false;
+    const postCopy = generation?.postCopy;
+    if (postCopy) {
+      setCaption(postCopy.caption);
+      setHashtags(postCopy.hashtags);
+    }
+    setHistory(createHistory({ ...currentSnapshot, ...postCopy }, 'AI generate carousel'));
+  }, [isStreaming]);
+
+  /**
+   * Restores the editor to the state recorded at a history index.
+   */
+  const restoreHistoryEntry = (index: number) => {
+    const entry = history.entries[index];
+    if (!entry || index === history.index) return;
+    const snapshot = entry.snapshot;
+
+    setHistory(prev => jumpToHistory(prev, index));
+    onUpdateSlides(snapshot.slides);
+    if (snapshot.style !== style) onStyleChange?.(snapshot.style);
+    setTheme(snapshot.theme);
+    setAccentColor(snapshot.accentColor);
+    setShowAccent(snapshot.showAccent);
+    setShowSlideNumbers(snapshot.showSlideNumbers);
+    setShowVerifiedBadge(snapshot.showVerifiedBadge);
+    setHeaderScale(snapshot.headerScale);
+    setFontStyle(snapshot.fontStyle);
+    setFontScale(snapshot.fontScale);
+    setGlobalImageStyle(snapshot.globalImageStyle);
+    setLayoutSettings(snapshot.layoutSettings);
+    setCaption(snapshot.caption);
+    setHashtags(snapshot.hashtags);
+
+    // Keep the selection valid if the active slide doesn't exist in that state
+    if (!snapshot.slides.some(s => s.id === activeSlideId) && snapshot.slides.length > 0) {
+      setActiveSlideId(snapshot.slides[0].id);
+    }
+  };
+
+  const handleUndo = () => {
+    if (canUndo(history)) restoreHistoryEntry(history.index - 1);
+  };
+
+  const handleRedo = () => {
+    if (canRedo(history)) restoreHistoryEntry(history.index + 1);
+  };
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z = undo, Ctrl/Cmd+Shift+Z or Ctrl+Y = redo.
+  // Also active inside the text fields whose value is part of the history
+  // (marked data-history-field: slide text, caption, alt text...), replacing the
+  // browser's native undo, which is unreliable on React-controlled inputs.
+  // Other fields (feedback, API keys, image prompts) keep their native undo.
+  // Handlers are read through a ref so the listener is only attached once.
+  const historyShortcutsRef = useRef({ undo: handleUndo, redo: handleRedo });
+  historyShortcutsRef.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      const isEditable = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+      if (isEditable && !target!.closest('[data-history-field]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        historyShortcutsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)) {
+        e.preventDefault();
+        historyShortcutsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   /**
    * Imports a carousel project from a JSON file.
+   * Older files are migrated to the current schema, then validated; invalid
+   * files are rejected with the list of offending fields.
    * Restores all slides and global settings.
    */
   const handleImportProject = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -796,39 +1158,50 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     const reader = new FileReader();
 
     reader.onload = (event) => {
+      let data: unknown;
       try {
-        const project = JSON.parse(event.target?.result as string) as CarouselProject;
-
-        // Validate required fields
-        if (!project.slides || !Array.isArray(project.slides)) {
-          throw new Error('Invalid project file: missing slides');
-        }
-
-        // Restore slides
-        onUpdateSlides(project.slides);
-
-        // Restore global settings (with fallbacks for older project files)
-        if (project.theme) setTheme(project.theme);
-        if (project.accentColor) setAccentColor(project.accentColor);
-        if (project.showAccent !== undefined) setShowAccent(project.showAccent);
-        if (project.showSlideNumbers !== undefined) setShowSlideNumbers(project.showSlideNumbers);
-        if (project.showVerifiedBadge !== undefined) setShowVerifiedBadge(project.showVerifiedBadge);
-        if (project.headerScale) setHeaderScale(project.headerScale);
-        if (project.fontStyle) setFontStyle(project.fontStyle);
-        if (project.fontScale) setFontScale(project.fontScale);
-        if (project.globalImageStyle) setGlobalImageStyle(project.globalImageStyle);
-        if (project.layoutSettings) setLayoutSettings(project.layoutSettings);
-
-        // Set active slide to first slide
-        if (project.slides.length > 0) {
-          setActiveSlideId(project.slides[0].id);
-        }
-
-        alert('Project imported successfully!');
+        data = JSON.parse(event.target?.result as string);
       } catch (error) {
         console.error('Failed to import project:', error);
-        alert('Failed to import project. Please check the file format.');
+        alert('Failed to import project. The file is not valid JSON.');
+        return;
       }
+
+      const result = parseProject(data);
+      if (!result.project) {
+        console.error('Invalid project file:', result.issues);
+        alert(`Failed to import project. Invalid fields:\n\n${formatSchemaIssues(result.issues)}`);
+        return;
+      }
+      const project = result.project;
+
+      // Restore slides
+      labelNextChange('Import project');
+      onUpdateSlides(project.slides);
+
+      // Restore global settings (migration guarantees they are all present)
+      setTheme(project.theme);
+      setAccentColor(project.accentColor);
+      setShowAccent(project.showAccent);
+      setShowSlideNumbers(project.showSlideNumbers);
+      setShowVerifiedBadge(project.showVerifiedBadge);
+      setHeaderScale(project.headerScale);
+      setFontStyle(project.fontStyle);
+      setFontScale(project.fontScale);
+      setGlobalImageStyle(project.globalImageStyle);
+      setLayoutSettings(project.layoutSettings);
+      setCaption(project.caption);
+      setHashtags(project.hashtags);
+      setFramework(project.framework);
+      setReferenceImages(project.referenceImages);
+      setDocumentImages(project.documentImages);
+
+      // Set active slide to first slide
+      setActiveSlideId(project.slides[0].id);
+
+      alert(result.migratedFrom !== null
+        ? 'Project imported successfully! It was upgraded from an older file format.'
+        : 'Project imported successfully!');
     };
 
     reader.readAsText(file);
@@ -837,12 +1210,88 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     if (e.target) e.target.value = '';
   };
 
+  // ============================================================================
+  // TEXT FIT (OVERFLOW CHECK)
+  // ============================================================================
+
+  // Latest measurement per slide ID, reported by the offscreen copies rendered at
+  // export size (see the bottom of the layout). `slide` is the version measured.
+  const [textFits, setTextFits] = useState<Record<string, { slide: Slide; fit: TextFit }>>({});
+  const activeTextFit = activeSlide ? textFits[activeSlide.id]?.fit : undefined;
+
+  // Auto-fit mode: overflowing slides are shrunk as they change.
+  // Without it, "Shrink to Fit" does the same for the slides listed in fittingSlideIds.
+  const [autoFitText, setAutoFitText] = useState(false);
+  const [fittingSlideIds, setFittingSlideIds] = useState<Set<string>>(new Set());
+
+  const handleTextFitChange = useCallback((slide: Slide, fit: TextFit) => {
+    setTextFits(prev => {
+      const current = prev[slide.id];
+      if (current?.slide === slide && isSameTextFit(current.fit, fit)) return prev;
+      return { ...prev, [slide.id]: { slide, fit } };
+    });
+  }, []);
+
+  /**
+   * Shrinks overflowing slides one step at a time: each step lowers the slide's
+   * fontScale from its latest measurement, and the next runs once the shrunk slide
+   * has been measured again - until it fits or reaches MIN_AUTO_FIT_SCALE.
+   */
+  useEffect(() => {
+    if (isStreaming || (!autoFitText && fittingSlideIds.size === 0)) return;
+    const scales = new Map<string, number>();
+    const finished: string[] = [];
+    for (const slide of slides) {
+      if (!autoFitText && !fittingSlideIds.has(slide.id)) continue;
+      const measured = textFits[slide.id];
+      // Wait for a measurement of this version of the slide
+      if (measured?.slide !== slide) continue;
+      const scale = isTextOverflowing(measured.fit)
+        ? getAutoFitFontScale(slide.fontScale ?? fontScale, measured.fit)
+        : null;
+      if (scale === null) finished.push(slide.id);
+      else scales.set(slide.id, scale);
+    }
+
+    if (finished.some(id => fittingSlideIds.has(id))) {
+      setFittingSlideIds(prev => new Set([...prev].filter(id => !finished.includes(id))));
+    }
+    if (scales.size === 0) return;
+    labelNextChange('Auto-fit text');
+    onUpdateSlides(slides.map(slide => scales.has(slide.id) ? { ...slide, fontScale: scales.get(slide.id) } : slide));
+  }, [textFits, autoFitText, fittingSlideIds, isStreaming]);
+
+  const handleShrinkToFit = () => {
+    if (!activeSlide) return;
+    setFittingSlideIds(prev => new Set(prev).add(activeSlide.id));
+  };
+
+  /**
+   * Asks the AI to shorten the active slide by about as much as it overflows.
+   */
+  const handleShortenToFit = async () => {
+    if (!activeSlide || !activeTextFit || isRefining) return;
+
+    setIsRefining(true);
+    try {
+      const refinedSlides = await refineCarouselContent(slides, buildShortenFeedback(activeTextFit), activeIndex, undefined, framework);
+      labelNextChange(`AI shorten slide ${activeIndex + 1}`);
+      onUpdateSlides(refinedSlides);
+    } catch (error) {
+      if (isAbortError(error)) return;  // Cancelled from the jobs panel
+      console.error("Failed to shorten slide:", error);
+      alert("Failed to shorten slide. Please try again.");
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
   // ============================================================================
   // STYLE CONVERSION HANDLER
   // ============================================================================
 
   /**
-   * Converts the carousel between Twitter and Storyteller styles.
+   * Converts the carousel between styles (Twitter, Storyteller, Lesson, Apple Notes).
    * Adjusts slide properties for optimal display in the new style.
    */
   const handleConvertStyle = (newStyle: CarouselStyle) => {
@@ -866,7 +1315,8 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
   // ============================================================================
 
   /**
-   * Generates an AI image for the currently active slide.
+   * Generates `variantCount` AI images for the currently active slide.
+   * All of them are added to the slide's image history; the first one becomes the current image.
    *
    * ASYNC PATTERN: Captures slideId early, uses slidesRef for current state.
    * This allows concurrent generation on multiple slides without data loss.
@@ -883,32 +1333,47 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
     setGeneratingSlideIds(prev => new Set(prev).add(slideId));
 
     try {
-      const base64Image = await generateSlideImage(prompt, imageAspectRatio, selectedImageModel, globalImageStyle);
-
-      // Use ref to get latest slides (avoids stale closure)
-      const currentSlides = slidesRef.current;
-      const slideIndex = currentSlides.findIndex(s => s.id === slideId);
+      // Variants run side by side through the request queue; one failure doesn't lose the others
+      const results = await Promise.allSettled(Array.from({ length: variantCount }, () =>
+        generateSlideImage(prompt, imageAspectRatio, selectedImageModel, globalImageStyle, referenceImages)
+      ));
+      const variants = results
+        .filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled')
+        .map(r => createImageVariant(r.value, 'generate', { prompt, model: selectedImageModel, style: globalImageStyle }));
+      const errors = results
+        .filter((r): r is PromiseRejectedResult => r.status === 'rejected' && !isAbortError(r.reason))
+        .map(r => r.reason);
+      errors.forEach(error => console.error(error));
+
+      if (variants.length > 0) {
+        // Use ref to get latest slides (avoids stale closure)
+        const currentSlides = slidesRef.current;
+        const slideIndex = currentSlides.findIndex(s => s.id === slideId);
+
+        // Handle case where slide was deleted during generation
+        if (slideIndex === -1) {
+          console.warn('Slide was deleted during image generation');
+          return;
+        }
 
-      // Handle case where slide was deleted during generation
-      if (slideIndex === -1) {
-        console.warn('Slide was deleted during image generation');
-        return;
+        const slide = currentSlides[slideIndex];
+        const newSlides = [...currentSlides];
+        const isStoryteller = style === CarouselStyle.STORYTELLER;
+        newSlides[slideIndex] = {
+            ...addImageVariants(slide, variants),
+            showImage: true,
+            imageScale: slide.imageScale || (isStoryteller ? 45 : 50),
+            overlayImage: isStoryteller ? true : undefined
+        };
+        labelNextChange(variants.length > 1 ? `Generate ${variants.length} image variants` : 'Generate image');
+        onUpdateSlides(newSlides);
       }
 
-      const slide = currentSlides[slideIndex];
-      const newSlides = [...currentSlides];
-      const isStoryteller = style === CarouselStyle.STORYTELLER;
-      newSlides[slideIndex] = {
-          ...slide,
-          showImage: true,
-          imageUrl: base64Image,
-          imageScale: slide.imageScale || (isStoryteller ? 45 : 50),
-          overlayImage: isStoryteller ? true : undefined
-      };
-      onUpdateSlides(newSlides);
-    } catch (error) {
-      console.error(error);
-      alert("Failed to generate image. Try again or check the console for details.");
+      if (errors.length > 0) {
+        alert(variants.length > 0
+          ? `${errors.length} of ${variantCount} images failed to generate. Check the console for details.`
+          : "Failed to generate image. Try again or check the console for details.");
+      }
     } finally {
       // Remove this slide from generating set
       setGeneratingSlideIds(prev => {
@@ -961,6 +1426,7 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
       };
       onUpdateSlides(newSlides);
     } catch (error) {
+      if (isAbortError(error)) return;  // Cancelled from the jobs panel
       console.error(error);
       alert("Failed to generate background image. Try again or check the console for details.");
     } finally {
@@ -979,18 +1445,19 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
   }, [globalImageStyle]);
 
   /**
-   * Generates images for multiple slides simultaneously.
+   * Generates images for all selected slides.
    *
-   * PATTERN: Promise.allSettled for parallel operations
-   * - All selected slides generate images concurrently
+   * PATTERN: Promise.allSettled over queued requests
+   * - Every selected slide is submitted at once; the request queue runs a few at a
+   *   time and retries rate limits, so large selections don't trip the API limits
    * - Individual failures don't stop other generations
    * - Per-slide status tracking shows progress in UI
    *
    * FLOW:
    * 1. Set all selected slides to "generating" status
-   * 2. Fire off all generation requests in parallel
-   * 3. Wait for ALL to complete (success or failure)
-   * 4. Update slides with successful images
+   * 2. Submit one image request per slide to the queue
+   * 3. Wait for ALL to complete (success, failure or cancelled from the jobs panel)
+   * 4. Update slides with successful images (latest slides, so edits made meanwhile are kept)
    * 5. Show success/error status for 3 seconds, then reset
    */
   const handleBatchGenerateImages = async () => {
@@ -1000,57 +1467,51 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
 
     // Capture the current image style at call time to use in all promises
     const currentImageStyle = globalImageStyleRef.current;
+    const slideIds: string[] = Array.from(selectedSlideIds);
 
     // Initialize all selected slides as "generating" for UI feedback
     const initialStatus: Record<string, 'idle' | 'generating' | 'success' | 'error'> = {};
-    selectedSlideIds.forEach(id => {
+    slideIds.forEach(id => {
       initialStatus[id] = 'generating';
     });
     setSlideGenerationStatus(initialStatus);
 
-    // Create array of generation promises (all run concurrently)
-    const generationPromises = Array.from(selectedSlideIds).map(async (slideId) => {
-      const slideIndex = slides.findIndex(s => s.id === slideId);
-      if (slideIndex === -1) return { slideId, success: false };
-
-      const slide = slides[slideIndex];
-      const prompt = slide.imagePrompt ||
-        `An abstract representation of: ${slide.content.substring(0, 50)}`;
-
-      try {
-        const base64Image = await generateSlideImage(prompt, imageAspectRatio, selectedImageModel, currentImageStyle);
-        return { slideId, success: true, imageUrl: base64Image };
-      } catch (error) {
-        console.error(`Failed to generate image for slide ${slideId}:`, error);
-        return { slideId, success: false };
-      }
+    // One queued request per slide
+    const prompts = slideIds.map(slideId => {
+      const slide = slides.find(s => s.id === slideId);
+      return slide?.imagePrompt || `An abstract representation of: ${slide?.content.substring(0, 50) ?? ''}`;
     });
+    const results = await Promise.allSettled(slideIds.map((slideId, i) =>
+      generateSlideImage(prompts[i], imageAspectRatio, selectedImageModel, currentImageStyle, referenceImages)
+    ));
 
-    // Execute all in parallel using Promise.allSettled
-    const results = await Promise.allSettled(generationPromises);
-
-    // Process results and update slides
-    const newSlides = [...slides];
+    // Process results and update the latest slides
+    const newSlides = [...slidesRef.current];
     const newStatus: Record<string, 'idle' | 'generating' | 'success' | 'error'> = {};
     const isStoryteller = style === CarouselStyle.STORYTELLER;
 
-    results.forEach((result) => {
-      if (result.status === 'fulfilled') {
-        const { slideId, success, imageUrl } = result.value;
-        newStatus[slideId] = success ? 'success' : 'error';
-
-        if (success && imageUrl) {
-          const slideIndex = newSlides.findIndex(s => s.id === slideId);
-          if (slideIndex !== -1) {
-            newSlides[slideIndex] = {
-              ...newSlides[slideIndex],
-              showImage: true,
-              imageUrl: imageUrl,
-              imageScale: newSlides[slideIndex].imageScale || (isStoryteller ? 45 : 50),
-              overlayImage: isStoryteller ? true : undefined
-            };
-          }
+    results.forEach((result, i) => {
+      const slideId = slideIds[i];
+      if (result.status === 'rejected') {
+        if (isAbortError(result.reason)) {
+          newStatus[slideId] = 'idle';
+        } else {
+          console.error(`Failed to generate image for slide ${slideId}:`, result.reason);
+          newStatus[slideId] = 'error';
         }
+        return;
+      }
+
+      newStatus[slideId] = 'success';
+      const slideIndex = newSlides.findIndex(s => s.id === slideId);
+      if (slideIndex !== -1) {
+        const variant = createImageVariant(result.value, 'generate', { prompt: prompts[i], model: selectedImageModel, style: currentImageStyle });
+        newSlides[slideIndex] = {
+          ...addImageVariants(newSlides[slideIndex], [variant]),
+          showImage: true,
+          imageScale: newSlides[slideIndex].imageScale || (isStoryteller ? 45 : 50),
+          overlayImage: isStoryteller ? true : undefined
+        };
       }
     });
 
@@ -1087,124 +1548,144 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
   };
 
   // ============================================================================
-  // PNG EXPORT (Download Logic)
+  // EXPORT (PNG / ZIP / PDF / VIDEO)
+  // Slides are rendered offscreen by services/exportService, so the editor
+  // preview never changes while an export runs
   // ============================================================================
 
   /**
-   * Waits for all <img> elements within an element to finish loading.
+   * Runs one export with the toolbar progress bar and Cancel button.
+   * Cancelling is silent; any other error is logged and alerted.
+   *
+   * @param task - The export; receives the AbortSignal wired to Cancel
+   * @param failureMessage - Alert prefix shown before the error message
    */
-  const waitForImages = (element: HTMLElement): Promise<void> => {
-      return new Promise((resolve) => {
-          const images = element.querySelectorAll('img');
-
-          if (images.length === 0) {
-              resolve();
-              return;
-          }
-
-          let loaded = 0;
-          const total = images.length;
+  const runExportTask = async (task: (signal: AbortSignal) => Promise<void>, failureMessage: string) => {
+      if (exportAbortRef.current) return;
 
-          const checkDone = () => {
-              loaded++;
-              if (loaded >= total) resolve();
-          };
+      const controller = new AbortController();
+      exportAbortRef.current = controller;
+      setExportProgress({ completed: 0, total: 1 });
 
-          images.forEach((img) => {
-              if (img.complete && img.naturalHeight > 0) {
-                  checkDone();
-              } else {
-                  img.onload = checkDone;
-                  img.onerror = checkDone;
-              }
-          });
-
-          // Safety timeout
-          setTimeout(resolve, 3000);
-      });
+      try {
+          await task(controller.signal);
+      } catch (err: any) {
+          if (!isAbortError(err)) {
+              console.error("Export failed:", err);
+              alert(`${failureMessage} ${err.message || 'Please try again.'}`);
+          }
+      } finally {
+          exportAbortRef.current = null;
+          setExportProgress(null);
+      }
   };
 
   /**
-   * Captures the visible preview element as a PNG image.
-   * Waits for all images to load before capturing.
+   * Renders and captures the given slides offscreen (progress goes to the toolbar).
+   *
+   * @param indices - Slide indices to export (in output order)
+   * @param collect - Optional extra data to read from each mounted slide
    */
-  const captureSlide = async (): Promise<Blob | null> => {
-      const element = document.getElementById('preview-slide-capture');
-      if (!element) return null;
-
-      await waitForImages(element);
-
-      const bgColor = theme === 'DARK' ? '#0a0a0a' : '#FFFFFF';
-
-      try {
-          const dataUrl = await window.htmlToImage.toPng(element, {
-              width: PREVIEW_WIDTH,
-              height: previewHeight,
-              backgroundColor: bgColor,
-              pixelRatio: 1,
-              skipFonts: false,
-              cacheBust: true
-          });
-
-          const response = await fetch(dataUrl);
-          return await response.blob();
-      } catch (err) {
-          console.error("Capture failed:", err);
-          return null;
-      }
+  const captureSlides = <T = undefined>(
+      indices: number[],
+      signal: AbortSignal,
+      collect?: (element: HTMLElement, index: number) => T
+  ): Promise<ExportedSlide<T>[]> => {
+      const exportedSlides = slidesRef.current;
+      return exportSlides<T>({
+          count: indices.length,
+          render: (i) => renderSlide(exportedSlides[indices[i]], indices[i], true),
+          width: PREVIEW_WIDTH,
+          height: previewHeight,
+          backgroundColor: theme === 'DARK' ? '#0a0a0a' : '#FFFFFF',
+          signal,
+          onProgress: setExportProgress,
+          collect: collect ? (element, i) => collect(element, indices[i]) : undefined
+      });
   };
 
-  const handleDownloadSlide = async () => {
-      if (isDownloading) return;
-      setIsDownloading(true);
-
-      // Capture the visible preview directly
-      const blob = await captureSlide();
-
-      if (blob) {
-          window.saveAs(blob, `slide-${activeIndex + 1}.png`);
-      } else {
-          alert("Could not generate image. Please try again.");
-      }
-      setIsDownloading(false);
+  const handleCancelExport = () => {
+      exportAbortRef.current?.abort();
   };
 
-  const handleDownloadCarousel = async () => {
-      if (isDownloading) return;
-      setIsDownloading(true);
-
-      const zip = new window.JSZip();
-      const originalActiveId = activeSlideId;
-
-      for (let i = 0; i < slides.length; i++) {
-          const slide = slides[i];
+  const handleDownloadSlide = () => runExportTask(async (signal) => {
+      const [exported] = await captureSlides([activeIndex], signal);
+      window.saveAs(await dataUrlToBlob(exported.dataUrl), `slide-${activeIndex + 1}.png`);
+  }, "Could not generate image.");
 
-          // Switch to this slide and wait for React to re-render
-          setActiveSlideId(slide.id);
-          await new Promise(resolve => setTimeout(resolve, 300));
+  const handleDownloadCarousel = () => runExportTask(async (signal) => {
+      const result = await captureSlides(slides.map((_, i) => i), signal);
 
-          const blob = await captureSlide();
-          if (blob) {
-              zip.file(`slide-${i + 1}.png`, blob);
-          }
+      const zip = new window.JSZip();
+      for (const exported of result) {
+          zip.file(`slide-${exported.index + 1}.png`, await dataUrlToBlob(exported.dataUrl));
       }
 
-      // Restore original active slide
-      setActiveSlideId(originalActiveId);
+      // Post copy, ready to paste when publishing
+      const postText = formatPostText(caption, hashtags);
+      if (postText) zip.file('caption.txt', postText);
+      zip.file('alt-text.json', buildAltTextManifest(slidesRef.current));
 
       const content = await zip.generateAsync({ type: "blob" });
       window.saveAs(content, "instagram-carousel.zip");
+  }, "Could not generate images.");
+
+  /**
+   * Exports every slide as one page of a PDF (LinkedIn document posts).
+   * Each page is the slide image plus an invisible, selectable text layer.
+   */
+  const handleDownloadPdf = () => runExportTask(async (signal) => {
+      const result = await captureSlides(
+          slides.map((_, i) => i),
+          signal,
+          (element) => extractTextLayer(element, PREVIEW_WIDTH)
+      );
+
+      const pdf = await createCarouselPdf(
+          result.map(exported => ({ imageDataUrl: exported.dataUrl, textRuns: exported.extra })),
+          { width: PREVIEW_WIDTH, height: previewHeight, title: projectName, author: profile.name }
+      );
+      window.saveAs(pdf, `${exportFileName}.pdf`);
+  }, "Could not generate PDF.");
 
-      setIsDownloading(false);
+  /**
+   * Exports the carousel as an MP4 or GIF (Reels / TikTok).
+   * Settings come from the VideoExportDialog; rendering reuses the offscreen capture.
+   */
+  const handleExportVideo = (format: VideoFormat, timings: VideoSlideTiming[], audio: File | null) => {
+      setShowVideoExport(false);
+
+      runExportTask(async (signal) => {
+          const exportedSlides = slidesRef.current;
+          const result = await captureSlides(
+              exportedSlides.map((_, i) => i),
+              signal,
+              (element, index) => findImageRegion(element, exportedSlides[index].imageUrl)
+          );
+
+          const video = await renderVideo(
+              result.map((exported, i) => ({
+                  dataUrl: exported.dataUrl,
+                  imageRegion: exported.extra,
+                  ...timings[i]
+              })),
+              {
+                  format,
+                  width: PREVIEW_WIDTH,
+                  height: previewHeight,
+                  audio,
+                  signal,
+                  onProgress: setExportProgress
+              }
+          );
+          window.saveAs(video, `${exportFileName}.${format}`);
+      }, "Could not generate video.");
   };
 
-  const handleSaveApiKey = () => {
-    if (apiKeyInput.trim()) {
-      setApiKey(apiKeyInput.trim());
-      setApiKeyDisplay(getApiKeyMasked());
-      setApiKeyInput('');
-      setShowApiKeyInput(false);
-    }
+  // Model names differ per provider: reset the selection to the new provider's Pro tier
+  const handleProviderChange = () => {
+    setSelectedImageModel(getModels().imagePro.id);
+    setImageModelOptions(getModelOptions('image'));
   };
 
   const handleSaveApifyKey = () => {
@@ -1243,7 +1724,7 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
   };
   const previewHeight = getPreviewHeight();
 
-  const renderSlide = (slide: Slide, idx: number, isExport: boolean) => {
+  const renderSlide = (slide: Slide, idx: number, isExport: boolean, onTextFitChange?: (fit: TextFit) => void) => {
       // Per-slide theme override (if set) takes precedence over global theme
       const effectiveTheme = slide.theme || theme;
 
@@ -1260,7 +1741,8 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
         forExport: isExport,
         fontStyle: fontStyle,
         fontScale: fontScale,
-        layoutSettings: layoutSettings
+        layoutSettings: layoutSettings,
+        onTextFitChange
       };
 
       if (style === CarouselStyle.STORYTELLER) {
@@ -1269,6 +1751,9 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
       if (style === CarouselStyle.LESSON) {
           return <LessonSlide {...commonProps} />;
       }
+      if (style === CarouselStyle.APPLE_NOTES) {
+          return <AppleNotesSlide {...commonProps} noteDate={createdAt} />;
+      }
       return <TwitterSlide {...commonProps} />;
   };
 
@@ -1331,6 +1816,23 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
         </div>
       )}
 
+      {/* Video Export Settings */}
+      {showVideoExport && (
+        <VideoExportDialog
+          slides={slides}
+          onExport={handleExportVideo}
+          onClose={() => setShowVideoExport(false)}
+        />
+      )}
+
+      {/* AI Usage Dashboard */}
+      {showUsageDashboard && (
+        <UsageDashboard
+          currentProjectId={projectId}
+          onClose={() => setShowUsageDashboard(false)}
+        />
+      )}
+
       {/* Image Upload Modal */}
       {showUploadModal && pendingUploadImage && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
@@ -1484,6 +1986,7 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                   isSelected={selectedSlideIds.has(slide.id)}
                   generationStatus={slideGenerationStatus[slide.id]}
                   isGenerating={generatingSlideIds.has(slide.id)}
+                  textOverflows={isTextOverflowing(textFits[slide.id]?.fit)}
                   onSelect={() => setActiveSlideId(slide.id)}
                   onToggleSelection={() => toggleSlideSelection(slide.id)}
                   onDelete={() => handleDeleteSlide(slide.id)}
@@ -1492,6 +1995,33 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
               ))}
             </SortableContext>
           </DndContext>
+          {/* Slides still being written by a streamed generation */}
+          {isStreaming && generation && (
+            <>
+              {Array.from({ length: Math.max(0, generation.expected - generation.received) }, (_, i) => (
+                <div
+                  key={`pending-${i}`}
+                  className="p-3 rounded-lg border border-dashed border-border text-muted-foreground animate-pulse"
+                >
+                  <span className="text-xs font-semibold uppercase tracking-wider opacity-70">
+                    Slide {generation.received + i + 1}
+                  </span>
+                  <div className="h-3 mt-2 rounded bg-secondary w-3/4" />
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-2 pt-1">
+                <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Writing slide {Math.min(generation.received + 1, generation.expected)} of {generation.expected}...
+                </span>
+                {onCancelGeneration && (
+                  <Button variant="ghost" size="sm" onClick={onCancelGeneration} className="text-xs h-7">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
         </div>
         <div className="p-4 border-t border-border">
            <Button variant="ghost" onClick={onBack} className="text-muted-foreground hover:text-foreground text-sm">
@@ -1507,10 +2037,22 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
         {/* Toolbar */}
         <div className="h-16 border-b border-border bg-card px-6 flex items-center justify-between flex-shrink-0 z-20">
             <div className="flex items-center gap-6">
-                 <div>
-                    <h1 className="font-bold text-xl">Workspace</h1>
-                    <span className="text-xs text-muted-foreground">
+                 <div className="min-w-0">
+                    <h1 className="font-bold text-xl truncate max-w-[240px]" title={projectName}>{projectName}</h1>
+                    <span className="text-xs text-muted-foreground flex items-center gap-1">
                         {aspectRatio === '1/1' ? 'Square 1:1' : 'Portrait 4:5'} (1080px)
+                        <span className="mx-1">·</span>
+                        {saveStatus === 'error' ? (
+                            <span className="flex items-center gap-1 text-destructive" title="Autosave failed - export your project to keep a copy">
+                                <CloudOff className="h-3 w-3" />
+                                Not saved
+                            </span>
+                        ) : (
+                            <span className="flex items-center gap-1">
+                                <Cloud className="h-3 w-3" />
+                                {saveStatus === 'saving' ? 'Saving...' : 'Saved'}
+                            </span>
+                        )}
                     </span>
                  </div>
 
@@ -1528,6 +2070,66 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                  </div>
             </div>
             <div className="flex space-x-3 items-center">
+                 {/* Undo / Redo / History */}
+                 <div className="flex items-center gap-1 relative">
+                    <Button variant="ghost" size="icon" onClick={handleUndo} disabled={!canUndo(history)} title="Undo (Ctrl+Z)">
+                        <Undo2 className="h-5 w-5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={handleRedo} disabled={!canRedo(history)} title="Redo (Ctrl+Shift+Z)">
+                        <Redo2 className="h-5 w-5" />
+                    </Button>
+                    <Button
+                        variant={showHistoryPanel ? 'secondary' : 'ghost'}
+                        size="icon"
+                        onClick={() => setShowHistoryPanel(!showHistoryPanel)}
+                        title="Edit history"
+                    >
+                        <History className="h-5 w-5" />
+                    </Button>
+                    {showHistoryPanel && (
+                        <HistoryPanel
+                            entries={history.entries}
+                            currentIndex={history.index}
+                            onJump={restoreHistoryEntry}
+                            onClose={() => setShowHistoryPanel(false)}
+                        />
+                    )}
+                 </div>
+                 {/* AI request queue */}
+                 <div className="relative">
+                    <Button
+                        variant={showJobsPanel ? 'secondary' : 'ghost'}
+                        size="icon"
+                        onClick={() => setShowJobsPanel(!showJobsPanel)}
+                        title="AI requests"
+                        className="relative"
+                    >
+                        <ListChecks className="h-5 w-5" />
+                        {activeJobCount > 0 && (
+                            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4 font-bold">
+                                {activeJobCount}
+                            </span>
+                        )}
+                    </Button>
+                    {showJobsPanel && (
+                        <JobsPanel
+                            jobs={jobs}
+                            onCancel={cancelJob}
+                            onClearFinished={clearFinishedJobs}
+                            onClose={() => setShowJobsPanel(false)}
+                        />
+                    )}
+                 </div>
+                 {/* AI usage and budget */}
+                 <Button
+                    variant={showUsageDashboard ? 'secondary' : 'ghost'}
+                    size="icon"
+                    onClick={() => setShowUsageDashboard(true)}
+                    title="AI usage and costs"
+                 >
+                    <Coins className="h-5 w-5" />
+                 </Button>
+                 <div className="w-px bg-border h-8"></div>
                  {/* Editor Theme Toggle */}
                  {onEditorThemeToggle && (
                     <Button
@@ -1564,22 +2166,70 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                     <Save className="h-4 w-4 mr-2" />
                     Export
                  </Button>
-                 <div className="w-px bg-border h-8"></div>
                  <Button
                    variant="outline"
-                   onClick={handleDownloadSlide}
-                   disabled={isDownloading}
-                 >
-                    <FileDown className="h-4 w-4 mr-2" />
-                    {isDownloading ? '...' : 'Download Slide'}
-                 </Button>
-                 <Button
-                   onClick={handleDownloadCarousel}
-                   disabled={isDownloading}
+                   size="icon"
+                   onClick={handleSaveAsTemplate}
+                   title="Save as template"
                  >
-                    <FolderDown className="h-4 w-4 mr-2" />
-                    {isDownloading ? 'Zipping...' : 'Download Carousel'}
+                    <LayoutTemplate className="h-4 w-4" />
                  </Button>
+                 <div className="w-px bg-border h-8"></div>
+                 {exportProgress ? (
+                   <>
+                     {/* Export progress (slides render offscreen, the editor stays usable) */}
+                     <div className="flex items-center gap-3 min-w-[180px]">
+                       <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                       <div className="flex-1">
+                         <div className="text-xs text-muted-foreground mb-1">
+                           {exportProgress.stage || 'Exporting'} {Math.round((exportProgress.completed / exportProgress.total) * 100)}%
+                         </div>
+                         <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                           <div
+                             className="h-full bg-primary transition-all duration-300"
+                             style={{ width: `${(exportProgress.completed / exportProgress.total) * 100}%` }}
+                           />
+                         </div>
+                       </div>
+                     </div>
+                     <Button variant="outline" onClick={handleCancelExport}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                     </Button>
+                   </>
+                 ) : (
+                   <>
+                     <Button
+                       variant="outline"
+                       onClick={handleDownloadSlide}
+                     >
+                        <FileDown className="h-4 w-4 mr-2" />
+                        Download Slide
+                     </Button>
+                     <Button
+                       variant="outline"
+                       onClick={handleDownloadPdf}
+                       title="One page per slide, for LinkedIn document posts"
+                     >
+                        <FileText className="h-4 w-4 mr-2" />
+                        Download PDF
+                     </Button>
+                     <Button
+                       variant="outline"
+                       onClick={() => setShowVideoExport(true)}
+                       title="MP4 or GIF for Reels and TikTok"
+                     >
+                        <Film className="h-4 w-4 mr-2" />
+                        Video
+                     </Button>
+                     <Button
+                       onClick={handleDownloadCarousel}
+                     >
+                        <FolderDown className="h-4 w-4 mr-2" />
+                        Download Carousel
+                     </Button>
+                   </>
+                 )}
             </div>
         </div>
 
@@ -1641,13 +2291,48 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                         <Settings className="h-3 w-3 mr-1.5" />
                         Global
                     </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSidebarView('post')}
+                        className={cn(
+                            "flex-1 px-3 py-1.5 text-xs font-semibold",
+                            sidebarView === 'post' ? 'bg-primary text-primary-foreground shadow' : 'text-muted-foreground hover:text-foreground'
+                        )}
+                    >
+                        <Hash className="h-3 w-3 mr-1.5" />
+                        Post
+                    </Button>
                 </div>
 
+                {/* Post Copy Section (caption, hashtags, alt text) */}
+                {sidebarView === 'post' && (
+                    <PostCopyPanel
+                        slides={slides}
+                        activeSlideId={activeSlideId}
+                        caption={caption}
+                        hashtags={hashtags}
+                        isGenerating={isWritingPostCopy || isStreaming}
+                        onCaptionChange={setCaption}
+                        onHashtagsChange={setHashtags}
+                        onAltTextChange={handleAltTextChange}
+                        onSelectSlide={setActiveSlideId}
+                        onGenerate={handleGeneratePostCopy}
+                    />
+                )}
+
                 {/* Global Settings Section */}
                 {sidebarView === 'global' && (
                 <div className="mb-6 border-b border-border pb-6">
                     <h3 className="text-xs uppercase tracking-wider text-muted-foreground font-semibold mb-4">Global Settings</h3>
 
+                    <BrandKitPanel
+                        activeKitId={brandKitId}
+                        currentSettings={{ profile, theme, accentColor, fontStyle, fontScale, headerScale, layoutSettings, globalImageStyle }}
+                        onApply={handleApplyBrandKit}
+                        className="mb-4"
+                    />
+
                     {/* Style Conversion */}
                     {onStyleChange && (
                         <div className="mb-4 p-3 bg-secondary rounded-lg">
@@ -1664,53 +2349,20 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                                         <SelectItem value={CarouselStyle.TWITTER}>Twitter</SelectItem>
                                         <SelectItem value={CarouselStyle.STORYTELLER}>Storyteller</SelectItem>
                                         <SelectItem value={CarouselStyle.LESSON}>Lesson</SelectItem>
+                                        <SelectItem value={CarouselStyle.APPLE_NOTES}>Apple Notes</SelectItem>
                                     </SelectContent>
                                 </Select>
                             </div>
                         </div>
                     )}
 
-                    {/* API Key Management */}
-                    <div className="mb-4 p-3 bg-secondary rounded-lg">
-                      <div className="flex items-center justify-between mb-2">
-                        <Label className="text-sm font-medium">Gemini API Key</Label>
-                        <Button
-                          variant="link"
-                          size="sm"
-                          onClick={() => setShowApiKeyInput(!showApiKeyInput)}
-                          className="text-xs text-primary p-0 h-auto"
-                        >
-                          {showApiKeyInput ? 'Cancel' : 'Change'}
-                        </Button>
-                      </div>
-                      {!showApiKeyInput ? (
-                        <div className="text-xs text-muted-foreground font-mono">
-                          {apiKeyDisplay || 'Not set'}
-                        </div>
-                      ) : (
-                        <div className="space-y-2">
-                          <Input
-                            type="password"
-                            value={apiKeyInput}
-                            onChange={(e) => setApiKeyInput(e.target.value)}
-                            placeholder="Enter your Gemini API key"
-                          />
-                          <Button
-                            onClick={handleSaveApiKey}
-                            disabled={!apiKeyInput.trim()}
-                            className="w-full"
-                            size="sm"
-                          >
-                            Save API Key
-                          </Button>
-                        </div>
-                      )}
-                    </div>
+                    {/* AI Provider & API Key */}
+                    <AIProviderSettings onChange={handleProviderChange} className="mb-4 p-3 rounded-lg" />
 
-                    {/* Apify API Key (for Instagram) */}
+                    {/* Apify API Key (for social posts) */}
                     <div className="bg-muted/50 rounded-lg p-3 mb-4">
                       <div className="flex items-center justify-between mb-2">
-                        <Label className="text-sm font-medium">Apify API Token <span className="text-muted-foreground font-normal text-xs">(Instagram)</span></Label>
+                        <Label className="text-sm font-medium">Apify API Token <span className="text-muted-foreground font-normal text-xs">(Social posts)</span></Label>
                         <Button
                           variant="link"
                           size="sm"
@@ -1894,6 +2546,20 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                         />
                     </div>
 
+                    {/* Auto-fit Toggle */}
+                    <div className="mb-4">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-sm font-medium">Auto-fit Text</Label>
+                            <Switch
+                                checked={autoFitText}
+                                onCheckedChange={setAutoFitText}
+                            />
+                        </div>
+                        <p className="text-[10px] text-muted-foreground mt-1">
+                            Shrinks the font size of slides whose text overflows (down to {Math.round(MIN_AUTO_FIT_SCALE * 100)}%).
+                        </p>
+                    </div>
+
                     {/* Layout Settings */}
                     <div className="mb-4 p-3 bg-secondary rounded-lg">
                         <Label className="text-sm font-medium mb-3 block">Layout</Label>
@@ -1985,6 +2651,13 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                         <p className="text-[10px] text-muted-foreground mt-1">Applied to all AI-generated images</p>
                     </div>
 
+                    {/* Reference Images (subject consistency across slides) */}
+                    <ReferenceImagesPanel
+                        images={referenceImages}
+                        avatarUrl={profile.avatarUrl}
+                        onChange={setReferenceImages}
+                    />
+
                     {/* AI Content Refinement (Global) */}
                     <div className="p-3 bg-secondary rounded-lg">
                         <Label className="text-sm font-medium mb-2 block">
@@ -2015,6 +2688,7 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                                 </>
                             )}
                         </Button>
+                        <p className="text-[10px] text-muted-foreground mt-1">Keeps the {getFramework(framework).name} structure</p>
                     </div>
                 </div>
                 )}
@@ -2033,18 +2707,72 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                     <div className="w-px bg-border mx-1"></div>
                     <Button variant="ghost" size="sm" onClick={() => insertMarkdown('# ')} className="p-1.5 text-muted-foreground hover:text-foreground font-bold text-xs" title="Heading 1">H1</Button>
                     <Button variant="ghost" size="sm" onClick={() => insertMarkdown('## ')} className="p-1.5 text-muted-foreground hover:text-foreground font-bold text-xs" title="Heading 2">H2</Button>
+                    <Button variant="ghost" size="sm" onClick={() => insertMarkdown('### ')} className="p-1.5 text-muted-foreground hover:text-foreground font-bold text-xs" title="Heading 3">H3</Button>
+                    <Button variant="ghost" size="sm" onClick={() => insertMarkdown('> ')} className="p-1.5 text-muted-foreground hover:text-foreground text-xs" title="Quote">❝</Button>
                     <div className="w-px bg-border mx-1"></div>
                     <Button variant="ghost" size="sm" onClick={() => insertMarkdown('- ')} className="p-1.5 text-muted-foreground hover:text-foreground text-xs" title="Bullet List">• List</Button>
+                    <Button variant="ghost" size="sm" onClick={() => insertMarkdown('- [ ] ')} className="p-1.5 text-muted-foreground hover:text-foreground text-xs" title="Checklist Item">☐ Task</Button>
                 </div>
 
                 <Textarea
                     ref={textAreaRef}
+                    data-history-field
                     className="w-full min-h-[8rem] mb-3 resize-y font-mono"
                     value={activeSlide.content}
                     onChange={(e) => handleTextChange(e.target.value)}
                     placeholder="Enter text (Markdown supported)..."
                 />
 
+                {/* Source documents the AI took this slide from (multi-document generation) */}
+                {activeSlide.sources && activeSlide.sources.length > 0 && (
+                    <p className="flex items-center gap-1.5 text-xs text-muted-foreground mb-3" title="Documents this slide's content came from">
+                        <FileText className="h-3.5 w-3.5 shrink-0" />
+                        <span className="truncate">From {activeSlide.sources.join(', ')}</span>
+                    </p>
+                )}
+
+                {/* Part of the transcript (SRT/VTT upload) this slide summarizes */}
+                {activeSlide.timeRange && (
+                    <p className="flex items-center gap-1.5 text-xs text-muted-foreground mb-3" title="Part of the recording this slide summarizes">
+                        <Clock className="h-3.5 w-3.5 shrink-0" />
+                        <span>{activeSlide.timeRange}</span>
+                    </p>
+                )}
+
+                {/* Overflow Warning */}
+                {isTextOverflowing(activeTextFit) && (
+                    <div className="mb-3 p-3 rounded-lg border border-amber-500/40 bg-amber-500/10">
+                        <div className="flex items-center gap-1.5 text-xs text-amber-600 font-medium mb-2">
+                            <AlertTriangle className="h-3.5 w-3.5" />
+                            Text overflows the slide by {activeTextFit!.contentHeight - activeTextFit!.availableHeight}px
+                        </div>
+                        <div className="flex gap-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleShrinkToFit}
+                                disabled={fittingSlideIds.has(activeSlide.id) || (activeSlide.fontScale ?? fontScale) <= MIN_AUTO_FIT_SCALE}
+                                className="flex-1 text-xs"
+                                title={`Lower this slide's font size until the text fits (down to ${Math.round(MIN_AUTO_FIT_SCALE * 100)}%)`}
+                            >
+                                {fittingSlideIds.has(activeSlide.id) ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Shrink className="h-3 w-3 mr-1" />}
+                                Shrink to Fit
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleShortenToFit}
+                                disabled={isRefining}
+                                className="flex-1 text-xs"
+                                title="Ask the AI to shorten this slide"
+                            >
+                                {isRefining ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Sparkles className="h-3 w-3 mr-1" />}
+                                Shorten with AI
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Per-Slide AI Refinement */}
                 <div className="mb-4 flex gap-2">
                     <Input
@@ -2831,6 +3559,34 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                              </div>
                         )}
 
+                        {/* Image history filmstrip (restore or remove earlier images) */}
+                        {activeSlide.imageVariants && activeSlide.imageVariants.length > 0 && (
+                            <ImageVariantStrip
+                                variants={activeSlide.imageVariants}
+                                currentUrl={activeSlide.imageUrl}
+                                onRestore={(variantId) => {
+                                    labelNextChange(`Restore image on slide ${activeIndex + 1}`);
+                                    const newSlides = [...slides];
+                                    newSlides[activeIndex] = restoreImageVariant(activeSlide, variantId);
+                                    onUpdateSlides(newSlides);
+                                }}
+                                onRemove={(variantId) => {
+                                    const newSlides = [...slides];
+                                    newSlides[activeIndex] = removeImageVariant(activeSlide, variantId);
+                                    onUpdateSlides(newSlides);
+                                }}
+                            />
+                        )}
+
+                        {/* Images from the source document (DOCX, PPTX, EPUB, HTML) */}
+                        {documentImages.length > 0 && (
+                            <DocumentImagePicker
+                                images={documentImages}
+                                onPick={(image) => openUploadModal(image.imageUrl, image.name)}
+                                onRemove={(imageId) => setDocumentImages(prev => prev.filter(image => image.id !== imageId))}
+                            />
+                        )}
+
                         <div className="grid grid-cols-2 gap-2 mb-4">
                             <Button
                                 variant="secondary"
@@ -2860,14 +3616,14 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                                 ) : (
                                     <>
                                         <Sparkles className="h-4 w-4 mr-2" />
-                                        AI Generate
+                                        AI Generate{variantCount > 1 ? ` ×${variantCount}` : ''}
                                     </>
                                 )}
                             </Button>
                         </div>
 
-                         {/* Model & Aspect Ratio Selectors for Image */}
-                         <div className="grid grid-cols-2 gap-2 mb-4">
+                         {/* Model, Aspect Ratio & Variant Count Selectors for Image */}
+                         <div className="grid grid-cols-3 gap-2 mb-4">
                              <div>
                                  <Label className="text-xs text-muted-foreground block mb-1">AI Model</Label>
                                  <Select value={selectedImageModel} onValueChange={setSelectedImageModel}>
@@ -2875,8 +3631,9 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                                         <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        <SelectItem value={IMAGE_MODEL_PRO}>Pro (Best)</SelectItem>
-                                        <SelectItem value={IMAGE_MODEL_FLASH}>Flash (Fast)</SelectItem>
+                                        {imageModelOptions.map(option => (
+                                            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                                        ))}
                                     </SelectContent>
                                  </Select>
                             </div>
@@ -2894,6 +3651,19 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                                     </SelectContent>
                                  </Select>
                             </div>
+                            <div>
+                                 <Label className="text-xs text-muted-foreground block mb-1">Variants</Label>
+                                 <Select value={String(variantCount)} onValueChange={(value) => setVariantCount(Number(value))}>
+                                    <SelectTrigger className="text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {[1, 2, 3, 4].map(n => (
+                                            <SelectItem key={n} value={String(n)}>{n} image{n === 1 ? '' : 's'}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                 </Select>
+                            </div>
                         </div>
 
                          {/* Image Controls: Height & Offset & Gradient */}
@@ -2964,8 +3734,8 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                                             </div>
                                             <Slider
                                                 value={[activeSlide.imageCanvasOffset ?? layoutSettings.imageCanvasOffset]}
-                                                min={-200}
-                                                max={200}
+                                                min={-IMAGE_CANVAS_OFFSET_LIMIT}
+                                                max={IMAGE_CANVAS_OFFSET_LIMIT}
                                                 step={10}
                                                 onValueChange={(value) => {
                                                     const newSlides = [...slides];
@@ -3006,6 +3776,7 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
                         <div className="mt-3">
                              <Label className="text-xs text-muted-foreground block mb-1">Prompt override</Label>
                              <Textarea
+                                data-history-field
                                 className="w-full h-16 text-xs resize-none"
                                 placeholder="Describe image..."
                                 value={activeSlide.imagePrompt || ''}
@@ -3025,6 +3796,15 @@ const Workspace: React.FC<WorkspaceProps> = ({ slides, profile, style, aspectRat
         </div>
 
       </div>
+
+      {/* Text fit check: every slide rendered as exported, outside the viewport */}
+      <div aria-hidden="true" className="fixed pointer-events-none" style={{ left: '-100000px', top: 0 }}>
+        {slides.map((slide, idx) => (
+          <div key={slide.id} style={{ width: `${PREVIEW_WIDTH}px`, height: `${previewHeight}px`, overflow: 'hidden' }}>
+            {renderSlide(slide, idx, true, fit => handleTextFitChange(slide, fit))}
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
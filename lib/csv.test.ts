@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvRecords, toCsv } from './csv';
+
+const fields = (text: string) => parseCsvRecords(text).map(record => record.fields);
+
+describe('parseCsvRecords', () => {
+  it('splits rows and fields', () => {
+    expect(fields('topic,slides\nHabits,7\nFocus,5')).toEqual([['topic', 'slides'], ['Habits', '7'], ['Focus', '5']]);
+  });
+
+  it('keeps commas, line breaks and doubled quotes inside quoted fields', () => {
+    expect(fields('topic,notes\n"Habits, part 1","Line one\nLine two"\n"The ""one"" thing",')).toEqual([
+      ['topic', 'notes'],
+      ['Habits, part 1', 'Line one\nLine two'],
+      ['The "one" thing', '']
+    ]);
+  });
+
+  it('handles a BOM, Windows line endings and skips blank lines', () => {
+    expect(fields('\uFEFFtopic\r\nHabits\r\n\r\n,\r\nFocus\r\n')).toEqual([['topic'], ['Habits'], ['Focus']]);
+  });
+
+  it('reports the line each record starts on', () => {
+    const text = 'topic,notes\r\n\r\n"Habits","one\r\ntwo\r\nthree"\r\nFocus,x\n\nSleep,y';
+    expect(parseCsvRecords(text).map(record => record.line)).toEqual([1, 3, 6, 8]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(toCsv([['line', 'topic'], [2, 'Plain'], [3, 'Say "hi", then\nleave']]))
+      .toBe('line,topic\r\n2,Plain\r\n3,"Say ""hi"", then\nleave"');
+  });
+
+  it('round-trips through parseCsvRecords', () => {
+    const rows = [
+      ['topic', 'message'],
+      ['Commas, quotes "and" more', 'multi\nline\r\ncell'],
+      ['', 'trailing empty first field'],
+      ['unicode ✓', '']
+    ];
+    expect(fields(toCsv(rows))).toEqual(rows);
+  });
+});
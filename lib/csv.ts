@@ -0,0 +1,78 @@
+/**
+ * CSV Helpers
+ *
+ * Minimal RFC 4180 reading and writing for content calendars and batch reports:
+ * quoted fields may contain commas, line breaks and doubled quotes ("").
+ * Spreadsheet exports with a UTF-8 BOM or Windows line endings are handled.
+ */
+
+export interface CsvRecord {
+  fields: string[];
+  line: number;                  // Line of the file the record starts on (1-based)
+}
+
+/**
+ * Parses CSV text into records with the line each starts on, so problems can
+ * be reported against the file even when blank lines are skipped or quoted
+ * fields span several lines. Fully empty lines are skipped.
+ */
+export const parseCsvRecords = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) records.push({ fields: row, line: rowLine });
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // Line breaks inside quotes belong to the field but still count as lines
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return records;
+};
+
+// Quotes a field only when it needs it
+const formatField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats rows (header first) as CSV text with Windows line endings, which
+ * spreadsheet apps open most reliably.
+ */
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(formatField).join(',')).join('\r\n');
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describePages,
+  describeSections,
+  formatPageRanges,
+  getDocumentOutline,
+  getSectionsText,
+  getSectionWithSubsections,
+  parsePageRanges
+} from './documentOutline';
+
+const DOCUMENT = [
+  'Some intro text.',
+  '',
+  '# Pricing',
+  'Plans and prices.',
+  '## **Enterprise** ##',
+  'Call us.',
+  '```',
+  '# not a heading',
+  '```',
+  '# FAQ',
+  'Questions.'
+].join('\n');
+
+describe('getDocumentOutline', () => {
+  it('splits at headings, skipping the ones inside code fences', () => {
+    const outline = getDocumentOutline(DOCUMENT);
+
+    expect(outline.map(({ title, level }) => [title, level])).toEqual([
+      ['Introduction', 0],
+      ['Pricing', 1],
+      ['Enterprise', 2],
+      ['FAQ', 1]
+    ]);
+    expect(DOCUMENT.slice(outline[2].start, outline[2].end)).toBe('## **Enterprise** ##\nCall us.\n```\n# not a heading\n```\n');
+    expect(outline[3].end).toBe(DOCUMENT.length);
+  });
+
+  it('has no introduction when the document starts with a heading', () => {
+    expect(getDocumentOutline('# Title\nText').map(section => section.title)).toEqual(['Title']);
+  });
+
+  it('makes a document without headings a single section, and an empty one none', () => {
+    expect(getDocumentOutline('Just text\nmore text')).toEqual([{ title: 'Introduction', level: 0, start: 0, end: 19 }]);
+    expect(getDocumentOutline('  \n')).toEqual([]);
+  });
+
+  it('does not treat "#hashtag" lines as headings', () => {
+    expect(getDocumentOutline('#hashtag\n# Real')).toHaveLength(2);
+  });
+});
+
+describe('sections', () => {
+  const outline = getDocumentOutline(DOCUMENT);
+
+  it('selects a heading with the headings nested under it', () => {
+    expect(getSectionWithSubsections(outline, 1)).toEqual([1, 2]);
+    expect(getSectionWithSubsections(outline, 2)).toEqual([2]);
+    expect(getSectionWithSubsections(outline, 0)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('joins the selected sections in document order', () => {
+    expect(getSectionsText(DOCUMENT, outline, [3, 0])).toBe('Some intro text.\n\n# FAQ\nQuestions.');
+  });
+
+  it('describes the selection', () => {
+    expect(describeSections(outline, [1])).toBe('section "Pricing"');
+    expect(describeSections(outline, [0, 1, 2, 3])).toBe('sections "Introduction", "Pricing", "Enterprise" and 1 more');
+  });
+});
+
+describe('parsePageRanges', () => {
+  it('parses pages, ranges and open-ended ranges', () => {
+    expect(parsePageRanges('1-3, 9, 12-', 14)).toEqual([1, 2, 3, 9, 12, 13, 14]);
+  });
+
+  it('accepts en dashes, semicolons, spaces and overlaps', () => {
+    expect(parsePageRanges(' 2 – 4 ; 3-5 ,', 10)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('rejects empty input, pages out of range and malformed parts', () => {
+    expect(parsePageRanges('', 10)).toBeNull();
+    expect(parsePageRanges(' , ', 10)).toBeNull();
+    expect(parsePageRanges('0', 10)).toBeNull();
+    expect(parsePageRanges('8-11', 10)).toBeNull();
+    expect(parsePageRanges('5-3', 10)).toBeNull();
+    expect(parsePageRanges('-3', 10)).toBeNull();
+    expect(parsePageRanges('one', 10)).toBeNull();
+  });
+});
+
+describe('formatPageRanges', () => {
+  it('collapses consecutive pages into ranges', () => {
+    expect(formatPageRanges([1, 2, 3, 7, 9, 10])).toBe('1-3, 7, 9-10');
+    expect(describePages([4])).toBe('page 4');
+    expect(describePages(parsePageRanges('12-', 14)!)).toBe('pages 12-14');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Document Outline
+ *
+ * Structure of an attached document for picking what part of it to generate from:
+ * - Text documents (TXT/MD, DOCX, PPTX, EPUB, HTML, articles) are split into sections
+ *   at their Markdown headings; the user ticks the sections to keep.
+ * - PDFs are selected by page ranges typed as "1-5, 9, 12-".
+ *
+ * Applying a selection (including cutting the PDF) is done by services/documentSelection.ts.
+ */
+
+// ============================================================================
+// SECTIONS
+// ============================================================================
+
+/**
+ * One heading of a text document and the text up to the next heading.
+ * start/end are character offsets into the document content.
+ */
+export interface OutlineSection {
+  title: string;
+  level: number;            // 1-6 for "#" to "######"; 0 for the text before the first heading
+  start: number;
+  end: number;
+}
+
+const HEADING_REGEX = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const FENCE_REGEX = /^\s*```/;
+
+/**
+ * Splits Markdown into sections at its headings (headings inside code blocks don't count).
+ * Text before the first heading becomes an "Introduction" section.
+ */
+export const getDocumentOutline = (content: string): OutlineSection[] => {
+  const sections: OutlineSection[] = [];
+  let offset = 0;
+  let inFence = false;
+
+  const startSection = (title: string, level: number, start: number) => {
+    const previous = sections[sections.length - 1];
+    if (previous) previous.end = start;
+    sections.push({ title, level, start, end: content.length });
+  };
+
+  for (const line of content.split('\n')) {
+    if (FENCE_REGEX.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(HEADING_REGEX);
+    if (match) {
+      if (sections.length === 0 && content.slice(0, offset).trim()) startSection('Introduction', 0, 0);
+      startSection(match[2].replace(/\*\*/g, ''), match[1].length, offset);
+    }
+    offset += line.length + 1;
+  }
+
+  if (sections.length === 0 && content.trim()) startSection('Introduction', 0, 0);
+  return sections;
+};
+
+/**
+ * The section and the sections nested under it (following sections with a deeper heading).
+ */
+export const getSectionWithSubsections = (outline: OutlineSection[], index: number): number[] => {
+  const indexes = [index];
+  for (let i = index + 1; i < outline.length && outline[i].level > outline[index].level; i++) {
+    indexes.push(i);
+  }
+  return indexes;
+};
+
+/**
+ * The text of the selected sections, in document order.
+ */
+export const getSectionsText = (content: string, outline: OutlineSection[], indexes: number[]): string =>
+  outline
+    .filter((_, i) => indexes.includes(i))
+    .map(section => content.slice(section.start, section.end).trim())
+    .join('\n\n');
+
+// e.g. 'sections "Pricing", "FAQ" and 2 more'
+export const describeSections = (outline: OutlineSection[], indexes: number[]): string => {
+  const titles = outline.filter((_, i) => indexes.includes(i)).map(section => `"${section.title}"`);
+  const shown = titles.slice(0, 3).join(', ');
+  const more = titles.length > 3 ? ` and ${titles.length - 3} more` : '';
+  return `${titles.length === 1 ? 'section' : 'sections'} ${shown}${more}`;
+};
+
+// ============================================================================
+// PAGE RANGES
+// ============================================================================
+
+/**
+ * Parses page ranges like "1-5, 9, 12-" (1-based; "12-" runs to the last page).
+ * Returns the sorted page numbers, or null if the input is empty or names a page
+ * that doesn't exist.
+ */
+export const parsePageRanges = (input: string, pageCount: number): number[] | null => {
+  const parts = input.split(/[,;]/).map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const pages = new Set<number>();
+  for (const part of parts) {
+    const match = part.match(/^(\d+)\s*(?:[-–]\s*(\d*))?$/);
+    if (!match) return null;
+    const from = parseInt(match[1], 10);
+    const to = match[2] === undefined ? from : match[2] === '' ? pageCount : parseInt(match[2], 10);
+    if (from < 1 || to > pageCount || from > to) return null;
+    for (let page = from; page <= to; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+};
+
+/**
+ * Formats page numbers back into ranges: [1, 2, 3, 7] → "1-3, 7".
+ */
+export const formatPageRanges = (pages: number[]): string => {
+  const ranges: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const from = pages[i];
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++;
+    ranges.push(from === pages[i] ? `${from}` : `${from}-${pages[i]}`);
+  }
+  return ranges.join(', ');
+};
+
+// e.g. "pages 3-10, 12"
+export const describePages = (pages: number[]): string =>
+  `${pages.length === 1 ? 'page' : 'pages'} ${formatPageRanges(pages)}`;
@@ -0,0 +1,428 @@
+/**
+ * Copywriting Frameworks
+ *
+ * Registry of the structures AI generation can follow (AIDA, PAS, listicle...).
+ * Each framework has a slide-role plan: which role every slide plays for a given
+ * slide count, with the prompt guidance for that role. Generation writes the
+ * carousel from the plan; refinement uses the same plan to keep the structure.
+ *
+ * ADDING A FRAMEWORK:
+ * Add its id to CopyFramework (types.ts) and an entry to COPY_FRAMEWORKS.
+ * Projects store the id, so ids must never be renamed.
+ */
+
+import { CopyFramework, Slide, SlideType } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What a slide (or run of slides) does within the framework.
+ */
+export interface SlideRole {
+  type: SlideType;
+  name: string;        // Prompt heading, e.g. "AGITATE"
+  summary: string;     // One line, used to keep refinements in role
+  guidance: string[];  // Prompt bullets for writing slides in this role
+}
+
+/**
+ * A run of consecutive slides sharing a role. Slide numbers are 1-based, inclusive.
+ */
+export interface SlideRoleSection {
+  from: number;
+  to: number;
+  role: SlideRole;
+}
+
+export interface CopyFrameworkDefinition {
+  id: CopyFramework;
+  name: string;           // Selector label
+  description: string;    // Shown under the selector
+  promptTitle: string;    // "## CONTENT FRAMEWORK - ..." heading
+  persona: string;        // Who the model writes as
+  requirements: string[]; // Structure rules that apply to the whole carousel
+  plan: (count: number) => SlideRoleSection[];
+}
+
+// ============================================================================
+// PLANNING HELPERS
+// ============================================================================
+
+/**
+ * Splits the content slides (2 to count-1) into consecutive runs by share,
+ * e.g. [0.3, 0.7] → the first ~30% of content slides, then the rest.
+ * Each run ends at ceil(content * cumulative share); empty runs are dropped,
+ * so short carousels simply skip later roles.
+ */
+const splitContent = (count: number, runs: [number, SlideRole][]): SlideRoleSection[] => {
+  const contentSlides = Math.max(0, count - 2);
+  const sections: SlideRoleSection[] = [];
+  let start = 2;
+  let cumulative = 0;
+
+  runs.forEach(([share, role], i) => {
+    cumulative += share;
+    const end = i === runs.length - 1 ? contentSlides + 1 : Math.min(contentSlides + 1, Math.ceil(contentSlides * cumulative) + 1);
+    if (end >= start) sections.push({ from: start, to: end, role });
+    start = Math.max(start, end + 1);
+  });
+
+  return sections;
+};
+
+// Cover + content runs + CTA
+const buildPlan = (count: number, cover: SlideRole, runs: [number, SlideRole][], cta: SlideRole): SlideRoleSection[] => [
+  { from: 1, to: 1, role: cover },
+  ...splitContent(count, runs),
+  { from: count, to: count, role: cta }
+];
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const COPY_FRAMEWORKS: CopyFrameworkDefinition[] = [
+  {
+    id: 'AIDA',
+    name: 'AIDA',
+    description: 'Attention, Interest, Desire, Action - a story that builds toward the call to action.',
+    promptTitle: 'AIDA Model with Storytelling',
+    persona: 'a viral social media copywriter and storytelling expert',
+    requirements: [
+      'Every slide must flow naturally into the next - no disconnected points',
+      'Use a consistent narrative voice throughout',
+      'Build tension and release it with value',
+      'End each slide with an implicit "and then..." that pulls to the next'
+    ],
+    plan: (count) => buildPlan(
+      count,
+      {
+        type: SlideType.COVER,
+        name: 'ATTENTION',
+        summary: 'Emotionally provocative, curiosity-inducing hook',
+        guidance: [
+          'Create a title that triggers STRONG EMOTION',
+          'Spark curiosity, controversy, or outrage',
+          'Challenge common beliefs or reveal a "dirty secret"',
+          'Use power words: "Why...", "The truth about...", "Stop doing...", "Nobody tells you..."',
+          'Make it IMPOSSIBLE to scroll past without reading more'
+        ]
+      },
+      [
+        [0.3, {
+          type: SlideType.CONTENT,
+          name: 'INTEREST',
+          summary: 'Builds interest with surprising insights',
+          guidance: [
+            'Surprising statistics or counterintuitive insights',
+            '"Wait, what?" moments that build intrigue',
+            'Promise of valuable information to come'
+          ]
+        }],
+        [0.7, {
+          type: SlideType.CONTENT,
+          name: 'INTEREST + DESIRE',
+          summary: 'Delivers value while building desire for the transformation',
+          guidance: [
+            'Main educational content and insights',
+            'Show the transformation possible',
+            'Include social proof or relatable examples',
+            'Create "I need this" moments',
+            'Final content slide should create urgency and anticipation for the CTA'
+          ]
+        }]
+      ],
+      {
+        type: SlideType.CTA,
+        name: 'ACTION',
+        summary: 'Action-oriented and connected to the desire built throughout',
+        guidance: [
+          'Tell them exactly what to do next',
+          'Make it easy to take action',
+          'Connect back to the desire built throughout'
+        ]
+      }
+    )
+  },
+  {
+    id: 'PAS',
+    name: 'Problem-Agitate-Solve',
+    description: 'Name a painful problem, make it sting, then present the fix.',
+    promptTitle: 'PAS (Problem, Agitate, Solve)',
+    persona: 'a direct-response copywriter',
+    requirements: [
+      'Stay on ONE problem the reader already feels - no tangents',
+      'Agitation must be specific and relatable, never fear-mongering',
+      'The solution must answer exactly the pain built up in the agitation slides'
+    ],
+    plan: (count) => buildPlan(
+      count,
+      {
+        type: SlideType.COVER,
+        name: 'PROBLEM',
+        summary: 'Names the problem the reader recognizes instantly',
+        guidance: [
+          'State the problem in the reader\'s own words',
+          'Make them think "that\'s me"',
+          'No solution yet - just the pain'
+        ]
+      },
+      [
+        [0.4, {
+          type: SlideType.CONTENT,
+          name: 'AGITATE',
+          summary: 'Deepens the pain: consequences, costs, failed fixes',
+          guidance: [
+            'Show what the problem is really costing them (time, money, confidence)',
+            'Point out why the usual fixes don\'t work',
+            'Raise the stakes one slide at a time'
+          ]
+        }],
+        [0.6, {
+          type: SlideType.CONTENT,
+          name: 'SOLVE',
+          summary: 'Presents the solution and how to apply it',
+          guidance: [
+            'Introduce the solution clearly and simply',
+            'Break it into concrete, doable moves',
+            'Show the relief or result on the other side'
+          ]
+        }]
+      ],
+      {
+        type: SlideType.CTA,
+        name: 'ACTION',
+        summary: 'Invites the reader to take the first step of the solution',
+        guidance: [
+          'Tell them the first step to take today',
+          'Tie it back to the problem from the cover'
+        ]
+      }
+    )
+  },
+  {
+    id: 'LISTICLE',
+    name: 'Listicle',
+    description: 'A numbered list of tips, tools or ideas - one item per slide.',
+    promptTitle: 'Numbered Listicle',
+    persona: 'a social media copywriter who writes highly saveable list posts',
+    requirements: [
+      'Each content slide is exactly ONE list item, numbered in order (1., 2., 3...)',
+      'Items are parallel in form (same kind of thing, similar length)',
+      'Order items from most to least impactful, or save a surprising one for last'
+    ],
+    plan: (count) => buildPlan(
+      count,
+      {
+        type: SlideType.COVER,
+        name: 'LIST TITLE',
+        summary: 'Promises a specific number of items and their payoff',
+        guidance: [
+          `Put the number of items (${Math.max(1, count - 2)}) in the title`,
+          'Promise a clear payoff: "...that save you 5 hours a week"'
+        ]
+      },
+      [
+        [1, {
+          type: SlideType.CONTENT,
+          name: 'LIST ITEM',
+          summary: 'One numbered item with a short explanation or example',
+          guidance: [
+            'Heading: the item number and name',
+            'One or two lines on why it matters or how to use it',
+            'Add a concrete example when possible'
+          ]
+        }]
+      ],
+      {
+        type: SlideType.CTA,
+        name: 'ACTION',
+        summary: 'Asks the reader to save the list or share their own item',
+        guidance: [
+          'Ask them to save the list for later',
+          'Invite them to add their own item in the comments'
+        ]
+      }
+    )
+  },
+  {
+    id: 'TUTORIAL',
+    name: 'Step-by-step tutorial',
+    description: 'Teach one outcome in sequential, actionable steps.',
+    promptTitle: 'Step-by-Step Tutorial',
+    persona: 'an expert teacher who writes clear, practical tutorials',
+    requirements: [
+      'Steps are in the order they must be done, numbered "Step 1", "Step 2"...',
+      'Each step is one concrete action the reader can do right away',
+      'No theory slides - every content slide moves the reader closer to the outcome'
+    ],
+    plan: (count) => buildPlan(
+      count,
+      {
+        type: SlideType.COVER,
+        name: 'OUTCOME',
+        summary: 'States what the reader will be able to do by the end',
+        guidance: [
+          'Promise the end result: "How to ... in N steps"',
+          'Mention who it is for or what they need to start, if relevant'
+        ]
+      },
+      [
+        [1, {
+          type: SlideType.CONTENT,
+          name: 'STEP',
+          summary: 'One numbered, actionable step',
+          guidance: [
+            'Heading: "Step N" and the action',
+            'Exactly how to do it, with specifics (settings, amounts, wording)',
+            'Mention a common mistake for that step when useful'
+          ]
+        }]
+      ],
+      {
+        type: SlideType.CTA,
+        name: 'ACTION',
+        summary: 'Encourages the reader to try it and share the result',
+        guidance: [
+          'Encourage them to try it now',
+          'Ask them to save the tutorial or share their result'
+        ]
+      }
+    )
+  },
+  {
+    id: 'MYTH_FACT',
+    name: 'Myth vs fact',
+    description: 'Bust common misconceptions, each paired with the truth.',
+    promptTitle: 'Myth vs Fact',
+    persona: 'a myth-busting educator with a confident, friendly voice',
+    requirements: [
+      'Each content slide pairs ONE common myth with the fact that corrects it',
+      'Myths must be beliefs people genuinely hold, facts must be accurate and specific',
+      'Correct the myth without mocking the people who believe it'
+    ],
+    plan: (count) => buildPlan(
+      count,
+      {
+        type: SlideType.COVER,
+        name: 'HOOK',
+        summary: 'Challenges what the reader believes about the topic',
+        guidance: [
+          'Signal that popular beliefs are wrong: "N myths about ... you still believe"',
+          'Create doubt that makes them swipe to check'
+        ]
+      },
+      [
+        [1, {
+          type: SlideType.CONTENT,
+          name: 'MYTH VS FACT',
+          summary: 'One myth stated plainly, then the fact that corrects it',
+          guidance: [
+            'Start with "**Myth:**" and the belief',
+            'Follow with "**Fact:**" and the correction, with a reason or number'
+          ]
+        }]
+      ],
+      {
+        type: SlideType.CTA,
+        name: 'ACTION',
+        summary: 'Asks which myth the reader believed, or to share the truth',
+        guidance: [
+          'Ask which myth they used to believe',
+          'Invite them to share the post with someone who needs it'
+        ]
+      }
+    )
+  },
+  {
+    id: 'CASE_STUDY',
+    name: 'Case study',
+    description: 'A real-world story: the situation, what was done, and the results.',
+    promptTitle: 'Case Study',
+    persona: 'a business storyteller who turns results into lessons',
+    requirements: [
+      'Follow ONE subject (person, company or project) from start to finish',
+      'Use concrete numbers and timeframes wherever the source allows - never invent them',
+      'Every lesson must come from what actually happened in the story'
+    ],
+    plan: (count) => buildPlan(
+      count,
+      {
+        type: SlideType.COVER,
+        name: 'HEADLINE RESULT',
+        summary: 'Leads with the result that makes the story worth reading',
+        guidance: [
+          'Lead with the outcome: "How X went from A to B"',
+          'Make the result specific and believable'
+        ]
+      },
+      [
+        [0.25, {
+          type: SlideType.CONTENT,
+          name: 'CONTEXT',
+          summary: 'The starting point and the challenge',
+          guidance: [
+            'Where the subject started and what stood in the way',
+            'Why the challenge was hard'
+          ]
+        }],
+        [0.5, {
+          type: SlideType.CONTENT,
+          name: 'APPROACH',
+          summary: 'What was done, step by step',
+          guidance: [
+            'The key decisions and actions, in order',
+            'What made this approach different'
+          ]
+        }],
+        [0.25, {
+          type: SlideType.CONTENT,
+          name: 'RESULTS & LESSONS',
+          summary: 'The measurable results and the transferable lessons',
+          guidance: [
+            'The outcome with numbers',
+            'The lesson the reader can apply to their own situation'
+          ]
+        }]
+      ],
+      {
+        type: SlideType.CTA,
+        name: 'ACTION',
+        summary: 'Invites the reader to apply the lesson',
+        guidance: [
+          'Ask them how they would apply the lesson',
+          'Invite them to follow for more breakdowns'
+        ]
+      }
+    )
+  }
+];
+
+export const DEFAULT_FRAMEWORK: CopyFramework = 'AIDA';
+
+export const FRAMEWORK_IDS = COPY_FRAMEWORKS.map(f => f.id);
+
+/**
+ * Looks up a framework; unknown ids (e.g. from a newer build) fall back to the default.
+ */
+export const getFramework = (id?: CopyFramework): CopyFrameworkDefinition =>
+  COPY_FRAMEWORKS.find(f => f.id === id) || COPY_FRAMEWORKS.find(f => f.id === DEFAULT_FRAMEWORK)!;
+
+// ============================================================================
+// SLIDE ROLES
+// ============================================================================
+
+/**
+ * Role of a slide within a carousel following the framework.
+ * Slides may have been reordered, added or retyped since generation, so when
+ * the planned role doesn't match the slide's type, the first role of that type is used.
+ */
+export const getSlideRole = (framework: CopyFramework, slides: Slide[], index: number): SlideRole => {
+  const sections = getFramework(framework).plan(slides.length);
+  const slide = slides[index];
+  const planned = sections.find(s => index + 1 >= s.from && index + 1 <= s.to)?.role;
+  if (planned && planned.type === slide.type) return planned;
+  return sections.find(s => s.role.type === slide.type)?.role || planned || sections[0].role;
+};
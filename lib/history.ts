@@ -0,0 +1,233 @@
+/**
+ * Undo/Redo History
+ *
+ * Snapshot-based history used by the Workspace. Every change to the editor state
+ * (slides, per-slide overrides, reorders, AI refinements, global settings) is
+ * recorded as a full snapshot with a human-readable label.
+ *
+ * WHY SNAPSHOTS (not inverse commands):
+ * Slides and settings are immutable values - every edit already produces new
+ * objects - so keeping references to previous states is cheap and can't drift
+ * out of sync the way hand-written inverse operations can.
+ *
+ * GROUPING:
+ * Consecutive changes with the same label inside GROUP_WINDOW_MS (e.g. typing in
+ * the slide textarea, dragging a slider) are merged into a single history step.
+ */
+
+import { Slide, CarouselStyle, Theme, FontStyle, LayoutSettings } from '../types';
+
+// ============================================================================
+// GENERIC HISTORY STACK
+// ============================================================================
+
+export interface HistoryEntry<T> {
+  id: number;          // Monotonic ID (stable React key)
+  label: string;       // Description shown in the history panel
+  snapshot: T;         // Full state after this change
+  timestamp: number;   // Last time this entry was updated (ms)
+}
+
+export interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;       // Position of the current state in entries
+}
+
+// Changes with the same label closer together than this are merged
+export const GROUP_WINDOW_MS = 1000;
+
+// Oldest entries are dropped beyond this limit (snapshots hold image data URIs)
+export const MAX_HISTORY_ENTRIES = 100;
+
+let nextEntryId = 0;
+
+/**
+ * Creates a history whose only entry is the initial state.
+ */
+export const createHistory = <T>(snapshot: T, label: string): HistoryState<T> => ({
+  entries: [{ id: nextEntryId++, label, snapshot, timestamp: Date.now() }],
+  index: 0
+});
+
+/**
+ * Records a new state.
+ * - Discards any redo entries after the current position
+ * - Merges into the current entry if it has the same label and is recent
+ * - Trims the oldest entries past MAX_HISTORY_ENTRIES
+ */
+export const recordHistory = <T>(
+  history: HistoryState<T>,
+  snapshot: T,
+  label: string,
+  now: number = Date.now()
+): HistoryState<T> => {
+  const current = history.entries[history.index];
+  const isAtEnd = history.index === history.entries.length - 1;
+
+  // Never merge into the initial entry, so the original state stays reachable
+  if (isAtEnd && history.index > 0 && current.label === label && now - current.timestamp < GROUP_WINDOW_MS) {
+    const entries = [...history.entries];
+    entries[history.index] = { ...current, snapshot, timestamp: now };
+    return { entries, index: history.index };
+  }
+
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    { id: nextEntryId++, label, snapshot, timestamp: now }
+  ];
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  return {
+    entries: entries.slice(overflow),
+    index: entries.length - 1 - overflow
+  };
+};
+
+export const canUndo = <T>(history: HistoryState<T>): boolean => history.index > 0;
+
+export const canRedo = <T>(history: HistoryState<T>): boolean => history.index < history.entries.length - 1;
+
+/**
+ * Moves the current position to any entry (used by undo, redo and the history panel).
+ * Out-of-range indices are clamped.
+ */
+export const jumpToHistory = <T>(history: HistoryState<T>, index: number): HistoryState<T> => ({
+  ...history,
+  index: Math.max(0, Math.min(index, history.entries.length - 1))
+});
+
+// ============================================================================
+// WORKSPACE SNAPSHOTS
+// ============================================================================
+
+/**
+ * Everything the Workspace can undo.
+ * View state (zoom, active slide, sidebar tab) is deliberately excluded.
+ */
+export interface EditorSnapshot {
+  slides: Slide[];
+  style: CarouselStyle;
+  theme: Theme;
+  accentColor: string;
+  showAccent: boolean;
+  showSlideNumbers: boolean;
+  showVerifiedBadge: boolean;
+  headerScale: number;
+  fontStyle: FontStyle;
+  fontScale: number;
+  globalImageStyle: string;
+  layoutSettings: LayoutSettings;
+  caption: string;
+  hashtags: string[];
+}
+
+// Human-readable names for global settings
+const SETTING_LABELS: Record<Exclude<keyof EditorSnapshot, 'slides' | 'style'>, string> = {
+  theme: 'theme',
+  accentColor: 'accent color',
+  showAccent: 'accent color toggle',
+  showSlideNumbers: 'slide numbers',
+  showVerifiedBadge: 'verified badge',
+  headerScale: 'header size',
+  fontStyle: 'font style',
+  fontScale: 'font size',
+  globalImageStyle: 'image style',
+  layoutSettings: 'layout',
+  caption: 'caption',
+  hashtags: 'hashtags'
+};
+
+// Human-readable names for per-slide properties (unlisted keys fall back to "settings")
+const SLIDE_FIELD_LABELS: Partial<Record<keyof Slide, string>> = {
+  content: 'text',
+  type: 'type',
+  imageUrl: 'image',
+  showImage: 'image toggle',
+  imagePrompt: 'image prompt',
+  imageScale: 'image height',
+  overlayImage: 'image mode',
+  imageOffsetY: 'image position',
+  gradientHeight: 'fade height',
+  fontStyle: 'font',
+  fontScale: 'font size',
+  contentLayout: 'layout',
+  showBackgroundImage: 'background toggle',
+  backgroundImageUrl: 'background image',
+  backgroundOverlayColor: 'overlay color',
+  backgroundOverlayOpacity: 'overlay opacity',
+  contentPadding: 'padding',
+  imageCanvasOffset: 'canvas position',
+  imageMargin: 'image margin',
+  textLineHeight: 'line height',
+  paragraphGap: 'paragraph gap',
+  backgroundTextColor: 'text color',
+  theme: 'theme',
+  imageTextSpacing: 'image spacing',
+  textAlignment: 'alignment',
+  altText: 'alt text',
+  imageVariants: 'image history'
+};
+
+/**
+ * Describes what changed on a single slide ("Edit slide 2 text").
+ */
+const describeSlideChange = (prev: Slide, next: Slide, index: number): string => {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof Slide)[]);
+  const changed = [...keys].filter(key => prev[key] !== next[key]);
+  if (changed.length === 1) {
+    return `Edit slide ${index + 1} ${SLIDE_FIELD_LABELS[changed[0]] || 'settings'}`;
+  }
+  return `Edit slide ${index + 1}`;
+};
+
+/**
+ * Describes the slide-list change between two snapshots, or null if unchanged.
+ */
+const describeSlidesChange = (prev: Slide[], next: Slide[]): string | null => {
+  if (prev === next) return null;
+
+  if (next.length > prev.length) return next.length - prev.length === 1 ? 'Add slide' : 'Add slides';
+  if (next.length < prev.length) return prev.length - next.length === 1 ? 'Delete slide' : 'Delete slides';
+
+  const prevIds = prev.map(s => s.id);
+  const nextIds = next.map(s => s.id);
+  const sameIdSet = prevIds.every(id => nextIds.includes(id));
+  if (!sameIdSet) return 'Replace slides';
+
+  if (prevIds.some((id, i) => id !== nextIds[i])) return 'Reorder slides';
+
+  const changedIndices = next
+    .map((slide, i) => (slide !== prev[i] ? i : -1))
+    .filter(i => i !== -1);
+  if (changedIndices.length === 0) return null;
+  if (changedIndices.length === 1) {
+    const i = changedIndices[0];
+    return describeSlideChange(prev[i], next[i], i);
+  }
+  return `Edit ${changedIndices.length} slides`;
+};
+
+/**
+ * Returns a label describing how `next` differs from `prev`, or null if the
+ * snapshots are equivalent (nothing worth recording).
+ *
+ * Comparison is by reference: unchanged slides and settings keep their identity
+ * because every edit in the Workspace creates new objects only for what changed.
+ */
+export const describeEditorChange = (prev: EditorSnapshot, next: EditorSnapshot): string | null => {
+  const labels: string[] = [];
+
+  if (prev.style !== next.style) {
+    labels.push('Convert style');
+  } else {
+    const slidesLabel = describeSlidesChange(prev.slides, next.slides);
+    if (slidesLabel) labels.push(slidesLabel);
+  }
+
+  (Object.keys(SETTING_LABELS) as (keyof typeof SETTING_LABELS)[]).forEach(key => {
+    if (prev[key] !== next[key]) labels.push(`Change ${SETTING_LABELS[key]}`);
+  });
+
+  if (labels.length === 0) return null;
+  if (labels.length === 1) return labels[0];
+  return 'Update project';
+};
@@ -0,0 +1,78 @@
+/**
+ * Image Variants
+ *
+ * Per-slide image history. Every generated, edited, stylized or uploaded image is
+ * kept in `slide.imageVariants` instead of overwriting the previous one, so a worse
+ * regeneration can be undone from the filmstrip in the image panel.
+ *
+ * The current image is always `slide.imageUrl`; it is usually one of the variants.
+ * History lives in the autosaved project only - exported JSON files are stripped
+ * (see stripImageVariants) to keep them small.
+ */
+
+import { ImageVariant, ImageVariantSource, Slide } from '../types';
+
+// Oldest variants beyond this are dropped (the current image is always kept)
+export const MAX_IMAGE_VARIANTS = 12;
+
+/**
+ * Creates a variant record for a new image.
+ */
+export const createImageVariant = (
+  imageUrl: string,
+  source: ImageVariantSource,
+  details: Pick<ImageVariant, 'prompt' | 'model' | 'style'> = {}
+): ImageVariant => ({
+  id: crypto.randomUUID(),
+  imageUrl,
+  source,
+  ...details,
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * Adds new variants to a slide's history and makes the first one the current image.
+ * An image the slide already shows but that isn't in its history (older projects)
+ * is kept as a 'previous' variant so it can still be restored.
+ */
+export const addImageVariants = (slide: Slide, variants: ImageVariant[]): Slide => {
+  if (variants.length === 0) return slide;
+
+  let history = slide.imageVariants ?? [];
+  if (slide.imageUrl && !history.some(v => v.imageUrl === slide.imageUrl)) {
+    history = [...history, createImageVariant(slide.imageUrl, 'previous', { prompt: slide.imagePrompt })];
+  }
+  history = [...history, ...variants];
+
+  const current = variants[0];
+  if (history.length > MAX_IMAGE_VARIANTS) {
+    const excess = history.length - MAX_IMAGE_VARIANTS;
+    // Drop the oldest, skipping the new current image
+    const dropped = new Set(history.filter(v => v.id !== current.id).slice(0, excess).map(v => v.id));
+    history = history.filter(v => !dropped.has(v.id));
+  }
+
+  return { ...slide, imageUrl: current.imageUrl, imageVariants: history };
+};
+
+/**
+ * Makes a variant from the history the slide's current image.
+ */
+export const restoreImageVariant = (slide: Slide, variantId: string): Slide => {
+  const variant = slide.imageVariants?.find(v => v.id === variantId);
+  return variant ? { ...slide, showImage: true, imageUrl: variant.imageUrl } : slide;
+};
+
+/**
+ * Removes a variant from the history. The current image is not affected.
+ */
+export const removeImageVariant = (slide: Slide, variantId: string): Slide => {
+  const history = (slide.imageVariants ?? []).filter(v => v.id !== variantId);
+  return { ...slide, imageVariants: history.length > 0 ? history : undefined };
+};
+
+/**
+ * Slides without their image history (current images are kept), for exported files.
+ */
+export const stripImageVariants = (slides: Slide[]): Slide[] =>
+  slides.map(({ imageVariants, ...slide }) => slide);
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline } from './markdown';
+
+describe('parseInline', () => {
+  it('parses nested emphasis', () => {
+    expect(parseInline('**bold *and italic***')).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', value: 'bold ' },
+          { type: 'em', children: [{ type: 'text', value: 'and italic' }] }
+        ]
+      }
+    ]);
+  });
+
+  it('keeps unmatched markers as literal text', () => {
+    expect(parseInline('*a **b __c')).toEqual([{ type: 'text', value: '*a **b __c' }]);
+    expect(parseInline('*a **b* c**')).toEqual([
+      { type: 'text', value: '*a ' },
+      { type: 'strong', children: [{ type: 'text', value: 'b* c' }] }
+    ]);
+  });
+
+  // Each unmatched opener used to re-parse the rest of the line: seconds for 22 markers
+  it('parses lines of unbalanced markers quickly', () => {
+    const lines = ['**a '.repeat(22), '__a ~~b '.repeat(12)];
+
+    const started = performance.now();
+    lines.forEach(line => {
+      expect(parseInline(line)).toEqual([{ type: 'text', value: line }]);
+    });
+    expect(performance.now() - started).toBeLessThan(500);
+  });
+});
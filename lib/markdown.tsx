@@ -0,0 +1,581 @@
+/**
+ * Slide Markdown Engine
+ *
+ * Shared markdown tokenizer and renderer used by every slide style
+ * (TwitterSlide, StorytellerSlide, LessonSlide, AppleNotesSlide).
+ *
+ * TWO STAGES:
+ * 1. Tokenize: parseBlocks/parseInline turn text into a small node tree
+ *    (pure functions, no React)
+ * 2. Render: renderMarkdown turns nodes into React elements, styled by a
+ *    per-style MarkdownTheme (colors, sizes, class names, how __text__ looks)
+ *
+ * SUPPORTED SYNTAX:
+ * Blocks (one per line, as slides are written line by line):
+ * - # / ## / ### headings
+ * - `- item` bullets and `1. item` numbered items, nested by indentation (2 spaces or a tab)
+ * - `- [ ] task` / `- [x] done` checklist items
+ * - `> quote` blockquotes (consecutive lines are grouped; may contain lists)
+ * - Blank lines → vertical spacing; any other line → paragraph
+ *
+ * Inline:
+ * - **bold**, *italic*, ~~strike~~, __underline/highlight__ (nestable: **bold *and italic***)
+ * - `inline code` (contents are not parsed)
+ * - [link text](https://example.com)
+ * - Backslash escapes: \* \_ \~ \` \[ \# etc. render the character literally
+ *
+ * SCALING: Theme sizes are base pixels for 1080px-wide output, multiplied by fontScale.
+ */
+
+import React from 'react';
+import { FontStyle, TextAlignment } from '../types';
+
+// ============================================================================
+// FONT CONFIGURATION
+// ============================================================================
+
+/**
+ * Maps FontStyle to CSS font-family values.
+ * Uses Google Fonts loaded via CDN in index.html
+ */
+export const getFontFamily = (style: FontStyle): string => {
+  switch (style) {
+    case 'SERIF':
+      return '"Playfair Display", Georgia, serif';
+    case 'TECH':
+      return '"JetBrains Mono", "Fira Code", monospace';
+    case 'MODERN':
+    default:
+      return 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+  }
+};
+
+// ============================================================================
+// NODE TYPES
+// ============================================================================
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'strong' | 'em' | 'strike' | 'underline'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'listItem'; ordered: boolean; number?: number; checked?: boolean; depth: number; children: InlineNode[] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'blank' };
+
+// ============================================================================
+// INLINE TOKENIZER
+// ============================================================================
+
+// Emphasis delimiters, longest first so "**" wins over "*"
+const DELIMITERS: { marker: string; type: 'strong' | 'em' | 'strike' | 'underline' }[] = [
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'underline' },
+  { marker: '~~', type: 'strike' },
+  { marker: '*', type: 'em' }
+];
+
+const ESCAPABLE = '\\`*_~[]()#+-.!>|';
+
+// Only safe, absolute link targets are kept; anything else renders as plain text
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i;
+
+const isWhitespace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+/**
+ * Appends text, merging with a preceding text node to keep the tree small.
+ */
+const pushText = (nodes: InlineNode[], value: string) => {
+  if (!value) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') {
+    last.value += value;
+  } else {
+    nodes.push({ type: 'text', value });
+  }
+};
+
+/**
+ * Parses from `start` until `closer` is found (or the end of the text).
+ * Returns closed=false if a closer was requested but never found, so the caller
+ * can fall back to treating its opening delimiter as literal text.
+ *
+ * `unclosed` remembers the searches that failed ("no `**` closer from 12 on"): the
+ * outcome only depends on the marker and position, so neither an opener found
+ * unmatched before nor a search reaching a known dead end rescans the rest of the
+ * line. Without it, every unmatched opener re-parses the line once per enclosing
+ * opener, which is exponential in the number of unbalanced markers.
+ */
+const parseInlineUntil = (
+  src: string,
+  start: number,
+  closer: string | null,
+  unclosed: Set<string>
+): { nodes: InlineNode[]; end: number; closed: boolean } => {
+  const nodes: InlineNode[] = [];
+  let pos = start;
+
+  while (pos < src.length) {
+    const char = src[pos];
+
+    // Closing delimiter: must follow non-whitespace and close a non-empty span
+    if (closer && src.startsWith(closer, pos) && pos > start && !isWhitespace(src[pos - 1])) {
+      return { nodes, end: pos + closer.length, closed: true };
+    }
+
+    // A search for the same closer from here already failed
+    if (closer && pos > start && unclosed.has(`${closer}@${pos}`)) {
+      break;
+    }
+
+    // Backslash escape
+    if (char === '\\' && pos + 1 < src.length && ESCAPABLE.includes(src[pos + 1])) {
+      pushText(nodes, src[pos + 1]);
+      pos += 2;
+      continue;
+    }
+
+    // Inline code: `code` or ``code with ` inside``
+    if (char === '`') {
+      const fence = src.slice(pos).match(/^`+/)![0];
+      const closeIndex = src.indexOf(fence, pos + fence.length);
+      if (closeIndex !== -1) {
+        nodes.push({ type: 'code', value: src.slice(pos + fence.length, closeIndex).trim() });
+        pos = closeIndex + fence.length;
+        continue;
+      }
+      pushText(nodes, fence);
+      pos += fence.length;
+      continue;
+    }
+
+    // Link: [text](href)
+    if (char === '[') {
+      const labelEnd = findClosingBracket(src, pos);
+      if (labelEnd !== -1 && src[labelEnd + 1] === '(') {
+        const hrefEnd = findClosingParen(src, labelEnd + 1);
+        if (hrefEnd !== -1) {
+          const href = src.slice(labelEnd + 2, hrefEnd).trim();
+          const label = parseInline(src.slice(pos + 1, labelEnd));
+          if (SAFE_HREF.test(href)) {
+            nodes.push({ type: 'link', href, children: label });
+          } else {
+            label.forEach(node => (node.type === 'text' ? pushText(nodes, node.value) : nodes.push(node)));
+          }
+          pos = hrefEnd + 1;
+          continue;
+        }
+      }
+    }
+
+    // Emphasis: opener must be followed by non-whitespace
+    const delimiter = DELIMITERS.find(d => src.startsWith(d.marker, pos));
+    if (delimiter && !isWhitespace(src[pos + delimiter.marker.length])) {
+      const innerStart = pos + delimiter.marker.length;
+      if (!unclosed.has(`${delimiter.marker}@${innerStart}`)) {
+        const inner = parseInlineUntil(src, innerStart, delimiter.marker, unclosed);
+        if (inner.closed) {
+          nodes.push({ type: delimiter.type, children: inner.nodes });
+          pos = inner.end;
+          continue;
+        }
+      }
+      // Unmatched opener - keep it as literal text
+      pushText(nodes, delimiter.marker);
+      pos += delimiter.marker.length;
+      continue;
+    }
+
+    pushText(nodes, char);
+    pos += 1;
+  }
+
+  if (closer) {
+    unclosed.add(`${closer}@${start}`);
+  }
+  return { nodes, end: pos, closed: closer === null };
+};
+
+/**
+ * Finds the "]" matching the "[" at `open`, honoring nesting and escapes.
+ */
+const findClosingBracket = (src: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === '\\') { i++; continue; }
+    if (src[i] === '[') depth++;
+    if (src[i] === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Finds the ")" matching the "(" at `open` (link targets may contain parentheses).
+ */
+const findClosingParen = (src: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === '(') depth++;
+    if (src[i] === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Tokenizes a single line of inline markdown.
+ */
+export const parseInline = (text: string): InlineNode[] => parseInlineUntil(text, 0, null, new Set()).nodes;
+
+// ============================================================================
+// BLOCK TOKENIZER
+// ============================================================================
+
+/**
+ * Indentation depth of a line: one level per 2 spaces or per tab.
+ */
+const getIndentDepth = (line: string): number => {
+  const indent = line.match(/^[ \t]*/)![0];
+  const width = indent.replace(/\t/g, '  ').length;
+  return Math.floor(width / 2);
+};
+
+/**
+ * Tokenizes multi-line markdown into block nodes (one node per line, except
+ * blockquotes, which group consecutive "> " lines).
+ */
+export const parseBlocks = (text: string): BlockNode[] => {
+  const lines = text.split('\n');
+  const blocks: BlockNode[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Blockquote: collect consecutive quoted lines and parse them recursively
+    if (/^>\s?/.test(trimmed)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^>\s?/.test(lines[i].trim())) {
+        quoted.push(lines[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      i--; // Compensate for the for-loop increment
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted.join('\n')) });
+      continue;
+    }
+
+    if (!trimmed) {
+      blocks.push({ type: 'blank' });
+      continue;
+    }
+
+    // Headings
+    const heading = trimmed.match(/^(#{1,3}) (.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    // Checklist items: "- [ ] task" / "- [x] done"
+    const checklist = trimmed.match(/^[-*+] \[( |x|X)\] (.*)$/);
+    if (checklist) {
+      blocks.push({
+        type: 'listItem',
+        ordered: false,
+        checked: checklist[1].toLowerCase() === 'x',
+        depth: getIndentDepth(line),
+        children: parseInline(checklist[2])
+      });
+      continue;
+    }
+
+    // Bullets: "- item", "* item", "+ item"
+    const bullet = trimmed.match(/^[-*+] (.*)$/);
+    if (bullet) {
+      blocks.push({ type: 'listItem', ordered: false, depth: getIndentDepth(line), children: parseInline(bullet[1]) });
+      continue;
+    }
+
+    // Numbered: "1. item" (the written number is kept)
+    const numbered = trimmed.match(/^(\d+)\. (.*)$/);
+    if (numbered) {
+      blocks.push({
+        type: 'listItem',
+        ordered: true,
+        number: parseInt(numbered[1], 10),
+        depth: getIndentDepth(line),
+        children: parseInline(numbered[2])
+      });
+      continue;
+    }
+
+    blocks.push({ type: 'paragraph', children: parseInline(trimmed) });
+  }
+
+  return blocks;
+};
+
+// ============================================================================
+// THEMING
+// ============================================================================
+
+/**
+ * Per-style look of rendered markdown. Each slide component builds one of these
+ * from its theme (LIGHT/DARK), accent color and text color override.
+ */
+export interface MarkdownTheme {
+  // Colors
+  headingColor: string;
+  textColor: string;
+  bulletColor: string;           // Bullet markers
+  numberColor: string;           // Numbered list markers
+  mutedColor: string;            // Checked checklist items, blockquote text
+  linkColor: string;
+  quoteBarColor: string;         // Blockquote left border
+  codeBackground: string;        // Inline code background
+
+  // Base sizes in px (for 1080px width, multiplied by fontScale)
+  sizes: { h1: number; h2: number; h3: number; body: number; bullet: number };
+
+  // Tailwind classes per element
+  classNames: {
+    h1: string;
+    h2: string;
+    h3: string;
+    body: string;                // Paragraphs and list item text
+    number: string;              // Numbered list markers
+    strong: string;
+    em: string;
+    strike: string;
+  };
+
+  bullet: string;                // Top-level bullet character ('•' or '●')
+  headingLineHeight?: number;    // Fixed heading line height (defaults to the body line height)
+
+  /**
+   * How `__text__` renders:
+   * - 'underline': thick underline (Twitter)
+   * - 'highlight': marker-style background in highlightColor (accent styles)
+   */
+  underlineStyle: 'underline' | 'highlight';
+  highlightColor: string;
+  highlightClassName?: string;   // Extra classes for highlights (e.g. "font-semibold")
+
+  /** Optional custom checkbox (e.g. round notes-app checkboxes). */
+  renderCheckbox?: (checked: boolean, size: number) => React.ReactNode;
+}
+
+/**
+ * Layout values resolved by the slide (per-slide override > global > default).
+ */
+export interface MarkdownLayout {
+  fontScale?: number;
+  lineHeight?: number;
+  paragraphGap?: number;         // rem
+  textAlignment?: TextAlignment;
+}
+
+// ============================================================================
+// RENDERER
+// ============================================================================
+
+/**
+ * Renders inline nodes as React elements.
+ */
+const renderInline = (nodes: InlineNode[], theme: MarkdownTheme, keyPrefix = ''): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    const key = `${keyPrefix}${i}`;
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'code':
+        return (
+          <code
+            key={key}
+            className="px-2 rounded-md"
+            style={{ fontFamily: getFontFamily('TECH'), fontSize: '0.85em', backgroundColor: theme.codeBackground }}
+          >
+            {node.value}
+          </code>
+        );
+      case 'strong':
+        return <strong key={key} className={theme.classNames.strong}>{renderInline(node.children, theme, `${key}-`)}</strong>;
+      case 'em':
+        return <em key={key} className={theme.classNames.em}>{renderInline(node.children, theme, `${key}-`)}</em>;
+      case 'strike':
+        return <s key={key} className={theme.classNames.strike}>{renderInline(node.children, theme, `${key}-`)}</s>;
+      case 'underline':
+        return theme.underlineStyle === 'underline'
+          ? <u key={key} className="decoration-4 underline-offset-4">{renderInline(node.children, theme, `${key}-`)}</u>
+          : (
+            <span key={key} style={{ backgroundColor: theme.highlightColor }} className={`px-1 rounded ${theme.highlightClassName || ''}`}>
+              {renderInline(node.children, theme, `${key}-`)}
+            </span>
+          );
+      case 'link':
+        return (
+          <span key={key} className="underline underline-offset-4" style={{ color: theme.linkColor }}>
+            {renderInline(node.children, theme, `${key}-`)}
+          </span>
+        );
+    }
+  });
+
+/**
+ * Default square checkbox (used unless the theme provides renderCheckbox).
+ */
+const renderDefaultCheckbox = (checked: boolean, size: number, theme: MarkdownTheme) => (
+  <span
+    className="flex-shrink-0 rounded-md flex items-center justify-center"
+    style={{
+      width: `${size}px`,
+      height: `${size}px`,
+      border: `${Math.max(2, size / 12)}px solid ${theme.bulletColor}`,
+      backgroundColor: checked ? theme.bulletColor : 'transparent'
+    }}
+  >
+    {checked && (
+      <svg viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth={3.5} strokeLinecap="round" strokeLinejoin="round" style={{ width: `${size * 0.7}px`, height: `${size * 0.7}px` }}>
+        <path d="M5 12.5l4.5 4.5L19 7.5" />
+      </svg>
+    )}
+  </span>
+);
+
+/**
+ * Renders markdown text with a style's theme.
+ *
+ * @param text - Slide markdown
+ * @param theme - Per-style look (see MarkdownTheme)
+ * @param layout - Font scale, line height, paragraph gap and alignment
+ */
+export const renderMarkdown = (text: string, theme: MarkdownTheme, layout: MarkdownLayout = {}): React.ReactNode[] =>
+  renderBlocks(parseBlocks(text), theme, layout, '');
+
+const renderBlocks = (blocks: BlockNode[], theme: MarkdownTheme, layout: MarkdownLayout, keyPrefix: string): React.ReactNode[] => {
+  const { fontScale = 1.0, lineHeight = 1.5, paragraphGap = 1, textAlignment = 'left' } = layout;
+
+  const h1Size = theme.sizes.h1 * fontScale;
+  const h2Size = theme.sizes.h2 * fontScale;
+  const h3Size = theme.sizes.h3 * fontScale;
+  const bodySize = theme.sizes.body * fontScale;
+  const bulletSize = theme.sizes.bullet * fontScale;
+  const headingLineHeight = theme.headingLineHeight ?? lineHeight;
+
+  // Paragraph spacing in pixels (rem * 16px base)
+  const paragraphSpacing = paragraphGap * 16;
+
+  // List alignment classes based on textAlignment
+  const listJustify = textAlignment === 'center' ? 'justify-center' : textAlignment === 'right' ? 'justify-end' : '';
+
+  return blocks.map((block, idx) => {
+    const key = `${keyPrefix}${idx}`;
+
+    switch (block.type) {
+      case 'heading': {
+        const size = block.level === 1 ? h1Size : block.level === 2 ? h2Size : h3Size;
+        const className = block.level === 1 ? theme.classNames.h1 : block.level === 2 ? theme.classNames.h2 : theme.classNames.h3;
+        const marginBottom = block.level === 1 ? paragraphSpacing : paragraphSpacing * 0.75;
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3';
+        return (
+          <Tag key={key} className={className} style={{ fontSize: `${size}px`, lineHeight: headingLineHeight, marginBottom: `${marginBottom}px`, color: theme.headingColor, textAlign: textAlignment }}>
+            {renderInline(block.children, theme)}
+          </Tag>
+        );
+      }
+
+      case 'listItem': {
+        // Nested items are indented by depth (only meaningful for left-aligned text)
+        const indent = textAlignment === 'left' ? block.depth * bodySize * 1.2 : 0;
+        const textStyle = {
+          fontSize: `${bodySize}px`,
+          lineHeight: lineHeight,
+          color: block.checked ? theme.mutedColor : theme.textColor
+        };
+
+        let marker: React.ReactNode;
+        if (block.checked !== undefined) {
+          marker = theme.renderCheckbox
+            ? theme.renderCheckbox(block.checked, bodySize * 1.1)
+            : renderDefaultCheckbox(block.checked, bodySize * 0.9, theme);
+        } else if (block.ordered) {
+          marker = <span className={`mr-4 ${theme.classNames.number}`} style={{ fontSize: `${bodySize}px`, color: theme.numberColor }}>{block.number}.</span>;
+        } else {
+          marker = <span className="mr-4 mt-1" style={{ fontSize: `${bulletSize}px`, color: theme.bulletColor }}>{block.depth > 0 ? '◦' : theme.bullet}</span>;
+        }
+
+        return (
+          <div
+            key={key}
+            className={`flex ${block.checked !== undefined ? 'items-center gap-5' : 'items-start'} ${textAlignment === 'left' ? 'ml-2' : ''} ${listJustify}`}
+            style={{ marginBottom: `${paragraphSpacing * 0.5}px`, paddingLeft: indent ? `${indent}px` : undefined }}
+          >
+            {marker}
+            <span className={theme.classNames.body} style={textStyle}>{renderInline(block.children, theme)}</span>
+          </div>
+        );
+      }
+
+      case 'blockquote':
+        return (
+          <blockquote
+            key={key}
+            className="italic"
+            style={{ borderLeft: `${Math.max(4, 8 * fontScale)}px solid ${theme.quoteBarColor}`, paddingLeft: `${bodySize * 0.6}px`, marginBottom: `${paragraphSpacing}px` }}
+          >
+            {renderBlocks(block.children, { ...theme, textColor: theme.mutedColor }, layout, `${key}-`)}
+          </blockquote>
+        );
+
+      case 'blank':
+        return <div key={key} style={{ height: `${paragraphSpacing * 0.5}px` }}></div>;
+
+      case 'paragraph':
+        return (
+          <p key={key} className={theme.classNames.body} style={{ fontSize: `${bodySize}px`, lineHeight: lineHeight, marginBottom: `${paragraphSpacing}px`, color: theme.textColor, textAlign: textAlignment }}>
+            {renderInline(block.children, theme)}
+          </p>
+        );
+    }
+  });
+};
+
+// ============================================================================
+// CONTENT HELPERS
+// ============================================================================
+
+/**
+ * Splits content into title (leading headings) and body (everything else).
+ * Used by layouts that place the image between the title and the body text.
+ */
+export const splitContentByHeaders = (content: string): { titleLines: string; bodyLines: string } => {
+  const lines = content.split('\n');
+  const titleLines: string[] = [];
+  const bodyLines: string[] = [];
+  let foundNonHeader = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    // Headings and the blank lines between them belong to the title
+    if (!foundNonHeader && (/^#{1,3} /.test(trimmed) || trimmed === '')) {
+      titleLines.push(line);
+    } else {
+      foundNonHeader = true;
+      bodyLines.push(line);
+    }
+  }
+
+  return {
+    titleLines: titleLines.join('\n'),
+    bodyLines: bodyLines.join('\n')
+  };
+};
@@ -0,0 +1,59 @@
+/**
+ * Post Copy Helpers
+ *
+ * Formatting for the text published alongside a carousel: caption, hashtags
+ * and per-slide alt text. Shared by AI generation (services/providers),
+ * the Workspace "Post" panel and the ZIP export (caption.txt, alt-text.json).
+ */
+
+import { Slide } from '../types';
+
+// Instagram allows at most 30 hashtags per post
+export const MAX_HASHTAGS = 30;
+
+/**
+ * Cleans a hashtag list: strips "#" and whitespace, drops empties and
+ * case-insensitive duplicates (keeping the first, i.e. higher-ranked, one).
+ * Order is preserved because it is the ranking.
+ */
+export const normalizeHashtags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of tags) {
+    const tag = String(raw).replace(/^#+/, '').replace(/\s+/g, '');
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+
+  return result.slice(0, MAX_HASHTAGS);
+};
+
+/**
+ * Splits user input like "#growth, marketing #tips" into individual tags.
+ */
+export const parseHashtagInput = (input: string): string[] =>
+  normalizeHashtags(input.split(/[\s,]+/));
+
+/**
+ * The text to paste into the post: caption, blank line, then the hashtags.
+ */
+export const formatPostText = (caption: string, hashtags: string[]): string => {
+  const tags = hashtags.map(tag => `#${tag}`).join(' ');
+  return [caption.trim(), tags].filter(Boolean).join('\n\n');
+};
+
+/**
+ * alt-text.json contents for the ZIP export, matching the slide-N.png file names.
+ */
+export const buildAltTextManifest = (slides: Slide[]): string =>
+  JSON.stringify(
+    slides.map((slide, index) => ({
+      slide: index + 1,
+      file: `slide-${index + 1}.png`,
+      altText: slide.altText || ''
+    })),
+    null,
+    2
+  );
@@ -0,0 +1,127 @@
+/**
+ * Carousel Templates
+ *
+ * Turns a project into a reusable template and back:
+ * - createTemplate: keeps the style, settings and every per-slide override,
+ *   drops the images and replaces each line of text with a named placeholder
+ * - fillTemplate: writes values into the placeholders to get fresh slides
+ *
+ * Placeholders appear in slide content as {{key}} (e.g. {{slide_2_heading}}).
+ * The Markdown around them is kept, so a "# " heading or "- [ ] " checklist
+ * line stays one after filling.
+ */
+
+import { CarouselProject, CarouselTemplate, TemplatePlaceholder, TemplatePlaceholderKind, Slide } from '../types';
+
+export const CURRENT_TEMPLATE_VERSION = 1;
+
+// {{key}} in slide content
+const PLACEHOLDER_PATTERN = /\{\{([a-z0-9_]+)\}\}/g;
+
+// Markdown line prefix (heading, checklist, bullet, numbered item, quote) + the text after it
+const LINE_PATTERN = /^(\s*(?:#{1,6}\s+|[-*+]\s+\[[ xX]\]\s+|[-*+]\s+|\d+[.)]\s+|>\s*)?)(.*)$/;
+
+const KIND_LABELS: Record<TemplatePlaceholderKind, string> = {
+  heading: 'heading',
+  text: 'text',
+  item: 'list item'
+};
+
+const getLineKind = (prefix: string): TemplatePlaceholderKind => {
+  const marker = prefix.trim();
+  if (marker.startsWith('#')) return 'heading';
+  if (/^([-*+]|\d+[.)])/.test(marker)) return 'item';
+  return 'text';
+};
+
+// ============================================================================
+// PROJECT → TEMPLATE
+// ============================================================================
+
+/**
+ * Replaces the text of one slide with placeholders, appending them to `placeholders`.
+ * Keys and labels count per kind within the slide: slide_2_text, slide_2_text_2...
+ */
+const templateSlideContent = (content: string, slideIndex: number, placeholders: TemplatePlaceholder[]): string => {
+  const counts: Partial<Record<TemplatePlaceholderKind, number>> = {};
+
+  return content.split('\n').map(line => {
+    const [, prefix, text] = line.match(LINE_PATTERN) || [null, '', line];
+    if (!text.trim()) return line;
+
+    const kind = getLineKind(prefix);
+    const n = (counts[kind] = (counts[kind] || 0) + 1);
+    const key = `slide_${slideIndex + 1}_${kind}${n > 1 ? `_${n}` : ''}`;
+    placeholders.push({
+      key,
+      label: `Slide ${slideIndex + 1} ${KIND_LABELS[kind]}${n > 1 ? ` ${n}` : ''}`,
+      kind,
+      slideIndex,
+      example: text.trim()
+    });
+    return `${prefix}{{${key}}}`;
+  }).join('\n');
+};
+
+/**
+ * Creates a template from a project.
+ * Layout, per-slide overrides and image positions are kept; images (and their history),
+ * image prompts and alt text are dropped because they belong to the original content.
+ */
+export const createTemplate = (project: CarouselProject, name: string): CarouselTemplate => {
+  const placeholders: TemplatePlaceholder[] = [];
+  const slides: Slide[] = project.slides.map((slide, index) => ({
+    ...slide,
+    id: crypto.randomUUID(),
+    content: templateSlideContent(slide.content, index, placeholders),
+    imageUrl: undefined,
+    imagePrompt: undefined,
+    backgroundImageUrl: undefined,
+    altText: undefined,
+    imageVariants: undefined
+  }));
+
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: CURRENT_TEMPLATE_VERSION,
+    id: crypto.randomUUID(),
+    name,
+    style: project.style,
+    aspectRatio: project.aspectRatio,
+    slides,
+    placeholders,
+    settings: {
+      theme: project.theme,
+      accentColor: project.accentColor,
+      showAccent: project.showAccent,
+      showSlideNumbers: project.showSlideNumbers,
+      showVerifiedBadge: project.showVerifiedBadge,
+      headerScale: project.headerScale,
+      fontStyle: project.fontStyle,
+      fontScale: project.fontScale,
+      globalImageStyle: project.globalImageStyle,
+      layoutSettings: project.layoutSettings
+    },
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// ============================================================================
+// TEMPLATE → SLIDES
+// ============================================================================
+
+/**
+ * Fills the placeholders and returns new slides (fresh IDs).
+ * Placeholders without a value show their label, so nothing is silently blank.
+ */
+export const fillTemplate = (template: CarouselTemplate, values: Record<string, string>): Slide[] => {
+  const labels = new Map(template.placeholders.map(p => [p.key, p.label]));
+  return template.slides.map(slide => ({
+    ...slide,
+    id: crypto.randomUUID(),
+    content: slide.content.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+      values[key]?.trim() || labels.get(key) || match
+    )
+  }));
+};
@@ -0,0 +1,132 @@
+/**
+ * Text Fit
+ *
+ * Detects slide text that doesn't fit its area. Slide renderers mark their text
+ * containers with `data-text-box` and measure them through useTextFit: the height
+ * the text needs vs. the height its box has after padding, header, image and footer.
+ *
+ * The Workspace renders every slide offscreen at export size to flag overflowing
+ * slides in the sidebar, and fixes them by shrinking the slide's fontScale
+ * (getAutoFitFontScale) or by asking the AI to shorten the text (buildShortenFeedback).
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useRef } from 'react';
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+/**
+ * Measurement of a slide's tightest text box, in px at export size.
+ */
+export interface TextFit {
+  contentHeight: number;    // Height the text needs
+  availableHeight: number;  // Height the box has
+}
+
+// Sub-pixel rounding and the last block's margin shouldn't count as overflow
+const OVERFLOW_TOLERANCE_PX = 4;
+
+export const isTextOverflowing = (fit: TextFit | undefined): boolean =>
+  !!fit && fit.contentHeight - fit.availableHeight > OVERFLOW_TOLERANCE_PX;
+
+export const isSameTextFit = (a: TextFit | undefined, b: TextFit): boolean =>
+  !!a && a.contentHeight === b.contentHeight && a.availableHeight === b.availableHeight;
+
+/**
+ * Measures one text box. Content height is the span of its children rather than
+ * scrollHeight, which misses text pushed above the top by vertical centering.
+ * Client rects are divided by the box's on-screen scale (the preview zoom);
+ * the box's own vertical padding is not available to the text.
+ */
+const measureTextBox = (box: HTMLElement): TextFit => {
+  const { paddingTop, paddingBottom } = getComputedStyle(box);
+  const availableHeight = Math.round(Math.max(0, box.clientHeight - parseFloat(paddingTop) - parseFloat(paddingBottom)));
+  const children = Array.from<Element>(box.children);
+  if (children.length === 0) return { contentHeight: 0, availableHeight };
+  const rects = children.map(child => child.getBoundingClientRect());
+  const scale = box.offsetHeight > 0 ? box.getBoundingClientRect().height / box.offsetHeight : 1;
+  const span = Math.max(...rects.map(r => r.bottom)) - Math.min(...rects.map(r => r.top));
+  return { contentHeight: Math.round(span / (scale || 1)), availableHeight };
+};
+
+// The box whose text overflows by the most pixels decides
+const tightestFit = (fits: TextFit[]): TextFit | undefined =>
+  fits.reduce<TextFit | undefined>((worst, fit) => {
+    if (!worst) return fit;
+    const overflow = (f: TextFit) => f.contentHeight - f.availableHeight;
+    return overflow(fit) > overflow(worst) ? fit : worst;
+  }, undefined);
+
+/**
+ * Reports a slide's text fit. Returns the ref for the slide's root element;
+ * text boxes inside it need a `data-text-box` attribute.
+ * Measures after every render, once web fonts have loaded, and whenever a text box
+ * resizes (some layouts animate their height); the callback should ignore reports
+ * that didn't change. Does nothing without a callback (export renders, for example).
+ */
+export const useTextFit = <T extends HTMLElement>(onChange?: (fit: TextFit) => void) => {
+  const rootRef = useRef<T>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const measure = useCallback(() => {
+    const root = rootRef.current;
+    if (!root || !onChangeRef.current) return;
+    const boxes = Array.from<HTMLElement>(root.querySelectorAll<HTMLElement>('[data-text-box]'));
+    boxes.forEach(box => observerRef.current?.observe(box));
+    onChangeRef.current(tightestFit(boxes.map(measureTextBox)) ?? { contentHeight: 0, availableHeight: root.clientHeight });
+  }, []);
+
+  useLayoutEffect(measure);
+
+  const enabled = !!onChange;
+  useEffect(() => {
+    if (!enabled) return;
+    let active = true;
+    document.fonts?.ready.then(() => active && measure());
+    observerRef.current = new ResizeObserver(() => measure());
+    measure();
+    return () => {
+      active = false;
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, [enabled, measure]);
+
+  return rootRef;
+};
+
+// ============================================================================
+// FIXING OVERFLOW
+// ============================================================================
+
+// Auto-fit never shrinks text below this fontScale; shorter copy is the fix beyond it
+export const MIN_AUTO_FIT_SCALE = 0.6;
+
+// Same step as the font size sliders
+const FONT_SCALE_STEP = 0.05;
+
+/**
+ * Smaller fontScale for an overflowing slide, or null if it can't shrink further.
+ * Wrapped text gets both shorter lines and fewer of them, so its height goes with
+ * the square of the scale; the estimate is refined step by step on re-measure.
+ */
+export const getAutoFitFontScale = (currentScale: number, fit: TextFit): number | null => {
+  if (currentScale <= MIN_AUTO_FIT_SCALE) return null;
+  const estimate = currentScale * Math.sqrt(fit.availableHeight / fit.contentHeight);
+  const stepped = Math.floor(estimate / FONT_SCALE_STEP) * FONT_SCALE_STEP;
+  const next = Math.max(MIN_AUTO_FIT_SCALE, Math.min(currentScale - FONT_SCALE_STEP, stepped));
+  return Math.round(next * 100) / 100;
+};
+
+/**
+ * Refinement instructions that shorten a slide to fit, sized by how much it overflows.
+ */
+export const buildShortenFeedback = (fit: TextFit): string => {
+  const excess = 1 - fit.availableHeight / fit.contentHeight;
+  const cut = Math.min(70, Math.max(15, Math.round(excess * 100) + 10));
+  return `The text doesn't fit on the slide. Shorten it by about ${cut}%: keep the key message, ` +
+    `the heading and the markdown structure, and cut filler words and less important points.`;
+};
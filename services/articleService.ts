@@ -0,0 +1,362 @@
+/**
+ * Article Service
+ *
+ * Turns a blog post or newsletter link in the topic into a document for carousel
+ * generation: fetches the page, extracts its readable main text plus title, author
+ * and lead image, and returns it as an UploadedDocument (type 'article'). The lead
+ * image is downloaded too, so it can be used as a slide image like the pictures
+ * of an uploaded DOCX or EPUB.
+ *
+ * FETCHING: Most sites don't allow cross-origin requests from the browser, so pages
+ * are fetched through a configurable proxy (localStorage). With the offline mock
+ * provider active, a local stand-in returns a sample article instead, and
+ * setArticleFetcher() can replace the fetcher entirely (e.g. in tests).
+ *
+ * Social posts (services/social) and YouTube links are handled by the providers and are not articles.
+ */
+
+import { DocumentImage, DocumentSource, UploadedDocument } from '../types';
+import { getActiveProviderId } from './providers';
+import { isSocialPostUrl } from './social';
+import { toDocumentImage } from './documentParsers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Article extends DocumentSource {
+  text: string;           // Readable main text, Markdown-ish (headings, list items, quotes)
+  image?: DocumentImage;  // The lead image (imageUrl), downloaded for use on slides
+}
+
+/**
+ * Returns the HTML of a page. Rejects with an AbortError when the signal aborts.
+ */
+export type ArticleFetcher = (url: string, signal?: AbortSignal) => Promise<string>;
+
+// ============================================================================
+// URL DETECTION
+// ============================================================================
+
+const URL_REGEX = /https?:\/\/[^\s<>"']+/g;
+
+// Handled as media by the providers (social posts are matched by services/social, YouTube in geminiProvider)
+const NON_ARTICLE_HOSTS = ['instagram.com', 'tiktok.com', 'youtube.com', 'youtu.be'];
+
+const isNonArticleHost = (hostname: string): boolean =>
+  NON_ARTICLE_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+
+/**
+ * Extracts web page URLs from text, skipping social post and YouTube links.
+ * LinkedIn articles (linkedin.com/pulse/...) are still read as articles.
+ * Trailing punctuation ("see https://example.com/post.") is not part of the URL.
+ */
+export const extractArticleUrls = (text: string): string[] =>
+  (text.match(URL_REGEX) || [])
+    .map(url => url.replace(/[.,;:!?)\]]+$/, ''))
+    .filter(url => {
+      try {
+        return !isNonArticleHost(new URL(url).hostname.toLowerCase()) && !isSocialPostUrl(url);
+      } catch {
+        return false;
+      }
+    });
+
+// ============================================================================
+// PROXY SETTINGS
+// ============================================================================
+
+const ARTICLE_PROXY_STORAGE = 'article_proxy_url';
+
+/**
+ * Proxy the page is requested through. Either a URL with a "{url}" placeholder
+ * ("https://proxy.example.com/raw?url={url}") or a prefix the encoded page URL is
+ * appended to ("https://corsproxy.io/?url="). Empty = fetch pages directly.
+ */
+export const getArticleProxy = (): string => localStorage.getItem(ARTICLE_PROXY_STORAGE) || '';
+
+export const setArticleProxy = (proxy: string): void => {
+  if (proxy.trim()) localStorage.setItem(ARTICLE_PROXY_STORAGE, proxy.trim());
+  else localStorage.removeItem(ARTICLE_PROXY_STORAGE);
+};
+
+const buildFetchUrl = (url: string): string => {
+  const proxy = getArticleProxy();
+  if (!proxy) return url;
+  return proxy.includes('{url}')
+    ? proxy.replace('{url}', encodeURIComponent(url))
+    : proxy + encodeURIComponent(url);
+};
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+const proxyFetcher: ArticleFetcher = async (url, signal) => {
+  let response: Response;
+  try {
+    response = await fetch(buildFetchUrl(url), { signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // fetch() only rejects on network errors - for pages, almost always CORS
+    throw new Error(getArticleProxy()
+      ? 'The article proxy could not be reached.'
+      : 'The site blocked the request. Set an article proxy and try again.');
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch the article: ${response.status}`);
+  }
+  return await response.text();
+};
+
+/**
+ * Local stand-in used with the offline mock provider: a sample article built from
+ * the URL, so link ingestion can be tried without network access.
+ */
+const mockFetcher: ArticleFetcher = async (url, signal) => {
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Fetch cancelled', 'AbortError'));
+    const timer = setTimeout(resolve, 400);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Fetch cancelled', 'AbortError'));
+    }, { once: true });
+  });
+  const { hostname, pathname } = new URL(url);
+  const slug = pathname.split('/').filter(Boolean).pop()?.replace(/\.[a-z]+$/, '') || 'home';
+  const title = slug.split(/[-_]+/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  const paragraph = (n: number) =>
+    `<p>Point ${n} about ${title.toLowerCase()}: small, repeatable steps beat big plans, and the people who measure their progress improve twice as fast as the ones who don't.</p>`;
+  return `<html><head>
+    <title>${title} | ${hostname}</title>
+    <meta property="og:title" content="${title}">
+    <meta property="og:site_name" content="${hostname}">
+    <meta name="author" content="Sample Author">
+    <meta property="og:image" content="https://picsum.photos/seed/${encodeURIComponent(slug)}/1200/630">
+  </head><body>
+    <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+    <article><h1>${title}</h1>${[1, 2, 3].map(paragraph).join('')}<h2>Key takeaways</h2>
+      <ul><li>Start smaller than feels useful.</li><li>Review what worked every week.</li></ul>${[4, 5].map(paragraph).join('')}
+    </article>
+    <footer>Subscribe to the newsletter</footer>
+  </body></html>`;
+};
+
+let fetcherOverride: ArticleFetcher | null = null;
+
+/**
+ * Replaces how pages are fetched (null restores the default).
+ */
+export const setArticleFetcher = (fetcher: ArticleFetcher | null): void => {
+  fetcherOverride = fetcher;
+};
+
+const getFetcher = (): ArticleFetcher =>
+  fetcherOverride ?? (getActiveProviderId() === 'mock' ? mockFetcher : proxyFetcher);
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+// Cap on the text sent to the model; long-form posts are trimmed at a paragraph
+const MAX_ARTICLE_CHARS = 40_000;
+
+// Less text than this is a paywall, a cookie wall or an app shell, not an article
+const MIN_ARTICLE_CHARS = 200;
+
+// Page chrome that never belongs to the article
+const NOISE_SELECTOR = 'script, style, noscript, template, iframe, svg, canvas, form, button, nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]';
+
+// Blocks whose text is kept, in document order
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre';
+
+const normalizeSpace = (text: string | null | undefined): string =>
+  (text || '').replace(/\s+/g, ' ').trim();
+
+const getMeta = (doc: Document, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const el = doc.querySelector(`meta[property="${key}"], meta[name="${key}"]`);
+    const content = normalizeSpace(el?.getAttribute('content'));
+    if (content) return content;
+  }
+  return undefined;
+};
+
+// Author from schema.org JSON-LD ({"author": {"name": ...}} or a list of them)
+const getJsonLdAuthor = (doc: Document): string | undefined => {
+  for (const script of Array.from<Element>(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      for (const item of [data, ...(data['@graph'] || [])].flat()) {
+        const authors = [item?.author].flat().filter(Boolean);
+        const names = authors.map((a: any) => typeof a === 'string' ? a : a?.name).filter(Boolean);
+        if (names.length > 0) return names.join(', ');
+      }
+    } catch {
+      // Malformed JSON-LD is common; the other sources still apply
+    }
+  }
+  return undefined;
+};
+
+const getAuthor = (doc: Document): string | undefined => {
+  const meta = getMeta(doc, 'author', 'article:author', 'twitter:creator', 'parsely-author');
+  // article:author is often a profile URL, which doesn't read as a name
+  if (meta && !/^https?:\/\//.test(meta)) return meta;
+  const byline = normalizeSpace(doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author')?.textContent)
+    .replace(/^by\s+/i, '');
+  // A long match is an author bio box, not a name
+  return getJsonLdAuthor(doc) || (byline && byline.length <= 80 ? byline : undefined);
+};
+
+/**
+ * The element holding the article: <article>/<main> when there is one with enough
+ * text, otherwise the container with the most paragraph text (paragraphs also count
+ * half for their grandparent, so a wrapper around several sections can win).
+ */
+const findMainElement = (body: HTMLElement): HTMLElement => {
+  const textLength = (el: Element) => normalizeSpace(el.textContent).length;
+  const semantic = Array.from<HTMLElement>(body.querySelectorAll<HTMLElement>('article, main, [role="main"]'))
+    .filter(el => textLength(el) >= MIN_ARTICLE_CHARS)
+    .sort((a, b) => textLength(b) - textLength(a))[0];
+  if (semantic) return semantic;
+
+  const scores = new Map<HTMLElement, number>();
+  for (const p of Array.from<HTMLElement>(body.querySelectorAll<HTMLElement>('p'))) {
+    const length = textLength(p);
+    if (length < 25) continue;
+    const parent = p.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + length);
+    const grandparent = parent?.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + length / 2);
+  }
+  let best: HTMLElement = body;
+  let bestScore = 0;
+  scores.forEach((score, el) => {
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// One block as a line of text: "## Heading", "- item", "> quote", or the paragraph
+const formatBlock = (el: Element): string => {
+  const text = normalizeSpace(el.textContent);
+  const tag = el.tagName.toLowerCase();
+  if (/^h[1-6]$/.test(tag)) return `${'#'.repeat(Math.min(3, Number(tag[1]) + 1))} ${text}`;
+  if (tag === 'li') return `- ${text}`;
+  if (tag === 'blockquote') return `> ${text}`;
+  return text;
+};
+
+const extractText = (main: HTMLElement): string => {
+  // Nested blocks (a <p> inside an <li> or <blockquote>) are covered by their outer block
+  const blocks = Array.from<Element>(main.querySelectorAll(BLOCK_SELECTOR)).filter(el => {
+    const outer = el.parentElement?.closest(BLOCK_SELECTOR);
+    return !outer || !main.contains(outer);
+  });
+  const lines = (blocks.length > 0 ? blocks.map(formatBlock) : [normalizeSpace(main.textContent)])
+    .filter(line => line.replace(/^[#\->\s]+/, '').length > 0);
+
+  let text = '';
+  for (const line of lines) {
+    if (text.length + line.length > MAX_ARTICLE_CHARS) break;
+    text += (text ? '\n\n' : '') + line;
+  }
+  return text;
+};
+
+const resolveUrl = (url: string | undefined | null, base: string): string | undefined => {
+  if (!url) return undefined;
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Extracts the readable article from a page's HTML.
+ *
+ * @param html - The page
+ * @param url - Where it came from (resolves relative image URLs; fallback site name)
+ * @throws Error if the page has too little text to be an article
+ */
+export const extractArticle = (html: string, url: string): Article => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Metadata first: the noise removal below also drops JSON-LD scripts and <header> bylines
+  const title = getMeta(doc, 'og:title', 'twitter:title')
+    || normalizeSpace(doc.querySelector('h1')?.textContent)
+    || normalizeSpace(doc.title)
+    || new URL(url).hostname;
+  const author = getAuthor(doc);
+  const siteName = getMeta(doc, 'og:site_name', 'application-name') || new URL(url).hostname.replace(/^www\./, '');
+  const publishedAt = getMeta(doc, 'article:published_time', 'datePublished', 'date');
+
+  doc.querySelectorAll(NOISE_SELECTOR).forEach(el => el.remove());
+  const main = findMainElement(doc.body);
+  const imageUrl = resolveUrl(getMeta(doc, 'og:image', 'og:image:url', 'twitter:image'), url)
+    || resolveUrl(main.querySelector('img[src]')?.getAttribute('src'), url);
+
+  const text = extractText(main);
+  if (text.length < MIN_ARTICLE_CHARS) {
+    throw new Error('No readable article text found on the page. It may need a login or render its content with JavaScript.');
+  }
+
+  return {
+    url,
+    title,
+    ...(author ? { author } : {}),
+    siteName,
+    ...(imageUrl ? { imageUrl } : {}),
+    ...(publishedAt ? { publishedAt } : {}),
+    text
+  };
+};
+
+/**
+ * Downloads the lead image (through the proxy, like the page) as a slide image.
+ * Returns null if it can't be loaded or is too small - the article works without it.
+ *
+ * @throws AbortError if the signal aborts
+ */
+const fetchLeadImage = async (imageUrl: string, signal?: AbortSignal): Promise<DocumentImage | null> => {
+  try {
+    const response = await fetch(buildFetchUrl(imageUrl), { signal });
+    if (!response.ok) throw new Error(`Failed to fetch the image: ${response.status}`);
+    const name = new URL(imageUrl).pathname.split('/').pop() || 'lead-image';
+    return await toDocumentImage(name, await response.blob());
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Could not load the article image:', error);
+    return null;
+  }
+};
+
+/**
+ * Fetches a page and extracts its article, with its lead image.
+ *
+ * @throws Error if the page can't be fetched or has no readable text;
+ *         AbortError if the signal aborts
+ */
+export const fetchArticle = async (url: string, signal?: AbortSignal): Promise<Article> => {
+  const html = await getFetcher()(url, signal);
+  const article = extractArticle(html, url);
+  const image = article.imageUrl ? await fetchLeadImage(article.imageUrl, signal) : null;
+  return image ? { ...article, image } : article;
+};
+
+/**
+ * The article as a document for carousel generation (appended to the prompt like a
+ * TXT upload). The lead image joins the document images offered as slide images.
+ */
+export const articleToDocument = ({ text, image, ...source }: Article): UploadedDocument => ({
+  name: source.title,
+  type: 'article',
+  content: text,
+  size: new Blob([text]).size,
+  ...(image ? { images: [image] } : {}),
+  source
+});
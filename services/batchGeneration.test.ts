@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { BatchDefaults, parseContentCalendar } from './batchGeneration';
+import { DEFAULT_LAYOUT_SETTINGS } from './projectSchema';
+import { BrandKit, CarouselStyle } from '../types';
+
+const DEFAULTS: BatchDefaults = {
+  style: CarouselStyle.TWITTER,
+  aspectRatio: '1/1',
+  profile: { name: 'Ada', handle: '@ada', avatarUrl: '' }
+};
+
+const ACME: BrandKit = {
+  schemaVersion: 1,
+  id: 'kit-1',
+  name: 'Acme',
+  profile: { name: 'Acme', handle: '@acme', avatarUrl: '' },
+  theme: 'DARK',
+  accentColor: '#FF0000',
+  fontStyle: 'SERIF',
+  fontScale: 1,
+  headerScale: 1,
+  layoutSettings: DEFAULT_LAYOUT_SETTINGS,
+  globalImageStyle: 'flat',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('parseContentCalendar', () => {
+  it('maps alias headers and values, falling back to the defaults', () => {
+    const rows = parseContentCalendar(
+      'Title,Slide_Count,Format,Ratio,Brand Kit,image-style\n'
+        + 'Habits,5,Apple Notes,4:5,acme,Watercolor\n'
+        + 'Focus,,,,,',
+      [ACME],
+      DEFAULTS
+    );
+
+    expect(rows[0]).toMatchObject({
+      topic: 'Habits',
+      slideCount: 5,
+      style: CarouselStyle.APPLE_NOTES,
+      aspectRatio: '4/5',
+      brandKit: ACME,
+      imageStyle: 'Watercolor',
+      error: undefined
+    });
+    expect(rows[1]).toMatchObject({ topic: 'Focus', slideCount: 7, style: CarouselStyle.TWITTER, aspectRatio: '1/1', error: undefined });
+  });
+
+  it('reports every problem of an invalid row', () => {
+    const [row] = parseContentCalendar('topic,slides,style,aspect ratio,brand\n,16,comic,3:2,Globex', [ACME], DEFAULTS);
+
+    expect(row.error).toBe([
+      'topic is empty',
+      'slides must be a whole number from 3 to 15',
+      'unknown style "comic" (use Twitter, Storyteller, Lesson or Apple Notes)',
+      'unknown aspect ratio "3:2" (use 1:1, 4:5, 9:16 or 16:9)',
+      'no brand kit named "Globex"'
+    ].join('; '));
+  });
+
+  it('accepts the slide count bounds and rejects fractions', () => {
+    const rows = parseContentCalendar('topic,slides\nA,3\nB,15\nC,2\nD,7.5', [], DEFAULTS);
+
+    expect(rows.map(row => !!row.error)).toEqual([false, false, true, true]);
+  });
+
+  it('numbers rows by their line in the file', () => {
+    const rows = parseContentCalendar('\uFEFFtopic\r\n\r\n"Habits\r\nand routines"\r\nFocus', [], DEFAULTS);
+
+    expect(rows.map(row => [row.line, row.topic])).toEqual([[3, 'Habits\r\nand routines'], [5, 'Focus']]);
+  });
+
+  it('rejects files without a topic column or without rows', () => {
+    expect(() => parseContentCalendar('title only', [], DEFAULTS)).toThrow('no rows');
+    expect(() => parseContentCalendar('name,slides\nHabits,5', [], DEFAULTS)).toThrow('"topic" column');
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Batch Generation Service
+ *
+ * Bulk mode: turns a content calendar (CSV) into saved projects without going
+ * through the onboarding wizard for each carousel.
+ *
+ * PIPELINE:
+ * 1. parseContentCalendar: Maps CSV columns to rows and validates every row
+ *    (invalid rows are reported and skipped, not fatal)
+ * 2. runBatch: Generates each valid row through a throttled queue - slides with
+ *    generateCarouselContent, then optionally images with generateSlideImage -
+ *    and saves the result as a project in IndexedDB
+ *
+ * CSV COLUMNS (header names are case-insensitive; only "topic" is required):
+ * topic, slides, style, aspect ratio, brand (a brand kit name), image style
+ */
+
+import { AspectRatio, BrandKit, CarouselProject, CarouselStyle, Profile, Slide } from '../types';
+import { generateCarouselContent, generateSlideImage, DEFAULT_IMAGE_STYLE } from './geminiService';
+import { saveProject } from './projectStorage';
+import { CURRENT_SCHEMA_VERSION, DEFAULT_LAYOUT_SETTINGS, DEFAULT_ACCENT_COLOR } from './projectSchema';
+import { isAbortError } from './exportService';
+import { parseCsvRecords, toCsv } from '../lib/csv';
+import { DEFAULT_FRAMEWORK } from '../lib/frameworks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BatchRow {
+  line: number;                  // Line of the CSV file the row starts on (header = 1)
+  topic: string;
+  slideCount: number;
+  style: CarouselStyle;
+  aspectRatio: AspectRatio;
+  brandKit?: BrandKit;
+  imageStyle?: string;           // Overrides the brand kit's image style
+  error?: string;                // Validation problem - the row is skipped
+}
+
+export type BatchRowStatus = 'invalid' | 'queued' | 'writing' | 'images' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchRowResult {
+  status: BatchRowStatus;
+  message?: string;              // Error or validation message
+  projectId?: string;            // Set once the project is saved
+  slides?: number;
+  imagesGenerated?: number;
+  imagesFailed?: number;
+}
+
+export interface BatchDefaults {
+  style: CarouselStyle;          // Used when a row has no style
+  aspectRatio: AspectRatio;      // Used when a row has no aspect ratio
+  profile: Profile;              // Used when a row has no brand kit
+}
+
+export interface BatchOptions {
+  generateImages: boolean;
+  textModel: string;
+  imageModel: string;
+  defaults: BatchDefaults;
+  signal?: AbortSignal;
+  onUpdate: (index: number, result: BatchRowResult) => void;  // index into the rows passed to runBatch
+}
+
+// Rows generated at the same time, and the minimum gap between two AI requests.
+// Keeps a long calendar under typical per-minute rate limits.
+const BATCH_CONCURRENCY = 2;
+const REQUEST_INTERVAL_MS = 1500;
+
+const DEFAULT_SLIDE_COUNT = 7;
+const MIN_SLIDES = 3;
+const MAX_SLIDES = 15;
+
+// ============================================================================
+// CSV PARSING
+// ============================================================================
+
+type Column = 'topic' | 'slides' | 'style' | 'aspectRatio' | 'brand' | 'imageStyle';
+
+// Accepted header names per column (after lowercasing and turning _/- into spaces)
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  topic: ['topic', 'title', 'subject'],
+  slides: ['slides', 'slide count', 'count'],
+  style: ['style', 'format'],
+  aspectRatio: ['aspect ratio', 'ratio', 'aspect'],
+  brand: ['brand', 'brand kit'],
+  imageStyle: ['image style']
+};
+
+// Compared with letters and digits only: "Apple Notes" → "applenotes"
+const STYLE_VALUES: Record<string, CarouselStyle> = {
+  twitter: CarouselStyle.TWITTER,
+  tweet: CarouselStyle.TWITTER,
+  storyteller: CarouselStyle.STORYTELLER,
+  lesson: CarouselStyle.LESSON,
+  applenotes: CarouselStyle.APPLE_NOTES,
+  notes: CarouselStyle.APPLE_NOTES
+};
+
+const ASPECT_RATIO_VALUES: Record<string, AspectRatio> = {
+  '1:1': '1/1', square: '1/1',
+  '4:5': '4/5', portrait: '4/5',
+  '9:16': '9/16', story: '9/16',
+  '16:9': '16/9', landscape: '16/9'
+};
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+
+/**
+ * Parses a content calendar CSV.
+ *
+ * @param brandKits - Saved kits, matched by name (case-insensitive) in the "brand" column
+ * @throws If the file has no rows or no topic column
+ */
+export const parseContentCalendar = (text: string, brandKits: BrandKit[], defaults: BatchDefaults): BatchRow[] => {
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header || records.length === 0) throw new Error('The file has no rows below the header.');
+
+  const headers = header.fields.map(normalizeHeader);
+  const columnIndex = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Column[]).map(column => [
+      column,
+      headers.findIndex(h => COLUMN_ALIASES[column].includes(h))
+    ])
+  ) as Record<Column, number>;
+  if (columnIndex.topic === -1) throw new Error('The file needs a "topic" column.');
+
+  return records.map(({ fields, line }) => {
+    const value = (column: Column) => (columnIndex[column] === -1 ? '' : (fields[columnIndex[column]] || '').trim());
+    const problems: string[] = [];
+
+    const topic = value('topic');
+    if (!topic) problems.push('topic is empty');
+
+    let slideCount = DEFAULT_SLIDE_COUNT;
+    if (value('slides')) {
+      slideCount = Number(value('slides'));
+      if (!Number.isInteger(slideCount) || slideCount < MIN_SLIDES || slideCount > MAX_SLIDES) {
+        problems.push(`slides must be a whole number from ${MIN_SLIDES} to ${MAX_SLIDES}`);
+      }
+    }
+
+    let style = defaults.style;
+    if (value('style')) {
+      style = STYLE_VALUES[value('style').toLowerCase().replace(/[^a-z0-9]/g, '')];
+      if (!style) problems.push(`unknown style "${value('style')}" (use Twitter, Storyteller, Lesson or Apple Notes)`);
+    }
+
+    let aspectRatio = defaults.aspectRatio;
+    if (value('aspectRatio')) {
+      aspectRatio = ASPECT_RATIO_VALUES[value('aspectRatio').toLowerCase().replace('/', ':')];
+      if (!aspectRatio) problems.push(`unknown aspect ratio "${value('aspectRatio')}" (use 1:1, 4:5, 9:16 or 16:9)`);
+    }
+
+    let brandKit: BrandKit | undefined;
+    if (value('brand')) {
+      brandKit = brandKits.find(kit => kit.name.toLowerCase() === value('brand').toLowerCase());
+      if (!brandKit) problems.push(`no brand kit named "${value('brand')}"`);
+    }
+
+    return {
+      line,
+      topic,
+      slideCount,
+      style,
+      aspectRatio,
+      brandKit,
+      imageStyle: value('imageStyle') || undefined,
+      error: problems.length > 0 ? problems.join('; ') : undefined
+    };
+  });
+};
+
+// ============================================================================
+// PROJECTS
+// ============================================================================
+
+/**
+ * Builds a new project for a generated row: editor defaults, then the brand kit,
+ * then the row's own image style.
+ */
+const buildProject = (row: BatchRow, slides: Slide[], postCopy: Pick<CarouselProject, 'caption' | 'hashtags'>, defaults: BatchDefaults): CarouselProject => {
+  const kit = row.brandKit;
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: crypto.randomUUID(),
+    name: row.topic.substring(0, 60),
+    style: row.style,
+    aspectRatio: row.aspectRatio,
+    profile: kit?.profile ?? defaults.profile,
+    slides,
+    theme: kit?.theme ?? (row.style === CarouselStyle.STORYTELLER ? 'DARK' : 'LIGHT'),
+    accentColor: kit?.accentColor ?? DEFAULT_ACCENT_COLOR,
+    showAccent: true,
+    showSlideNumbers: true,
+    showVerifiedBadge: true,
+    headerScale: kit?.headerScale ?? 1.0,
+    fontStyle: kit?.fontStyle ?? 'MODERN',
+    fontScale: kit?.fontScale ?? 1.0,
+    globalImageStyle: row.imageStyle ?? kit?.globalImageStyle ?? DEFAULT_IMAGE_STYLE,
+    layoutSettings: kit?.layoutSettings ?? DEFAULT_LAYOUT_SETTINGS,
+    caption: postCopy.caption,
+    hashtags: postCopy.hashtags,
+    framework: DEFAULT_FRAMEWORK,
+    referenceImages: [],
+    documentImages: [],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Spaces out AI requests across all workers: each call resolves at least
+ * `intervalMs` after the previous one was let through.
+ */
+const createThrottle = (intervalMs: number) => {
+  let nextSlot = 0;
+  return async (signal?: AbortSignal) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + intervalMs;
+    if (slot > now) await wait(slot - now);
+    if (signal?.aborted) throw new DOMException('Batch cancelled', 'AbortError');
+  };
+};
+
+/**
+ * Generates and saves every valid row, a few at a time.
+ * Progress is reported per row through onUpdate; a failing row doesn't stop the others.
+ * Failed images are counted but don't fail the row (they can be generated later in the Workspace).
+ *
+ * Resolves when every row has finished, failed or been cancelled.
+ */
+export const runBatch = async (rows: BatchRow[], options: BatchOptions): Promise<void> => {
+  const { generateImages, textModel, imageModel, defaults, signal, onUpdate } = options;
+  const throttle = createThrottle(REQUEST_INTERVAL_MS);
+  const pending = rows.map((row, index) => ({ row, index })).filter(({ row }) => !row.error);
+  let next = 0;
+
+  const runRow = async (row: BatchRow, index: number) => {
+    onUpdate(index, { status: 'writing' });
+    await throttle(signal);
+    const generated = await generateCarouselContent(row.topic, row.slideCount, textModel, [], DEFAULT_FRAMEWORK, { signal });
+    const slides = generated.slides;
+
+    let imagesGenerated = 0;
+    let imagesFailed = 0;
+    const imageSlides = generateImages ? slides.filter(slide => slide.showImage && slide.imagePrompt) : [];
+    const project = buildProject(row, slides, generated, defaults);
+
+    for (const slide of imageSlides) {
+      onUpdate(index, { status: 'images', slides: slides.length, imagesGenerated, imagesFailed });
+      await throttle(signal);
+      try {
+        slide.imageUrl = await generateSlideImage(slide.imagePrompt!, row.aspectRatio, imageModel, project.globalImageStyle);
+        imagesGenerated++;
+      } catch (error) {
+        console.error(`Batch row ${row.line}: image generation failed:`, error);
+        imagesFailed++;
+      }
+    }
+
+    await saveProject(project);
+    onUpdate(index, {
+      status: 'done',
+      projectId: project.id,
+      slides: slides.length,
+      imagesGenerated,
+      imagesFailed,
+      message: imagesFailed > 0 ? `${imagesFailed} image${imagesFailed === 1 ? '' : 's'} failed` : undefined
+    });
+  };
+
+  // Each worker pulls the next row until none are left
+  const worker = async () => {
+    while (next < pending.length) {
+      const { row, index } = pending[next++];
+      if (signal?.aborted) {
+        onUpdate(index, { status: 'cancelled' });
+        continue;
+      }
+      try {
+        await runRow(row, index);
+      } catch (error) {
+        if (isAbortError(error)) {
+          onUpdate(index, { status: 'cancelled' });
+        } else {
+          console.error(`Batch row ${row.line} failed:`, error);
+          onUpdate(index, { status: 'failed', message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, pending.length) }, worker));
+};
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Per-row status report as CSV, in the order of the calendar.
+ */
+export const buildBatchReport = (rows: BatchRow[], results: BatchRowResult[]): string =>
+  toCsv([
+    ['line', 'topic', 'status', 'slides', 'images', 'failed images', 'project id', 'message'],
+    ...rows.map((row, i) => {
+      const result = results[i];
+      return [
+        row.line,
+        row.topic,
+        result.status,
+        result.slides ?? '',
+        result.imagesGenerated ?? '',
+        result.imagesFailed ?? '',
+        result.projectId ?? '',
+        result.message ?? row.error ?? ''
+      ];
+    })
+  ]);
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocument } from './documentParsers';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,500',
+  '{\\an8}<i>Welcome back</i> to the show.',
+  '',
+  '2',
+  '00:00:04,000 --> 00:00:06,000',
+  'Today: habits &amp; routines.',
+  '',
+  '3',
+  '00:00:10,000 --> 00:00:12,250',
+  'After a pause, a new paragraph.',
+  ''
+].join('\r\n');
+
+const VTT = [
+  'WEBVTT',
+  '',
+  'NOTE This block is skipped',
+  '',
+  'STYLE',
+  '::cue { color: yellow }',
+  '',
+  '00:01.000 --> 00:03.000 align:start position:10%',
+  '<v.loud Ada Lovelace>Hello there',
+  '',
+  // Rolling auto-captions repeat the previous cue's last line
+  '00:03.000 --> 00:05.000',
+  'Hello there',
+  'and welcome',
+  '',
+  '00:05.000 --> 00:06.000',
+  '<v Grace>Thanks, Ada.',
+  ''
+].join('\n');
+
+const transcript = async (text: string, type: 'srt' | 'vtt') =>
+  (await parseDocument(new File([text], `talk.${type}`), type)).content;
+
+describe('transcripts', () => {
+  it('reads SRT cues, strips tags and entities and starts a paragraph after a pause', async () => {
+    expect(await transcript(SRT, 'srt')).toBe([
+      '[00:01] Welcome back to the show. Today: habits & routines.',
+      '[00:10] After a pause, a new paragraph.'
+    ].join('\n\n'));
+  });
+
+  it('reads hour-less VTT times with cue settings, dedupes rolling captions and keeps voices', async () => {
+    expect(await transcript(VTT, 'vtt')).toBe([
+      '[00:01] Ada Lovelace: Hello there and welcome',
+      '[00:05] Grace: Thanks, Ada.'
+    ].join('\n\n'));
+  });
+
+  it('adds a timestamped heading per five minutes of long recordings', async () => {
+    const srtTime = (seconds: number) =>
+      `00:${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')},000`;
+    const srt = [0, 200, 400]
+      .map((seconds, i) => `${i + 1}\n${srtTime(seconds)} --> ${srtTime(seconds + 5)}\nPart ${i + 1}.`)
+      .join('\n\n');
+
+    expect(await transcript(srt, 'srt')).toBe([
+      '## 00:00-03:25',
+      '[00:00] Part 1.',
+      '[03:20] Part 2.',
+      '## 06:40-06:45',
+      '[06:40] Part 3.'
+    ].join('\n\n'));
+  });
+
+  it('rejects files without cues', async () => {
+    await expect(transcript('WEBVTT\n\nNOTE nothing here', 'vtt')).rejects.toThrow('No subtitles found');
+  });
+});
@@ -0,0 +1,739 @@
+/**
+ * Document Parsers
+ *
+ * Reads Word documents, slide decks, e-books and saved web pages in the browser for
+ * carousel generation (processDocument in services/geminiService):
+ * - DOCX: paragraphs, headings (from the paragraph styles), bulleted/numbered lists, tables
+ * - PPTX: one "## Slide N: Title" section per slide with its text and speaker notes
+ * - EPUB: chapters in reading order
+ * - HTML: the page body
+ * - SRT/VTT: subtitles as a transcript - timing markup stripped, cues merged into
+ *   paragraphs that start with their timestamp ("[12:30] ..."), a "## 10:02-15:07"
+ *   heading every few minutes so parts of a long recording can be selected
+ *
+ * The text becomes Markdown (# headings, - / 1. list items, > quotes) and is sent like
+ * a TXT/MD upload. Embedded images are extracted too, downscaled to the slide width,
+ * so the Workspace can offer them as slide images.
+ *
+ * DOCX, PPTX and EPUB are ZIP packages of XML files: they are opened with JSZip
+ * (loaded via CDN in index.html) and parsed with DOMParser.
+ */
+
+import { DocumentImage, UploadedDocument } from '../types';
+
+export type ParsedDocumentType = 'docx' | 'pptx' | 'epub' | 'html' | 'srt' | 'vtt';
+
+// Cap on the text sent to the model (about 40k tokens); books are cut at a line
+const MAX_DOCUMENT_CHARS = 150_000;
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+const normalizeSpace = (text: string | null | undefined): string =>
+  (text || '').replace(/\s+/g, ' ').trim();
+
+const heading = (level: number, text: string): string =>
+  `${'#'.repeat(Math.min(6, Math.max(1, level)))} ${text}`;
+
+const LIST_ITEM_REGEX = /^\s*(?:-|\d+\.) /;
+
+// Blocks are separated by a blank line; consecutive list items stay one list
+const joinBlocks = (blocks: string[]): string =>
+  blocks.filter(block => block.trim()).reduce((text, block, i, all) => {
+    if (!text) return block;
+    const tight = LIST_ITEM_REGEX.test(block) && LIST_ITEM_REGEX.test(all[i - 1]);
+    return text + (tight ? '\n' : '\n\n') + block;
+  }, '');
+
+const HTML_SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'nav', 'form', 'button', 'iframe', 'svg', 'math']);
+
+const HTML_BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'figure', 'figcaption',
+  'address', 'dl', 'dt', 'dd', 'hr', 'center', 'body', 'li'
+]);
+
+/**
+ * Converts an HTML element to Markdown text. `onImage` receives the src of every
+ * image (<img>, and SVG <image> as used for EPUB covers) in document order.
+ */
+const htmlToMarkdown = (root: Element, onImage?: (src: string) => void): string => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = (prefix = '') => {
+    const text = normalizeSpace(inline);
+    inline = '';
+    if (text) blocks.push(prefix + text);
+  };
+
+  const collectImages = (el: Element) => {
+    const images = el.matches('img, image') ? [el] : Array.from<Element>(el.querySelectorAll('img, image'));
+    for (const img of images) {
+      const src = img.getAttribute('src') || img.getAttribute('href') || img.getAttribute('xlink:href');
+      if (src) onImage?.(src);
+    }
+  };
+
+  // Inside a list item, block elements (<p> in <li>) don't start a new block
+  const walk = (node: Node, inListItem: boolean) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent;
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const tag = el.localName.toLowerCase();
+
+    if (HTML_SKIPPED_TAGS.has(tag)) {
+      if (tag === 'svg') collectImages(el);
+      return;
+    }
+    if (tag === 'img') return collectImages(el);
+    if (tag === 'br') {
+      inline += ' ';
+      return;
+    }
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      collectImages(el);
+      const text = normalizeSpace(el.textContent);
+      if (text) blocks.push(heading(Number(tag[1]), text));
+      return;
+    }
+    if (tag === 'ul' || tag === 'ol') {
+      flush();
+      walkList(el, 0);
+      return;
+    }
+    if (tag === 'blockquote') {
+      flush();
+      const quoted = htmlToMarkdown(el, onImage);
+      if (quoted) blocks.push(quoted.split('\n').map(line => line ? `> ${line}` : '>').join('\n'));
+      return;
+    }
+    if (tag === 'pre') {
+      flush();
+      const code = (el.textContent || '').trim();
+      if (code) blocks.push('```\n' + code + '\n```');
+      return;
+    }
+    if (tag === 'table') {
+      flush();
+      collectImages(el);
+      const rows = Array.from<Element>(el.querySelectorAll('tr'))
+        .map(row => Array.from<Element>(row.children).map(cell => normalizeSpace(cell.textContent)).join(' | '))
+        .filter(row => row.replace(/[|\s]/g, ''));
+      if (rows.length > 0) blocks.push(rows.join('\n'));
+      return;
+    }
+    if (tag === 'strong' || tag === 'b' || tag === 'em' || tag === 'i') {
+      collectImages(el);
+      const raw = el.textContent || '';
+      const text = normalizeSpace(raw);
+      const mark = tag === 'strong' || tag === 'b' ? '**' : '*';
+      // Surrounding spaces stay outside the markers ("**bold** text", not "**bold **text")
+      if (text) inline += `${/^\s/.test(raw) ? ' ' : ''}${mark}${text}${mark}${/\s$/.test(raw) ? ' ' : ''}`;
+      return;
+    }
+
+    const isBlock = HTML_BLOCK_TAGS.has(tag);
+    if (isBlock && inListItem) inline += ' ';
+    else if (isBlock) flush();
+    el.childNodes.forEach(child => walk(child, inListItem));
+    if (isBlock && !inListItem) flush();
+  };
+
+  const walkList = (list: Element, depth: number) => {
+    const marker = list.localName.toLowerCase() === 'ol' ? '1.' : '-';
+    for (const item of Array.from<Element>(list.children)) {
+      if (item.localName.toLowerCase() !== 'li') continue;
+      const nestedLists: Element[] = [];
+      item.childNodes.forEach(child => {
+        const isList = child.nodeType === Node.ELEMENT_NODE && ['ul', 'ol'].includes((child as Element).localName.toLowerCase());
+        if (isList) nestedLists.push(child as Element);
+        else walk(child, true);
+      });
+      flush(`${'  '.repeat(depth)}${marker} `);
+      nestedLists.forEach(nested => walkList(nested, depth + 1));
+    }
+  };
+
+  walk(root, false);
+  flush();
+  return joinBlocks(blocks);
+};
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+// Images beyond this are ignored (long reports and books have hundreds)
+const MAX_DOCUMENT_IMAGES = 12;
+
+// Longest side in px below which an image is an icon, bullet or logo, not a slide image
+const MIN_IMAGE_SIZE = 200;
+
+// Longest side in px - the slide width
+const MAX_IMAGE_SIZE = 1080;
+
+// ZIP entries have no MIME type; createImageBitmap needs one
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp'
+};
+
+/**
+ * Images found while parsing, keyed by their path (or data URI) so a picture
+ * used twice is extracted once. Map order is document order.
+ */
+type ImageSources = Map<string, { name: string; load: () => Promise<Blob> }>;
+
+/**
+ * Decodes and downscales one image. Returns null for formats browsers can't
+ * show (EMF, WMF, TIFF...) and for images too small to use on a slide.
+ * PNG, GIF and WebP stay PNG (transparency); photos become JPEG.
+ * Also used for the lead image of linked articles (services/articleService.ts).
+ */
+export const toDocumentImage = async (name: string, blob: Blob): Promise<DocumentImage | null> => {
+  const type = blob.type || IMAGE_MIME_TYPES[name.split('.').pop()?.toLowerCase() ?? ''];
+  if (!type) return null;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob.type ? blob : new Blob([blob], { type }));
+  } catch {
+    return null;
+  }
+
+  try {
+    const longest = Math.max(bitmap.width, bitmap.height);
+    if (longest < MIN_IMAGE_SIZE) return null;
+    const scale = Math.min(1, MAX_IMAGE_SIZE / longest);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const imageUrl = type === 'image/jpeg' || type === 'image/bmp'
+      ? canvas.toDataURL('image/jpeg', 0.9)
+      : canvas.toDataURL('image/png');
+    return { id: crypto.randomUUID(), name, imageUrl };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Extracts up to MAX_DOCUMENT_IMAGES usable images. A broken image is skipped, not fatal.
+ */
+const extractImages = async (sources: ImageSources): Promise<DocumentImage[]> => {
+  const images: DocumentImage[] = [];
+  for (const { name, load } of sources.values()) {
+    if (images.length >= MAX_DOCUMENT_IMAGES) break;
+    try {
+      const image = await toDocumentImage(name, await load());
+      if (image) images.push(image);
+    } catch (error) {
+      console.warn(`Skipped document image ${name}:`, error);
+    }
+  }
+  return images;
+};
+
+// ============================================================================
+// ZIP PACKAGES (DOCX, PPTX, EPUB)
+// ============================================================================
+
+const openZip = async (file: File): Promise<any> => {
+  if (!window.JSZip) throw new Error('ZIP support failed to load. Check your connection and reload.');
+  return await window.JSZip.loadAsync(await file.arrayBuffer());
+};
+
+const readZipText = async (zip: any, path: string): Promise<string | null> => {
+  const entry = zip.file(path);
+  return entry ? await entry.async('string') : null;
+};
+
+const addZipImage = (zip: any, path: string, images: ImageSources) => {
+  if (images.has(path) || !zip.file(path)) return;
+  images.set(path, { name: path.split('/').pop() || path, load: () => zip.file(path).async('blob') });
+};
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Office XML elements by local name, whatever their namespace prefix (w:p, a:t, p:sp)
+const elementsByName = (root: Document | Element, name: string): Element[] =>
+  Array.from<Element>(root.getElementsByTagNameNS('*', name));
+
+const childElements = (el: Element | undefined, name?: string): Element[] =>
+  el ? Array.from<Element>(el.children).filter(child => !name || child.localName === name) : [];
+
+const firstChild = (el: Element | undefined, name: string): Element | undefined => childElements(el, name)[0];
+
+const dirname = (path: string): string => path.substring(0, path.lastIndexOf('/') + 1);
+
+/**
+ * Resolves a relative path inside the package: "word/" + "media/image1.png",
+ * "ppt/slides/" + "../media/image2.png", or an absolute "/ppt/media/image3.png".
+ */
+const resolvePath = (baseDir: string, target: string): string => {
+  const resolved: string[] = [];
+  for (const part of (target.startsWith('/') ? target.slice(1) : baseDir + target).split('/')) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+/**
+ * Relationships of an Office part (its _rels file): relationship id → resolved path and type.
+ * Links to external files and URLs are skipped.
+ */
+const readRelationships = async (zip: any, partPath: string): Promise<Map<string, { path: string; type: string }>> => {
+  const dir = dirname(partPath);
+  const xml = await readZipText(zip, `${dir}_rels/${partPath.substring(dir.length)}.rels`);
+  const relationships = new Map<string, { path: string; type: string }>();
+  if (!xml) return relationships;
+  for (const rel of elementsByName(parseXml(xml), 'Relationship')) {
+    if (rel.getAttribute('TargetMode') === 'External') continue;
+    relationships.set(rel.getAttribute('Id') || '', {
+      path: resolvePath(dir, rel.getAttribute('Target') || ''),
+      type: rel.getAttribute('Type') || ''
+    });
+  }
+  return relationships;
+};
+
+// Images placed in an Office part (<a:blip r:embed="rId5">)
+const addBlipImages = (zip: any, root: Element, rels: Map<string, { path: string }>, images: ImageSources) => {
+  for (const blip of elementsByName(root, 'blip')) {
+    const rel = rels.get(blip.getAttribute('r:embed') || '');
+    if (rel) addZipImage(zip, rel.path, images);
+  }
+};
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+/**
+ * Heading level per paragraph style id, from the style names ("heading 2", "Title").
+ * Style ids are localized ("berschrift1"); the names are not.
+ */
+const readDocxHeadingStyles = (styles: Document): Map<string, number> => {
+  const levels = new Map<string, number>();
+  for (const style of elementsByName(styles, 'style')) {
+    const id = style.getAttribute('w:styleId');
+    const name = (firstChild(style, 'name')?.getAttribute('w:val') || '').toLowerCase();
+    const level = name === 'title' ? 1 : Number(name.match(/^heading (\d)$/)?.[1]) || 0;
+    if (id && level) levels.set(id, level);
+  }
+  return levels;
+};
+
+/**
+ * Numbered list levels as "numId:ilvl" keys; every other list level is bulleted.
+ */
+const readDocxOrderedLists = (numbering: Document): Set<string> => {
+  const orderedByAbstract = new Map<string, string[]>();
+  for (const abstractNum of elementsByName(numbering, 'abstractNum')) {
+    const levels = childElements(abstractNum, 'lvl')
+      .filter(lvl => !['bullet', 'none'].includes(firstChild(lvl, 'numFmt')?.getAttribute('w:val') || 'bullet'))
+      .map(lvl => lvl.getAttribute('w:ilvl') || '0');
+    orderedByAbstract.set(abstractNum.getAttribute('w:abstractNumId') || '', levels);
+  }
+  const ordered = new Set<string>();
+  for (const num of elementsByName(numbering, 'num')) {
+    const abstractId = firstChild(num, 'abstractNumId')?.getAttribute('w:val') || '';
+    orderedByAbstract.get(abstractId)?.forEach(ilvl => ordered.add(`${num.getAttribute('w:numId')}:${ilvl}`));
+  }
+  return ordered;
+};
+
+// Text of a paragraph's runs; bold runs are merged and marked "**...**"
+const docxRunsText = (paragraph: Element, withBold: boolean): string => {
+  const segments: { text: string; bold: boolean }[] = [];
+  for (const run of elementsByName(paragraph, 'r')) {
+    const boldElement = firstChild(firstChild(run, 'rPr'), 'b');
+    const bold = withBold && !!boldElement && !['0', 'false'].includes(boldElement.getAttribute('w:val') || '');
+    let text = '';
+    for (const node of childElements(run)) {
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab' || node.localName === 'br' || node.localName === 'cr') text += ' ';
+    }
+    if (!text) continue;
+    const last = segments[segments.length - 1];
+    if (last && last.bold === bold) last.text += text;
+    else segments.push({ text, bold });
+  }
+  return normalizeSpace(segments.map(({ text, bold }) => {
+    if (!bold || !text.trim()) return text;
+    const [, before, inner, after] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return `${before}**${inner}**${after}`;
+  }).join(''));
+};
+
+const parseDocx = async (file: File, images: ImageSources): Promise<string> => {
+  const zip = await openZip(file);
+  const documentXml = await readZipText(zip, 'word/document.xml');
+  if (!documentXml) throw new Error('Not a Word document (word/document.xml is missing)');
+
+  const [stylesXml, numberingXml, rels] = await Promise.all([
+    readZipText(zip, 'word/styles.xml'),
+    readZipText(zip, 'word/numbering.xml'),
+    readRelationships(zip, 'word/document.xml')
+  ]);
+  const headingLevels = stylesXml ? readDocxHeadingStyles(parseXml(stylesXml)) : new Map<string, number>();
+  const orderedLists = numberingXml ? readDocxOrderedLists(parseXml(numberingXml)) : new Set<string>();
+
+  const paragraphText = (paragraph: Element): string => {
+    addBlipImages(zip, paragraph, rels, images);
+    const properties = firstChild(paragraph, 'pPr');
+    const styleId = firstChild(properties, 'pStyle')?.getAttribute('w:val') || '';
+    const level = headingLevels.get(styleId) || Number(styleId.match(/^heading(\d)$/i)?.[1]) || 0;
+    const text = docxRunsText(paragraph, !level);
+    if (!text) return '';
+    if (level) return heading(level, text);
+
+    const numbering = firstChild(properties, 'numPr');
+    if (!numbering) return text;
+    const ilvl = firstChild(numbering, 'ilvl')?.getAttribute('w:val') || '0';
+    const numId = firstChild(numbering, 'numId')?.getAttribute('w:val') || '';
+    const marker = orderedLists.has(`${numId}:${ilvl}`) ? '1.' : '-';
+    return `${'  '.repeat(Number(ilvl))}${marker} ${text}`;
+  };
+
+  const tableText = (table: Element): string =>
+    childElements(table, 'tr')
+      .map(row => childElements(row, 'tc')
+        .map(cell => elementsByName(cell, 'p').map(p => {
+          addBlipImages(zip, p, rels, images);
+          return docxRunsText(p, false);
+        }).filter(Boolean).join(' '))
+        .join(' | '))
+      .filter(row => row.replace(/[|\s]/g, ''))
+      .join('\n');
+
+  const blocks: string[] = [];
+  const visit = (container: Element | undefined) => {
+    for (const child of childElements(container)) {
+      if (child.localName === 'p') blocks.push(paragraphText(child));
+      else if (child.localName === 'tbl') blocks.push(tableText(child));
+      // Content controls wrap ordinary paragraphs
+      else if (child.localName === 'sdt' || child.localName === 'sdtContent') visit(child);
+    }
+  };
+  visit(elementsByName(parseXml(documentXml), 'body')[0]);
+  return joinBlocks(blocks);
+};
+
+// ============================================================================
+// PPTX
+// ============================================================================
+
+// Placeholders that repeat on every slide
+const PPTX_SKIPPED_PLACEHOLDERS = ['sldNum', 'dt', 'ftr', 'hdr'];
+
+// A run of text in a DrawingML paragraph (<a:p>), including fields like dates
+const pptxParagraphText = (paragraph: Element): string =>
+  normalizeSpace(childElements(paragraph)
+    .map(node => node.localName === 'br' ? ' ' : elementsByName(node, 't').map(t => t.textContent).join(''))
+    .join(''));
+
+/**
+ * Text of a shape's paragraphs. Body placeholders are bulleted by the slide layout;
+ * text boxes are plain paragraphs unless a paragraph sets its own bullet.
+ */
+const pptxShapeText = (shape: Element, bulleted: boolean): string[] =>
+  childElements(firstChild(shape, 'txBody'), 'p').map(paragraph => {
+    const text = pptxParagraphText(paragraph);
+    if (!text) return '';
+    const properties = firstChild(paragraph, 'pPr');
+    const ownBullet = firstChild(properties, 'buChar') || firstChild(properties, 'buAutoNum');
+    const isBullet = firstChild(properties, 'buNone') ? false : bulleted || !!ownBullet;
+    const level = Number(properties?.getAttribute('lvl') || 0);
+    return isBullet ? `${'  '.repeat(level)}- ${text}` : text;
+  });
+
+const parsePptx = async (file: File, images: ImageSources): Promise<string> => {
+  const zip = await openZip(file);
+  const presentationXml = await readZipText(zip, 'ppt/presentation.xml');
+  if (!presentationXml) throw new Error('Not a PowerPoint presentation (ppt/presentation.xml is missing)');
+
+  // Slides in presentation order (file names don't follow reordering)
+  const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+  const slidePaths = elementsByName(parseXml(presentationXml), 'sldId')
+    .map(slideId => presentationRels.get(slideId.getAttribute('r:id') || '')?.path)
+    .filter((path): path is string => !!path);
+
+  const blocks: string[] = [];
+  for (const [index, path] of slidePaths.entries()) {
+    const slideXml = await readZipText(zip, path);
+    if (!slideXml) continue;
+    const slide = parseXml(slideXml).documentElement;
+    const rels = await readRelationships(zip, path);
+    addBlipImages(zip, slide, rels, images);
+
+    let title = '';
+    const body: string[] = [];
+    for (const shape of elementsByName(slide, 'sp')) {
+      const placeholder = elementsByName(shape, 'ph')[0];
+      const placeholderType = placeholder ? placeholder.getAttribute('type') || 'body' : null;
+      if (placeholderType && PPTX_SKIPPED_PLACEHOLDERS.includes(placeholderType)) continue;
+      if (placeholderType === 'title' || placeholderType === 'ctrTitle') {
+        title = normalizeSpace(pptxShapeText(shape, false).join(' '));
+        continue;
+      }
+      body.push(...pptxShapeText(shape, !!placeholderType && placeholderType !== 'subTitle'));
+    }
+    // Tables live in graphic frames, not shapes
+    for (const table of elementsByName(slide, 'tbl')) {
+      body.push(childElements(table, 'tr')
+        .map(row => childElements(row, 'tc').map(cell => normalizeSpace(elementsByName(cell, 't').map(t => t.textContent).join(' '))).join(' | '))
+        .join('\n'));
+    }
+
+    const notesPath = Array.from(rels.values()).find(rel => rel.type.endsWith('/notesSlide'))?.path;
+    const notesXml = notesPath ? await readZipText(zip, notesPath) : null;
+    const notes = notesXml
+      ? elementsByName(parseXml(notesXml), 'sp')
+          .filter(shape => elementsByName(shape, 'ph')[0]?.getAttribute('type') === 'body')
+          .flatMap(shape => pptxShapeText(shape, false))
+          .filter(Boolean)
+          .join(' ')
+      : '';
+
+    blocks.push(heading(2, title ? `Slide ${index + 1}: ${title}` : `Slide ${index + 1}`), ...body);
+    if (notes) blocks.push(`> Speaker notes: ${notes}`);
+  }
+  return joinBlocks(blocks);
+};
+
+// ============================================================================
+// EPUB
+// ============================================================================
+
+const parseEpub = async (file: File, images: ImageSources): Promise<string> => {
+  const zip = await openZip(file);
+  const containerXml = await readZipText(zip, 'META-INF/container.xml');
+  const packagePath = containerXml ? elementsByName(parseXml(containerXml), 'rootfile')[0]?.getAttribute('full-path') : null;
+  const packageXml = packagePath ? await readZipText(zip, packagePath) : null;
+  if (!packagePath || !packageXml) throw new Error('Not an EPUB book (the package file is missing)');
+
+  const opf = parseXml(packageXml);
+  const packageDir = dirname(packagePath);
+  // Manifest hrefs are URL-encoded ("Chapter%201.xhtml"); ZIP paths are not
+  const manifest = new Map(elementsByName(opf, 'item').map(item => [
+    item.getAttribute('id') || '',
+    {
+      path: resolvePath(packageDir, decodeURIComponent(item.getAttribute('href') || '')),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || ''
+    }
+  ]));
+
+  const title = normalizeSpace(elementsByName(opf, 'title')[0]?.textContent);
+  const author = normalizeSpace(elementsByName(opf, 'creator')[0]?.textContent);
+  const blocks = [title ? heading(1, title) : '', author ? `By ${author}` : ''];
+
+  // Cover first: EPUB 3 marks it in the manifest, EPUB 2 with <meta name="cover">
+  const coverId = elementsByName(opf, 'meta').find(meta => meta.getAttribute('name') === 'cover')?.getAttribute('content');
+  const cover = Array.from(manifest.values()).find(item => item.properties.split(' ').includes('cover-image'))
+    ?? (coverId ? manifest.get(coverId) : undefined);
+  if (cover) addZipImage(zip, cover.path, images);
+
+  for (const itemref of elementsByName(opf, 'itemref')) {
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || !item.mediaType.includes('html')) continue;
+    const chapter = await readZipText(zip, item.path);
+    if (!chapter) continue;
+    // Parsed as HTML: real-world XHTML is often not well-formed enough for the XML parser
+    const body = new DOMParser().parseFromString(chapter, 'text/html').body;
+    blocks.push(htmlToMarkdown(body, src => {
+      if (!src.startsWith('data:')) addZipImage(zip, resolvePath(dirname(item.path), decodeURIComponent(src)), images);
+    }));
+  }
+  return joinBlocks(blocks);
+};
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+/**
+ * Saved web pages: the body as Markdown. Only images embedded in the file (data URIs)
+ * can be extracted; linked images are relative to a site that isn't there.
+ */
+const parseHtml = async (file: File, images: ImageSources): Promise<string> => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+  return htmlToMarkdown(doc.body, src => {
+    if (!src.startsWith('data:image/') || images.has(src)) return;
+    const extension = src.match(/^data:image\/(\w+)/)?.[1] ?? 'png';
+    images.set(src, { name: `image-${images.size + 1}.${extension}`, load: async () => (await fetch(src)).blob() });
+  });
+};
+
+// ============================================================================
+// TRANSCRIPTS (SRT, VTT)
+// ============================================================================
+
+interface TranscriptCue {
+  start: number;                   // Seconds
+  end: number;
+  speaker?: string;                // VTT voice (<v Name>)
+  text: string;
+}
+
+// A pause this long (seconds) starts a new paragraph
+const TRANSCRIPT_PAUSE = 2;
+// Paragraphs end at the next sentence end once they span this many seconds (or at twice that)
+const TRANSCRIPT_PARAGRAPH_LENGTH = 30;
+// Seconds of recording per "## 10:02-15:07" section
+const TRANSCRIPT_SECTION_LENGTH = 300;
+
+// "01:02:03,456" (SRT), "01:02:03.456" or "02:03.456" (VTT)
+const TIMESTAMP_REGEX = /(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/;
+const VOICE_REGEX = /<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+const SENTENCE_END_REGEX = /[.!?…]["'”)\]]?$/;
+
+const SUBTITLE_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', lrm: '', rlm: '' };
+
+const parseTimestamp = (text: string): number | null => {
+  const match = text.match(TIMESTAMP_REGEX);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+};
+
+// 75 → "01:15", 3725 → "1:02:05"
+const formatTimestamp = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const hours = Math.floor(total / 3600);
+  const rest = `${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return hours > 0 ? `${hours}:${rest}` : rest;
+};
+
+const cleanCueLine = (line: string): string =>
+  normalizeSpace(line
+    .replace(/\{\\[^}]*\}/g, '')            // SRT position tags ({\an8})
+    .replace(/<[^>]*>/g, '')                // <i>, <font>, <c.yellow>, <v Name>, inline <00:00:01.000>
+    .replace(/&(\w+);/g, (entity, name) => SUBTITLE_ENTITIES[name] ?? entity));
+
+/**
+ * Reads the cues of an SRT or VTT file. Blocks without a timing line (the WEBVTT
+ * header, NOTE, STYLE and REGION blocks, stray text) are skipped.
+ */
+const parseCues = (text: string): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+  let previousLine = '';
+
+  for (const block of text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/)) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex(line => line.includes('-->'));
+    if (timing === -1) continue;
+    const [startText, endText = ''] = lines[timing].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText);
+    if (start === null || end === null) continue;
+
+    const body = lines.slice(timing + 1);
+    // Auto-generated captions roll: each cue repeats the previous cue's last line
+    const textLines = body.map(cleanCueLine).filter(line => line && line !== previousLine);
+    if (textLines.length === 0) continue;
+    previousLine = textLines[textLines.length - 1];
+
+    const speaker = body.join(' ').match(VOICE_REGEX)?.[1].trim();
+    cues.push({ start, end, ...(speaker ? { speaker } : {}), text: textLines.join(' ') });
+  }
+  return cues;
+};
+
+/**
+ * Merges cues into paragraphs - at pauses, speaker changes, or sentence ends once a
+ * paragraph is long enough - each starting with its timestamp and speaker.
+ */
+const cuesToParagraphs = (cues: TranscriptCue[]): { start: number; end: number; text: string }[] => {
+  const paragraphs: TranscriptCue[][] = [];
+  for (const cue of cues) {
+    const current = paragraphs[paragraphs.length - 1];
+    const last = current?.[current.length - 1];
+    const span = current ? cue.start - current[0].start : 0;
+    const breaks = !current
+      || (cue.speaker && cue.speaker !== current[0].speaker)
+      || cue.start - last.end >= TRANSCRIPT_PAUSE
+      || (span >= TRANSCRIPT_PARAGRAPH_LENGTH && SENTENCE_END_REGEX.test(last.text))
+      || span >= TRANSCRIPT_PARAGRAPH_LENGTH * 2;
+    if (breaks) paragraphs.push([cue]);
+    else current.push(cue);
+  }
+
+  return paragraphs.map(paragraph => {
+    const { start, speaker } = paragraph[0];
+    const text = paragraph.map(cue => cue.text).join(' ');
+    return { start, end: paragraph[paragraph.length - 1].end, text: `[${formatTimestamp(start)}] ${speaker ? `${speaker}: ` : ''}${text}` };
+  });
+};
+
+const parseTranscript = async (file: File): Promise<string> => {
+  const cues = parseCues(await file.text());
+  if (cues.length === 0) throw new Error('No subtitles found in the file');
+  const paragraphs = cuesToParagraphs(cues);
+
+  // Recordings longer than one section get a heading per section
+  const sections: (typeof paragraphs)[] = [];
+  for (const paragraph of paragraphs) {
+    const current = sections[sections.length - 1];
+    if (current && paragraph.start < current[0].start + TRANSCRIPT_SECTION_LENGTH) current.push(paragraph);
+    else sections.push([paragraph]);
+  }
+  if (sections.length === 1) return joinBlocks(paragraphs.map(p => p.text));
+
+  return joinBlocks(sections.flatMap(section => [
+    heading(2, `${formatTimestamp(section[0].start)}-${formatTimestamp(section[section.length - 1].end)}`),
+    ...section.map(p => p.text)
+  ]));
+};
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+const PARSERS: Record<ParsedDocumentType, (file: File, images: ImageSources) => Promise<string>> = {
+  docx: parseDocx,
+  pptx: parsePptx,
+  epub: parseEpub,
+  html: parseHtml,
+  srt: parseTranscript,
+  vtt: parseTranscript
+};
+
+/**
+ * Parses a DOCX, PPTX, EPUB, HTML, SRT or VTT file into an UploadedDocument with
+ * Markdown content and its embedded images.
+ *
+ * @throws Error if the file isn't a valid document of that type or has no text
+ */
+export const parseDocument = async (file: File, type: ParsedDocumentType): Promise<UploadedDocument> => {
+  const images: ImageSources = new Map();
+  let content = await PARSERS[type](file, images);
+  if (!content.trim()) throw new Error('No text found in the document');
+
+  if (content.length > MAX_DOCUMENT_CHARS) {
+    const cut = content.lastIndexOf('\n', MAX_DOCUMENT_CHARS);
+    content = content.substring(0, cut > 0 ? cut : MAX_DOCUMENT_CHARS) + '\n\n[Document truncated]';
+  }
+  const extracted = await extractImages(images);
+
+  return {
+    name: file.name,
+    type,
+    content,
+    size: file.size,
+    ...(extracted.length > 0 ? { images: extracted } : {})
+  };
+};
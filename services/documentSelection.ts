@@ -0,0 +1,79 @@
+/**
+ * Document Selection
+ *
+ * Cuts attached documents down to the part the user picked on the AI input step
+ * before they are sent for generation, so a 200-page report doesn't go out in full:
+ * - PDF: the selected pages are copied into a new PDF with pdf-lib (loaded via CDN
+ *   in index.html), keeping charts and layout for the model's vision input
+ * - Text documents: the selected Markdown sections (lib/documentOutline.ts)
+ *
+ * The cut document records what was kept in `excerpt`, which the prompt names.
+ */
+
+import { AttachedDocument, UploadedDocument } from '../types';
+import { getDocumentOutline, getSectionsText, describeSections, parsePageRanges, describePages } from '../lib/documentOutline';
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const getPdfLib = () => {
+  if (!window.PDFLib) throw new Error('PDF support failed to load. Check your connection and reload.');
+  return window.PDFLib;
+};
+
+/**
+ * Number of pages in a PDF, or undefined if it can't be read (pages then can't be selected).
+ */
+export const getPdfPageCount = async (base64: string): Promise<number | undefined> => {
+  try {
+    const pdf = await getPdfLib().PDFDocument.load(base64, { ignoreEncryption: true, updateMetadata: false });
+    return pdf.getPageCount();
+  } catch (error) {
+    console.warn('Could not read the PDF page count:', error);
+    return undefined;
+  }
+};
+
+// New PDF with the given pages (1-based), as base64
+const extractPdfPages = async (base64: string, pages: number[]): Promise<string> => {
+  const { PDFDocument } = getPdfLib();
+  const source = await PDFDocument.load(base64, { ignoreEncryption: true });
+  const output = await PDFDocument.create();
+  const copied = await output.copyPages(source, pages.map(page => page - 1));
+  copied.forEach((page: any) => output.addPage(page));
+  return await output.saveAsBase64();
+};
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * The part of an attached document to send, or null if nothing of it is selected.
+ * Documents without a selection (or with everything selected) are returned as they are.
+ *
+ * @throws Error if the page ranges don't match the PDF
+ */
+export const applyDocumentSelection = async ({ document, selection }: AttachedDocument): Promise<UploadedDocument | null> => {
+  if (document.type === 'pdf') {
+    if (!selection.pages?.trim() || !document.pageCount || !document.base64) return document;
+    const pages = parsePageRanges(selection.pages, document.pageCount);
+    if (!pages) throw new Error(`"${selection.pages}" is not a valid page range for ${document.name} (${document.pageCount} pages).`);
+    if (pages.length === document.pageCount) return document;
+
+    const base64 = await extractPdfPages(document.base64, pages);
+    return { ...document, base64, size: Math.round(base64.length * 0.75), excerpt: describePages(pages) };
+  }
+
+  if (!selection.sections) return document;
+  if (selection.sections.length === 0) return null;
+  const outline = getDocumentOutline(document.content);
+  if (selection.sections.length >= outline.length) return document;
+
+  return {
+    ...document,
+    content: getSectionsText(document.content, outline, selection.sections),
+    excerpt: describeSections(outline, selection.sections)
+  };
+};
@@ -0,0 +1,191 @@
+/**
+ * Export Service
+ *
+ * Offscreen render pipeline for slide exports (PNG, ZIP, PDF).
+ *
+ * WHY OFFSCREEN (not the visible preview):
+ * - The editor preview is scaled by the zoom level and shows one slide at a time,
+ *   so exporting used to switch the active slide and sleep, which flickered the
+ *   editor and could capture half-loaded images.
+ * - Here each slide is mounted into its own hidden container at full size,
+ *   waited on until its images are decoded and fonts are loaded, captured,
+ *   and unmounted. Several slides are processed in parallel.
+ *
+ * CANCELLATION: Every export takes an AbortSignal. Aborting stops new slides
+ * from starting and rejects with an AbortError (check with isAbortError).
+ *
+ * Uses html-to-image loaded via CDN in index.html (window.htmlToImage).
+ */
+
+import { ReactNode } from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExportProgress {
+  completed: number;
+  total: number;
+  stage?: string;   // Shown instead of "Exporting" for later steps (e.g. "Encoding")
+}
+
+export interface SlideExportOptions<T> {
+  count: number;                                 // Number of slides to export
+  render: (index: number) => ReactNode;          // Slide element, e.g. renderSlide(slide, index, true)
+  width: number;                                 // Slide size in pixels
+  height: number;
+  backgroundColor: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+  collect?: (element: HTMLElement, index: number) => T;  // Extra data read from the mounted slide (e.g. PDF text layer)
+}
+
+export interface ExportedSlide<T> {
+  index: number;
+  dataUrl: string;   // PNG capture
+  extra: T;
+}
+
+// Slides rendered at the same time. html-to-image is CPU-bound, so more than a
+// few only adds memory pressure; parallelism mainly overlaps image decoding.
+const EXPORT_CONCURRENCY = 3;
+
+// An image that never settles (stalled request) must not block the export
+const IMAGE_READY_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * True for the error thrown when an export is cancelled.
+ */
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+/**
+ * Converts a data URL (from html-to-image) to a Blob for saving or zipping.
+ */
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return await response.blob();
+};
+
+/**
+ * Resolves once every image in the element is decoded and web fonts are loaded.
+ * Broken images resolve too - the capture should still happen without them.
+ */
+export const waitForRenderReady = async (element: HTMLElement): Promise<void> => {
+  const images = Array.from(element.querySelectorAll('img'));
+
+  const decodeAll = Promise.all(
+    images.map(img => img.decode().catch(() => undefined))
+  );
+  const timeout = new Promise(resolve => setTimeout(resolve, IMAGE_READY_TIMEOUT_MS));
+
+  await Promise.race([decodeAll, timeout]);
+  await document.fonts.ready;
+};
+
+/**
+ * Mounts a React element into a hidden, full-size container outside the viewport.
+ * Rendering is flushed synchronously so the DOM is ready when this returns.
+ */
+const mountOffscreen = (node: ReactNode, width: number, height: number) => {
+  const host = document.createElement('div');
+  host.setAttribute('aria-hidden', 'true');
+  Object.assign(host.style, {
+    position: 'fixed',
+    left: '-100000px',
+    top: '0',
+    pointerEvents: 'none'
+  });
+
+  // Sized like #preview-slide-capture so slides lay out exactly as in the editor
+  const frame = document.createElement('div');
+  Object.assign(frame.style, { width: `${width}px`, height: `${height}px`, overflow: 'hidden' });
+  host.appendChild(frame);
+  document.body.appendChild(host);
+
+  const root = createRoot(frame);
+  flushSync(() => root.render(node));
+
+  return {
+    element: frame,
+    unmount: () => {
+      root.unmount();
+      host.remove();
+    }
+  };
+};
+
+// ============================================================================
+// EXPORT PIPELINE
+// ============================================================================
+
+/**
+ * Renders and captures slides offscreen, a few at a time.
+ * Results are returned in slide order.
+ *
+ * @throws AbortError if the signal is aborted; Error if a capture fails
+ */
+export const exportSlides = async <T = undefined>(options: SlideExportOptions<T>): Promise<ExportedSlide<T>[]> => {
+  const { count, render, width, height, backgroundColor, signal, onProgress, collect } = options;
+
+  const results: ExportedSlide<T>[] = new Array(count);
+  let nextIndex = 0;
+  let completed = 0;
+
+  onProgress?.({ completed, total: count });
+
+  const exportOne = async (index: number) => {
+    const { element, unmount } = mountOffscreen(render(index), width, height);
+    try {
+      await waitForRenderReady(element);
+      throwIfAborted(signal);
+
+      const dataUrl: string = await window.htmlToImage.toPng(element, {
+        width,
+        height,
+        backgroundColor,
+        pixelRatio: 1,
+        skipFonts: false,
+        cacheBust: true
+      });
+      const extra = collect ? collect(element, index) : undefined as T;
+
+      results[index] = { index, dataUrl, extra };
+    } finally {
+      unmount();
+    }
+  };
+
+  // Each worker pulls the next slide until none are left, the export is
+  // cancelled, or another worker failed
+  let failed = false;
+  const worker = async () => {
+    while (nextIndex < count && !failed) {
+      throwIfAborted(signal);
+      const index = nextIndex++;
+      try {
+        await exportOne(index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+      completed++;
+      onProgress?.({ completed, total: count });
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(EXPORT_CONCURRENCY, count) }, worker);
+  await Promise.all(workers);
+
+  return results;
+};
@@ -1,121 +1,110 @@
 /**
- * Gemini AI Service
+ * AI Service
  *
- * Handles all interactions with Google's Gemini AI API:
- * - API key management (localStorage with env fallback)
+ * The single entry point the UI uses for AI features, whichever provider is active
+ * (Gemini, OpenAI-compatible or the offline mock - see services/providers):
+ * - API key management for the active provider
  * - Text generation for carousel content
+ * - Post copy (caption, hashtags, per-slide alt text)
+ * - Template filling (placeholder text for a saved template)
  * - Image generation from prompts
- * - Image stylization (image-to-image transformation)
+ * - Image stylization and editing (image-to-image transformation)
  *
- * FALLBACK STRATEGY:
- * - Text models: Pro 3 → Pro 2.5 → Flash (recursive on any error)
+ * FALLBACK STRATEGY (same for every provider, using its two model tiers):
+ * - Text models: Pro → Flash (on any error)
  * - Image models: Pro → Flash (only on 403 permission errors)
+ *
+ * Every provider call runs as a job in the request queue (services/requestQueue.ts),
+ * which limits concurrency and retries rate limits (429) and overload (503) before
+ * the fallback is considered. Jobs cancelled from the jobs panel reject with an AbortError.
+ *
+ * USAGE: each attempt's tokens, images and uploads are recorded in the usage ledger
+ * (services/usageLedger.ts). The monthly budget is checked before a job is queued;
+ * declining its warning rejects with an AbortError too.
  */
 
-import { GoogleGenAI, Type, createPartFromUri } from "@google/genai";
-import { Slide, SlideType, AspectRatio, UploadedDocument } from "../types";
-import {
-  extractInstagramUrls,
-  hasApifyApiKey,
-  scrapeInstagramPost,
-  downloadMediaAsBlob,
-  formatInstagramContentForAI,
-} from "./instagramService";
+import { Slide, AspectRatio, UploadedDocument, GeneratedCarousel, GeneratedPostCopy, CopyFramework, CarouselTemplate, ReferenceImage } from "../types";
+import { getActiveProvider, nameSlideSources, ModelOption, ProviderModels, CarouselStreamOptions, InlineImage, RequestOptions } from "./providers";
+import { enqueueRequest, EnqueueOptions } from "./requestQueue";
+import { checkBudget, trackUsage } from "./usageLedger";
+import { isAbortError } from "./exportService";
+import { DEFAULT_FRAMEWORK } from "../lib/frameworks";
+import { parseDocument } from "./documentParsers";
+import { getPdfPageCount } from "./documentSelection";
 
 // ============================================================================
 // API KEY MANAGEMENT
 // ============================================================================
 
 /**
- * Retrieves the API key from storage.
- * Priority: localStorage (user-entered) → environment variable → empty string
- *
- * The window check prevents SSR errors in case this is used with frameworks like Next.js
- */
-const getStoredApiKey = (): string => {
-  if (typeof window !== 'undefined') {
-    return localStorage.getItem('gemini_api_key') || process.env.API_KEY || '';
-  }
-  return process.env.API_KEY || '';
-};
-
-// Module-level singleton - recreated when setApiKey() is called
-let ai = new GoogleGenAI({ apiKey: getStoredApiKey() });
-
-/**
- * Updates the API key at runtime.
- * Persists to localStorage and recreates the AI client instance.
+ * Updates the active provider's API key at runtime (persisted to localStorage).
  */
 export const setApiKey = (apiKey: string) => {
-  if (typeof window !== 'undefined') {
-    localStorage.setItem('gemini_api_key', apiKey);
-  }
-  ai = new GoogleGenAI({ apiKey });
+  getActiveProvider().setApiKey(apiKey);
 };
 
 /**
- * Returns a masked version of the API key for display in the UI.
+ * Returns a masked version of the active provider's API key for display in the UI.
  * Shows first 4 and last 4 characters: "AIza****pzrw"
  */
 export const getApiKeyMasked = (): string => {
-  const key = getStoredApiKey();
-  if (!key) return '';
-  if (key.length <= 8) return '****';
-  return key.substring(0, 4) + '****' + key.substring(key.length - 4);
+  return getActiveProvider().getApiKeyMasked();
 };
 
 /**
- * Checks if an API key is configured (either in localStorage or env).
+ * Checks if the active provider is ready to use (key configured, or none needed).
  */
 export const hasApiKey = (): boolean => {
-  return !!getStoredApiKey();
+  return getActiveProvider().hasApiKey();
 };
 
 // ============================================================================
-// MODEL CONSTANTS
-// ============================================================================
-
-// Text generation models (used for carousel content)
-// Fallback chain: PRO → FLASH
-export const TEXT_MODEL_PRO = "gemini-3-pro-preview";
-export const TEXT_MODEL_FLASH = "gemini-2.5-flash";
-
-// Image generation models (Gemini's image generation API)
-// Pro offers 2K resolution but may have restricted access
-// Flash is the fallback with broader availability
-export const IMAGE_MODEL_PRO = "gemini-3-pro-image-preview";
-export const IMAGE_MODEL_FLASH = "gemini-2.5-flash-image";
-
-// ============================================================================
-// YOUTUBE URL DETECTION
+// MODELS
 // ============================================================================
 
 /**
- * Regex to match YouTube URLs in various formats:
- * - youtube.com/watch?v=VIDEO_ID
- * - youtu.be/VIDEO_ID
- * - youtube.com/shorts/VIDEO_ID
+ * The active provider's Pro/Flash tiers for text and images.
+ * Model selects should be re-read after switching providers.
  */
-const YOUTUBE_URL_REGEX = /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/shorts\/)[a-zA-Z0-9_-]{11}/g;
+export const getModels = (): ProviderModels => getActiveProvider().getModels();
 
 /**
- * Extracts all YouTube URLs from a text string.
- * Returns an array of full URL matches.
+ * Options for a model select: Pro first, then Flash (once if both tiers share a model).
  */
-const extractYouTubeUrls = (text: string): string[] => {
-  const matches = text.match(YOUTUBE_URL_REGEX);
-  return matches || [];
+export const getModelOptions = (kind: 'text' | 'image'): ModelOption[] => {
+  const models = getModels();
+  const [pro, flash] = kind === 'text' ? [models.textPro, models.textFlash] : [models.imagePro, models.imageFlash];
+  return pro.id === flash.id ? [pro] : [pro, flash];
 };
 
 /**
- * Normalizes a YouTube URL to the standard format.
- * Ensures URLs have https:// prefix for API compatibility.
+ * Permission errors (403) trigger the image fallback; other failures
+ * (rate limits, network issues) should bubble up immediately.
  */
-const normalizeYouTubeUrl = (url: string): string => {
-  if (!url.startsWith('http')) {
-    return `https://${url}`;
-  }
-  return url;
+const isPermissionError = (error: any): boolean =>
+  error?.status === 'PERMISSION_DENIED' || error?.status === 403 || !!error?.message?.includes('403');
+
+// Topic or prompt shown under a job in the jobs panel
+const excerpt = (text: string, max = 60): string =>
+  text.length > max ? `${text.substring(0, max - 3).trim()}...` : text;
+
+/**
+ * Runs a provider call as a queue job, recording each attempt in the usage ledger.
+ * The monthly budget is checked first, so a declined call never reaches the queue.
+ */
+const runJob = async <T>(
+  options: EnqueueOptions,
+  run: (signal: AbortSignal, requestOptions: RequestOptions) => Promise<T>
+): Promise<T> => {
+  await checkBudget(options.label);
+  const provider = getActiveProvider();
+  return enqueueRequest(
+    signal => trackUsage(
+      { provider: provider.id, operation: options.label, model: options.model },
+      onUsage => run(signal, { onUsage })
+    ),
+    options
+  );
 };
 
 // ============================================================================
@@ -124,7 +113,7 @@ const normalizeYouTubeUrl = (url: string): string => {
 
 /**
  * Converts app's aspect ratio format (CSS-style) to API format (colon-separated).
- * Gemini image API supports: "1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"
+ * Providers map it to their own sizes (Gemini supports "1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9")
  */
 export const getApiAspectRatio = (ratio: AspectRatio): string => {
   const mapping: Record<AspectRatio, string> = {
@@ -136,46 +125,6 @@ export const getApiAspectRatio = (ratio: AspectRatio): string => {
   return mapping[ratio] || '1:1';
 };
 
-// ============================================================================
-// FILE UPLOAD (for Instagram media)
-// ============================================================================
-
-/**
- * Uploads a blob to Gemini Files API and waits for it to be ready.
- * Polls file state until ACTIVE (required before use in prompts).
- * Used for uploading Instagram images/videos.
- * Files are auto-deleted after 48 hours.
- *
- * @param blob - Media file as Blob (from downloadMediaAsBlob)
- * @param displayName - Filename for identification
- * @returns Object with uri and mimeType for use with createPartFromUri
- */
-const uploadToGemini = async (blob: Blob, displayName: string): Promise<{ uri: string; mimeType: string }> => {
-  let file = await ai.files.upload({
-    file: blob,
-    config: { displayName }
-  });
-
-  // Poll until file is ACTIVE (processing complete)
-  // Videos may take longer to process than images
-  const maxAttempts = 30; // 60 seconds max wait (polling every 2s)
-  let attempts = 0;
-
-  while (file.state !== 'ACTIVE' && attempts < maxAttempts) {
-    console.log(`File processing... (${file.state})`);
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    file = await ai.files.get({ name: file.name! });
-    attempts++;
-  }
-
-  if (file.state !== 'ACTIVE') {
-    throw new Error(`File failed to process after ${maxAttempts * 2}s: state=${file.state}`);
-  }
-
-  console.log(`File ready: ${displayName}`);
-  return { uri: file.uri!, mimeType: file.mimeType! };
-};
-
 // ============================================================================
 // DOCUMENT PROCESSING
 // ============================================================================
@@ -184,8 +133,12 @@ const uploadToGemini = async (blob: Blob, displayName: string): Promise<{ uri: s
  * Processes an uploaded file and extracts content for AI generation.
  *
  * STRATEGY BY FILE TYPE:
- * - PDF: Read as base64 for Gemini vision (preserves charts/diagrams)
+ * - PDF: Read as base64 for model vision (preserves charts/diagrams)
  * - TXT/MD: Extract text directly via FileReader
+ * - DOCX/PPTX/EPUB/HTML: Converted to Markdown in the browser, embedded images
+ *   extracted (services/documentParsers.ts)
+ * - SRT/VTT: Subtitles become a transcript with [mm:ss] timestamps, so slides can
+ *   name the part of the recording they summarize (e.g. webinars without a public URL)
  *
  * @param file - The uploaded File object
  * @returns Promise<UploadedDocument> with extracted content
@@ -199,34 +152,43 @@ export const processDocument = async (file: File): Promise<UploadedDocument> =>
     case 'txt':
     case 'md':
       return await processTextFile(file, extension as 'txt' | 'md');
+    case 'docx':
+    case 'pptx':
+    case 'epub':
+    case 'srt':
+    case 'vtt':
+      return await parseDocument(file, extension);
+    case 'html':
+    case 'htm':
+      return await parseDocument(file, 'html');
     default:
       throw new Error(`Unsupported file type: ${extension}`);
   }
 };
 
 /**
- * Processes PDF file - reads as base64 for Gemini vision API.
- * PDFs are sent as multimodal input so Gemini can see charts, diagrams, and images.
+ * Processes PDF file - reads as base64 for vision models.
+ * PDFs are sent as multimodal input so the model can see charts, diagrams, and images.
+ * The page count lets the user pick page ranges before generating.
  */
 const processPdf = async (file: File): Promise<UploadedDocument> => {
-  return new Promise((resolve, reject) => {
+  const base64 = await new Promise<string>((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
-      const dataUrl = e.target?.result as string;
-      // Remove "data:application/pdf;base64," prefix to get raw base64
-      const base64 = dataUrl.split(',')[1];
-      resolve({
-        name: file.name,
-        type: 'pdf',
-        content: '', // Content will be extracted by Gemini vision
-        base64,
-        mimeType: 'application/pdf',
-        size: file.size
-      });
-    };
+    // Remove "data:application/pdf;base64," prefix to get raw base64
+    reader.onload = (e) => resolve((e.target?.result as string).split(',')[1]);
     reader.onerror = () => reject(new Error('Failed to read PDF file'));
     reader.readAsDataURL(file);
   });
+
+  return {
+    name: file.name,
+    type: 'pdf',
+    content: '', // Content will be extracted by the model
+    base64,
+    mimeType: 'application/pdf',
+    size: file.size,
+    pageCount: await getPdfPageCount(base64)
+  };
 };
 
 /**
@@ -253,282 +215,85 @@ const processTextFile = async (file: File, type: 'txt' | 'md'): Promise<Uploaded
 // ============================================================================
 
 /**
- * Schema for the JSON response from Gemini text generation.
- * This is what the AI returns; it gets mapped to the app's Slide interface.
- */
-interface GeneratedSlideSchema {
-  type: string;           // COVER, CONTENT, or CTA
-  content: string;        // Markdown-formatted slide text
-  suggestedImagePrompt: string;  // Prompt for later image generation
-  needsImage: boolean;    // AI's recommendation on whether slide needs an image
-}
-
-/**
- * Generates carousel content (text + structure) using Gemini AI.
+ * Generates carousel content (text + structure) with the active provider.
  *
- * Uses "structured output" to force the AI to return valid JSON matching our schema.
+ * Providers use "structured output" to force the AI to return valid JSON matching our schema.
  * This ensures consistent, parseable responses without manual JSON extraction.
  *
+ * STREAMING: The response is streamed; `stream.onSlide` receives each slide as soon as
+ * it is complete, so the editor can show slides while the rest are still being written.
+ * Aborting `stream.signal` stops the request and rejects with an AbortError.
+ *
  * @param topic - The subject matter for the carousel (e.g., "10 productivity tips")
  * @param count - Number of slides to generate (default: 7)
  * @param modelName - Which model to use (defaults to Pro, falls back automatically)
- * @param document - Optional uploaded document (PDF, TXT, MD) to use as source content
- * @returns Array of Slide objects ready for the editor
+ * @param documents - Source documents (PDF, TXT, MD, DOCX..., fetched articles), already cut to
+ *   the selected pages/sections; with several, each slide's `sources` names the ones it draws on
+ * @param framework - Copywriting framework that structures the slides (see lib/frameworks.ts)
+ * @param stream - Optional abort signal and per-slide callback
+ * @param creditSource - Credit the source article (a fetched web link) on the CTA slide
+ * @returns Slides ready for the editor (with alt text), plus the post caption and hashtags
  *
  * FALLBACK CHAIN (recursive):
- * Pro 3 → Pro 2.5 → Flash
- * If any model fails, it automatically tries the next one down the chain.
+ * Pro → Flash
+ * If the Pro model fails before any slide was streamed, it automatically tries Flash.
+ * Once slides have been delivered, errors propagate so the caller keeps the partial result.
  */
 export const generateCarouselContent = async (
   topic: string,
   count: number = 7,
-  modelName: string = TEXT_MODEL_PRO,
-  document?: UploadedDocument
-): Promise<Slide[]> => {
-  // Build the prompt based on whether a document is attached
-  const hasDocument = !!document;
-  const documentInstruction = hasDocument
-    ? "Analyze the attached document thoroughly. Extract the key insights, main arguments, and important data points. "
-    : "";
-
-  // For text files, append content to topic
-  const effectiveTopic = document?.content
-    ? (topic ? `${topic}\n\n--- Document Content ---\n${document.content}` : document.content)
-    : topic;
-
-  // PROMPT ENGINEERING: Creates a carousel using the AIDA framework:
-  // - Slide 1: ATTENTION - Emotional, controversial hook
-  // - Slides 2-N-1: INTEREST + DESIRE - Educational content with storytelling
-  // - Slide N: ACTION - Call to Action
-  const prompt = `
-Act as a viral social media copywriter and storytelling expert. ${documentInstruction}Create an Instagram Carousel about the following topic: "${effectiveTopic}".
-
-## CONTENT FRAMEWORK - AIDA Model with Storytelling
-
-### Slide 1 - COVER (ATTENTION)
-Create a title that triggers STRONG EMOTION. The hook must:
-- Spark curiosity, controversy, or outrage
-- Challenge common beliefs or reveal a "dirty secret"
-- Use power words: "Why...", "The truth about...", "Stop doing...", "Nobody tells you..."
-- Make it IMPOSSIBLE to scroll past without reading more
-Type: COVER
-
-### Slides 2-${Math.ceil((count - 2) * 0.3) + 1} - INTEREST (First content slides)
-Hook the reader deeper with:
-- Surprising statistics or counterintuitive insights
-- "Wait, what?" moments that build intrigue
-- Promise of valuable information to come
-Type: CONTENT
-
-### Slides ${Math.ceil((count - 2) * 0.3) + 2}-${count - 1} - INTEREST + DESIRE (Middle to final content slides)
-Deliver value while building desire:
-- Main educational content and insights
-- Show the transformation possible
-- Include social proof or relatable examples
-- Create "I need this" moments
-- Final content slide should create urgency and anticipation for the CTA
-Type: CONTENT
-
-### Slide ${count} - ACTION (CTA)
-Clear, compelling call to action:
-- Tell them exactly what to do next
-- Make it easy to take action
-- Connect back to the desire built throughout
-Type: CTA
-
-## STORYTELLING REQUIREMENTS
-1. Every slide must flow naturally into the next - no disconnected points
-2. Use a consistent narrative voice throughout
-3. Build tension and release it with value
-4. End each slide with an implicit "and then..." that pulls to the next
-
-## FORMATTING
-- Use Markdown for emphasis (# Header, **bold**)
-- Keep text concise and punchy (tweet-length per slide)
-- Use bullet points sparingly for lists
-
-Create exactly ${count} slides.
-For each slide, determine if an image would enhance engagement (needsImage).
-Provide a 'suggestedImagePrompt' for image generation. If no image needed, return empty string.
-
-Return strictly JSON.
-`;
-
-  // Build contents based on input type
-  // Priority: PDF document → Instagram URLs → YouTube URLs → Plain text
-  // PDF: Use multimodal input (inline base64 + text)
-  // Instagram: Scrape via Apify, then use file_data with media URLs
-  // YouTube: Use file_data with file_uri for video content extraction
-  // TXT/MD: Text is already included in the prompt above
-  const buildContents = async (): Promise<string | { parts: any[] }> => {
-    // Handle PDF documents (multimodal with inline data)
-    if (document?.type === 'pdf' && document.base64) {
-      return {
-        parts: [
-          {
-            inlineData: {
-              mimeType: document.mimeType,
-              data: document.base64
-            }
-          },
-          { text: prompt }
-        ]
-      };
-    }
+  modelName: string = getModels().textPro.id,
+  documents: UploadedDocument[] = [],
+  framework: CopyFramework = DEFAULT_FRAMEWORK,
+  stream: CarouselStreamOptions = {},
+  creditSource: boolean = false
+): Promise<GeneratedCarousel> => {
+  const provider = getActiveProvider();
+  let streamedSlides = 0;
 
-    // Handle Instagram URLs (scrape via Apify, download media, upload to Gemini Files API)
-    const instagramUrls = extractInstagramUrls(effectiveTopic);
-    if (instagramUrls.length > 0 && hasApifyApiKey()) {
-      try {
-        console.log('Fetching Instagram content...');
-        const instagramData = await scrapeInstagramPost(instagramUrls[0]);
-        const parts: any[] = [];
-
-        // Handle Video (Reels) - download and upload to Gemini
-        if (instagramData.type === 'Video' && instagramData.videoUrl) {
-          try {
-            console.log('Downloading Instagram video...');
-            const videoBlob = await downloadMediaAsBlob(instagramData.videoUrl);
-            console.log('Uploading video to Gemini Files API...');
-            const uploaded = await uploadToGemini(videoBlob, `instagram_reel_${Date.now()}.mp4`);
-            parts.push(createPartFromUri(uploaded.uri, uploaded.mimeType));
-          } catch (err) {
-            console.warn('Failed to upload Instagram video:', err);
-            // Will fall through to text-only if no media uploaded
-          }
-        }
-        // Handle Images (carousel or single post) - download and upload each
-        else if (instagramData.images?.length > 0) {
-          console.log(`Downloading ${instagramData.images.length} Instagram images...`);
-          // Limit to 10 images to stay under request size limits
-          for (const imageUrl of instagramData.images.slice(0, 10)) {
-            try {
-              const imageBlob = await downloadMediaAsBlob(imageUrl);
-              const uploaded = await uploadToGemini(imageBlob, `instagram_image_${Date.now()}.jpg`);
-              parts.push(createPartFromUri(uploaded.uri, uploaded.mimeType));
-            } catch (err) {
-              console.warn('Failed to upload Instagram image:', err);
-              // Continue with other images
-            }
+  try {
+    return await runJob(
+      {
+        kind: 'text',
+        label: 'Generate carousel',
+        detail: excerpt(topic),
+        model: modelName,
+        signal: stream.signal,
+        // Retrying after slides were streamed would deliver them twice
+        canRetry: () => streamedSlides === 0
+      },
+      async (signal, { onUsage }) => {
+        const generated = await provider.generateCarousel({ topic, count, framework, documents, creditSource }, modelName, {
+          signal,
+          onUsage,
+          onSlide: (slide, index) => {
+            streamedSlides++;
+            stream.onSlide?.(nameSlideSources(slide, documents), index);
           }
-        }
-
-        // Build enhanced prompt with Instagram caption
-        const instagramContext = `\n\nSource: Instagram ${instagramData.type} by @${instagramData.ownerUsername}${instagramData.ownerFullName ? ` (${instagramData.ownerFullName})` : ''}:\nCaption: ${instagramData.caption || '(no caption)'}`;
-
-        // Remove the Instagram URL from topic for cleaner prompt
-        const topicWithoutUrl = effectiveTopic.replace(extractInstagramUrls(effectiveTopic)[0], '').trim();
-        const additionalContext = topicWithoutUrl ? `\n\nAdditional context: ${topicWithoutUrl}` : '';
-
-        parts.push({ text: prompt + instagramContext + additionalContext });
-
-        // Only return multimodal if we have at least one media part
-        if (parts.length > 1) {
-          console.log('Using multimodal Instagram content');
-          return { parts };
-        }
-
-        // Fallback to text-only with OCR data if media upload failed
-        console.log('Using text-only Instagram content (media upload failed)');
-        const textContent = formatInstagramContentForAI(instagramData);
-        return prompt + '\n\n' + textContent + additionalContext;
-      } catch (error) {
-        console.warn('Failed to process Instagram, falling back to plain text:', error);
-        // Fall through to try YouTube or plain text
+        });
+        return { ...generated, slides: generated.slides.map(slide => nameSlideSources(slide, documents)) };
       }
-    }
-
-    // Handle YouTube URLs (multimodal with file_uri)
-    const youtubeUrls = extractYouTubeUrls(effectiveTopic);
-    if (youtubeUrls.length > 0) {
-      const parts: any[] = youtubeUrls.map(url => ({
-        fileData: {
-          fileUri: normalizeYouTubeUrl(url)
-        }
-      }));
-      parts.push({ text: prompt });
-      return { parts };
-    }
-
-    // Default: plain text prompt
-    return prompt;
-  };
-
-  // Inner function to call the API with a specific model
-  // Uses "structured output" (responseSchema) to guarantee JSON format
-  const generate = async (m: string) => {
-      const contents = await buildContents();
-      const response = await ai.models.generateContent({
-        model: m,
-        contents,
-        config: {
-          // STRUCTURED OUTPUT: Forces Gemini to return valid JSON
-          // matching our schema - no regex parsing needed
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              slides: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    type: { type: Type.STRING },
-                    content: { type: Type.STRING },
-                    needsImage: { type: Type.BOOLEAN },
-                    suggestedImagePrompt: { type: Type.STRING }
-                  },
-                  required: ["type", "content", "needsImage", "suggestedImagePrompt"]
-                }
-              }
-            }
-          }
-        }
-      });
-      return response;
-  };
-
-  // Transform API response into app's Slide interface
-  const parseResponse = (response: any) => {
-      const json = JSON.parse(response.text || "{}");
-      const rawSlides = (json.slides || []) as GeneratedSlideSchema[];
-
-      return rawSlides.map((s, index) => ({
-        id: crypto.randomUUID(),
-        type: (s.type as SlideType) || SlideType.CONTENT,
-        content: s.content,
-        showImage: s.needsImage,
-        imagePrompt: s.suggestedImagePrompt,
-        imageUrl: undefined,  // Images are generated separately via generateSlideImage()
-        imageScale: 50,       // Default: image takes 50% of slide height
-        overlayImage: true    // Default: text overlays image (Storyteller mode)
-      }));
-  };
-
-  try {
-    const response = await generate(modelName);
-    return parseResponse(response);
+    );
   } catch (error) {
-    console.warn(`Error generating carousel content with ${modelName}:`, error);
-    
-    // Fallback Chain: Pro 3 -> Flash
-    let fallbackModel: string | null = null;
-
-    if (modelName === TEXT_MODEL_PRO) {
-        fallbackModel = TEXT_MODEL_FLASH;
+    // Providers surface cancellation differently; normalize it to an AbortError
+    if (stream.signal?.aborted || isAbortError(error)) {
+      throw new DOMException('Generation cancelled', 'AbortError');
     }
+    console.warn(`Error generating carousel content with ${modelName}:`, error);
 
-    if (fallbackModel) {
-        console.log(`Attempting fallback to ${fallbackModel}...`);
+    // Fallback Chain: Pro -> Flash
+    const { textPro, textFlash } = provider.getModels();
+    if (modelName === textPro.id && textFlash.id !== textPro.id && streamedSlides === 0) {
+        console.log(`Attempting fallback to ${textFlash.id}...`);
         try {
-            return await generateCarouselContent(topic, count, fallbackModel, document);
+            return await generateCarouselContent(topic, count, textFlash.id, documents, framework, stream, creditSource);
         } catch (fallbackError) {
             // The recursive call will handle its own logging, but if it bubbles up:
-            console.error(`Fallback chain failed at ${fallbackModel}:`, fallbackError);
+            console.error(`Fallback chain failed at ${textFlash.id}:`, fallbackError);
             throw fallbackError;
         }
     }
-    
+
     // If no fallback model defined (e.g. we failed on Flash), throw original error
     throw error;
   }
@@ -549,154 +314,115 @@ Return strictly JSON.
  * @param feedback - User's refinement instructions (e.g., "Translate to Spanish", "Make more technical")
  * @param slideIndex - Optional index of specific slide to refine (undefined = all slides)
  * @param modelName - Which model to use (defaults to Pro, falls back automatically)
- * @returns Updated array of Slide objects
+ * @param framework - Framework the project was generated with; refinement keeps its structure
+ * @returns Updated array of Slide objects (IDs, images and layout preserved)
  */
 export const refineCarouselContent = async (
   slides: Slide[],
   feedback: string,
   slideIndex?: number,
-  modelName: string = TEXT_MODEL_PRO
+  modelName: string = getModels().textPro.id,
+  framework: CopyFramework = DEFAULT_FRAMEWORK
 ): Promise<Slide[]> => {
-  const isGlobal = slideIndex === undefined;
-
-  // Build current content representation for the AI
-  const formatSlide = (s: Slide, i: number) =>
-    `Slide ${i + 1} (${s.type}):\n${s.content}`;
-
-  const currentContent = isGlobal
-    ? slides.map((s, i) => formatSlide(s, i)).join('\n\n')
-    : formatSlide(slides[slideIndex], slideIndex);
-
-  // Build the refinement prompt
-  const prompt = isGlobal
-    ? `You are refining an Instagram carousel. Apply the following feedback to ALL slides while maintaining the AIDA framework and storytelling flow.
-
-FEEDBACK: "${feedback}"
-
-CURRENT CAROUSEL CONTENT:
-${currentContent}
-
-Requirements:
-1. Apply the feedback consistently across all ${slides.length} slides
-2. Maintain each slide's type (COVER, CONTENT, CTA)
-3. Keep the same number of slides (${slides.length})
-4. Preserve Markdown formatting (# headers, **bold**, etc.)
-5. Keep suggestedImagePrompt relevant to the new content
-6. PRESERVE THE AIDA STRUCTURE:
-   - COVER slide must remain emotionally provocative and curiosity-inducing
-   - Early CONTENT slides should build INTEREST with surprising insights
-   - Later CONTENT slides should build DESIRE with transformation/benefits
-   - CTA must connect to the desire built throughout
-7. Maintain storytelling coherence - every slide should flow naturally into the next
-
-Return strictly JSON with the refined slides.`
-    : `You are refining a single slide from an Instagram carousel. Apply the following feedback to this specific slide only.
-
-FEEDBACK: "${feedback}"
-
-CURRENT SLIDE CONTENT:
-${currentContent}
-
-Requirements:
-1. Apply the feedback to this slide
-2. Maintain the slide type: ${slides[slideIndex].type}
-3. Preserve Markdown formatting (# headers, **bold**, etc.)
-4. Update suggestedImagePrompt if content changed significantly
-5. Preserve the slide's role in the AIDA framework:
-   - COVER: Keep it emotionally provocative and curiosity-inducing
-   - CONTENT: Maintain its role in building Interest or Desire
-   - CTA: Keep it action-oriented and connected to the overall narrative
-
-Return strictly JSON with ONE refined slide.`;
-
-  // Inner function to call the API
-  const generate = async (m: string) => {
-    const response = await ai.models.generateContent({
-      model: m,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: isGlobal
-          ? {
-              // Schema for multiple slides (global refinement)
-              type: Type.OBJECT,
-              properties: {
-                slides: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      type: { type: Type.STRING },
-                      content: { type: Type.STRING },
-                      needsImage: { type: Type.BOOLEAN },
-                      suggestedImagePrompt: { type: Type.STRING }
-                    },
-                    required: ["type", "content", "needsImage", "suggestedImagePrompt"]
-                  }
-                }
-              }
-            }
-          : {
-              // Schema for single slide (per-slide refinement)
-              type: Type.OBJECT,
-              properties: {
-                type: { type: Type.STRING },
-                content: { type: Type.STRING },
-                needsImage: { type: Type.BOOLEAN },
-                suggestedImagePrompt: { type: Type.STRING }
-              },
-              required: ["type", "content", "needsImage", "suggestedImagePrompt"]
-            }
-      }
-    });
-    return response;
-  };
-
-  // Parse the response and merge with existing slides
-  const parseResponse = (response: any): Slide[] => {
-    const json = JSON.parse(response.text || "{}");
-
-    if (isGlobal) {
-      // Global: Replace all slides content while preserving IDs and image URLs
-      const refinedSlides = json.slides || [];
-      return slides.map((original, i) => ({
-        ...original,
-        type: refinedSlides[i]?.type || original.type,
-        content: refinedSlides[i]?.content || original.content,
-        showImage: refinedSlides[i]?.needsImage ?? original.showImage,
-        imagePrompt: refinedSlides[i]?.suggestedImagePrompt || original.imagePrompt
-        // Preserve: id, imageUrl, imageScale, overlayImage, imageOffsetY, gradientHeight, fontStyle, fontScale
-      }));
-    } else {
-      // Per-slide: Update only the specified slide
-      return slides.map((original, i) => {
-        if (i !== slideIndex) return original;
-        return {
-          ...original,
-          type: json.type || original.type,
-          content: json.content || original.content,
-          showImage: json.needsImage ?? original.showImage,
-          imagePrompt: json.suggestedImagePrompt || original.imagePrompt
-        };
-      });
-    }
-  };
+  const provider = getActiveProvider();
 
   try {
-    const response = await generate(modelName);
-    return parseResponse(response);
+    return await runJob(
+      {
+        kind: 'text',
+        label: slideIndex === undefined ? 'Refine all slides' : `Refine slide ${slideIndex + 1}`,
+        detail: excerpt(feedback),
+        model: modelName
+      },
+      (_signal, options) => provider.refineCarousel({ slides, feedback, slideIndex, framework }, modelName, options)
+    );
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.warn(`Error refining content with ${modelName}:`, error);
 
-    // Same fallback chain as generateCarouselContent: Pro 3 -> Flash
-    let fallbackModel: string | null = null;
-    if (modelName === TEXT_MODEL_PRO) {
-      fallbackModel = TEXT_MODEL_FLASH;
+    // Same fallback chain as generateCarouselContent: Pro -> Flash
+    const { textPro, textFlash } = provider.getModels();
+    if (modelName === textPro.id && textFlash.id !== textPro.id) {
+      console.log(`Attempting fallback to ${textFlash.id}...`);
+      return await refineCarouselContent(slides, feedback, slideIndex, textFlash.id, framework);
     }
 
-    if (fallbackModel) {
-      console.log(`Attempting fallback to ${fallbackModel}...`);
-      return await refineCarouselContent(slides, feedback, slideIndex, fallbackModel);
+    throw error;
+  }
+};
+
+// ============================================================================
+// POST COPY (Caption, Hashtags, Alt Text)
+// ============================================================================
+
+/**
+ * Writes the post caption, ranked hashtags and per-slide alt text for existing slides.
+ * Used by the Workspace "Post" panel (manual carousels, or to regenerate after edits).
+ *
+ * @param slides - Current slides (text and image prompts are sent, not images)
+ * @param modelName - Which model to use (defaults to Pro, falls back automatically)
+ * @returns Caption, hashtags (without "#") and one alt text per slide
+ */
+export const generatePostCopy = async (
+  slides: Slide[],
+  modelName: string = getModels().textPro.id
+): Promise<GeneratedPostCopy> => {
+  const provider = getActiveProvider();
+
+  try {
+    return await runJob(
+      { kind: 'text', label: 'Write post copy', model: modelName },
+      (_signal, options) => provider.generatePostCopy(slides, modelName, options)
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Error generating post copy with ${modelName}:`, error);
+
+    // Same fallback chain as generateCarouselContent: Pro -> Flash
+    const { textPro, textFlash } = provider.getModels();
+    if (modelName === textPro.id && textFlash.id !== textPro.id) {
+      console.log(`Attempting fallback to ${textFlash.id}...`);
+      return await generatePostCopy(slides, textFlash.id);
+    }
+
+    throw error;
+  }
+};
+
+// ============================================================================
+// TEMPLATE FILLING
+// ============================================================================
+
+/**
+ * Writes text for every placeholder of a template, on the given topic.
+ * The result goes into the fill form so it can be reviewed before the carousel is created.
+ *
+ * @param topic - What the carousel should be about
+ * @param template - Saved template (its original text guides the length of each value)
+ * @param modelName - Which model to use (defaults to Pro, falls back automatically)
+ * @returns Placeholder key → text (empty for anything the model left out)
+ */
+export const fillTemplatePlaceholders = async (
+  topic: string,
+  template: CarouselTemplate,
+  modelName: string = getModels().textPro.id
+): Promise<Record<string, string>> => {
+  const provider = getActiveProvider();
+
+  try {
+    return await runJob(
+      { kind: 'text', label: 'Fill template', detail: excerpt(topic), model: modelName },
+      (_signal, options) => provider.fillTemplate({ topic, template }, modelName, options)
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Error filling template with ${modelName}:`, error);
+
+    // Same fallback chain as generateCarouselContent: Pro -> Flash
+    const { textPro, textFlash } = provider.getModels();
+    if (modelName === textPro.id && textFlash.id !== textPro.id) {
+      console.log(`Attempting fallback to ${textFlash.id}...`);
+      return await fillTemplatePlaceholders(topic, template, textFlash.id);
     }
 
     throw error;
@@ -708,16 +434,63 @@ Return strictly JSON with ONE refined slide.`;
 // ============================================================================
 
 /**
- * Generates an image from a text prompt using Gemini's image generation API.
+ * Splits a base64 data URI into the raw data and MIME type providers expect.
+ * Returns null for anything else (e.g. a remote URL), which is skipped.
+ */
+const toInlineImage = (dataUri: string): InlineImage | null => {
+  const match = dataUri.match(/^data:([^;,]+);base64,(.+)$/);
+  return match ? { mimeType: match[1], imageBase64: match[2] } : null;
+};
+
+/**
+ * Runs an image request as a queue job, retrying once on the Flash tier if Pro is not permitted.
+ * This is different from text generation which falls back on ANY error.
+ *
+ * @param label - Job label in the jobs panel (e.g. "Generate image")
+ * @param detail - Prompt excerpt shown under the label
+ */
+const withImageFallback = async (
+  modelName: string,
+  label: string,
+  detail: string,
+  run: (model: string, options: RequestOptions) => Promise<string>
+): Promise<string> => {
+  const { imagePro, imageFlash } = getModels();
+  const action = label.toLowerCase();
+  const queued = (model: string) =>
+    runJob({ kind: 'image', label, detail: excerpt(detail), model }, (_signal, options) => run(model, options));
+
+  try {
+    return await queued(modelName);
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    if (modelName === imagePro.id && imageFlash.id !== imagePro.id && isPermissionError(error)) {
+      console.warn(`Falling back to ${imageFlash.id} for ${action} due to permission error on ${imagePro.id}`);
+      try {
+        return await queued(imageFlash.id);
+      } catch (fallbackError) {
+        console.error(`Fallback ${action} also failed:`, fallbackError);
+        throw fallbackError;
+      }
+    }
+    console.error(`Error during ${action}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Generates an image from a text prompt with the active provider.
  *
  * @param prompt - Description of the image to generate
  * @param aspectRatio - Desired aspect ratio (converted to API format internally)
- * @param modelName - Which model to use (Pro for 2K quality, Flash for broader access)
+ * @param modelName - Which model to use (Pro for best quality, Flash for broader access)
+ * @param globalStyle - Style prefix for the prompt
+ * @param referenceImages - Project reference images, sent with the prompt so a recurring
+ *   subject (person, mascot, product) and palette stay the same on every slide
  * @returns Base64 data URI of the generated image (ready for <img src="">)
  *
  * FALLBACK STRATEGY (permission-based only):
  * Pro → Flash (only triggers on 403 permission errors, not other failures)
- * This is different from text generation which falls back on ANY error.
  *
  * PROMPT ENHANCEMENT:
  * All prompts are prefixed with a global style (defaults to "Minimalist, high quality, photorealistic, cinematic lighting.")
@@ -728,77 +501,29 @@ export const DEFAULT_IMAGE_STYLE = 'Minimalist, high quality, photorealistic, ci
 export const generateSlideImage = async (
   prompt: string,
   aspectRatio: AspectRatio,
-  modelName: string = IMAGE_MODEL_PRO,
-  globalStyle: string = DEFAULT_IMAGE_STYLE
+  modelName: string = getModels().imagePro.id,
+  globalStyle: string = DEFAULT_IMAGE_STYLE,
+  referenceImages: ReferenceImage[] = []
 ): Promise<string> => {
-  const apiAspectRatio = getApiAspectRatio(aspectRatio);
-
   // Use the provided global style, or fall back to default if empty
   const stylePrefix = globalStyle.trim() || DEFAULT_IMAGE_STYLE;
-
-  const generate = async (m: string) => {
-      const isPro = m === IMAGE_MODEL_PRO;
-      const response = await ai.models.generateContent({
-        model: m,
-        contents: {
-          // Enhance all prompts with the global style prefix
-          parts: [{ text: `${stylePrefix} ${prompt}` }]
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: apiAspectRatio,
-            // Pro model supports 2K resolution; Flash doesn't support imageSize
-            ...(isPro ? { imageSize: "2K" } : {})
-          }
-        }
-      });
-      return response;
-  }
-
-  try {
-    const response = await generate(modelName);
-    return extractImage(response);
-  } catch (error: any) {
-    // PERMISSION-BASED FALLBACK: Only fall back on 403 errors
-    // Other errors (rate limits, network issues) should bubble up immediately
-    if (modelName === IMAGE_MODEL_PRO && (error?.status === 'PERMISSION_DENIED' || error?.status === 403 || error.message?.includes('403'))) {
-       console.warn(`Falling back to ${IMAGE_MODEL_FLASH} due to permission error on ${IMAGE_MODEL_PRO}`);
-       try {
-           const response = await generate(IMAGE_MODEL_FLASH);
-           return extractImage(response);
-       } catch (fallbackError) {
-           console.error("Fallback image generation also failed:", fallbackError);
-           throw fallbackError;
-       }
-    }
-    console.error("Error generating image:", error);
-    throw error;
-  }
+  const references = referenceImages.map(ref => toInlineImage(ref.imageUrl)).filter((ref): ref is InlineImage => !!ref);
+
+  return withImageFallback(modelName, 'Generate image', prompt, (m, options) =>
+    getActiveProvider().generateImage(
+      { prompt: `${stylePrefix} ${prompt}`, aspectRatio: getApiAspectRatio(aspectRatio), references },
+      m,
+      options
+    )
+  );
 };
 
-/**
- * Extracts the base64 image data from a Gemini API response.
- *
- * Gemini returns a nested structure: response.candidates[0].content.parts[]
- * We look for a part with inlineData.data and wrap it as a data URI.
- *
- * @throws Error if no image data found in response
- */
-const extractImage = (response: any): string => {
-   for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No image data returned from API");
-}
-
 // ============================================================================
 // IMAGE STYLIZATION (Image-to-Image)
 // ============================================================================
 
 /**
- * Transforms an uploaded image using Gemini's image-to-image capability.
+ * Transforms an uploaded image using the provider's image-to-image capability.
  *
  * This is different from generateSlideImage() - instead of generating from text,
  * it takes an existing image and applies a style transformation while preserving
@@ -807,13 +532,13 @@ const extractImage = (response: any): string => {
  * HOW IT WORKS:
  * 1. User uploads an image (converted to base64)
  * 2. User provides a style prompt (e.g., "watercolor painting", "cyberpunk style")
- * 3. Gemini regenerates the image with the requested style applied
+ * 3. The model regenerates the image with the requested style applied
  *
  * @param imageBase64 - Raw base64 data (NOT a data URI - no "data:image/..." prefix)
  * @param mimeType - Image MIME type (e.g., "image/png", "image/jpeg")
  * @param stylePrompt - Description of desired transformation
  * @param apiAspectRatio - Already in API format (e.g., "1:1") - preserves original ratio
- * @param modelName - Model to use (Pro for 2K, Flash for fallback)
+ * @param modelName - Model to use (Pro for best quality, Flash for fallback)
  * @returns Base64 data URI of the stylized image
  */
 export const stylizeImage = async (
@@ -821,57 +546,11 @@ export const stylizeImage = async (
   mimeType: string,
   stylePrompt: string,
   apiAspectRatio: string,
-  modelName: string = IMAGE_MODEL_PRO
+  modelName: string = getModels().imagePro.id
 ): Promise<string> => {
-
-  const generate = async (m: string) => {
-    const isPro = m === IMAGE_MODEL_PRO;
-    const response = await ai.models.generateContent({
-      model: m,
-      contents: {
-        // IMAGE-TO-IMAGE: Send both the source image and transformation prompt
-        parts: [
-          {
-            // Source image as inline data (base64)
-            inlineData: {
-              mimeType: mimeType,
-              data: imageBase64
-            }
-          },
-          {
-            // Transformation instructions
-            text: `Transform this image with the following style: ${stylePrompt}. Maintain the core subject matter but apply the artistic transformation.`
-          }
-        ]
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: apiAspectRatio,
-          ...(isPro ? { imageSize: "2K" } : {})
-        }
-      }
-    });
-    return response;
-  };
-
-  try {
-    const response = await generate(modelName);
-    return extractImage(response);
-  } catch (error: any) {
-    // Same permission-based fallback as generateSlideImage
-    if (modelName === IMAGE_MODEL_PRO && (error?.status === 'PERMISSION_DENIED' || error?.status === 403 || error.message?.includes('403'))) {
-      console.warn(`Falling back to ${IMAGE_MODEL_FLASH} for stylization`);
-      try {
-        const response = await generate(IMAGE_MODEL_FLASH);
-        return extractImage(response);
-      } catch (fallbackError) {
-        console.error("Fallback stylization also failed:", fallbackError);
-        throw fallbackError;
-      }
-    }
-    console.error("Error stylizing image:", error);
-    throw error;
-  }
+  return withImageFallback(modelName, 'Stylize image', stylePrompt, (m, options) =>
+    getActiveProvider().stylizeImage({ imageBase64, mimeType, prompt: stylePrompt, aspectRatio: apiAspectRatio }, m, options)
+  );
 };
 
 // ============================================================================
@@ -889,7 +568,7 @@ export const stylizeImage = async (
  * @param mimeType - Image MIME type (e.g., "image/png", "image/jpeg")
  * @param editPrompt - Description of desired changes (e.g., "add rain", "make it darker")
  * @param apiAspectRatio - Already in API format (e.g., "1:1")
- * @param modelName - Model to use (Pro for 2K, Flash for fallback)
+ * @param modelName - Model to use (Pro for best quality, Flash for fallback)
  * @returns Base64 data URI of the edited image
  */
 export const editImage = async (
@@ -897,52 +576,9 @@ export const editImage = async (
   mimeType: string,
   editPrompt: string,
   apiAspectRatio: string,
-  modelName: string = IMAGE_MODEL_PRO
+  modelName: string = getModels().imagePro.id
 ): Promise<string> => {
-
-  const generate = async (m: string) => {
-    const isPro = m === IMAGE_MODEL_PRO;
-    const response = await ai.models.generateContent({
-      model: m,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: imageBase64
-            }
-          },
-          {
-            text: `Edit this image according to the following instructions: ${editPrompt}. Keep the main subject and composition, but apply the requested changes.`
-          }
-        ]
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: apiAspectRatio,
-          ...(isPro ? { imageSize: "2K" } : {})
-        }
-      }
-    });
-    return response;
-  };
-
-  try {
-    const response = await generate(modelName);
-    return extractImage(response);
-  } catch (error: any) {
-    // Same permission-based fallback as generateSlideImage
-    if (modelName === IMAGE_MODEL_PRO && (error?.status === 'PERMISSION_DENIED' || error?.status === 403 || error.message?.includes('403'))) {
-      console.warn(`Falling back to ${IMAGE_MODEL_FLASH} for image editing`);
-      try {
-        const response = await generate(IMAGE_MODEL_FLASH);
-        return extractImage(response);
-      } catch (fallbackError) {
-        console.error("Fallback image editing also failed:", fallbackError);
-        throw fallbackError;
-      }
-    }
-    console.error("Error editing image:", error);
-    throw error;
-  }
+  return withImageFallback(modelName, 'Edit image', editPrompt, (m, options) =>
+    getActiveProvider().editImage({ imageBase64, mimeType, prompt: editPrompt, aspectRatio: apiAspectRatio }, m, options)
+  );
 };
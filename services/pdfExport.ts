@@ -0,0 +1,315 @@
+/**
+ * PDF Export Service
+ *
+ * Builds a multi-page PDF (one page per slide) for LinkedIn document posts,
+ * which only accept carousels as PDF uploads.
+ *
+ * EACH PAGE HAS TWO LAYERS:
+ * 1. Image: the slide captured by html-to-image. Web fonts are inlined by the
+ *    capture, so the page looks exactly like the preview in any viewer.
+ * 2. Text: an invisible text layer positioned over every line of slide text,
+ *    so the PDF can be searched, selected and copied (like an OCR'd scan).
+ *
+ * TEXT LAYER FONTS:
+ * The web fonts the slides use (Playfair Display, JetBrains Mono - see
+ * getFontFamily() in lib/markdown.tsx) are embedded, so selection boxes match
+ * the glyphs in the image. jsPDF only embeds TrueType, and the Google Fonts files
+ * html-to-image inlines are WOFF2, so the TTF builds of the same fonts are
+ * fetched from the Fontsource CDN (once per session). Text in the system font
+ * stack (MODERN), or in a web font that fails to download, falls back to the
+ * closest standard PDF font (Helvetica / Times / Courier).
+ *
+ * Uses jsPDF loaded via CDN in index.html (window.jspdf).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One line of slide text, in slide pixels (0,0 = top-left of the slide).
+ */
+export interface PdfTextRun {
+  text: string;
+  x: number;
+  y: number;          // Top of the line box
+  width: number;
+  height: number;
+  fontSize: number;   // CSS pixels
+  fontFamily: 'helvetica' | 'times' | 'courier';   // Standard font (fallback)
+  fontStyle: 'normal' | 'bold' | 'italic' | 'bolditalic';
+  webFont?: WebFontFace;                           // Slide web font to embed
+}
+
+/**
+ * A face of one of the slide web fonts, e.g. Playfair Display 700 italic.
+ */
+export interface WebFontFace {
+  family: string;     // Key of EMBEDDABLE_FONTS
+  weight: number;     // One of the family's loaded weights
+  italic: boolean;
+}
+
+export interface PdfPage {
+  imageDataUrl: string;  // PNG capture of the slide
+  textRuns: PdfTextRun[];
+}
+
+export interface PdfDocumentOptions {
+  width: number;         // Slide width in pixels (PREVIEW_WIDTH)
+  height: number;        // Slide height in pixels (from the aspect ratio)
+  title: string;
+  author?: string;
+}
+
+// CSS pixels are 1/96in, PDF points are 1/72in
+const PX_TO_PT = 72 / 96;
+
+// ============================================================================
+// EMBEDDED FONTS
+// ============================================================================
+
+/**
+ * Slide web fonts, keyed by lowercase CSS family. Weights match the ones
+ * index.html loads from Google Fonts.
+ */
+const EMBEDDABLE_FONTS: Record<string, { fontsourceId: string; weights: number[] }> = {
+  'playfair display': { fontsourceId: 'playfair-display', weights: [400, 500, 600, 700, 800, 900] },
+  'jetbrains mono': { fontsourceId: 'jetbrains-mono', weights: [400, 500, 600, 700, 800] }
+};
+
+const FONTSOURCE_BASE = 'https://cdn.jsdelivr.net/fontsource/fonts';
+
+// "playfair-display-700-italic.ttf" (also the jsPDF virtual file name)
+const getFontFileName = ({ family, weight, italic }: WebFontFace): string =>
+  `${EMBEDDABLE_FONTS[family].fontsourceId}-${weight}-${italic ? 'italic' : 'normal'}.ttf`;
+
+const getFontUrl = ({ family, weight, italic }: WebFontFace): string =>
+  `${FONTSOURCE_BASE}/${EMBEDDABLE_FONTS[family].fontsourceId}@latest/latin-${weight}-${italic ? 'italic' : 'normal'}.ttf`;
+
+// Base64 TTF per file name; failed downloads are retried on the next export
+const fontCache = new Map<string, Promise<string>>();
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Downloads a web font face as base64 TrueType (Latin subset).
+ */
+const loadFontFile = (face: WebFontFace): Promise<string> => {
+  const fileName = getFontFileName(face);
+  let file = fontCache.get(fileName);
+  if (!file) {
+    file = fetch(getFontUrl(face))
+      .then(response => {
+        if (!response.ok) throw new Error(`Font download failed: ${response.status}`);
+        return response.blob();
+      })
+      .then(blobToBase64);
+    file.catch(() => fontCache.delete(fileName));
+    fontCache.set(fileName, file);
+  }
+  return file;
+};
+
+/**
+ * Adds the web fonts used by the text runs to the PDF.
+ * Returns the jsPDF font name of every face that could be embedded, by file name.
+ */
+const embedFonts = async (pdf: any, runs: PdfTextRun[]): Promise<Map<string, string>> => {
+  const faces = new Map<string, WebFontFace>();
+  runs.forEach(run => {
+    if (run.webFont) faces.set(getFontFileName(run.webFont), run.webFont);
+  });
+
+  const embedded = new Map<string, string>();
+  await Promise.all([...faces].map(async ([fileName, face]) => {
+    try {
+      const base64 = await loadFontFile(face);
+      const fontName = fileName.replace('.ttf', '');
+      pdf.addFileToVFS(fileName, base64);
+      pdf.addFont(fileName, fontName, 'normal');
+      embedded.set(fileName, fontName);
+    } catch (error) {
+      console.warn(`Could not embed ${face.family} ${face.weight} in the PDF, using a standard font:`, error);
+    }
+  }));
+  return embedded;
+};
+
+// ============================================================================
+// TEXT LAYER EXTRACTION
+// ============================================================================
+
+/**
+ * Maps a computed CSS font to the web font face to embed (when the slide uses
+ * one) and the closest standard PDF font as the fallback.
+ * Matches the families from getFontFamily() in lib/markdown.tsx.
+ */
+const toPdfFont = (style: CSSStyleDeclaration): Pick<PdfTextRun, 'fontFamily' | 'fontStyle' | 'webFont'> => {
+  const family = style.fontFamily.toLowerCase();
+  const fontFamily = family.includes('playfair') || family.includes('georgia')
+    ? 'times'
+    : family.includes('mono')
+      ? 'courier'
+      : 'helvetica';
+
+  const weight = parseInt(style.fontWeight, 10) || 400;
+  const bold = weight >= 600;
+  const italic = style.fontStyle === 'italic';
+  const fontStyle = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+
+  // The first family of the stack is the one rendered (the web fonts are loaded up front)
+  const primary = family.split(',')[0].trim().replace(/^["']|["']$/g, '');
+  const embeddable = EMBEDDABLE_FONTS[primary];
+  const webFont = embeddable && {
+    family: primary,
+    weight: embeddable.weights.reduce((closest, w) => (Math.abs(w - weight) < Math.abs(closest - weight) ? w : closest)),
+    italic
+  };
+
+  return { fontFamily, fontStyle, webFont };
+};
+
+/**
+ * Standard PDF fonts use WinAnsi encoding, and the embedded fonts are their Latin
+ * subset. Characters outside it (emoji, CJK) would come out as garbage when copied,
+ * so they are dropped from the text layer.
+ */
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const toWinAnsi = (text: string): string =>
+  Array.from(text)
+    .filter(char => char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.includes(char))
+    .join('');
+
+/**
+ * Collects the visible text of a rendered slide as positioned lines.
+ *
+ * Words are measured individually with DOM Ranges, then merged into lines.
+ * Positions are converted back to slide pixels, so the result is correct even
+ * while the preview is zoomed (CSS transform on a parent).
+ *
+ * @param element - The rendered slide (e.g. #preview-slide-capture)
+ * @param slideWidth - Unscaled slide width in pixels
+ */
+export const extractTextLayer = (element: HTMLElement, slideWidth: number): PdfTextRun[] => {
+  const bounds = element.getBoundingClientRect();
+  if (bounds.width === 0) return [];
+  const scale = bounds.width / slideWidth;
+
+  const runs: PdfTextRun[] = [];
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const parent = node.parentElement;
+    if (!parent || !node.textContent?.trim()) continue;
+
+    const computed = getComputedStyle(parent);
+    if (computed.visibility === 'hidden' || computed.display === 'none') continue;
+
+    const font = toPdfFont(computed);
+    const fontSize = parseFloat(computed.fontSize);
+
+    for (const match of node.textContent.matchAll(/\S+/g)) {
+      const word = toWinAnsi(match[0]);
+      if (!word) continue;
+
+      range.setStart(node, match.index!);
+      range.setEnd(node, match.index! + match[0].length);
+      const rect = range.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) continue;
+
+      const x = (rect.left - bounds.left) / scale;
+      const y = (rect.top - bounds.top) / scale;
+      const width = rect.width / scale;
+      const height = rect.height / scale;
+
+      // Continue the previous line if this word sits on the same baseline just after it
+      const last = runs[runs.length - 1];
+      const sameLine = last
+        && Math.abs((last.y + last.height) - (y + height)) < fontSize * 0.3
+        && x >= last.x + last.width - 1;
+
+      if (sameLine) {
+        last.text += ` ${word}`;
+        last.width = x + width - last.x;
+      } else {
+        runs.push({ text: word, x, y, width, height, fontSize, ...font });
+      }
+    }
+  }
+
+  range.detach();
+  return runs;
+};
+
+// ============================================================================
+// PDF ASSEMBLY
+// ============================================================================
+
+/**
+ * Builds the PDF from captured pages, embedding the web fonts of the text layer.
+ * Throws if jsPDF failed to load from the CDN.
+ */
+export const createCarouselPdf = async (pages: PdfPage[], options: PdfDocumentOptions): Promise<Blob> => {
+  const jsPDF = window.jspdf?.jsPDF;
+  if (!jsPDF) {
+    throw new Error('PDF library failed to load. Check your connection and reload the page.');
+  }
+
+  const pageWidth = options.width * PX_TO_PT;
+  const pageHeight = options.height * PX_TO_PT;
+
+  const pdf = new jsPDF({
+    orientation: pageWidth > pageHeight ? 'landscape' : 'portrait',
+    unit: 'pt',
+    format: [pageWidth, pageHeight],
+    compress: true
+  });
+
+  pdf.setProperties({
+    title: options.title,
+    author: options.author || '',
+    creator: 'CarouselAI'
+  });
+
+  const embeddedFonts = await embedFonts(pdf, pages.flatMap(page => page.textRuns));
+
+  pages.forEach((page, index) => {
+    if (index > 0) pdf.addPage([pageWidth, pageHeight], pageWidth > pageHeight ? 'landscape' : 'portrait');
+
+    pdf.addImage(page.imageDataUrl, 'PNG', 0, 0, pageWidth, pageHeight, undefined, 'FAST');
+
+    // Invisible text on top of the image so selection follows the visible lines
+    page.textRuns.forEach(run => {
+      const embeddedFont = run.webFont && embeddedFonts.get(getFontFileName(run.webFont));
+      if (embeddedFont) {
+        pdf.setFont(embeddedFont, 'normal');
+      } else {
+        pdf.setFont(run.fontFamily, run.fontStyle);
+      }
+      pdf.setFontSize(run.fontSize * PX_TO_PT);
+
+      // Stretch each line to the width it occupies on the slide
+      const naturalWidth = pdf.getTextWidth(run.text);
+      const horizontalScale = naturalWidth > 0 ? (run.width * PX_TO_PT) / naturalWidth : 1;
+
+      // Vertically center the em box within the line box
+      const top = run.y + (run.height - run.fontSize) / 2;
+
+      pdf.text(run.text, run.x * PX_TO_PT, top * PX_TO_PT, {
+        baseline: 'top',
+        renderingMode: 'invisible',
+        horizontalScale
+      });
+    });
+  });
+
+  return pdf.output('blob');
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_ACCENT_COLOR,
+  DEFAULT_LAYOUT_SETTINGS,
+  migrateProject,
+  parseProject,
+  validateProject
+} from './projectSchema';
+import { DEFAULT_FRAMEWORK } from '../lib/frameworks';
+
+// An export from before schemaVersion existed: no global settings at all
+const V0_PROJECT = {
+  name: 'Old carousel',
+  style: 'STORYTELLER',
+  profile: { name: 'Ada', handle: '@ada', avatarUrl: '' },
+  slides: [
+    { id: '1', type: 'COVER', content: '# Hook', showImage: false },
+    { id: '2', type: 'CONTENT', content: 'Body', showImage: true, imageOffsetY: 30 }
+  ]
+};
+
+describe('migrateProject', () => {
+  it('upgrades an unversioned file to the current version with defaults', () => {
+    const migrated = migrateProject(V0_PROJECT);
+
+    expect(migrated).toMatchObject({
+      name: 'Old carousel',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      aspectRatio: '1/1',
+      theme: 'DARK',
+      accentColor: DEFAULT_ACCENT_COLOR,
+      showAccent: true,
+      fontStyle: 'MODERN',
+      layoutSettings: DEFAULT_LAYOUT_SETTINGS,
+      caption: '',
+      hashtags: [],
+      framework: DEFAULT_FRAMEWORK,
+      referenceImages: [],
+      documentImages: []
+    });
+    expect(typeof migrated.id).toBe('string');
+    expect(migrated.slides).toEqual(V0_PROJECT.slides);
+  });
+
+  it('keeps the layout settings an old file has and fills in the rest', () => {
+    const migrated = migrateProject({ ...V0_PROJECT, layoutSettings: { contentPadding: 40, textLineHeight: 1.8 } });
+
+    expect(migrated.layoutSettings).toEqual({ ...DEFAULT_LAYOUT_SETTINGS, contentPadding: 40, textLineHeight: 1.8 });
+  });
+
+  it('only runs the migrations after the file version', () => {
+    const migrated = migrateProject({ ...V0_PROJECT, schemaVersion: 2, caption: 'Hi', hashtags: ['#a'] });
+
+    // 0 → 1 would have filled these in
+    expect(migrated.aspectRatio).toBeUndefined();
+    expect(migrated).toMatchObject({ schemaVersion: CURRENT_SCHEMA_VERSION, caption: 'Hi', framework: DEFAULT_FRAMEWORK });
+  });
+});
+
+describe('parseProject', () => {
+  it('accepts a migrated v0 file and reports the original version', () => {
+    const result = parseProject(V0_PROJECT);
+
+    expect(result.issues).toEqual([]);
+    expect(result.migratedFrom).toBe(0);
+    expect(result.project?.slides).toHaveLength(2);
+  });
+
+  it('round-trips a current project unchanged', () => {
+    const { project } = parseProject(V0_PROJECT);
+    const result = parseProject(JSON.parse(JSON.stringify(project)));
+
+    expect(result.migratedFrom).toBeNull();
+    expect(result.project).toEqual(project);
+  });
+
+  it('rejects an invalid file with the path of every problem', () => {
+    const result = parseProject({
+      ...V0_PROJECT,
+      aspectRatio: '3/2',
+      accentColor: 'yellow',
+      layoutSettings: { textAlignment: 'justify' },
+      slides: [
+        { id: '1', type: 'COVER', content: 'A', showImage: false },
+        { id: '1', type: 'QUOTE', showImage: 'yes' },
+        'not a slide'
+      ]
+    });
+
+    expect(result.project).toBeNull();
+    expect(result.issues.map(issue => issue.path)).toEqual([
+      'aspectRatio',
+      'accentColor',
+      'layoutSettings.textAlignment',
+      'slides[1].type',
+      'slides[1].content',
+      'slides[1].showImage',
+      'slides[1].id',
+      'slides[2]'
+    ]);
+    expect(result.issues.find(issue => issue.path === 'slides[1].content')?.message).toBe('is missing');
+  });
+
+  it('rejects files from a newer version and data that is not an object', () => {
+    const { project } = parseProject(V0_PROJECT);
+
+    expect(validateProject({ ...project, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }).map(issue => issue.path)).toEqual(['schemaVersion']);
+    expect(parseProject([]).issues).toEqual([{ path: '(root)', message: 'expected a project object' }]);
+  });
+
+  it('rejects a project without slides', () => {
+    expect(parseProject({ ...V0_PROJECT, slides: [] }).issues).toEqual([{ path: 'slides', message: 'must contain at least one slide' }]);
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Project Schema Service
+ *
+ * Versioning, migration and runtime validation for CarouselProject data.
+ * Used for JSON imports and for projects loaded back from IndexedDB, so files
+ * written by older versions of the app keep opening and malformed files are
+ * rejected with a precise list of problems instead of breaking the editor.
+ * Brand kit files (BrandKit) are validated with the same rules.
+ *
+ * PIPELINE:
+ * 1. migrateProject: Upgrades raw data one schema version at a time
+ * 2. validateProject: Checks every field and reports `path: problem` issues
+ *
+ * ADDING A SCHEMA VERSION:
+ * Bump CURRENT_SCHEMA_VERSION and add a migration keyed by the version it
+ * upgrades FROM. Migrations receive plain objects and must not assume any
+ * field is valid - validation runs after all migrations.
+ */
+
+import { CarouselProject, CarouselStyle, SlideType, LayoutSettings, Slide, Profile, BrandKit } from '../types';
+import { DEFAULT_IMAGE_STYLE } from './geminiService';
+import { DEFAULT_FRAMEWORK, FRAMEWORK_IDS } from '../lib/frameworks';
+
+// ============================================================================
+// VERSIONS & DEFAULTS
+// ============================================================================
+
+/**
+ * Version written by this build.
+ * - 0: Unversioned files (before schemaVersion existed). Global settings and
+ *      layoutSettings may be missing or partial (no textAlignment).
+ * - 1: schemaVersion added; all global settings and layoutSettings are complete.
+ * - 2: Post copy added (caption, hashtags; optional per-slide altText).
+ * - 3: Copywriting framework added (framework).
+ * - 4: Project reference images added (referenceImages).
+ * - 5: Images from the source document added (documentImages).
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+/**
+ * Brand kit format written by this build.
+ * - 1: Initial format.
+ */
+export const CURRENT_BRAND_KIT_VERSION = 1;
+
+/**
+ * Range of imageCanvasOffset either way, in px (the Canvas Position slider).
+ */
+export const IMAGE_CANVAS_OFFSET_LIMIT = 200;
+
+/**
+ * Default global layout (used by new projects and when upgrading old files).
+ */
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = {
+  contentPadding: 64,      // 32-96 px
+  imageCanvasOffset: 0,    // ±IMAGE_CANVAS_OFFSET_LIMIT px
+  imageMargin: 0,          // 0-32 px
+  textLineHeight: 1.5,     // 1.2-2.0
+  paragraphGap: 1,         // 0.5-2.0 rem
+  textAlignment: 'left',   // left, center, right
+};
+
+export const DEFAULT_ACCENT_COLOR = '#EAB308';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A single validation problem, e.g. { path: 'slides[2].type', message: 'expected one of ...' }.
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface ProjectParseResult {
+  project: CarouselProject | null;   // null when validation failed
+  issues: SchemaIssue[];             // Empty when the project is valid
+  migratedFrom: number | null;       // Original schema version, if the data was upgraded
+}
+
+export interface BrandKitParseResult {
+  kit: BrandKit | null;              // null when validation failed
+  issues: SchemaIssue[];             // Empty when the kit is valid
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ */
+const MIGRATIONS: Record<number, (data: RawObject) => RawObject> = {
+  /**
+   * 0 → 1: Fill in global settings that older exports didn't always include.
+   * Slides without textAlignment (or other per-slide overrides) are left as-is -
+   * undefined means "use the global value", which is what older files intended.
+   */
+  0: (data) => {
+    const style = data.style ?? CarouselStyle.TWITTER;
+    const now = new Date().toISOString();
+    const layoutSettings = isObject(data.layoutSettings) ? data.layoutSettings : {};
+
+    return {
+      ...data,
+      id: data.id ?? crypto.randomUUID(),
+      name: data.name ?? 'Imported carousel',
+      style,
+      aspectRatio: data.aspectRatio ?? '1/1',  // The default for new projects
+      theme: data.theme ?? (style === CarouselStyle.STORYTELLER ? 'DARK' : 'LIGHT'),
+      accentColor: data.accentColor ?? DEFAULT_ACCENT_COLOR,
+      showAccent: data.showAccent ?? true,
+      showSlideNumbers: data.showSlideNumbers ?? true,
+      showVerifiedBadge: data.showVerifiedBadge ?? true,
+      headerScale: data.headerScale ?? 1.0,
+      fontStyle: data.fontStyle ?? 'MODERN',
+      fontScale: data.fontScale ?? 1.0,
+      globalImageStyle: data.globalImageStyle ?? DEFAULT_IMAGE_STYLE,
+      layoutSettings: { ...DEFAULT_LAYOUT_SETTINGS, ...layoutSettings },
+      createdAt: data.createdAt ?? now,
+      updatedAt: data.updatedAt ?? now,
+      schemaVersion: 1
+    };
+  },
+
+  /**
+   * 1 → 2: Projects written before post copy existed start with an empty caption.
+   */
+  1: (data) => ({
+    ...data,
+    caption: data.caption ?? '',
+    hashtags: data.hashtags ?? [],
+    schemaVersion: 2
+  }),
+
+  /**
+   * 2 → 3: Every carousel before frameworks existed was generated with AIDA.
+   */
+  2: (data) => ({
+    ...data,
+    framework: data.framework ?? DEFAULT_FRAMEWORK,
+    schemaVersion: 3
+  }),
+
+  /**
+   * 3 → 4: Projects before reference images existed have none.
+   */
+  3: (data) => ({
+    ...data,
+    referenceImages: data.referenceImages ?? [],
+    schemaVersion: 4
+  }),
+
+  /**
+   * 4 → 5: Projects before document images existed have none.
+   */
+  4: (data) => ({
+    ...data,
+    documentImages: data.documentImages ?? [],
+    schemaVersion: 5
+  })
+};
+
+/**
+ * Upgrades raw project data to CURRENT_SCHEMA_VERSION.
+ * Data that already is current (or newer) is returned unchanged.
+ */
+export const migrateProject = (data: RawObject): RawObject => {
+  let migrated = data;
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) break; // Leave it to validation to report the unsupported version
+    migrated = migrate(migrated);
+    version += 1;
+  }
+
+  return migrated;
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * A field check returns a description of what was expected, or null if valid.
+ */
+type FieldCheck = (value: unknown) => string | null;
+
+interface FieldRule {
+  check: FieldCheck;
+  required?: boolean;
+}
+
+const isString: FieldCheck = (v) => (typeof v === 'string' ? null : 'expected a string');
+const isBoolean: FieldCheck = (v) => (typeof v === 'boolean' ? null : 'expected true or false');
+const isNumber: FieldCheck = (v) => (typeof v === 'number' && Number.isFinite(v) ? null : 'expected a number');
+const oneOf = (values: readonly string[]): FieldCheck => (v) =>
+  typeof v === 'string' && values.includes(v) ? null : `expected one of ${values.join(', ')}`;
+const isHexColor: FieldCheck = (v) =>
+  typeof v === 'string' && /^#[0-9a-f]{3,8}$/i.test(v) ? null : 'expected a hex color (e.g. #EAB308)';
+const isStringList: FieldCheck = (v) =>
+  Array.isArray(v) && v.every(item => typeof item === 'string') ? null : 'expected a list of strings';
+// Lists of { id, imageUrl, ... } records (image variants, reference images)
+const isImageList = (description: string): FieldCheck => (v) =>
+  Array.isArray(v) && v.every(item => isObject(item) && typeof item.id === 'string' && typeof item.imageUrl === 'string')
+    ? null
+    : `expected a list of ${description}`;
+
+const THEMES = ['LIGHT', 'DARK'] as const;
+const FONT_STYLES = ['MODERN', 'SERIF', 'TECH'] as const;
+const TEXT_ALIGNMENTS = ['left', 'center', 'right'] as const;
+
+// Keyed by every Slide property so new fields can't be added without a rule
+const SLIDE_RULES: Record<keyof Slide, FieldRule> = {
+  id: { check: isString, required: true },
+  type: { check: oneOf(Object.values(SlideType)), required: true },
+  content: { check: isString, required: true },
+  imageUrl: { check: isString },
+  showImage: { check: isBoolean, required: true },
+  imagePrompt: { check: isString },
+  imageScale: { check: isNumber },
+  overlayImage: { check: isBoolean },
+  imageOffsetY: { check: isNumber },
+  gradientHeight: { check: isNumber },
+  fontStyle: { check: oneOf(FONT_STYLES) },
+  fontScale: { check: isNumber },
+  contentLayout: { check: oneOf(['default', 'image-after-title', 'image-first']) },
+  showBackgroundImage: { check: isBoolean },
+  backgroundImageUrl: { check: isString },
+  backgroundOverlayColor: { check: isHexColor },
+  backgroundOverlayOpacity: { check: isNumber },
+  contentPadding: { check: isNumber },
+  imageCanvasOffset: { check: isNumber },
+  imageMargin: { check: isNumber },
+  textLineHeight: { check: isNumber },
+  paragraphGap: { check: isNumber },
+  backgroundTextColor: { check: isHexColor },
+  theme: { check: oneOf(THEMES) },
+  imageTextSpacing: { check: isNumber },
+  textAlignment: { check: oneOf(TEXT_ALIGNMENTS) },
+  altText: { check: isString },
+  sources: { check: isStringList },
+  timeRange: { check: isString },
+  imageVariants: { check: isImageList('image variants') }
+};
+
+const LAYOUT_RULES: Record<keyof LayoutSettings, FieldRule> = {
+  contentPadding: { check: isNumber, required: true },
+  imageCanvasOffset: { check: isNumber, required: true },
+  imageMargin: { check: isNumber, required: true },
+  textLineHeight: { check: isNumber, required: true },
+  paragraphGap: { check: isNumber, required: true },
+  textAlignment: { check: oneOf(TEXT_ALIGNMENTS), required: true }
+};
+
+const PROFILE_RULES: Record<keyof Profile, FieldRule> = {
+  name: { check: isString, required: true },
+  handle: { check: isString, required: true },
+  avatarUrl: { check: isString, required: true }
+};
+
+// Nested objects (slides, profile, layoutSettings) are validated separately
+const PROJECT_RULES: Record<Exclude<keyof CarouselProject, 'slides' | 'profile' | 'layoutSettings'>, FieldRule> = {
+  schemaVersion: { check: isNumber, required: true },
+  id: { check: isString, required: true },
+  name: { check: isString, required: true },
+  style: { check: oneOf(Object.values(CarouselStyle)), required: true },
+  aspectRatio: { check: oneOf(['1/1', '4/5', '9/16', '16/9']), required: true },
+  theme: { check: oneOf(THEMES), required: true },
+  accentColor: { check: isHexColor, required: true },
+  showAccent: { check: isBoolean, required: true },
+  showSlideNumbers: { check: isBoolean, required: true },
+  showVerifiedBadge: { check: isBoolean, required: true },
+  headerScale: { check: isNumber, required: true },
+  fontStyle: { check: oneOf(FONT_STYLES), required: true },
+  fontScale: { check: isNumber, required: true },
+  globalImageStyle: { check: isString, required: true },
+  caption: { check: isString, required: true },
+  hashtags: { check: isStringList, required: true },
+  framework: { check: oneOf(FRAMEWORK_IDS), required: true },
+  referenceImages: { check: isImageList('reference images'), required: true },
+  documentImages: { check: isImageList('document images'), required: true },
+  createdAt: { check: isString, required: true },
+  updatedAt: { check: isString, required: true }
+};
+
+/**
+ * Checks an object against a rule table, appending issues prefixed with `path`.
+ * Unknown fields are ignored so files from newer builds don't fail on extras.
+ */
+const checkFields = (obj: RawObject, rules: Record<string, FieldRule>, path: string, issues: SchemaIssue[]) => {
+  for (const [field, rule] of Object.entries(rules)) {
+    const fieldPath = path ? `${path}.${field}` : field;
+    const value = obj[field];
+    if (value === undefined || value === null) {
+      if (rule.required) issues.push({ path: fieldPath, message: 'is missing' });
+      continue;
+    }
+    const problem = rule.check(value);
+    if (problem) issues.push({ path: fieldPath, message: `${problem} (got ${describeValue(value)})` });
+  }
+};
+
+/**
+ * Checks a nested object field (profile, layoutSettings) against its rule table.
+ */
+const checkNestedObject = (data: RawObject, field: string, rules: Record<string, FieldRule>, issues: SchemaIssue[]) => {
+  const value = data[field];
+  if (!isObject(value)) {
+    issues.push({ path: field, message: value === undefined ? 'is missing' : 'expected an object' });
+  } else {
+    checkFields(value, rules, field, issues);
+  }
+};
+
+const describeValue = (value: unknown): string => {
+  if (typeof value === 'string') return value.length > 30 ? `"${value.substring(0, 30)}..."` : `"${value}"`;
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+/**
+ * Validates (already migrated) project data.
+ *
+ * @returns Every problem found - an empty list means the data is a valid CarouselProject
+ */
+export const validateProject = (data: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+
+  if (!isObject(data)) {
+    return [{ path: '(root)', message: 'expected a project object' }];
+  }
+
+  if (typeof data.schemaVersion === 'number' && data.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    issues.push({
+      path: 'schemaVersion',
+      message: `file was created by a newer version of the app (v${data.schemaVersion}, this app supports up to v${CURRENT_SCHEMA_VERSION})`
+    });
+  }
+
+  checkFields(data, PROJECT_RULES, '', issues);
+
+  checkNestedObject(data, 'profile', PROFILE_RULES, issues);
+  checkNestedObject(data, 'layoutSettings', LAYOUT_RULES, issues);
+
+  // Slides
+  if (!Array.isArray(data.slides)) {
+    issues.push({ path: 'slides', message: data.slides === undefined ? 'is missing' : 'expected a list of slides' });
+  } else if (data.slides.length === 0) {
+    issues.push({ path: 'slides', message: 'must contain at least one slide' });
+  } else {
+    const seenIds = new Set<unknown>();
+    data.slides.forEach((slide, index) => {
+      const slidePath = `slides[${index}]`;
+      if (!isObject(slide)) {
+        issues.push({ path: slidePath, message: 'expected a slide object' });
+        return;
+      }
+      checkFields(slide, SLIDE_RULES, slidePath, issues);
+      if (seenIds.has(slide.id)) {
+        issues.push({ path: `${slidePath}.id`, message: `duplicates another slide's id (${describeValue(slide.id)})` });
+      }
+      seenIds.add(slide.id);
+    });
+  }
+
+  return issues;
+};
+
+// Nested objects (profile, layoutSettings) are validated separately
+const BRAND_KIT_RULES: Record<Exclude<keyof BrandKit, 'profile' | 'layoutSettings'>, FieldRule> = {
+  schemaVersion: { check: isNumber, required: true },
+  id: { check: isString, required: true },
+  name: { check: isString, required: true },
+  theme: { check: oneOf(THEMES), required: true },
+  accentColor: { check: isHexColor, required: true },
+  fontStyle: { check: oneOf(FONT_STYLES), required: true },
+  fontScale: { check: isNumber, required: true },
+  headerScale: { check: isNumber, required: true },
+  globalImageStyle: { check: isString, required: true },
+  createdAt: { check: isString, required: true },
+  updatedAt: { check: isString, required: true }
+};
+
+/**
+ * Validates brand kit data (an imported file or an IndexedDB record).
+ *
+ * @returns Every problem found - an empty list means the data is a valid BrandKit
+ */
+export const validateBrandKit = (data: unknown): SchemaIssue[] => {
+  if (!isObject(data)) {
+    return [{ path: '(root)', message: 'expected a brand kit object' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (typeof data.schemaVersion === 'number' && data.schemaVersion > CURRENT_BRAND_KIT_VERSION) {
+    issues.push({
+      path: 'schemaVersion',
+      message: `file was created by a newer version of the app (v${data.schemaVersion}, this app supports up to v${CURRENT_BRAND_KIT_VERSION})`
+    });
+  }
+
+  checkFields(data, BRAND_KIT_RULES, '', issues);
+  checkNestedObject(data, 'profile', PROFILE_RULES, issues);
+  checkNestedObject(data, 'layoutSettings', LAYOUT_RULES, issues);
+  return issues;
+};
+
+// ============================================================================
+// PUBLIC ENTRY POINTS
+// ============================================================================
+
+/**
+ * Migrates and validates raw project data (parsed JSON or an IndexedDB record).
+ */
+export const parseProject = (data: unknown): ProjectParseResult => {
+  if (!isObject(data)) {
+    return { project: null, issues: [{ path: '(root)', message: 'expected a project object' }], migratedFrom: null };
+  }
+
+  const originalVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  const migrated = migrateProject(data);
+  const issues = validateProject(migrated);
+  if (issues.length > 0) return { project: null, issues, migratedFrom: null };
+
+  return {
+    project: migrated as unknown as CarouselProject,
+    issues: [],
+    migratedFrom: originalVersion < CURRENT_SCHEMA_VERSION ? originalVersion : null
+  };
+};
+
+/**
+ * Validates raw brand kit data. There are no older kit formats to migrate yet.
+ */
+export const parseBrandKit = (data: unknown): BrandKitParseResult => {
+  const issues = validateBrandKit(data);
+  return issues.length > 0 ? { kit: null, issues } : { kit: data as BrandKit, issues: [] };
+};
+
+/**
+ * Formats issues as a bulleted list for alerts, truncated after `limit` entries.
+ */
+export const formatSchemaIssues = (issues: SchemaIssue[], limit = 8): string => {
+  const lines = issues.slice(0, limit).map(issue => `• ${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`• ...and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
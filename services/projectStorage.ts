@@ -0,0 +1,429 @@
+/**
+ * Project Storage Service
+ *
+ * Persists carousel projects in the browser's IndexedDB so work survives page reloads.
+ * Used by the Workspace autosave and the project library screen.
+ *
+ * WHY INDEXEDDB (not localStorage):
+ * - Projects embed base64 images that easily exceed localStorage's ~5MB quota
+ * - Async API doesn't block the UI while large projects are written
+ *
+ * STORES:
+ * - projects: Full CarouselProject records (slides, images, settings)
+ * - summaries: Lightweight records for the library list (name, thumbnail, dates)
+ *   Kept separate so listing projects doesn't load every base64 image into memory.
+ * - brandKits: BrandKit records (small, but may embed a base64 avatar)
+ * - templates: CarouselTemplate records (slides with placeholders, no images)
+ * - usage: UsageEntry records of the usage ledger, indexed by timestamp
+ */
+
+import { CarouselProject, CarouselStyle, SlideType, BrandKit, CarouselTemplate, UsageEntry } from '../types';
+import { parseProject, parseBrandKit, formatSchemaIssues } from './projectSchema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Lightweight project record shown in the project library.
+ */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  style: CarouselStyle;
+  slideCount: number;
+  thumbnailUrl?: string;   // Downscaled data URI of the first slide image
+  coverText: string;       // Plain-text cover content (fallback when there is no image)
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// DATABASE CONNECTION
+// ============================================================================
+
+const DB_NAME = 'carouselai';
+// 1: projects + summaries, 2: brandKits, 3: templates, 4: usage
+const DB_VERSION = 4;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+const BRAND_KITS_STORE = 'brandKits';
+const TEMPLATES_STORE = 'templates';
+const USAGE_STORE = 'usage';
+
+// Module-level singleton - opened lazily on first use
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and if needed, creates) the IndexedDB database.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+        db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BRAND_KITS_STORE)) {
+        db.createObjectStore(BRAND_KITS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+        db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        // Opened after the caller gave up; a retry opens a fresh connection
+        db.close();
+        return;
+      }
+      // Another tab is upgrading the schema: let it, and reopen on the next call
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null; // Allow a retry on the next call
+      reject(request.error || new Error('Failed to open project database'));
+    };
+    // An older version is still open in another tab that doesn't close it
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new Error('CarouselAI was updated. Close its other open tabs, then try again.'));
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolves when a transaction commits (or rejects if it aborts).
+ */
+const waitForTransaction = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+// ============================================================================
+// THUMBNAILS
+// ============================================================================
+
+const THUMBNAIL_WIDTH = 240;
+
+// Autosave runs on every edit; cache the last thumbnail per project so we only
+// re-encode when the source image actually changes.
+const thumbnailCache = new Map<string, { source: string; thumbnail: string }>();
+
+/**
+ * Returns the first image in the project (illustration or background).
+ */
+const getThumbnailSource = (project: CarouselProject): string | undefined => {
+  for (const slide of project.slides) {
+    if (slide.showImage && slide.imageUrl) return slide.imageUrl;
+    if (slide.showBackgroundImage && slide.backgroundImageUrl) return slide.backgroundImageUrl;
+  }
+  return undefined;
+};
+
+/**
+ * Downscales an image to a small JPEG data URI for the library grid.
+ * Falls back to the original source if the image can't be drawn (e.g. CORS-tainted URL).
+ */
+const createThumbnail = (source: string): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new window.Image();
+    if (!source.startsWith('data:')) img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const scale = THUMBNAIL_WIDTH / img.width;
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_WIDTH;
+        canvas.height = Math.round(img.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          resolve(source);
+          return;
+        }
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.7));
+      } catch {
+        resolve(source);
+      }
+    };
+    img.onerror = () => resolve(source);
+    img.src = source;
+  });
+};
+
+const getThumbnail = async (project: CarouselProject): Promise<string | undefined> => {
+  const source = getThumbnailSource(project);
+  if (!source) return undefined;
+
+  const cached = thumbnailCache.get(project.id);
+  if (cached && cached.source === source) return cached.thumbnail;
+
+  const thumbnail = await createThumbnail(source);
+  thumbnailCache.set(project.id, { source, thumbnail });
+  return thumbnail;
+};
+
+/**
+ * Strips markdown syntax from the cover slide for a plain-text preview.
+ */
+const getCoverText = (project: CarouselProject): string => {
+  const cover = project.slides.find(s => s.type === SlideType.COVER) || project.slides[0];
+  if (!cover) return '';
+  return cover.content
+    .replace(/^#+\s*/gm, '')
+    .replace(/[*_~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 120);
+};
+
+const buildSummary = async (project: CarouselProject): Promise<ProjectSummary> => ({
+  id: project.id,
+  name: project.name,
+  style: project.style,
+  slideCount: project.slides.length,
+  thumbnailUrl: await getThumbnail(project),
+  coverText: getCoverText(project),
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt
+});
+
+// ============================================================================
+// CRUD OPERATIONS
+// ============================================================================
+
+/**
+ * Saves (inserts or replaces) a project and its library summary.
+ * Both records are written in a single transaction so they never drift apart.
+ */
+export const saveProject = async (project: CarouselProject): Promise<void> => {
+  // Build the summary before opening the transaction - IndexedDB transactions
+  // auto-commit as soon as the event loop is idle, so no awaits inside them.
+  const summary = await buildSummary(project);
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(project);
+  tx.objectStore(SUMMARIES_STORE).put(summary);
+  await waitForTransaction(tx);
+};
+
+/**
+ * Loads a full project by ID. Returns null if it doesn't exist.
+ * Records saved by older builds are migrated to the current schema on the way out.
+ *
+ * @throws If the stored record fails validation (message lists the invalid fields)
+ */
+export const getProject = async (id: string): Promise<CarouselProject | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const record = await promisifyRequest(tx.objectStore(PROJECTS_STORE).get(id));
+  if (!record) return null;
+
+  const result = parseProject(record);
+  if (!result.project) {
+    throw new Error(`Saved project is invalid:\n${formatSchemaIssues(result.issues)}`);
+  }
+  return result.project;
+};
+
+/**
+ * Lists all saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARIES_STORE, 'readonly');
+  const summaries = await promisifyRequest(tx.objectStore(SUMMARIES_STORE).getAll()) as ProjectSummary[];
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Renames a project. Bumps updatedAt so it moves to the top of the library.
+ */
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) throw new Error(`Project not found: ${id}`);
+  await saveProject({ ...project, name, updatedAt: new Date().toISOString() });
+};
+
+/**
+ * Creates a copy of a project with a new ID and "(copy)" suffix.
+ * Slide IDs are regenerated so the copy is fully independent.
+ *
+ * @returns The new project
+ */
+export const duplicateProject = async (id: string): Promise<CarouselProject> => {
+  const project = await getProject(id);
+  if (!project) throw new Error(`Project not found: ${id}`);
+
+  const now = new Date().toISOString();
+  const copy: CarouselProject = {
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name} (copy)`,
+    slides: project.slides.map(slide => ({ ...slide, id: crypto.randomUUID() })),
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+/**
+ * Permanently deletes a project and its summary.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(SUMMARIES_STORE).delete(id);
+  await waitForTransaction(tx);
+  thumbnailCache.delete(id);
+};
+
+// ============================================================================
+// BRAND KITS
+// ============================================================================
+
+/**
+ * Lists all saved brand kits, sorted by name.
+ * Records that fail validation are skipped (and logged) rather than breaking the list.
+ */
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BRAND_KITS_STORE, 'readonly');
+  const records = await promisifyRequest(tx.objectStore(BRAND_KITS_STORE).getAll());
+  const kits: BrandKit[] = [];
+  for (const record of records) {
+    const result = parseBrandKit(record);
+    if (result.kit) kits.push(result.kit);
+    else console.warn(`Skipping invalid brand kit:\n${formatSchemaIssues(result.issues)}`);
+  }
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Saves (inserts or replaces) a brand kit.
+ */
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BRAND_KITS_STORE, 'readwrite');
+  tx.objectStore(BRAND_KITS_STORE).put(kit);
+  await waitForTransaction(tx);
+};
+
+/**
+ * Permanently deletes a brand kit.
+ */
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BRAND_KITS_STORE, 'readwrite');
+  tx.objectStore(BRAND_KITS_STORE).delete(id);
+  await waitForTransaction(tx);
+};
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Lists all saved templates, most recently updated first.
+ */
+export const listTemplates = async (): Promise<CarouselTemplate[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readonly');
+  const templates = await promisifyRequest(tx.objectStore(TEMPLATES_STORE).getAll()) as CarouselTemplate[];
+  return templates.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Saves (inserts or replaces) a template.
+ */
+export const saveTemplate = async (template: CarouselTemplate): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+  tx.objectStore(TEMPLATES_STORE).put(template);
+  await waitForTransaction(tx);
+};
+
+/**
+ * Permanently deletes a template.
+ */
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+  tx.objectStore(TEMPLATES_STORE).delete(id);
+  await waitForTransaction(tx);
+};
+
+// ============================================================================
+// USAGE LEDGER
+// ============================================================================
+
+/**
+ * Appends an entry to the usage ledger.
+ */
+export const addUsageEntry = async (entry: UsageEntry): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).add(entry);
+  await waitForTransaction(tx);
+};
+
+/**
+ * Lists ledger entries, oldest first.
+ *
+ * @param since - Optional ISO timestamp; only entries at or after it are returned
+ */
+export const listUsageEntries = async (since?: string): Promise<UsageEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readonly');
+  const range = since ? IDBKeyRange.lowerBound(since) : undefined;
+  return await promisifyRequest(tx.objectStore(USAGE_STORE).index('timestamp').getAll(range)) as UsageEntry[];
+};
+
+/**
+ * Deletes every ledger entry.
+ */
+export const clearUsageEntries = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await waitForTransaction(tx);
+};
@@ -0,0 +1,463 @@
+/**
+ * Gemini Provider
+ *
+ * Google Gemini via @google/genai:
+ * - Structured JSON output for carousel text (streamed), refinement and post copy
+ * - Multimodal sources: PDFs inline, social post media (Instagram, TikTok, Threads, X,
+ *   LinkedIn) via the Files API, YouTube by URL
+ * - Native image generation, stylization and editing (Pro renders at 2K)
+ */
+
+import { GoogleGenAI, createPartFromUri } from "@google/genai";
+import {
+  extractSocialUrls,
+  canScrapeSocialPost,
+  scrapeSocialPost,
+  downloadMediaAsBlob,
+  formatSocialPostContext,
+  formatSocialPostForAI,
+} from "../social";
+import { AIProvider, CarouselRequest, CarouselStreamOptions, ImageEditRequest, ImageRequest, RequestOptions } from "./types";
+import {
+  maskApiKey,
+  getEffectiveTopic,
+  getLabelledPdfs,
+  buildCarouselPrompt,
+  CAROUSEL_SCHEMA,
+  createCarouselStream,
+  buildRefinePrompt,
+  getRefineSchema,
+  mergeRefinedSlides,
+  buildPostCopyPrompt,
+  POST_COPY_SCHEMA,
+  parsePostCopy,
+  buildTemplateFillPrompt,
+  getTemplateFillSchema,
+  parseTemplateFill,
+  buildStylizePrompt,
+  buildEditPrompt,
+  buildReferencedImagePrompt,
+} from "./shared";
+
+// ============================================================================
+// API KEY MANAGEMENT
+// ============================================================================
+
+/**
+ * Retrieves the API key from storage.
+ * Priority: localStorage (user-entered) → environment variable → empty string
+ *
+ * The window check prevents SSR errors in case this is used with frameworks like Next.js
+ */
+const getStoredApiKey = (): string => {
+  if (typeof window !== 'undefined') {
+    return localStorage.getItem('gemini_api_key') || process.env.API_KEY || '';
+  }
+  return process.env.API_KEY || '';
+};
+
+// Module-level singleton - recreated when setApiKey() is called
+let ai = new GoogleGenAI({ apiKey: getStoredApiKey() });
+
+// ============================================================================
+// MODEL CONSTANTS
+// ============================================================================
+
+// Text generation models (used for carousel content)
+// Fallback chain: PRO → FLASH
+const TEXT_MODEL_PRO = "gemini-3-pro-preview";
+const TEXT_MODEL_FLASH = "gemini-2.5-flash";
+
+// Image generation models (Gemini's image generation API)
+// Pro offers 2K resolution but may have restricted access
+// Flash is the fallback with broader availability
+const IMAGE_MODEL_PRO = "gemini-3-pro-image-preview";
+const IMAGE_MODEL_FLASH = "gemini-2.5-flash-image";
+
+// ============================================================================
+// YOUTUBE URL DETECTION
+// ============================================================================
+
+/**
+ * Regex to match YouTube URLs in various formats:
+ * - youtube.com/watch?v=VIDEO_ID
+ * - youtu.be/VIDEO_ID
+ * - youtube.com/shorts/VIDEO_ID
+ */
+const YOUTUBE_URL_REGEX = /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/shorts\/)[a-zA-Z0-9_-]{11}/g;
+
+/**
+ * Extracts all YouTube URLs from a text string.
+ * Returns an array of full URL matches.
+ */
+const extractYouTubeUrls = (text: string): string[] => {
+  const matches = text.match(YOUTUBE_URL_REGEX);
+  return matches || [];
+};
+
+/**
+ * Normalizes a YouTube URL to the standard format.
+ * Ensures URLs have https:// prefix for API compatibility.
+ */
+const normalizeYouTubeUrl = (url: string): string => {
+  if (!url.startsWith('http')) {
+    return `https://${url}`;
+  }
+  return url;
+};
+
+// ============================================================================
+// FILE UPLOAD (for social post media)
+// ============================================================================
+
+/**
+ * Uploads a blob to Gemini Files API and waits for it to be ready.
+ * Polls file state until ACTIVE (required before use in prompts).
+ * Used for uploading social post images/videos.
+ * Files are auto-deleted after 48 hours.
+ *
+ * @param blob - Media file as Blob (from downloadMediaAsBlob)
+ * @param displayName - Filename for identification
+ * @param onUsage - Reports the upload for the usage ledger
+ * @param signal - Cancels the upload and the polling (AbortError)
+ * @returns Object with uri and mimeType for use with createPartFromUri
+ */
+const uploadToGemini = async (
+  blob: Blob,
+  displayName: string,
+  onUsage?: RequestOptions['onUsage'],
+  signal?: AbortSignal
+): Promise<{ uri: string; mimeType: string }> => {
+  let file = await ai.files.upload({
+    file: blob,
+    config: { displayName, abortSignal: signal }
+  });
+  onUsage?.({ files: 1 });
+
+  // Poll until file is ACTIVE (processing complete)
+  // Videos may take longer to process than images
+  const maxAttempts = 30; // 60 seconds max wait (polling every 2s)
+  let attempts = 0;
+
+  while (file.state !== 'ACTIVE' && attempts < maxAttempts) {
+    console.log(`File processing... (${file.state})`);
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    signal?.throwIfAborted();
+    file = await ai.files.get({ name: file.name!, config: { abortSignal: signal } });
+    attempts++;
+  }
+
+  if (file.state !== 'ACTIVE') {
+    throw new Error(`File failed to process after ${maxAttempts * 2}s: state=${file.state}`);
+  }
+
+  console.log(`File ready: ${displayName}`);
+  return { uri: file.uri!, mimeType: file.mimeType! };
+};
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+/**
+ * Builds the request contents for carousel generation.
+ *
+ * Priority: PDF documents → social post URLs → YouTube URLs → Plain text
+ * PDF: Use multimodal input (each inline base64 file after its source label, then the prompt)
+ * Social posts: Scrape (Apify by default), then use file_data with the uploaded media
+ * YouTube: Use file_data with file_uri for video content extraction
+ * TXT/MD: Text is already included in the prompt
+ *
+ * The signal cancels scraping and media uploads (AbortError); other failures
+ * fall back to plain text.
+ */
+const buildCarouselContents = async (
+  request: CarouselRequest,
+  onUsage?: RequestOptions['onUsage'],
+  signal?: AbortSignal
+): Promise<string | { parts: any[] }> => {
+  const prompt = buildCarouselPrompt(request);
+  const effectiveTopic = getEffectiveTopic(request);
+
+  // Handle PDF documents (multimodal with inline data)
+  const pdfs = getLabelledPdfs(request);
+  if (pdfs.length > 0) {
+    return {
+      parts: [
+        ...pdfs.flatMap(({ label, document }) => [
+          { text: label },
+          {
+            inlineData: {
+              mimeType: document.mimeType,
+              data: document.base64
+            }
+          }
+        ]),
+        { text: prompt }
+      ]
+    };
+  }
+
+  // Handle social post URLs (scrape, download media, upload to Gemini Files API)
+  const socialUrl = extractSocialUrls(effectiveTopic)[0];
+  if (socialUrl && canScrapeSocialPost(socialUrl)) {
+    const platformName = socialUrl.platform.name;
+    try {
+      console.log(`Fetching ${platformName} content...`);
+      const post = await scrapeSocialPost(socialUrl, signal);
+      const parts: any[] = [];
+      const video = post.media.find(media => media.type === 'video');
+      const images = post.media.filter(media => media.type === 'image');
+
+      // Handle Video (Reels, TikToks, video posts) - download and upload to Gemini
+      if (video) {
+        try {
+          console.log(`Downloading ${platformName} video...`);
+          const videoBlob = await downloadMediaAsBlob(video.url, signal);
+          console.log('Uploading video to Gemini Files API...');
+          const uploaded = await uploadToGemini(videoBlob, `${post.platform}_video_${Date.now()}.mp4`, onUsage, signal);
+          parts.push(createPartFromUri(uploaded.uri, uploaded.mimeType));
+        } catch (err) {
+          if (signal?.aborted) throw err;
+          console.warn(`Failed to upload ${platformName} video:`, err);
+          // Will fall through to text-only if no media uploaded
+        }
+      }
+      // Handle Images (carousels, slideshows, photo posts) - download and upload each
+      else if (images.length > 0) {
+        console.log(`Downloading ${images.length} ${platformName} images...`);
+        // Limit to 10 images to stay under request size limits
+        for (const image of images.slice(0, 10)) {
+          try {
+            const imageBlob = await downloadMediaAsBlob(image.url, signal);
+            const uploaded = await uploadToGemini(imageBlob, `${post.platform}_image_${Date.now()}.jpg`, onUsage, signal);
+            parts.push(createPartFromUri(uploaded.uri, uploaded.mimeType));
+          } catch (err) {
+            if (signal?.aborted) throw err;
+            console.warn(`Failed to upload ${platformName} image:`, err);
+            // Continue with other images
+          }
+        }
+      }
+
+      // Remove the post URL from topic for cleaner prompt
+      const topicWithoutUrl = effectiveTopic.replace(socialUrl.url, '').trim();
+      const additionalContext = topicWithoutUrl ? `\n\nAdditional context: ${topicWithoutUrl}` : '';
+
+      // Build enhanced prompt with the post's author, engagement and caption
+      parts.push({ text: `${prompt}\n\n${formatSocialPostContext(post)}${additionalContext}` });
+
+      // Only return multimodal if we have at least one media part
+      if (parts.length > 1) {
+        console.log(`Using multimodal ${platformName} content`);
+        return { parts };
+      }
+
+      // Fallback to text-only with OCR data if media upload failed
+      console.log(`Using text-only ${platformName} content (media upload failed)`);
+      return prompt + '\n\n' + formatSocialPostForAI(post) + additionalContext;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to process ${platformName}, falling back to plain text:`, error);
+      // Fall through to try YouTube or plain text
+    }
+  }
+
+  // Handle YouTube URLs (multimodal with file_uri)
+  const youtubeUrls = extractYouTubeUrls(effectiveTopic);
+  if (youtubeUrls.length > 0) {
+    const parts: any[] = youtubeUrls.map(url => ({
+      fileData: {
+        fileUri: normalizeYouTubeUrl(url)
+      }
+    }));
+    parts.push({ text: prompt });
+    return { parts };
+  }
+
+  // Default: plain text prompt
+  return prompt;
+};
+
+/**
+ * Reports a response's usageMetadata. Thinking models bill their thoughts as output.
+ */
+const reportUsage = (metadata: any, onUsage?: RequestOptions['onUsage'], images = 0) => {
+  if (!metadata && !images) return;
+  onUsage?.({
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+    images
+  });
+};
+
+/**
+ * Calls a text model with STRUCTURED OUTPUT: the JSON schema forces Gemini
+ * to return valid JSON matching it - no regex parsing needed.
+ */
+const generateJson = async (
+  model: string,
+  contents: string | { parts: any[] },
+  schema: object,
+  { onUsage }: RequestOptions = {}
+): Promise<any> => {
+  const response = await ai.models.generateContent({
+    model,
+    contents,
+    config: {
+      responseMimeType: "application/json",
+      responseJsonSchema: schema
+    }
+  });
+  reportUsage(response.usageMetadata, onUsage);
+  return JSON.parse(response.text || "{}");
+};
+
+/**
+ * Streams carousel generation: slides are reported as soon as their JSON is
+ * complete. The abort signal cancels the HTTP request.
+ * Usage totals arrive with the chunks (the last one is complete); whatever
+ * was received is reported even if the stream is cancelled.
+ */
+const streamCarousel = async (
+  model: string,
+  request: CarouselRequest,
+  { signal, onSlide, onUsage }: CarouselStreamOptions = {}
+) => {
+  const stream = createCarouselStream(onSlide);
+  const response = await ai.models.generateContentStream({
+    model,
+    contents: await buildCarouselContents(request, onUsage, signal),
+    config: {
+      responseMimeType: "application/json",
+      responseJsonSchema: CAROUSEL_SCHEMA,
+      abortSignal: signal
+    }
+  });
+  let usageMetadata: any;
+  try {
+    for await (const chunk of response) {
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+      stream.push(chunk.text || '');
+    }
+  } finally {
+    reportUsage(usageMetadata, onUsage);
+  }
+  return stream.finish();
+};
+
+/**
+ * Extracts the base64 image data from a Gemini API response.
+ *
+ * Gemini returns a nested structure: response.candidates[0].content.parts[]
+ * We look for a part with inlineData.data and wrap it as a data URI.
+ *
+ * @throws Error if no image data found in response
+ */
+const extractImage = (response: any): string => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData && part.inlineData.data) {
+      return `data:image/png;base64,${part.inlineData.data}`;
+    }
+  }
+  throw new Error("No image data returned from API");
+};
+
+/**
+ * Calls an image model. `parts` is the prompt, optionally preceded by source or reference images.
+ * Pro model supports 2K resolution; Flash doesn't support imageSize.
+ */
+const generateImageFromParts = async (
+  model: string,
+  parts: any[],
+  aspectRatio: string,
+  { onUsage }: RequestOptions = {}
+): Promise<string> => {
+  const response = await ai.models.generateContent({
+    model,
+    contents: { parts },
+    config: {
+      imageConfig: {
+        aspectRatio,
+        ...(model === IMAGE_MODEL_PRO ? { imageSize: "2K" } : {})
+      }
+    }
+  });
+  const image = extractImage(response);
+  reportUsage(response.usageMetadata, onUsage, 1);
+  return image;
+};
+
+// IMAGE-TO-IMAGE: Send both the source image (inline base64) and the instructions
+const generateFromSourceImage = (model: string, request: ImageEditRequest, instructions: string, options?: RequestOptions) =>
+  generateImageFromParts(
+    model,
+    [
+      { inlineData: { mimeType: request.mimeType, data: request.imageBase64 } },
+      { text: instructions }
+    ],
+    request.aspectRatio,
+    options
+  );
+
+// TEXT-TO-IMAGE: Reference images (if any) go first as inline parts, then the prompt
+const generateFromPrompt = (model: string, { prompt, aspectRatio, references = [] }: ImageRequest, options?: RequestOptions) =>
+  generateImageFromParts(
+    model,
+    references.length > 0
+      ? [
+          ...references.map(ref => ({ inlineData: { mimeType: ref.mimeType, data: ref.imageBase64 } })),
+          { text: buildReferencedImagePrompt(prompt, references.length) }
+        ]
+      : [{ text: prompt }],
+    aspectRatio,
+    options
+  );
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Gemini 3 Pro and 2.5 Flash. Reads PDFs, social post media and YouTube videos.',
+  needsApiKey: true,
+
+  hasApiKey: () => !!getStoredApiKey(),
+  getApiKeyMasked: () => maskApiKey(getStoredApiKey()),
+
+  // Persists to localStorage and recreates the AI client instance
+  setApiKey: (apiKey) => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('gemini_api_key', apiKey);
+    }
+    ai = new GoogleGenAI({ apiKey });
+  },
+
+  getModels: () => ({
+    textPro: { id: TEXT_MODEL_PRO, label: 'Gemini 3 Pro (Best)' },
+    textFlash: { id: TEXT_MODEL_FLASH, label: 'Gemini 2.5 Flash (Fast)' },
+    imagePro: { id: IMAGE_MODEL_PRO, label: 'Pro (Best)' },
+    imageFlash: { id: IMAGE_MODEL_FLASH, label: 'Flash (Fast)' }
+  }),
+
+  generateCarousel: (request, model, stream) => streamCarousel(model, request, stream),
+
+  refineCarousel: async (request, model, options) =>
+    mergeRefinedSlides(request, await generateJson(model, buildRefinePrompt(request), getRefineSchema(request), options)),
+
+  generatePostCopy: async (slides, model, options) =>
+    parsePostCopy(slides, await generateJson(model, buildPostCopyPrompt(slides), POST_COPY_SCHEMA, options)),
+
+  fillTemplate: async (request, model, options) =>
+    parseTemplateFill(request, await generateJson(model, buildTemplateFillPrompt(request), getTemplateFillSchema(request), options)),
+
+  generateImage: (request, model, options) => generateFromPrompt(model, request, options),
+
+  stylizeImage: (request, model, options) =>
+    generateFromSourceImage(model, request, buildStylizePrompt(request.prompt), options),
+
+  editImage: (request, model, options) =>
+    generateFromSourceImage(model, request, buildEditPrompt(request.prompt), options)
+};
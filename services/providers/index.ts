@@ -0,0 +1,34 @@
+/**
+ * AI Provider Registry
+ *
+ * Lists the available providers and remembers which one is active (localStorage).
+ * Each provider keeps its own API key, so switching back and forth doesn't lose them.
+ */
+
+import { AIProvider, AIProviderId } from './types';
+import { geminiProvider } from './geminiProvider';
+import { openaiProvider } from './openaiProvider';
+import { mockProvider } from './mockProvider';
+
+export type { AIProvider, AIProviderId, ModelOption, ProviderModels, CarouselStreamOptions, TemplateFillRequest, InlineImage, TokenUsage, RequestOptions } from './types';
+export { getOpenAISettings, setOpenAISettings, DEFAULT_OPENAI_BASE_URL } from './openaiProvider';
+export type { OpenAISettings } from './openaiProvider';
+export { nameSlideSources } from './shared';
+
+const PROVIDER_STORAGE = 'ai_provider';
+
+export const AI_PROVIDERS: AIProvider[] = [geminiProvider, openaiProvider, mockProvider];
+
+const DEFAULT_PROVIDER: AIProviderId = 'gemini';
+
+export const getActiveProviderId = (): AIProviderId => {
+  const stored = typeof window !== 'undefined' ? localStorage.getItem(PROVIDER_STORAGE) : null;
+  return AI_PROVIDERS.some(p => p.id === stored) ? (stored as AIProviderId) : DEFAULT_PROVIDER;
+};
+
+export const getActiveProvider = (): AIProvider =>
+  AI_PROVIDERS.find(p => p.id === getActiveProviderId())!;
+
+export const setActiveProvider = (id: AIProviderId): void => {
+  localStorage.setItem(PROVIDER_STORAGE, id);
+};
@@ -0,0 +1,414 @@
+/**
+ * Mock Provider
+ *
+ * Offline, deterministic stand-in for the AI: no network, no API key.
+ * The same inputs always give the same slides, post copy and images, so the
+ * whole flow (generate → refine → images → post copy → export) can be developed
+ * and demoed without a key. Responses are delayed slightly so loading states show,
+ * and carousel slides stream in one at a time like a real response.
+ *
+ * Images are drawn on a canvas: a gradient with the prompt for generation,
+ * and a tinted copy of the source image (plus a label) for stylize/edit.
+ */
+
+import { Slide, SlideType, GeneratedCarousel, GeneratedPostCopy, CopyFramework, CarouselTemplate } from '../../types';
+import { normalizeHashtags } from '../../lib/postCopy';
+import { getFramework } from '../../lib/frameworks';
+import { AIProvider, ImageEditRequest } from './types';
+import { formatSourceCredit, getSourceLabel } from './shared';
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_SLIDE_INTERVAL_MS = 300;  // Between streamed slides
+const MOCK_IMAGE_SIZE = 768;  // Long edge in px - small enough to keep projects light
+
+const MOCK_MODEL = { id: 'mock', label: 'Mock (Offline)' };
+
+// ============================================================================
+// DETERMINISTIC HELPERS
+// ============================================================================
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal aborts
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Generation cancelled', 'AbortError'));
+    };
+    if (signal?.aborted) return abort();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+// FNV-1a string hash - the seed for everything derived from an input
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 PRNG: returns a function yielding floats in [0, 1)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+// Fisher-Yates, so the order only depends on the seed
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Slide text without Markdown markers, for alt text and captions
+const plainText = (markdown: string): string =>
+  markdown.replace(/[#*_~>`]/g, '').replace(/\s+/g, ' ').trim();
+
+const firstLine = (markdown: string): string =>
+  plainText(markdown.split('\n').find(line => line.trim()) || '');
+
+// One sentence per line, e.g. "Heading. Body text."
+const toSentences = (markdown: string): string =>
+  markdown.split('\n').map(plainText).filter(Boolean).map(line => (/[.!?]$/.test(line) ? line : `${line}.`)).join(' ');
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+const HOOKS = [
+  (s: string) => `Nobody tells you the truth about ${s}`,
+  (s: string) => `Stop getting ${s} wrong`,
+  (s: string) => `Why most people fail at ${s}`,
+  (s: string) => `The ${s} playbook nobody shares`
+];
+
+const POINT_TITLES = [
+  'The hidden problem', 'What the data says', 'The common mistake', 'The mindset shift',
+  'Start small', 'Build the system', 'Measure what matters', 'Make it a habit',
+  'Learn from the best', 'Avoid this trap', 'The quick win', 'Go one level deeper'
+];
+
+const POINT_BODIES = [
+  (s: string) => `Most advice about ${s} skips the **one step** that actually matters.`,
+  (s: string) => `People who get ${s} right focus on **consistency**, not intensity.`,
+  (s: string) => `The biggest gains in ${s} come from **removing** things, not adding them.`,
+  (s: string) => `Treat ${s} like an experiment: **try, measure, adjust**.`,
+  (s: string) => `You don't need more tools for ${s}. You need a **clear next step**.`,
+  (s: string) => `Small, boring improvements to ${s} **compound** faster than you think.`
+];
+
+const IMAGE_SUBJECTS = [
+  'a person at a desk at sunrise', 'an open notebook with sketches', 'a winding mountain road',
+  'a city skyline at dusk', 'a single plant growing through concrete', 'a whiteboard covered in arrows'
+];
+
+// Common words plus the cover hook words, so post copy hashtags come from the topic
+const HASHTAG_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'about', 'your', 'how', 'why', 'what', 'this', 'that', 'from', 'into',
+  'nobody', 'tells', 'you', 'truth', 'stop', 'getting', 'wrong', 'most', 'people', 'fail', 'playbook', 'shares'
+]);
+
+// Short subject for the copy: first line of the topic without URLs, or the document name
+const getSubject = (topic: string, documentName?: string): string => {
+  const line = topic.replace(/https?:\/\/\S+/g, '').split('\n').find(l => l.trim())?.trim();
+  const subject = line || documentName?.replace(/\.[^.]+$/, '') || 'your craft';
+  return subject.length > 60 ? `${subject.substring(0, 57)}...` : subject;
+};
+
+const buildHashtags = (subject: string): string[] => {
+  const words = subject.toLowerCase().match(/[a-z0-9]{3,}/g) || [];
+  const topical = words.filter(word => !HASHTAG_STOPWORDS.has(word));
+  const combined = topical.length > 1 && topical.length <= 3 ? [topical.join('')] : [];
+  return normalizeHashtags([...combined, ...topical, 'tips', 'learning', 'growth', 'carousel', 'howto', 'mindset', 'productivity', 'contentcreator']);
+};
+
+const buildCaption = (cover: string, points: string[]): string =>
+  [
+    `${cover} - and it's simpler than it looks.`,
+    points.length > 0 ? `In this carousel: ${points.join(', ')}.` : '',
+    'Save it for later and share it with someone who needs it.',
+    'Which point surprised you most?'
+  ].filter(Boolean).join('\n\n');
+
+// Source documents as the mock carousel uses them
+interface MockSources {
+  documentName?: string;   // First document, the subject when there is no topic
+  credit?: string;         // Source credit (web articles), appended to the CTA slide
+  sourceCount: number;     // With several documents, content slides cite them in turn (by label, like a model)
+  timeRanges: string[];    // Transcript ranges for the content slides, in order
+}
+
+// Splits a transcript's "[12:30]" passages between the content slides as "start-end" ranges
+const getTimeRanges = (transcript: string, slides: number): string[] => {
+  const stamps = [...transcript.matchAll(/^\[(\d+(?::\d{2}){1,2})\]/gm)].map(match => match[1]);
+  if (stamps.length === 0) return [];
+  // A range ends where the next slide's passages start
+  return Array.from({ length: slides }, (_, i) => {
+    const from = Math.floor((i * stamps.length) / slides);
+    const to = Math.min(Math.floor(((i + 1) * stamps.length) / slides), stamps.length - 1);
+    return to > from ? `${stamps[from]}-${stamps[to]}` : stamps[from];
+  });
+};
+
+// Content slide titles are prefixed with their framework role, e.g. "Agitate: The hidden problem"
+const generateCarousel = (
+  topic: string,
+  count: number,
+  framework: CopyFramework,
+  { documentName, credit, sourceCount, timeRanges }: MockSources
+): GeneratedCarousel => {
+  const subject = getSubject(topic, documentName);
+  const random = createRandom(hashString(`${subject}|${count}|${framework}`));
+  const plan = getFramework(framework).plan(count);
+  const roleName = (slideNumber: number) => {
+    const name = plan.find(s => slideNumber >= s.from && slideNumber <= s.to)?.role.name || '';
+    return name.charAt(0) + name.slice(1).toLowerCase();
+  };
+  const titles = shuffle(POINT_TITLES, random);
+  const bodies = shuffle(POINT_BODIES, random);
+
+  const slides: Slide[] = Array.from({ length: count }, (_, index) => {
+    const isCover = index === 0;
+    const isCta = index === count - 1;
+    const title = isCover ? pick(HOOKS, random)(subject) : isCta ? `Ready to master ${subject}?` : `${roleName(index + 1)}: ${titles[(index - 1) % titles.length]}`;
+    const body = isCover ? 'Swipe to find out.'
+      : isCta ? `**Save this post** and follow for more.${credit ? `\n\n${credit}` : ''}`
+      : bodies[(index - 1) % bodies.length](subject);
+    const showImage = isCover || (!isCta && index % 2 === 0);
+    const imagePrompt = showImage ? `${pick(IMAGE_SUBJECTS, random)}, representing ${subject}` : '';
+
+    const content = `# ${title}\n${body}`;
+
+    return {
+      id: crypto.randomUUID(),
+      type: isCover ? SlideType.COVER : isCta ? SlideType.CTA : SlideType.CONTENT,
+      content,
+      showImage,
+      imagePrompt,
+      imageUrl: undefined,
+      imageScale: 50,
+      overlayImage: true,
+      altText: toSentences(content) + (showImage ? ` Illustrated with ${imagePrompt.split(',')[0]}.` : ''),
+      sources: sourceCount > 1 && !isCover && !isCta ? [getSourceLabel((index - 1) % sourceCount)] : undefined,
+      timeRange: !isCover && !isCta ? timeRanges[index - 1] : undefined
+    };
+  });
+
+  const points = slides.slice(1, -1).map(slide => firstLine(slide.content).toLowerCase());
+  return {
+    slides,
+    caption: buildCaption(firstLine(slides[0]?.content || subject), points),
+    hashtags: buildHashtags(subject)
+  };
+};
+
+// Cover and CTA placeholders get hook/closing text; content placeholders cycle through the points
+const fillTemplate = (topic: string, template: CarouselTemplate): Record<string, string> => {
+  const subject = getSubject(topic);
+  const random = createRandom(hashString(`${subject}|${template.id}`));
+  const titles = shuffle(POINT_TITLES, random);
+  const bodies = shuffle(POINT_BODIES, random);
+  const hook = pick(HOOKS, random)(subject);
+
+  return Object.fromEntries(template.placeholders.map((p, i) => {
+    const type = template.slides[p.slideIndex]?.type;
+    if (type === SlideType.COVER) return [p.key, p.kind === 'heading' ? hook : 'Swipe to find out.'];
+    if (type === SlideType.CTA) return [p.key, p.kind === 'heading' ? `Ready to master ${subject}?` : '**Save this post** and follow for more.'];
+    return [p.key, p.kind === 'text' ? bodies[i % bodies.length](subject) : titles[i % titles.length]];
+  }));
+};
+
+// Refinements are marked with a note line; a new refinement replaces the previous note
+const REFINE_NOTE = /\n\n\*Refined: .*\*$/;
+
+const applyRefinement = (slide: Slide, feedback: string): Slide => ({
+  ...slide,
+  content: `${slide.content.replace(REFINE_NOTE, '')}\n\n*Refined: ${feedback.trim()}*`
+});
+
+const generatePostCopy = (slides: Slide[]): GeneratedPostCopy => {
+  const cover = firstLine(slides[0]?.content || '') || 'A new carousel';
+  const points = slides.slice(1, -1).map(slide => firstLine(slide.content).toLowerCase()).filter(Boolean);
+  return {
+    caption: buildCaption(cover, points),
+    hashtags: buildHashtags(cover),
+    altTexts: slides.map(slide =>
+      toSentences(slide.content.replace(REFINE_NOTE, '')) +
+      (slide.showImage && slide.imagePrompt ? ` Illustrated with ${slide.imagePrompt.split(',')[0]}.` : '')
+    )
+  };
+};
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+const createCanvas = (aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const ratio = w / h || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(ratio >= 1 ? MOCK_IMAGE_SIZE : MOCK_IMAGE_SIZE * ratio);
+  canvas.height = Math.round(ratio >= 1 ? MOCK_IMAGE_SIZE / ratio : MOCK_IMAGE_SIZE);
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// Word-wrapped caption on a dark band at the bottom of the image
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(width / 24);
+  const padding = fontSize;
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width > width - padding * 2 && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  const shown = lines.slice(0, 4);
+
+  const bandHeight = shown.length * fontSize * 1.3 + padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  shown.forEach((l, i) => ctx.fillText(l, padding, height - bandHeight + padding + i * fontSize * 1.3));
+
+  ctx.font = `700 ${Math.round(fontSize * 0.7)}px system-ui, sans-serif`;
+  ctx.fillText('MOCK', padding, padding);
+};
+
+const drawGeneratedImage = (prompt: string, aspectRatio: string): string => {
+  const { canvas, ctx } = createCanvas(aspectRatio);
+  const random = createRandom(hashString(prompt));
+  const hue = Math.floor(random() * 360);
+
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, `hsl(${hue}, 65%, 55%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 30%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  for (let i = 0; i < 6; i++) {
+    ctx.fillStyle = `hsla(${(hue + 180) % 360}, 80%, 70%, ${0.1 + random() * 0.2})`;
+    ctx.beginPath();
+    ctx.arc(random() * canvas.width, random() * canvas.height, (0.1 + random() * 0.3) * canvas.width, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  drawLabel(ctx, prompt);
+  return canvas.toDataURL('image/png');
+};
+
+const drawTransformedImage = async (request: ImageEditRequest, label: string): Promise<string> => {
+  const source = new window.Image();
+  source.src = `data:${request.mimeType};base64,${request.imageBase64}`;
+  await source.decode();
+
+  const { canvas, ctx } = createCanvas(request.aspectRatio);
+  // Cover-fit the source image
+  const scale = Math.max(canvas.width / source.width, canvas.height / source.height);
+  const w = source.width * scale;
+  const h = source.height * scale;
+  ctx.drawImage(source, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+
+  // Tint derived from the prompt, so each instruction gives a visibly different result
+  ctx.globalCompositeOperation = 'color';
+  ctx.fillStyle = `hsla(${hashString(request.prompt) % 360}, 70%, 50%, 0.45)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'source-over';
+
+  drawLabel(ctx, `${label}: ${request.prompt}`);
+  return canvas.toDataURL('image/png');
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  description: 'Deterministic sample content and placeholder images. No network or API key.',
+  needsApiKey: false,
+
+  hasApiKey: () => true,
+  getApiKeyMasked: () => '',
+  setApiKey: () => {},
+
+  getModels: () => ({ textPro: MOCK_MODEL, textFlash: MOCK_MODEL, imagePro: MOCK_MODEL, imageFlash: MOCK_MODEL }),
+
+  generateCarousel: async ({ topic, count, framework, documents, creditSource }, _model, stream = {}) => {
+    await delay(MOCK_LATENCY_MS, stream.signal);
+    const article = documents.find(document => document.source)?.source;
+    const credit = creditSource && article ? formatSourceCredit(article) : undefined;
+    const transcript = documents.find(document => document.type === 'srt' || document.type === 'vtt');
+    const carousel = generateCarousel(topic, count, framework, {
+      documentName: documents[0]?.name,
+      credit,
+      sourceCount: documents.length,
+      timeRanges: transcript ? getTimeRanges(transcript.content, Math.max(0, count - 2)) : []
+    });
+    for (const [index, slide] of carousel.slides.entries()) {
+      if (index > 0) await delay(MOCK_SLIDE_INTERVAL_MS, stream.signal);
+      stream.onSlide?.(slide, index);
+    }
+    return carousel;
+  },
+
+  refineCarousel: async ({ slides, feedback, slideIndex }) => {
+    await delay(MOCK_LATENCY_MS);
+    return slides.map((slide, i) =>
+      slideIndex === undefined || i === slideIndex ? applyRefinement(slide, feedback) : slide
+    );
+  },
+
+  generatePostCopy: async (slides) => {
+    await delay(MOCK_LATENCY_MS);
+    return generatePostCopy(slides);
+  },
+
+  fillTemplate: async ({ topic, template }) => {
+    await delay(MOCK_LATENCY_MS);
+    return fillTemplate(topic, template);
+  },
+
+  // Images are reported to the usage ledger (at no cost); there are no tokens to count
+  generateImage: async ({ prompt, aspectRatio, references = [] }, _model, options) => {
+    await delay(MOCK_LATENCY_MS);
+    options?.onUsage?.({ images: 1 });
+    // References can't be drawn from; the label shows they were received
+    const label = references.length > 0 ? `${prompt} [${references.length} reference image${references.length === 1 ? '' : 's'}]` : prompt;
+    return drawGeneratedImage(label, aspectRatio);
+  },
+
+  stylizeImage: async (request, _model, options) => {
+    await delay(MOCK_LATENCY_MS);
+    options?.onUsage?.({ images: 1 });
+    return drawTransformedImage(request, 'Styled');
+  },
+
+  editImage: async (request, _model, options) => {
+    await delay(MOCK_LATENCY_MS);
+    options?.onUsage?.({ images: 1 });
+    return drawTransformedImage(request, 'Edited');
+  }
+};
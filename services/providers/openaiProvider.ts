@@ -0,0 +1,405 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Any server that speaks the OpenAI REST API: OpenAI itself, or a proxy /
+ * local server (OpenRouter, LiteLLM, Ollama, vLLM...) via a custom base URL.
+ * - Text: /chat/completions with a json_schema response format (streamed for carousels)
+ * - Images: /images/generations and /images/edits (gpt-image sizes; edits also take reference images)
+ *
+ * Sources: PDFs are sent as file parts and social post images as image parts.
+ * Videos (Reels, TikToks, YouTube) can't be attached, so only their text reaches the model.
+ */
+
+import {
+  extractSocialUrls,
+  canScrapeSocialPost,
+  scrapeSocialPost,
+  downloadMediaAsBlob,
+  formatSocialPostForAI,
+} from "../social";
+import { dataUrlToBlob } from "../exportService";
+import { AIProvider, CarouselRequest, CarouselStreamOptions, ImageEditRequest, ImageRequest, ModelOption, RequestOptions } from "./types";
+import {
+  maskApiKey,
+  getEffectiveTopic,
+  getLabelledPdfs,
+  buildCarouselPrompt,
+  CAROUSEL_SCHEMA,
+  createCarouselStream,
+  buildRefinePrompt,
+  getRefineSchema,
+  mergeRefinedSlides,
+  buildPostCopyPrompt,
+  POST_COPY_SCHEMA,
+  parsePostCopy,
+  buildTemplateFillPrompt,
+  getTemplateFillSchema,
+  parseTemplateFill,
+  buildStylizePrompt,
+  buildEditPrompt,
+  buildReferencedImagePrompt,
+} from "./shared";
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface OpenAISettings {
+  baseUrl: string;
+  textModel: string;   // Empty = GPT-4.1 with GPT-4.1 mini fallback
+  imageModel: string;  // Empty = gpt-image-1 with gpt-image-1-mini fallback
+}
+
+const OPENAI_KEY_STORAGE = 'openai_api_key';
+const OPENAI_SETTINGS_STORAGE = 'openai_provider_settings';
+
+const getStoredApiKey = (): string => localStorage.getItem(OPENAI_KEY_STORAGE) || '';
+
+export const getOpenAISettings = (): OpenAISettings => {
+  const defaults: OpenAISettings = { baseUrl: DEFAULT_OPENAI_BASE_URL, textModel: '', imageModel: '' };
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(OPENAI_SETTINGS_STORAGE) || '{}') };
+  } catch {
+    return defaults;
+  }
+};
+
+export const setOpenAISettings = (settings: OpenAISettings): void => {
+  localStorage.setItem(OPENAI_SETTINGS_STORAGE, JSON.stringify({
+    baseUrl: settings.baseUrl.trim().replace(/\/+$/, '') || DEFAULT_OPENAI_BASE_URL,
+    textModel: settings.textModel.trim(),
+    imageModel: settings.imageModel.trim()
+  }));
+};
+
+// A custom model replaces both tiers (compatible servers rarely have the OpenAI names)
+const modelTiers = (custom: string, pro: ModelOption, flash: ModelOption): [ModelOption, ModelOption] => {
+  if (!custom) return [pro, flash];
+  const option = { id: custom, label: custom };
+  return [option, option];
+};
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * POSTs to the API and returns the response.
+ * Failed responses throw with the HTTP status attached (used for the 403 image fallback
+ * and the request queue's 429/503 retries), plus the Retry-After wait when sent.
+ */
+const fetchApi = async (path: string, body: BodyInit, json: boolean, signal?: AbortSignal): Promise<Response> => {
+  const apiKey = getStoredApiKey();
+  const headers: Record<string, string> = {};
+  // Local servers usually don't need a key
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  // FormData bodies set their own multipart Content-Type
+  if (json) headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(`${getOpenAISettings().baseUrl}${path}`, { method: 'POST', headers, body, signal });
+
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      message = (await response.json()).error?.message || message;
+    } catch {
+      // Non-JSON error body - keep the status text
+    }
+    throw Object.assign(new Error(`API error ${response.status}: ${message}`), {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+    });
+  }
+
+  return response;
+};
+
+// Calls the API and returns the parsed JSON body
+const callApi = async (path: string, body: BodyInit, json: boolean): Promise<any> =>
+  await (await fetchApi(path, body, json)).json();
+
+/**
+ * Reports a response's `usage`: chat completions use prompt/completion tokens,
+ * image endpoints input/output tokens. Compatible servers may leave it out.
+ */
+const reportUsage = (usage: any, onUsage?: RequestOptions['onUsage'], images = 0) => {
+  if (!usage && !images) return;
+  onUsage?.({
+    inputTokens: usage?.prompt_tokens ?? usage?.input_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? usage?.output_tokens ?? 0,
+    images
+  });
+};
+
+/**
+ * Chat completion with a JSON schema response format.
+ * `content` is a prompt string or an array of content parts (text, image_url, file).
+ */
+const generateJson = async (
+  model: string,
+  content: string | any[],
+  schema: object,
+  { onUsage }: RequestOptions = {}
+): Promise<any> => {
+  const response = await callApi('/chat/completions', JSON.stringify({
+    model,
+    messages: [{ role: 'user', content }],
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'carousel_response', schema }
+    }
+  }), true);
+  reportUsage(response.usage, onUsage);
+  return JSON.parse(response.choices?.[0]?.message?.content || '{}');
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read media'));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Builds the user message for carousel generation.
+ *
+ * Priority: PDF documents (each after its source label) → social post images → plain text
+ * Social videos fall back to the caption/OCR text; YouTube URLs stay in the topic as text.
+ * The signal cancels scraping and image downloads (AbortError).
+ */
+const buildCarouselContent = async (request: CarouselRequest, signal?: AbortSignal): Promise<string | any[]> => {
+  const prompt = buildCarouselPrompt(request);
+  const effectiveTopic = getEffectiveTopic(request);
+
+  const pdfs = getLabelledPdfs(request);
+  if (pdfs.length > 0) {
+    return [
+      ...pdfs.flatMap(({ label, document }) => [
+        { type: 'text', text: label },
+        {
+          type: 'file',
+          file: { filename: document.name, file_data: `data:${document.mimeType};base64,${document.base64}` }
+        }
+      ]),
+      { type: 'text', text: prompt }
+    ];
+  }
+
+  const socialUrl = extractSocialUrls(effectiveTopic)[0];
+  if (socialUrl && canScrapeSocialPost(socialUrl)) {
+    try {
+      const post = await scrapeSocialPost(socialUrl, signal);
+      const topicWithoutUrl = effectiveTopic.replace(socialUrl.url, '').trim();
+      const additionalContext = topicWithoutUrl ? `\n\nAdditional context: ${topicWithoutUrl}` : '';
+      const parts: any[] = [];
+
+      // Social CDN URLs expire and block hotlinking, so images are inlined as data URLs
+      if (!post.media.some(media => media.type === 'video')) {
+        for (const image of post.media.slice(0, 10)) {
+          try {
+            const url = await blobToDataUrl(await downloadMediaAsBlob(image.url, signal));
+            parts.push({ type: 'image_url', image_url: { url } });
+          } catch (err) {
+            if (signal?.aborted) throw err;
+            console.warn(`Failed to download ${socialUrl.platform.name} image:`, err);
+          }
+        }
+      }
+
+      const textContent = formatSocialPostForAI(post);
+      if (parts.length > 0) {
+        parts.push({ type: 'text', text: `${prompt}\n\n${textContent}${additionalContext}` });
+        return parts;
+      }
+      return `${prompt}\n\n${textContent}${additionalContext}`;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to process ${socialUrl.platform.name}, falling back to plain text:`, error);
+    }
+  }
+
+  return prompt;
+};
+
+/**
+ * Streams carousel generation over server-sent events: each "data:" line
+ * carries a delta of the JSON text; slides are reported as they complete.
+ * The usage totals come in a final chunk without choices (include_usage).
+ */
+const streamCarousel = async (
+  model: string,
+  request: CarouselRequest,
+  { signal, onSlide, onUsage }: CarouselStreamOptions = {}
+) => {
+  const stream = createCarouselStream(onSlide);
+  const response = await fetchApi('/chat/completions', JSON.stringify({
+    model,
+    messages: [{ role: 'user', content: await buildCarouselContent(request, signal) }],
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'carousel_response', schema: CAROUSEL_SCHEMA }
+    },
+    stream: true,
+    stream_options: { include_usage: true }
+  }), true, signal);
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const processLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+    const chunk = JSON.parse(data);
+    if (chunk.usage) reportUsage(chunk.usage, onUsage);
+    stream.push(chunk.choices?.[0]?.delta?.content || '');
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Keep the last (possibly incomplete) line for the next read
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(processLine);
+  }
+
+  // Some servers end the stream without a trailing newline
+  buffer += decoder.decode();
+  if (buffer.trim()) processLine(buffer);
+
+  return stream.finish();
+};
+
+/**
+ * gpt-image models support three sizes; pick the one closest to the requested ratio.
+ */
+const getImageSize = (aspectRatio: string): string => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  const ratio = width / height || 1;
+  if (ratio > 1.1) return '1536x1024';
+  if (ratio < 0.9) return '1024x1536';
+  return '1024x1024';
+};
+
+/**
+ * Image endpoints return base64 (gpt-image) or a URL (some compatible servers).
+ * The response's usage is reported once the image is there.
+ */
+const extractImage = async (response: any, onUsage?: RequestOptions['onUsage']): Promise<string> => {
+  const image = response.data?.[0];
+  let dataUrl: string;
+  if (image?.b64_json) dataUrl = `data:image/png;base64,${image.b64_json}`;
+  else if (image?.url) dataUrl = await blobToDataUrl(await downloadMediaAsBlob(image.url));
+  else throw new Error("No image data returned from API");
+  reportUsage(response.usage, onUsage, 1);
+  return dataUrl;
+};
+
+/**
+ * Text-to-image. With reference images the request goes to /images/edits,
+ * which accepts several input images (gpt-image models); otherwise /images/generations.
+ */
+const generateFromPrompt = async (
+  model: string,
+  { prompt, aspectRatio, references = [] }: ImageRequest,
+  { onUsage }: RequestOptions = {}
+): Promise<string> => {
+  if (references.length === 0) {
+    return extractImage(await callApi('/images/generations', JSON.stringify({
+      model,
+      prompt,
+      size: getImageSize(aspectRatio),
+      n: 1
+    }), true), onUsage);
+  }
+
+  const form = new FormData();
+  form.append('model', model);
+  form.append('prompt', buildReferencedImagePrompt(prompt, references.length));
+  form.append('size', getImageSize(aspectRatio));
+  for (const [i, ref] of references.entries()) {
+    const image = await dataUrlToBlob(`data:${ref.mimeType};base64,${ref.imageBase64}`);
+    form.append('image[]', image, `reference-${i + 1}.${ref.mimeType.split('/')[1] || 'png'}`);
+  }
+  return extractImage(await callApi('/images/edits', form, false), onUsage);
+};
+
+const editWithSourceImage = async (
+  model: string,
+  request: ImageEditRequest,
+  instructions: string,
+  { onUsage }: RequestOptions = {}
+): Promise<string> => {
+  const image = await dataUrlToBlob(`data:${request.mimeType};base64,${request.imageBase64}`);
+  const form = new FormData();
+  form.append('model', model);
+  form.append('prompt', instructions);
+  form.append('size', getImageSize(request.aspectRatio));
+  form.append('image', image, `source.${request.mimeType.split('/')[1] || 'png'}`);
+  return extractImage(await callApi('/images/edits', form, false), onUsage);
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export const openaiProvider: AIProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  description: 'OpenAI, or any server with the same API via a custom base URL.',
+  needsApiKey: true,
+
+  // A custom base URL counts as configured: local servers usually run without a key
+  hasApiKey: () => !!getStoredApiKey() || getOpenAISettings().baseUrl !== DEFAULT_OPENAI_BASE_URL,
+  getApiKeyMasked: () => maskApiKey(getStoredApiKey()),
+  setApiKey: (apiKey) => localStorage.setItem(OPENAI_KEY_STORAGE, apiKey),
+
+  getModels: () => {
+    const { textModel, imageModel } = getOpenAISettings();
+    const [textPro, textFlash] = modelTiers(
+      textModel,
+      { id: 'gpt-4.1', label: 'GPT-4.1 (Best)' },
+      { id: 'gpt-4.1-mini', label: 'GPT-4.1 mini (Fast)' }
+    );
+    const [imagePro, imageFlash] = modelTiers(
+      imageModel,
+      { id: 'gpt-image-1', label: 'GPT Image (Best)' },
+      { id: 'gpt-image-1-mini', label: 'GPT Image mini (Fast)' }
+    );
+    return { textPro, textFlash, imagePro, imageFlash };
+  },
+
+  generateCarousel: (request, model, stream) => streamCarousel(model, request, stream),
+
+  refineCarousel: async (request, model, options) =>
+    mergeRefinedSlides(request, await generateJson(model, buildRefinePrompt(request), getRefineSchema(request), options)),
+
+  generatePostCopy: async (slides, model, options) =>
+    parsePostCopy(slides, await generateJson(model, buildPostCopyPrompt(slides), POST_COPY_SCHEMA, options)),
+
+  fillTemplate: async (request, model, options) =>
+    parseTemplateFill(request, await generateJson(model, buildTemplateFillPrompt(request), getTemplateFillSchema(request), options)),
+
+  generateImage: (request, model, options) => generateFromPrompt(model, request, options),
+
+  stylizeImage: (request, model, options) =>
+    editWithSourceImage(model, request, buildStylizePrompt(request.prompt), options),
+
+  editImage: (request, model, options) =>
+    editWithSourceImage(model, request, buildEditPrompt(request.prompt), options)
+};
@@ -0,0 +1,530 @@
+/**
+ * Shared Provider Helpers
+ *
+ * Prompts, JSON response schemas and response parsing used by every remote
+ * provider, so Gemini and OpenAI-compatible backends write the same carousels.
+ * Schemas are plain JSON Schema (Gemini's responseJsonSchema and OpenAI's
+ * json_schema response format both accept it).
+ */
+
+import { Slide, SlideType, GeneratedCarousel, GeneratedPostCopy, DocumentSource, UploadedDocument } from '../../types';
+import { normalizeHashtags } from '../../lib/postCopy';
+import { getFramework, getSlideRole, SlideRole } from '../../lib/frameworks';
+import { CarouselRequest, RefineRequest, TemplateFillRequest } from './types';
+
+// ============================================================================
+// API KEYS
+// ============================================================================
+
+/**
+ * Masked key for display in the UI.
+ * Shows first 4 and last 4 characters: "AIza****pzrw"
+ */
+export const maskApiKey = (key: string): string => {
+  if (!key) return '';
+  if (key.length <= 8) return '****';
+  return key.substring(0, 4) + '****' + key.substring(key.length - 4);
+};
+
+// ============================================================================
+// CAROUSEL GENERATION
+// ============================================================================
+
+/**
+ * Schema for the JSON response from text generation.
+ * This is what the AI returns; it gets mapped to the app's Slide interface.
+ */
+interface GeneratedSlideSchema {
+  type: string;           // COVER, CONTENT, or CTA
+  content: string;        // Markdown-formatted slide text
+  suggestedImagePrompt: string;  // Prompt for later image generation
+  needsImage: boolean;    // AI's recommendation on whether slide needs an image
+  altText: string;        // Accessibility description of the finished slide
+  sources?: string[];     // Source labels ("S1") the slide draws on, with several documents
+  timeRange?: string;     // "12:30-15:10" - part of a transcript source the slide summarizes
+}
+
+// Instructions shared by carousel generation and post copy generation
+const POST_COPY_INSTRUCTIONS = `
+## POST COPY
+- 'caption': The Instagram caption posted with the carousel. Open with a hook line that
+  differs from the cover slide, summarize the value in 2-4 short paragraphs, end with a
+  question or call to action. No hashtags in the caption. Plain text, no Markdown.
+- 'hashtags': 10-15 hashtags without the '#', ranked from most to least relevant.
+  Mix broad and niche tags; no spaces inside a tag.
+- 'altText' (per slide): One or two sentences describing the slide for screen readers -
+  the key message of its text and what any image shows. Don't start with "Slide" or "Image of".
+`;
+
+// Asked for when a source is a transcript (SRT/VTT upload, see services/documentParsers.ts)
+const TRANSCRIPT_INSTRUCTIONS = `
+## TRANSCRIPT TIMESTAMPS
+Transcript passages start with the time they were said, e.g. [12:30].
+For each slide that summarizes part of a transcript, set 'timeRange' to the span of the
+recording it covers, as start-end in the same format (e.g. "12:30-15:10"). Leave it empty
+for slides that don't come from a transcript.
+`;
+
+const isTranscript = (document: UploadedDocument): boolean =>
+  document.type === 'srt' || document.type === 'vtt';
+
+// '"Title" by Author, Site'
+const describeSource = ({ title, author, siteName }: DocumentSource): string =>
+  `"${title}"${author ? ` by ${author}` : ''}, ${siteName}`;
+
+/**
+ * Attribution line for a web article, as put on the CTA slide.
+ */
+export const formatSourceCredit = (source: DocumentSource): string => `Source: ${describeSource(source)}`;
+
+/**
+ * Label a source document goes by in the prompt and in the slides' 'sources': S1, S2...
+ */
+export const getSourceLabel = (index: number): string => `S${index + 1}`;
+
+// 'Article: "Title" by Author, Site (url)', 'Transcript: webinar.vtt' or 'report.pdf (pages 3-10)'
+const describeDocument = (document: UploadedDocument): string => {
+  const name = document.source
+    ? `Article: ${describeSource(document.source)} (${document.source.url})`
+    : isTranscript(document) ? `Transcript: ${document.name}` : document.name;
+  return document.excerpt ? `${name} (${document.excerpt})` : name;
+};
+
+/**
+ * PDFs of the request with the line that labels each one; providers attach them
+ * as files, each preceded by its label.
+ */
+export const getLabelledPdfs = ({ documents }: CarouselRequest): { label: string; document: UploadedDocument }[] =>
+  documents
+    .map((document, i) => ({ label: `[${getSourceLabel(i)}] ${describeDocument(document)}`, document }))
+    .filter(({ document }) => document.type === 'pdf' && document.base64);
+
+/**
+ * The topic as sent to the model: text documents (TXT/MD, DOCX..., articles) are
+ * appended to it under their source label. PDFs are attached separately by each provider.
+ */
+export const getEffectiveTopic = ({ topic, documents }: CarouselRequest): string => {
+  const texts = documents
+    .map((document, i) => document.content
+      ? `--- [${getSourceLabel(i)}] ${describeDocument(document)} ---\n${document.content}`
+      : '')
+    .filter(Boolean);
+  return [topic, ...texts].filter(Boolean).join('\n\n');
+};
+
+// Source list and citation rules, when the carousel is written from several documents
+const formatSourcesSection = (documents: UploadedDocument[]): string => `
+## SOURCES
+${documents.map((document, i) => `- ${getSourceLabel(i)}: ${describeDocument(document)}${document.type === 'pdf' ? ' - attached PDF' : ''}`).join('\n')}
+Combine the sources into one carousel. For each slide, list in 'sources' the labels
+(e.g. "S1") of the sources its content is taken from; leave it empty for slides that
+don't use a source (such as a generic call to action).
+`;
+
+/**
+ * Replaces the source labels the model put in a slide's 'sources' with the
+ * document names, e.g. ["S2"] → ["pricing.pdf"]. Unknown labels are dropped.
+ */
+export const nameSlideSources = (slide: Slide, documents: UploadedDocument[]): Slide => {
+  if (!slide.sources) return slide;
+  const names = slide.sources
+    .map(label => documents[parseInt(label.match(/S(\d+)/i)?.[1] ?? '', 10) - 1]?.name)
+    .filter((name): name is string => !!name);
+  return { ...slide, sources: names.length > 0 ? [...new Set(names)] : undefined };
+};
+
+// "### Slides 2-4 - INTEREST" section of the carousel prompt
+const formatRoleSection = (from: number, to: number, role: SlideRole): string => {
+  const slides = from === to ? `Slide ${from}` : `Slides ${from}-${to}`;
+  return `### ${slides} - ${role.type} (${role.name})
+${role.guidance.map(line => `- ${line}`).join('\n')}
+Type: ${role.type}`;
+};
+
+/**
+ * Builds the carousel prompt for the request's copywriting framework.
+ *
+ * PROMPT ENGINEERING: The framework's slide-role plan (lib/frameworks.ts) becomes
+ * one section per run of slides, e.g. for AIDA:
+ * - Slide 1: ATTENTION - Emotional, controversial hook
+ * - Slides 2-N-1: INTEREST + DESIRE - Educational content with storytelling
+ * - Slide N: ACTION - Call to Action
+ */
+export const buildCarouselPrompt = (request: CarouselRequest): string => {
+  const { count, documents } = request;
+  const framework = getFramework(request.framework);
+  const documentInstruction = documents.length > 0
+    ? `Analyze the attached ${documents.length > 1 ? 'source documents' : 'document'} thoroughly. Extract the key insights, main arguments, and important data points. `
+    : "";
+  const sourcesSection = documents.length > 1 ? formatSourcesSection(documents) : "";
+  const transcriptSection = documents.some(isTranscript) ? TRANSCRIPT_INSTRUCTIONS : "";
+  const article = documents.find(document => document.source)?.source;
+  const creditInstruction = request.creditSource && article
+    ? `\n## SOURCE CREDIT\nThe last slide must credit the original article with this line, unchanged: ${formatSourceCredit(article)}\n`
+    : "";
+
+  return `
+Act as ${framework.persona}. ${documentInstruction}Create an Instagram Carousel about the following topic: "${getEffectiveTopic(request)}".
+
+## CONTENT FRAMEWORK - ${framework.promptTitle}
+
+${framework.plan(count).map(({ from, to, role }) => formatRoleSection(from, to, role)).join('\n\n')}
+
+## STRUCTURE REQUIREMENTS
+${framework.requirements.map((line, i) => `${i + 1}. ${line}`).join('\n')}
+
+## FORMATTING
+- Use Markdown for emphasis (# Header, **bold**)
+- Keep text concise and punchy (tweet-length per slide)
+- Use bullet points sparingly for lists
+
+Create exactly ${count} slides.
+For each slide, determine if an image would enhance engagement (needsImage).
+Provide a 'suggestedImagePrompt' for image generation. If no image needed, return empty string.
+${sourcesSection}${transcriptSection}${creditInstruction}${POST_COPY_INSTRUCTIONS}
+Return strictly JSON.
+`;
+};
+
+const SLIDE_PROPERTIES = {
+  type: { type: 'string' },
+  content: { type: 'string' },
+  needsImage: { type: 'boolean' },
+  suggestedImagePrompt: { type: 'string' }
+};
+
+export const CAROUSEL_SCHEMA = {
+  type: 'object',
+  properties: {
+    slides: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...SLIDE_PROPERTIES,
+          altText: { type: 'string' },
+          sources: { type: 'array', items: { type: 'string' } },  // Only asked for with several documents
+          timeRange: { type: 'string' }                           // Only asked for with transcripts
+        },
+        required: ['type', 'content', 'needsImage', 'suggestedImagePrompt', 'altText']
+      }
+    },
+    caption: { type: 'string' },
+    hashtags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['slides', 'caption', 'hashtags']
+};
+
+// Transform one generated slide into the app's Slide interface
+const toSlide = (s: GeneratedSlideSchema): Slide => ({
+  id: crypto.randomUUID(),
+  type: (s.type as SlideType) || SlideType.CONTENT,
+  content: s.content,
+  showImage: s.needsImage,
+  imagePrompt: s.suggestedImagePrompt,
+  imageUrl: undefined,  // Images are generated separately via generateSlideImage()
+  imageScale: 50,       // Default: image takes 50% of slide height
+  overlayImage: true,   // Default: text overlays image (Storyteller mode)
+  altText: s.altText || undefined,
+  sources: s.sources?.length ? s.sources : undefined,  // Labels until nameSlideSources()
+  timeRange: s.timeRange?.trim() || undefined
+});
+
+// Transform the JSON response into the app's Slide interface
+const parseCarousel = (json: any): GeneratedCarousel => ({
+  slides: ((json?.slides || []) as GeneratedSlideSchema[]).map(toSlide),
+  caption: json?.caption || '',
+  hashtags: normalizeHashtags(json?.hashtags || [])
+});
+
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+/**
+ * Returns the slide objects that are already complete in a partial JSON response,
+ * e.g. '{"slides":[{...},{...},{"type":"CONT' → the first two slides.
+ * Scans the "slides" array tracking strings and nesting, so braces inside
+ * slide text don't count.
+ */
+const extractCompletedSlides = (text: string): GeneratedSlideSchema[] => {
+  const key = text.indexOf('"slides"');
+  const arrayStart = key === -1 ? -1 : text.indexOf('[', key);
+  if (arrayStart === -1) return [];
+
+  const slides: GeneratedSlideSchema[] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = arrayStart + 1; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) slides.push(JSON.parse(text.slice(objectStart, i + 1)));
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return slides;
+};
+
+/**
+ * Accumulates a streamed carousel response and reports each slide as soon as
+ * its JSON object is complete. finish() parses the whole response; slides
+ * already reported keep the same objects (and IDs).
+ */
+export const createCarouselStream = (onSlide?: (slide: Slide, index: number) => void) => {
+  let text = '';
+  const slides: Slide[] = [];
+
+  const push = (chunk: string) => {
+    text += chunk;
+    const completed = extractCompletedSlides(text);
+    while (slides.length < completed.length) {
+      const slide = toSlide(completed[slides.length]);
+      slides.push(slide);
+      onSlide?.(slide, slides.length - 1);
+    }
+  };
+
+  const finish = (): GeneratedCarousel => {
+    push('');
+    const parsed = parseCarousel(JSON.parse(text || '{}'));
+    return { ...parsed, slides: parsed.slides.map((slide, i) => slides[i] || slide) };
+  };
+
+  return { push, finish };
+};
+
+// ============================================================================
+// CONTENT REFINEMENT
+// ============================================================================
+
+export const buildRefinePrompt = ({ slides, feedback, slideIndex, framework: frameworkId }: RefineRequest): string => {
+  const isGlobal = slideIndex === undefined;
+  const framework = getFramework(frameworkId);
+
+  // Build current content representation for the AI
+  const formatSlide = (s: Slide, i: number) =>
+    `Slide ${i + 1} (${s.type}):\n${s.content}`;
+
+  const currentContent = isGlobal
+    ? slides.map((s, i) => formatSlide(s, i)).join('\n\n')
+    : formatSlide(slides[slideIndex], slideIndex);
+
+  if (!isGlobal) {
+    const role = getSlideRole(frameworkId, slides, slideIndex);
+    return `You are refining a single slide from an Instagram carousel written with the ${framework.promptTitle} framework. Apply the following feedback to this specific slide only.
+
+FEEDBACK: "${feedback}"
+
+CURRENT SLIDE CONTENT:
+${currentContent}
+
+Requirements:
+1. Apply the feedback to this slide
+2. Maintain the slide type: ${slides[slideIndex].type}
+3. Preserve Markdown formatting (# headers, **bold**, etc.)
+4. Update suggestedImagePrompt if content changed significantly
+5. Preserve the slide's role in the ${framework.name} framework:
+   ${role.name} - ${role.summary}
+
+Return strictly JSON with ONE refined slide.`;
+  }
+
+  const slideRoles = slides.map((s, i) => {
+    const role = getSlideRole(frameworkId, slides, i);
+    return `   - Slide ${i + 1} (${s.type}): ${role.name} - ${role.summary}`;
+  });
+
+  return `You are refining an Instagram carousel. Apply the following feedback to ALL slides while maintaining the ${framework.promptTitle} framework.
+
+FEEDBACK: "${feedback}"
+
+CURRENT CAROUSEL CONTENT:
+${currentContent}
+
+Requirements:
+1. Apply the feedback consistently across all ${slides.length} slides
+2. Maintain each slide's type (COVER, CONTENT, CTA)
+3. Keep the same number of slides (${slides.length})
+4. Preserve Markdown formatting (# headers, **bold**, etc.)
+5. Keep suggestedImagePrompt relevant to the new content
+6. PRESERVE THE ${framework.name.toUpperCase()} STRUCTURE:
+${slideRoles.join('\n')}
+7. Keep following the framework's rules:
+${framework.requirements.map(line => `   - ${line}`).join('\n')}
+
+Return strictly JSON with the refined slides.`;
+};
+
+export const getRefineSchema = ({ slideIndex }: RefineRequest) =>
+  slideIndex === undefined
+    ? {
+        // Schema for multiple slides (global refinement)
+        type: 'object',
+        properties: {
+          slides: {
+            type: 'array',
+            items: { type: 'object', properties: SLIDE_PROPERTIES, required: Object.keys(SLIDE_PROPERTIES) }
+          }
+        },
+        required: ['slides']
+      }
+    : {
+        // Schema for single slide (per-slide refinement)
+        type: 'object',
+        properties: SLIDE_PROPERTIES,
+        required: Object.keys(SLIDE_PROPERTIES)
+      };
+
+/**
+ * Merges the refined text into the existing slides.
+ * Preserves: id, imageUrl, imageScale, overlayImage, imageOffsetY, gradientHeight, fontStyle, fontScale
+ */
+export const mergeRefinedSlides = ({ slides, slideIndex }: RefineRequest, json: any): Slide[] => {
+  if (slideIndex === undefined) {
+    // Global: Replace all slides content while preserving IDs and image URLs
+    const refinedSlides = json?.slides || [];
+    return slides.map((original, i) => ({
+      ...original,
+      type: refinedSlides[i]?.type || original.type,
+      content: refinedSlides[i]?.content || original.content,
+      showImage: refinedSlides[i]?.needsImage ?? original.showImage,
+      imagePrompt: refinedSlides[i]?.suggestedImagePrompt || original.imagePrompt
+    }));
+  }
+
+  // Per-slide: Update only the specified slide
+  return slides.map((original, i) => {
+    if (i !== slideIndex) return original;
+    return {
+      ...original,
+      type: json?.type || original.type,
+      content: json?.content || original.content,
+      showImage: json?.needsImage ?? original.showImage,
+      imagePrompt: json?.suggestedImagePrompt || original.imagePrompt
+    };
+  });
+};
+
+// ============================================================================
+// POST COPY
+// ============================================================================
+
+export const buildPostCopyPrompt = (slides: Slide[]): string => {
+  const formatSlide = (s: Slide, i: number) =>
+    `Slide ${i + 1} (${s.type}):\n${s.content}` +
+    (s.showImage && s.imagePrompt ? `\n[Image: ${s.imagePrompt}]` : '');
+
+  return `You are writing the post copy for a finished Instagram carousel.
+
+CAROUSEL CONTENT:
+${slides.map(formatSlide).join('\n\n')}
+${POST_COPY_INSTRUCTIONS}
+Return exactly ${slides.length} entries in 'altTexts', one per slide in order.
+
+Return strictly JSON.`;
+};
+
+export const POST_COPY_SCHEMA = {
+  type: 'object',
+  properties: {
+    caption: { type: 'string' },
+    hashtags: { type: 'array', items: { type: 'string' } },
+    altTexts: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['caption', 'hashtags', 'altTexts']
+};
+
+export const parsePostCopy = (slides: Slide[], json: any): GeneratedPostCopy => ({
+  caption: json?.caption || '',
+  hashtags: normalizeHashtags(json?.hashtags || []),
+  altTexts: slides.map((_, i) => json?.altTexts?.[i] || '')
+});
+
+// ============================================================================
+// TEMPLATE FILLING
+// ============================================================================
+
+export const buildTemplateFillPrompt = ({ topic, template }: TemplateFillRequest): string => {
+  const formatSlide = (slide: Slide, i: number) => {
+    const slots = template.placeholders
+      .filter(p => p.slideIndex === i)
+      .map(p => `- ${p.key} (${p.kind}, about ${p.example.length} characters) - original: "${p.example}"`);
+    return `Slide ${i + 1} (${slide.type}):\n${slots.length > 0 ? slots.join('\n') : '- (no text)'}`;
+  };
+
+  return `You are writing the text for an Instagram carousel built from a fixed template.
+
+TOPIC: "${topic}"
+
+The template's slides and layout are fixed; fill every placeholder below with new text about the topic.
+The original text shows what each placeholder is for and how long it should be - don't copy it.
+
+TEMPLATE:
+${template.slides.map(formatSlide).join('\n\n')}
+
+Requirements:
+1. Return one value for every placeholder key
+2. Headings: short and punchy, without the "#" (the layout already adds it)
+3. List items: one item per value, without a bullet or number
+4. Stay close to each original length so the text fits the layout
+5. **bold** is allowed inside values; no line breaks
+6. The slides must read as one carousel: the cover hooks, the content delivers, the CTA closes
+
+Return strictly JSON.`;
+};
+
+export const getTemplateFillSchema = ({ template }: TemplateFillRequest) => {
+  const keys = template.placeholders.map(p => p.key);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(keys.map(key => [key, { type: 'string' }])),
+    required: keys
+  };
+};
+
+// Values for every placeholder (missing ones empty); line breaks would split the Markdown line
+export const parseTemplateFill = ({ template }: TemplateFillRequest, json: any): Record<string, string> =>
+  Object.fromEntries(template.placeholders.map(p => [
+    p.key,
+    typeof json?.[p.key] === 'string' ? json[p.key].replace(/\s*\n\s*/g, ' ').trim() : ''
+  ]));
+
+// ============================================================================
+// IMAGE-TO-IMAGE
+// ============================================================================
+
+export const buildStylizePrompt = (stylePrompt: string): string =>
+  `Transform this image with the following style: ${stylePrompt}. Maintain the core subject matter but apply the artistic transformation.`;
+
+export const buildEditPrompt = (editPrompt: string): string =>
+  `Edit this image according to the following instructions: ${editPrompt}. Keep the main subject and composition, but apply the requested changes.`;
+
+// ============================================================================
+// REFERENCE IMAGES
+// ============================================================================
+
+/**
+ * Text prompt for an image generated with project reference images attached
+ * (sent as image parts before the prompt).
+ */
+export const buildReferencedImagePrompt = (prompt: string, referenceCount: number): string =>
+  `${prompt}
+
+The ${referenceCount === 1 ? 'attached image is a reference' : `${referenceCount} attached images are references`} for this carousel. If the scene includes the person, character or product shown, keep them recognizably the same (face, shape, colors, details). Match the reference color palette. Create a new composition for this scene - do not copy the reference framing or background.`;
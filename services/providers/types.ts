@@ -0,0 +1,138 @@
+/**
+ * AI Provider Types
+ *
+ * The contract every AI backend implements (Gemini, OpenAI-compatible, offline mock).
+ * services/geminiService is the facade the UI calls; it picks the active provider
+ * from the registry (./index) and handles Pro → Flash fallbacks on top of it.
+ */
+
+import { Slide, UploadedDocument, GeneratedCarousel, GeneratedPostCopy, CopyFramework, CarouselTemplate } from '../../types';
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+export interface ModelOption {
+  id: string;     // Sent to the API
+  label: string;  // Shown in the model selects
+}
+
+/**
+ * Two tiers per capability. "Pro" is the default; "flash" is the fallback
+ * tried when Pro fails (text: any error, images: 403 only).
+ * A provider with a single model uses the same option for both tiers.
+ */
+export interface ProviderModels {
+  textPro: ModelOption;
+  textFlash: ModelOption;
+  imagePro: ModelOption;
+  imageFlash: ModelOption;
+}
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+/**
+ * What one API call consumed, as reported by the API (tokens are 0 when it doesn't say).
+ * `files` counts uploads to a files API (Gemini: social post media).
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;  // Includes reasoning tokens
+  images: number;        // Images generated
+  files: number;
+}
+
+/**
+ * Hooks shared by every provider call. onUsage may fire several times per call
+ * (e.g. once per file upload, then for the response); the facade adds them up.
+ */
+export interface RequestOptions {
+  onUsage?: (usage: Partial<TokenUsage>) => void;
+}
+
+export interface CarouselRequest {
+  topic: string;
+  count: number;
+  framework: CopyFramework;
+  documents: UploadedDocument[];  // Source documents, labelled S1, S2... in the prompt in this order
+  creditSource?: boolean;  // Credit the source article (a fetched web link) on the CTA slide
+}
+
+/**
+ * Streaming hooks for carousel generation. onSlide fires as soon as each slide
+ * is complete in the response; aborting the signal throws an AbortError.
+ */
+export interface CarouselStreamOptions extends RequestOptions {
+  signal?: AbortSignal;
+  onSlide?: (slide: Slide, index: number) => void;
+}
+
+export interface RefineRequest {
+  slides: Slide[];
+  feedback: string;
+  slideIndex?: number;  // undefined = refine all slides
+  framework: CopyFramework;  // Structure to preserve (the one the project was generated with)
+}
+
+export interface TemplateFillRequest {
+  topic: string;
+  template: CarouselTemplate;
+}
+
+/**
+ * An image sent inline with a request (raw base64, no data URI prefix).
+ */
+export interface InlineImage {
+  imageBase64: string;
+  mimeType: string;
+}
+
+export interface ImageRequest {
+  prompt: string;       // Already prefixed with the global image style
+  aspectRatio: string;  // API format, e.g. "4:5"
+  references?: InlineImage[];  // Project reference images: keep their subject and palette
+}
+
+export interface ImageEditRequest {
+  imageBase64: string;  // Raw base64 (no data URI prefix)
+  mimeType: string;
+  prompt: string;       // Style (stylize) or instructions (edit)
+  aspectRatio: string;  // API format, e.g. "1:1"
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * Image methods return a data URI ready for <img src="">.
+ * Errors should carry a numeric `status` when the API returned one,
+ * so the facade can detect 403s for the image fallback and the request queue
+ * can retry 429/503s (after `retryAfterMs`, when the API says how long to wait).
+ * Usage should be reported through `options.onUsage` for the usage ledger.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  description: string;
+  needsApiKey: boolean;
+
+  // Key management (no-ops for the mock provider)
+  hasApiKey: () => boolean;
+  getApiKeyMasked: () => string;
+  setApiKey: (apiKey: string) => void;
+
+  getModels: () => ProviderModels;
+
+  generateCarousel: (request: CarouselRequest, model: string, stream?: CarouselStreamOptions) => Promise<GeneratedCarousel>;
+  refineCarousel: (request: RefineRequest, model: string, options?: RequestOptions) => Promise<Slide[]>;
+  generatePostCopy: (slides: Slide[], model: string, options?: RequestOptions) => Promise<GeneratedPostCopy>;
+  fillTemplate: (request: TemplateFillRequest, model: string, options?: RequestOptions) => Promise<Record<string, string>>;  // Placeholder key → text
+  generateImage: (request: ImageRequest, model: string, options?: RequestOptions) => Promise<string>;
+  stylizeImage: (request: ImageEditRequest, model: string, options?: RequestOptions) => Promise<string>;
+  editImage: (request: ImageEditRequest, model: string, options?: RequestOptions) => Promise<string>;
+}
@@ -0,0 +1,294 @@
+/**
+ * Request Queue
+ *
+ * Every AI request made through services/geminiService runs as a job in this queue:
+ * - At most `concurrency` jobs run at once; the rest wait in the order they were added
+ * - Rate limits (429) and overloaded servers (503) are retried with exponential backoff,
+ *   waiting as long as the API asks when the error carries a retry hint
+ * - Any job can be cancelled, whether it is queued, running or waiting to retry
+ *
+ * The Workspace jobs panel subscribes to the job list (works with useSyncExternalStore).
+ * Settings are stored in localStorage and apply to jobs started after the change.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JobKind = 'text' | 'image';
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+  id: string;
+  kind: JobKind;
+  label: string;        // What the job does, e.g. "Generate image"
+  detail?: string;      // Topic or prompt excerpt shown under the label
+  model: string;
+  status: JobStatus;
+  attempts: number;     // Attempts started so far (1 = first try)
+  retryAt?: number;     // When a retrying job runs again (ms timestamp)
+  error?: string;       // Last error message (also set while retrying)
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export interface QueueSettings {
+  concurrency: number;  // Jobs running at the same time
+  maxRetries: number;   // Retries after the first attempt, for 429/503 errors only
+}
+
+export interface EnqueueOptions {
+  kind: JobKind;
+  label: string;
+  detail?: string;
+  model: string;
+  signal?: AbortSignal;       // Cancels the job (same as cancelJob)
+  canRetry?: () => boolean;   // Checked before each retry, e.g. false once a stream has delivered data
+}
+
+interface Entry {
+  job: QueueJob;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  options: EnqueueOptions;
+  controller: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const QUEUE_SETTINGS_STORAGE = 'request_queue_settings';
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = { concurrency: 3, maxRetries: 4 };
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_RETRY_WAIT_MS = 120_000;
+
+// Finished jobs kept for the panel (older ones are dropped)
+const MAX_FINISHED_JOBS = 30;
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const getQueueSettings = (): QueueSettings => {
+  try {
+    return { ...DEFAULT_QUEUE_SETTINGS, ...JSON.parse(localStorage.getItem(QUEUE_SETTINGS_STORAGE) || '{}') };
+  } catch {
+    return DEFAULT_QUEUE_SETTINGS;
+  }
+};
+
+export const setQueueSettings = (settings: QueueSettings): void => {
+  localStorage.setItem(QUEUE_SETTINGS_STORAGE, JSON.stringify({
+    concurrency: Math.max(1, Math.round(settings.concurrency)),
+    maxRetries: Math.max(0, Math.round(settings.maxRetries))
+  }));
+  // A higher limit lets waiting jobs start right away
+  pump();
+};
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+const RETRYABLE_STATUSES = [429, 503, 'RESOURCE_EXHAUSTED', 'UNAVAILABLE'];
+
+/**
+ * Rate limits and temporary overload are worth retrying; anything else
+ * (bad key, invalid request, 403) fails straight away.
+ */
+export const isRetryableError = (error: any): boolean =>
+  RETRYABLE_STATUSES.includes(error?.status) ||
+  /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(String(error?.message || ''));
+
+/**
+ * Wait requested by the API, in ms: `retryAfterMs` (set from the Retry-After header
+ * by the OpenAI provider) or a Gemini hint in the message ("retryDelay": "12s", "retry in 12.5s").
+ */
+const getRetryHint = (error: any): number | undefined => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = String(error?.message || '').match(/retry(?:Delay\\?"?\s*:\s*\\?"?|\s+in\s+)(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// 2s, 4s, 8s... with some jitter so parallel jobs don't retry in lockstep
+const getRetryDelay = (error: unknown, attempt: number): number => {
+  const backoff = BASE_BACKOFF_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+  return Math.min(getRetryHint(error) ?? backoff, MAX_RETRY_WAIT_MS);
+};
+
+const cancelledError = () => new DOMException('Request cancelled', 'AbortError');
+
+// ============================================================================
+// JOB LIST
+// ============================================================================
+
+let entries: Entry[] = [];
+let snapshot: QueueJob[] = [];
+let running = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  snapshot = entries.map(entry => entry.job);
+  listeners.forEach(listener => listener());
+};
+
+const updateJob = (entry: Entry, changes: Partial<QueueJob>) => {
+  entry.job = { ...entry.job, ...changes };
+  notify();
+};
+
+const finishJob = (entry: Entry, changes: Partial<QueueJob>) => {
+  updateJob(entry, { ...changes, retryAt: undefined, finishedAt: Date.now() });
+
+  // Drop the oldest finished jobs beyond the limit
+  const finished = entries.filter(e => e.job.finishedAt);
+  if (finished.length > MAX_FINISHED_JOBS) {
+    const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS));
+    entries = entries.filter(e => !dropped.has(e));
+    notify();
+  }
+};
+
+/**
+ * Current jobs, oldest first. The array only changes when a job does,
+ * so it can be used directly as a useSyncExternalStore snapshot.
+ */
+export const getJobs = (): QueueJob[] => snapshot;
+
+/**
+ * Calls `listener` whenever a job is added or changes. Returns the unsubscribe function.
+ */
+export const subscribeJobs = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const cancelJob = (id: string): void => {
+  entries.find(entry => entry.job.id === id)?.controller.abort();
+};
+
+/**
+ * Removes done, failed and cancelled jobs from the list.
+ */
+export const clearFinishedJobs = (): void => {
+  entries = entries.filter(entry => !entry.job.finishedAt);
+  notify();
+};
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+// Rejects as soon as the signal aborts, even if the request itself can't be stopped
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(cancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+const sleep = (ms: number, signal: AbortSignal) => raceAbort(new Promise(resolve => setTimeout(resolve, ms)), signal);
+
+/**
+ * Runs one job to the end, retrying while the error allows it.
+ * A retrying job keeps its slot while it waits, so a rate limit slows the whole queue down.
+ */
+const execute = async (entry: Entry): Promise<void> => {
+  const { controller, options } = entry;
+
+  for (let attempt = 1; ; attempt++) {
+    updateJob(entry, { status: 'running', attempts: attempt, retryAt: undefined });
+    try {
+      const result = await raceAbort(entry.run(controller.signal), controller.signal);
+      finishJob(entry, { status: 'done', error: undefined });
+      entry.resolve(result);
+      return;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        finishJob(entry, { status: 'cancelled' });
+        entry.reject(cancelledError());
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const canRetry = attempt <= getQueueSettings().maxRetries && isRetryableError(error) && (options.canRetry?.() ?? true);
+      if (!canRetry) {
+        finishJob(entry, { status: 'failed', error: message });
+        entry.reject(error);
+        return;
+      }
+
+      const delay = getRetryDelay(error, attempt);
+      console.warn(`${entry.job.label} hit a rate limit (attempt ${attempt}), retrying in ${(delay / 1000).toFixed(1)}s`);
+      updateJob(entry, { status: 'retrying', retryAt: Date.now() + delay, error: message });
+      try {
+        await sleep(delay, controller.signal);
+      } catch {
+        finishJob(entry, { status: 'cancelled' });
+        entry.reject(cancelledError());
+        return;
+      }
+    }
+  }
+};
+
+// Starts queued jobs while there are free slots
+const pump = () => {
+  const { concurrency } = getQueueSettings();
+  while (running < concurrency) {
+    const next = entries.find(entry => entry.job.status === 'queued');
+    if (!next) return;
+    running++;
+    execute(next).finally(() => {
+      running--;
+      pump();
+    });
+  }
+};
+
+/**
+ * Adds a request to the queue and resolves with its result.
+ *
+ * @param run - Performs the request; receives the job's signal (aborted on cancel)
+ * @throws AbortError if the job is cancelled, otherwise the request's last error
+ */
+export const enqueueRequest = <T>(run: (signal: AbortSignal) => Promise<T>, options: EnqueueOptions): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const controller = new AbortController();
+    const entry: Entry = {
+      job: {
+        id: crypto.randomUUID(),
+        kind: options.kind,
+        label: options.label,
+        detail: options.detail,
+        model: options.model,
+        status: 'queued',
+        attempts: 0,
+        createdAt: Date.now()
+      },
+      run,
+      options,
+      controller,
+      resolve: resolve as (value: unknown) => void,
+      reject
+    };
+
+    // Queued jobs are cancelled here; running/retrying ones through raceAbort in execute
+    controller.signal.addEventListener('abort', () => {
+      if (entry.job.status === 'queued') {
+        finishJob(entry, { status: 'cancelled' });
+        reject(cancelledError());
+      }
+    }, { once: true });
+
+    if (options.signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    entries = [...entries, entry];
+    notify();
+    pump();
+  });
@@ -0,0 +1,175 @@
+/**
+ * Apify
+ *
+ * The default scrapers run Apify actors (one per platform) through the REST API -
+ * not the npm client, for browser compatibility - with the user's API token.
+ */
+
+// ============================================================================
+// API KEY MANAGEMENT
+// ============================================================================
+
+const APIFY_KEY_STORAGE = 'apify_api_key';
+
+export const setApifyApiKey = (key: string): void => {
+  localStorage.setItem(APIFY_KEY_STORAGE, key);
+};
+
+export const getApifyApiKey = (): string => {
+  return localStorage.getItem(APIFY_KEY_STORAGE) || '';
+};
+
+export const hasApifyApiKey = (): boolean => {
+  return !!getApifyApiKey();
+};
+
+export const getApifyApiKeyMasked = (): string => {
+  const key = getApifyApiKey();
+  if (!key) return '';
+  if (key.length <= 12) return '****';
+  return key.slice(0, 8) + '...' + key.slice(-4);
+};
+
+// ============================================================================
+// ACTOR RUNS (REST API - browser compatible)
+// ============================================================================
+
+const APIFY_API_BASE = 'https://api.apify.com/v2';
+
+// Max 60 seconds per run (polling every 1s)
+const MAX_POLL_ATTEMPTS = 60;
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Scraping cancelled', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Scraping cancelled', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Runs an actor and returns the items of its dataset.
+ *
+ * @param actorId - Actor ID or "username~actor-name"
+ * @param input - The actor's input (each actor has its own format)
+ * @param platformName - For error messages, e.g. "TikTok"
+ * @throws Error if the token is missing or invalid, the run fails or times out,
+ *         or no items were returned; AbortError if the signal aborts
+ */
+export const runApifyActor = async (
+  actorId: string,
+  input: Record<string, unknown>,
+  platformName: string,
+  signal?: AbortSignal
+): Promise<any[]> => {
+  const token = getApifyApiKey();
+
+  if (!token) {
+    throw new Error(`Apify API key is required for ${platformName} scraping`);
+  }
+
+  try {
+    // Step 1: Start the actor run
+    const runResponse = await fetch(
+      `${APIFY_API_BASE}/acts/${actorId}/runs?token=${token}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+        signal
+      }
+    );
+
+    if (!runResponse.ok) {
+      if (runResponse.status === 401) {
+        throw new Error('Invalid Apify API key. Please check your token.');
+      }
+      if (runResponse.status === 429) {
+        throw new Error('Apify rate limit reached. Please try again later.');
+      }
+      throw new Error(`Apify API error: ${runResponse.status}`);
+    }
+
+    const runData = await runResponse.json();
+    const runId = runData.data?.id;
+
+    if (!runId) {
+      throw new Error('Failed to start Apify actor run');
+    }
+
+    // Step 2: Wait for the run to complete (poll status)
+    let status = runData.data?.status;
+    let attempts = 0;
+
+    while (status !== 'SUCCEEDED' && status !== 'FAILED' && attempts < MAX_POLL_ATTEMPTS) {
+      await wait(1000, signal);
+
+      const statusResponse = await fetch(
+        `${APIFY_API_BASE}/actor-runs/${runId}?token=${token}`,
+        { signal }
+      );
+      const statusData = await statusResponse.json();
+      status = statusData.data?.status;
+      attempts++;
+    }
+
+    if (status === 'FAILED') {
+      throw new Error(`${platformName} scraping failed. The post may be private or unavailable.`);
+    }
+
+    if (status !== 'SUCCEEDED') {
+      throw new Error(`${platformName} scraping timed out. Please try again.`);
+    }
+
+    // Step 3: Fetch results from the dataset
+    const datasetId = runData.data?.defaultDatasetId;
+    const datasetResponse = await fetch(
+      `${APIFY_API_BASE}/datasets/${datasetId}/items?token=${token}`,
+      { signal }
+    );
+    const items = await datasetResponse.json();
+
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new Error(`No ${platformName} data found. The post may be private or unavailable.`);
+    }
+
+    return items;
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.message?.includes('Invalid Apify') || error.message?.includes('rate limit')) {
+      throw error;
+    }
+    throw new Error(`Failed to scrape ${platformName}: ${error.message}`);
+  }
+};
+
+// ============================================================================
+// ITEM HELPERS
+// ============================================================================
+
+/**
+ * First value that is a non-empty string. Actors rename fields between versions,
+ * so normalizers list the alternatives.
+ */
+export const firstString = (...values: unknown[]): string | undefined =>
+  values.find((value): value is string => typeof value === 'string' && value.trim() !== '');
+
+/**
+ * First value that is a number (or a numeric string).
+ */
+export const firstNumber = (...values: unknown[]): number | undefined => {
+  for (const value of values) {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number === 'number' && Number.isFinite(number)) return number;
+  }
+  return undefined;
+};
+
+/**
+ * Drops engagement counts the scraper didn't return.
+ */
+export const compactEngagement = <T extends Record<string, number | undefined>>(counts: T): Partial<T> =>
+  Object.fromEntries(Object.entries(counts).filter(([, value]) => value !== undefined)) as Partial<T>;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { extractSocialUrls, isSocialPostUrl } from './index';
+
+const found = (text: string) => extractSocialUrls(text).map(({ platform, url }) => [platform.id, url]);
+
+describe('extractSocialUrls', () => {
+  it('finds the posts of every platform in text order', () => {
+    expect(found(
+      'See https://x.com/jack/status/20 and instagram.com/p/Abc_1, '
+      + 'then https://www.tiktok.com/@ada/video/123 or threads.net/@ada/post/Xy9 '
+      + 'and https://www.linkedin.com/posts/ada_growth-activity-1'
+    )).toEqual([
+      ['x', 'https://x.com/jack/status/20'],
+      ['instagram', 'instagram.com/p/Abc_1'],
+      ['tiktok', 'https://www.tiktok.com/@ada/video/123'],
+      ['threads', 'threads.net/@ada/post/Xy9'],
+      ['linkedin', 'https://www.linkedin.com/posts/ada_growth-activity-1']
+    ]);
+  });
+
+  it('accepts the www. and mobile. hosts', () => {
+    expect(isSocialPostUrl('https://mobile.twitter.com/jack/status/20')).toBe(true);
+    expect(isSocialPostUrl('https://vm.tiktok.com/ZMabc/')).toBe(true);
+  });
+
+  it('does not match a platform host inside another host name', () => {
+    expect(found(
+      'https://netflix.com/user/status/1 box.com/user/status/2 https://notinstagram.com/p/abc '
+      + 'https://my-tiktok.com/@a/video/1 https://fakelinkedin.com/posts/a'
+    )).toEqual([]);
+  });
+
+  it('ignores profiles and other pages', () => {
+    expect(found('https://x.com/jack https://instagram.com/ada https://www.linkedin.com/in/ada')).toEqual([]);
+  });
+});
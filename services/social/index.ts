@@ -0,0 +1,154 @@
+/**
+ * Social Sources
+ *
+ * Posts from Instagram, TikTok, Threads, X and LinkedIn pasted into the topic:
+ * each platform (./instagram, ./tiktok...) detects its post URLs and scrapes a post
+ * into the shared SocialPost shape. The providers attach the post's images and
+ * videos where the model accepts them and send its text (caption, author,
+ * engagement, image text) either way.
+ *
+ * SCRAPING: The default scrapers run Apify actors with the user's token (./apify).
+ * setSocialScraper() replaces a platform's scraper (another service, or tests).
+ */
+
+import { SocialPlatform, SocialPlatformId, SocialPost, SocialScraper } from './types';
+import { hasApifyApiKey } from './apify';
+import { instagramPlatform } from './instagram';
+import { tiktokPlatform } from './tiktok';
+import { threadsPlatform } from './threads';
+import { xPlatform } from './x';
+import { linkedinPlatform } from './linkedin';
+
+export type { SocialPlatform, SocialPlatformId, SocialPost, SocialMedia, SocialEngagement, SocialScraper } from './types';
+export { setApifyApiKey, getApifyApiKey, hasApifyApiKey, getApifyApiKeyMasked } from './apify';
+
+export const SOCIAL_PLATFORMS: SocialPlatform[] = [instagramPlatform, tiktokPlatform, threadsPlatform, xPlatform, linkedinPlatform];
+
+// ============================================================================
+// URL DETECTION
+// ============================================================================
+
+export interface SocialUrl {
+  platform: SocialPlatform;
+  url: string;                     // As found in the text (may lack https://)
+}
+
+/**
+ * Extracts social post URLs from text, in the order they appear.
+ */
+export const extractSocialUrls = (text: string): SocialUrl[] =>
+  SOCIAL_PLATFORMS
+    .flatMap(platform => [...text.matchAll(platform.urlRegex)].map(match => ({ platform, url: match[0], index: match.index ?? 0 })))
+    .sort((a, b) => a.index - b.index)
+    .map(({ platform, url }) => ({ platform, url }));
+
+/**
+ * Whether a URL is a post of a supported platform.
+ */
+export const isSocialPostUrl = (url: string): boolean => extractSocialUrls(url).length > 0;
+
+/**
+ * Ensures the https:// prefix.
+ */
+export const normalizeSocialUrl = (url: string): string => {
+  if (!url.startsWith('http')) {
+    return `https://${url}`;
+  }
+  return url;
+};
+
+// ============================================================================
+// SCRAPING
+// ============================================================================
+
+const scraperOverrides: Partial<Record<SocialPlatformId, SocialScraper>> = {};
+
+/**
+ * Replaces how a platform's posts are scraped (null restores the Apify actor).
+ */
+export const setSocialScraper = (platform: SocialPlatformId, scraper: SocialScraper | null): void => {
+  if (scraper) scraperOverrides[platform] = scraper;
+  else delete scraperOverrides[platform];
+};
+
+/**
+ * Whether a post can be scraped: a replacement scraper is set, or the Apify token for the default one.
+ */
+export const canScrapeSocialPost = ({ platform }: SocialUrl): boolean =>
+  !!scraperOverrides[platform.id] || hasApifyApiKey();
+
+/**
+ * Scrapes a post with its platform's scraper.
+ *
+ * @throws Error if the post can't be scraped (private, deleted, missing token...)
+ */
+export const scrapeSocialPost = async ({ platform, url }: SocialUrl, signal?: AbortSignal): Promise<SocialPost> => {
+  const scrape = scraperOverrides[platform.id] ?? platform.scrape;
+  return await scrape(normalizeSocialUrl(url), signal);
+};
+
+// ============================================================================
+// MEDIA DOWNLOAD
+// ============================================================================
+
+/**
+ * Downloads media from URL and returns as Blob
+ * Works in browser using fetch
+ * Used to download post images/videos for upload to the model
+ * Rejects with an AbortError when the signal aborts
+ */
+export const downloadMediaAsBlob = async (url: string, signal?: AbortSignal): Promise<Blob> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download media: ${response.status}`);
+  }
+  return await response.blob();
+};
+
+// ============================================================================
+// TEXT FORMATTING
+// ============================================================================
+
+const getPlatformName = (post: SocialPost): string =>
+  SOCIAL_PLATFORMS.find(platform => platform.id === post.platform)?.name ?? post.platform;
+
+/**
+ * "TikTok video by @user (Name)"
+ */
+export const describeSocialPost = (post: SocialPost): string =>
+  `${getPlatformName(post)} ${post.kind} by @${post.author.username}${post.author.name ? ` (${post.author.name})` : ''}`;
+
+// "1,204 likes, 87 comments"
+const formatEngagement = ({ likes, comments, shares, views }: SocialPost['engagement']): string =>
+  ([[likes, 'likes'], [comments, 'comments'], [shares, 'shares'], [views, 'views']] as [number | undefined, string][])
+    .filter(([count]) => count !== undefined)
+    .map(([count, label]) => `${count!.toLocaleString('en-US')} ${label}`)
+    .join(', ');
+
+/**
+ * Post details that go with attached media: who posted it, how it did, the caption.
+ */
+export const formatSocialPostContext = (post: SocialPost): string => {
+  const engagement = formatEngagement(post.engagement);
+  return `Source: ${describeSocialPost(post)}:\n`
+    + (engagement ? `Engagement: ${engagement}\n` : '')
+    + `Caption: ${post.caption || '(no caption)'}`;
+};
+
+/**
+ * Format a post for the AI prompt (text-only mode): the context plus the text
+ * read from its images, e.g. the slides of an Instagram carousel.
+ */
+export const formatSocialPostForAI = (post: SocialPost): string => {
+  let content = formatSocialPostContext(post);
+
+  const imagesWithAlt = post.media.filter(media => media.alt);
+  if (imagesWithAlt.length > 0) {
+    content += `\n\nSlide contents (text from images):\n`;
+    imagesWithAlt.forEach((media, i) => {
+      content += `Slide ${i + 1}: ${media.alt}\n`;
+    });
+  }
+
+  return content;
+};
@@ -0,0 +1,57 @@
+/**
+ * Instagram
+ *
+ * Posts, carousels ("Sidecar") and Reels via the Instagram Post Scraper actor.
+ * Carousel slides come with the text Instagram read from each image (alt), which
+ * is what reaches the model when the images can't be attached.
+ */
+
+import { SocialMedia, SocialPlatform, SocialPost } from './types';
+import { runApifyActor, firstNumber, firstString, compactEngagement } from './apify';
+
+/**
+ * Supports:
+ * - instagram.com/p/XXXXX (posts)
+ * - instagram.com/reel/XXXXX (reels)
+ * - instagram.com/reels/XXXXX (reels alternate)
+ * - With or without https://, www., query params
+ */
+const INSTAGRAM_URL_REGEX = /(?<![\w.-])(?:https?:\/\/)?(?:www\.)?instagram\.com\/(?:p|reel|reels)\/[a-zA-Z0-9_-]+/g;
+
+const APIFY_ACTOR_ID = 'nH2AHrwxeTRJoN5hX'; // Instagram Post Scraper
+
+const KINDS: Record<string, string> = { Sidecar: 'carousel', Video: 'Reel', Image: 'post' };
+
+const toPost = (item: any, url: string): SocialPost => {
+  const isVideo = item.type === 'Video' && item.videoUrl;
+  const childAlts: string[] = (item.childPosts || []).map((child: any) => child.alt || '');
+  const images: string[] = item.images?.length ? item.images : item.displayUrl ? [item.displayUrl] : [];
+  const media: SocialMedia[] = isVideo
+    ? [{ type: 'video', url: item.videoUrl }]
+    : images.map((imageUrl, i) => ({ type: 'image', url: imageUrl, ...(childAlts[i] ? { alt: childAlts[i] } : {}) }));
+
+  return {
+    platform: 'instagram',
+    url,
+    kind: KINDS[item.type] || 'post',
+    caption: item.caption || '',
+    author: { username: item.ownerUsername || 'unknown', name: firstString(item.ownerFullName) },
+    media,
+    engagement: compactEngagement({
+      likes: firstNumber(item.likesCount),
+      comments: firstNumber(item.commentsCount),
+      views: firstNumber(item.videoViewCount, item.videoPlayCount)
+    }),
+    publishedAt: firstString(item.timestamp)
+  };
+};
+
+export const instagramPlatform: SocialPlatform = {
+  id: 'instagram',
+  name: 'Instagram',
+  urlRegex: INSTAGRAM_URL_REGEX,
+  scrape: async (url, signal) => {
+    const items = await runApifyActor(APIFY_ACTOR_ID, { username: [url], resultsLimit: 1 }, 'Instagram', signal);
+    return toPost(items[0], url);
+  }
+};
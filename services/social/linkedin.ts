@@ -0,0 +1,62 @@
+/**
+ * LinkedIn
+ *
+ * Public posts via a LinkedIn post scraper actor. Document posts (PDF carousels)
+ * come back as their page images.
+ */
+
+import { SocialMedia, SocialPlatform, SocialPost } from './types';
+import { runApifyActor, firstNumber, firstString, compactEngagement } from './apify';
+
+/**
+ * Supports:
+ * - linkedin.com/posts/user_slug-activity-123-abcd
+ * - linkedin.com/feed/update/urn:li:activity:123 (also share: and ugcPost:)
+ * Articles (linkedin.com/pulse/...) are web pages, read by services/articleService.
+ */
+const LINKEDIN_URL_REGEX = /(?<![\w.-])(?:https?:\/\/)?(?:www\.)?linkedin\.com\/(?:posts\/[\w%-]+|feed\/update\/urn:li:(?:activity|share|ugcPost):\d+)/g;
+
+const APIFY_ACTOR_ID = 'supreme_coder~linkedin-post';
+
+const toPost = (item: any, url: string): SocialPost => {
+  const images: string[] = (item.images || item.document?.pages || [])
+    .map((image: any) => (typeof image === 'string' ? image : firstString(image.url, image.imageUrl)))
+    .filter(Boolean);
+  const videoUrl = firstString(item.video?.url, item.videoUrl);
+  const media: SocialMedia[] = videoUrl
+    ? [{ type: 'video', url: videoUrl }]
+    : images.map(imageUrl => ({ type: 'image', url: imageUrl }));
+  const name = firstString(
+    item.authorName,
+    [item.author?.firstName, item.author?.lastName].filter(Boolean).join(' '),
+    item.author?.name
+  );
+
+  return {
+    platform: 'linkedin',
+    url,
+    kind: item.document ? 'document post' : 'post',
+    caption: item.text || '',
+    author: {
+      username: firstString(item.author?.publicId, item.authorProfileId, item.author?.username) || name || 'unknown',
+      name
+    },
+    media,
+    engagement: compactEngagement({
+      likes: firstNumber(item.numLikes, item.likesCount),
+      comments: firstNumber(item.numComments, item.commentsCount),
+      shares: firstNumber(item.numShares, item.repostsCount)
+    }),
+    publishedAt: firstString(item.postedAtISO, item.postedAt)
+  };
+};
+
+export const linkedinPlatform: SocialPlatform = {
+  id: 'linkedin',
+  name: 'LinkedIn',
+  urlRegex: LINKEDIN_URL_REGEX,
+  scrape: async (url, signal) => {
+    const items = await runApifyActor(APIFY_ACTOR_ID, { urls: [url], limitPerSource: 1 }, 'LinkedIn', signal);
+    return toPost(items[0], url);
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * Threads
+ *
+ * Posts via a Threads post scraper actor. Items follow the Threads API shape
+ * (caption.text, image_versions2, carousel_media, video_versions).
+ */
+
+import { SocialMedia, SocialPlatform, SocialPost } from './types';
+import { runApifyActor, firstNumber, firstString, compactEngagement } from './apify';
+
+/**
+ * Supports threads.net and threads.com post links: threads.net/@user/post/XXXX
+ */
+const THREADS_URL_REGEX = /(?<![\w.-])(?:https?:\/\/)?(?:www\.)?threads\.(?:net|com)\/@[\w.]+\/post\/[\w-]+/g;
+
+const APIFY_ACTOR_ID = 'curious_coder~threads-scraper';
+
+// Largest rendition of one media item
+const toMedia = (entry: any): SocialMedia | null => {
+  const videoUrl = firstString(entry.video_versions?.[0]?.url);
+  if (videoUrl) return { type: 'video', url: videoUrl };
+  const imageUrl = firstString(entry.image_versions2?.candidates?.[0]?.url);
+  return imageUrl ? { type: 'image', url: imageUrl, ...(entry.accessibility_caption ? { alt: entry.accessibility_caption } : {}) } : null;
+};
+
+const toPost = (item: any, url: string): SocialPost => {
+  const post = item.post || item.thread_items?.[0]?.post || item;
+  const entries: any[] = post.carousel_media?.length ? post.carousel_media : [post];
+  const takenAt = firstNumber(post.taken_at);
+
+  return {
+    platform: 'threads',
+    url,
+    kind: post.carousel_media?.length ? 'carousel' : 'post',
+    caption: firstString(post.caption?.text, post.text, item.text) || '',
+    author: {
+      username: firstString(post.user?.username, item.username) || 'unknown',
+      name: firstString(post.user?.full_name)
+    },
+    media: entries.map(toMedia).filter((media): media is SocialMedia => !!media),
+    engagement: compactEngagement({
+      likes: firstNumber(post.like_count, item.likeCount),
+      comments: firstNumber(post.text_post_app_info?.direct_reply_count, item.replyCount),
+      shares: firstNumber(post.text_post_app_info?.repost_count, item.repostCount)
+    }),
+    publishedAt: takenAt ? new Date(takenAt * 1000).toISOString() : undefined
+  };
+};
+
+export const threadsPlatform: SocialPlatform = {
+  id: 'threads',
+  name: 'Threads',
+  urlRegex: THREADS_URL_REGEX,
+  scrape: async (url, signal) => {
+    const items = await runApifyActor(APIFY_ACTOR_ID, { urls: [url], maxItems: 1 }, 'Threads', signal);
+    return toPost(items[0], url);
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * TikTok
+ *
+ * Videos and photo slideshows via the TikTok Scraper actor (clockworks). Videos are
+ * downloaded by the actor, so their URLs can be fetched from the browser.
+ */
+
+import { SocialMedia, SocialPlatform, SocialPost } from './types';
+import { runApifyActor, firstNumber, firstString, compactEngagement } from './apify';
+
+/**
+ * Supports:
+ * - tiktok.com/@user/video/123 and /photo/123 (slideshows)
+ * - Short links: vm.tiktok.com/XXXX, tiktok.com/t/XXXX
+ */
+const TIKTOK_URL_REGEX = /(?<![\w.-])(?:https?:\/\/)?(?:(?:www\.|m\.)?tiktok\.com\/(?:@[\w.-]+\/(?:video|photo)\/\d+|t\/[\w-]+)|vm\.tiktok\.com\/[\w-]+)/g;
+
+const APIFY_ACTOR_ID = 'clockworks~tiktok-scraper';
+
+const toPost = (item: any, url: string): SocialPost => {
+  const slideshow: string[] = (item.slideshowImageLinks || [])
+    .map((image: any) => firstString(image.downloadLink, image.tiktokLink))
+    .filter(Boolean);
+  const videoUrl = firstString(item.mediaUrls?.[0], item.videoMeta?.downloadAddr);
+  const coverUrl = firstString(item.videoMeta?.coverUrl, item.videoMeta?.originalCoverUrl);
+  const media: SocialMedia[] = slideshow.length > 0
+    ? slideshow.map(imageUrl => ({ type: 'image', url: imageUrl }))
+    : videoUrl ? [{ type: 'video', url: videoUrl }]
+      : coverUrl ? [{ type: 'image', url: coverUrl }] : [];
+
+  return {
+    platform: 'tiktok',
+    url,
+    kind: slideshow.length > 0 ? 'photo slideshow' : 'video',
+    caption: item.text || '',
+    author: { username: firstString(item.authorMeta?.name) || 'unknown', name: firstString(item.authorMeta?.nickName) },
+    media,
+    engagement: compactEngagement({
+      likes: firstNumber(item.diggCount),
+      comments: firstNumber(item.commentCount),
+      shares: firstNumber(item.shareCount),
+      views: firstNumber(item.playCount)
+    }),
+    publishedAt: firstString(item.createTimeISO)
+  };
+};
+
+export const tiktokPlatform: SocialPlatform = {
+  id: 'tiktok',
+  name: 'TikTok',
+  urlRegex: TIKTOK_URL_REGEX,
+  scrape: async (url, signal) => {
+    const items = await runApifyActor(
+      APIFY_ACTOR_ID,
+      { postURLs: [url], resultsPerPage: 1, shouldDownloadVideos: true, shouldDownloadCovers: true, shouldDownloadSlideshowImages: true },
+      'TikTok',
+      signal
+    );
+    return toPost(items[0], url);
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * Social Source Types
+ *
+ * The shape every supported platform's posts are normalized to, and the contract
+ * each platform implements (URL detection + scraper). The providers turn a post
+ * into prompt text and, where they can, attach its images and videos.
+ */
+
+// ============================================================================
+// POSTS
+// ============================================================================
+
+export type SocialPlatformId = 'instagram' | 'tiktok' | 'threads' | 'x' | 'linkedin';
+
+export interface SocialMedia {
+  type: 'image' | 'video';
+  url: string;                     // Direct media URL (CDN links may expire - download right away)
+  alt?: string;                    // Alt text, or text read from the image (Instagram OCR)
+}
+
+/**
+ * Counts as the platform reports them; missing when the scraper didn't return them.
+ */
+export interface SocialEngagement {
+  likes?: number;
+  comments?: number;
+  shares?: number;                 // Shares, reposts or retweets
+  views?: number;
+}
+
+export interface SocialPost {
+  platform: SocialPlatformId;
+  url: string;
+  kind: string;                    // What the platform calls it, e.g. "Reel", "carousel", "video", "post"
+  caption: string;                 // Post text
+  author: {
+    username: string;              // Handle without the "@"
+    name?: string;                 // Display name
+  };
+  media: SocialMedia[];
+  engagement: SocialEngagement;
+  publishedAt?: string;            // ISO timestamp, when known
+}
+
+// ============================================================================
+// PLATFORMS
+// ============================================================================
+
+/**
+ * Fetches one post. Rejects with an AbortError when the signal aborts.
+ */
+export type SocialScraper = (url: string, signal?: AbortSignal) => Promise<SocialPost>;
+
+export interface SocialPlatform {
+  id: SocialPlatformId;
+  name: string;                    // Shown in prompts and logs, e.g. "TikTok"
+  urlRegex: RegExp;                // Post URLs (global flag); profiles and other pages don't match
+  scrape: SocialScraper;           // Default scraper (an Apify actor)
+}
@@ -0,0 +1,59 @@
+/**
+ * X (Twitter)
+ *
+ * Posts via the Tweet Scraper actor (apidojo). Photos are attached at full size;
+ * videos and GIFs use their highest-bitrate MP4.
+ */
+
+import { SocialMedia, SocialPlatform, SocialPost } from './types';
+import { runApifyActor, firstNumber, firstString, compactEngagement } from './apify';
+
+/**
+ * Supports x.com and twitter.com status links (www. and mobile. too).
+ * The host must not continue another name ("netflix.com/user/status/1").
+ */
+const X_URL_REGEX = /(?<![\w.-])(?:https?:\/\/)?(?:www\.|mobile\.)?(?:x|twitter)\.com\/\w+\/status\/\d+/g;
+
+const APIFY_ACTOR_ID = 'apidojo~tweet-scraper';
+
+const toMedia = (entity: any): SocialMedia | null => {
+  if (entity.type === 'video' || entity.type === 'animated_gif') {
+    const mp4 = (entity.video_info?.variants || [])
+      .filter((variant: any) => variant.content_type === 'video/mp4')
+      .sort((a: any, b: any) => (b.bitrate || 0) - (a.bitrate || 0))[0];
+    return mp4 ? { type: 'video', url: mp4.url } : null;
+  }
+  const url = firstString(entity.media_url_https, entity.media_url);
+  return url ? { type: 'image', url, ...(entity.ext_alt_text ? { alt: entity.ext_alt_text } : {}) } : null;
+};
+
+const toPost = (item: any, url: string): SocialPost => ({
+  platform: 'x',
+  url,
+  kind: 'post',
+  caption: firstString(item.fullText, item.text) || '',
+  author: {
+    username: firstString(item.author?.userName, item.author?.screen_name) || 'unknown',
+    name: firstString(item.author?.name)
+  },
+  media: (item.extendedEntities?.media || item.media || [])
+    .map((entity: any) => (typeof entity === 'string' ? { type: 'image', url: entity } : toMedia(entity)))
+    .filter(Boolean),
+  engagement: compactEngagement({
+    likes: firstNumber(item.likeCount),
+    comments: firstNumber(item.replyCount),
+    shares: firstNumber(item.retweetCount),
+    views: firstNumber(item.viewCount)
+  }),
+  publishedAt: firstString(item.createdAt)
+});
+
+export const xPlatform: SocialPlatform = {
+  id: 'x',
+  name: 'X',
+  urlRegex: X_URL_REGEX,
+  scrape: async (url, signal) => {
+    const items = await runApifyActor(APIFY_ACTOR_ID, { startUrls: [url], maxItems: 1 }, 'X', signal);
+    return toPost(items[0], url);
+  }
+};
@@ -0,0 +1,314 @@
+/**
+ * Usage Ledger
+ *
+ * Records every AI call made through services/geminiService: model, token counts
+ * from the API's usage metadata, images generated, files uploaded and an estimated
+ * cost. Entries are stored in IndexedDB (services/projectStorage) and attributed to
+ * the project open in the Workspace, for the usage dashboard.
+ *
+ * COSTS are estimates from list prices (MODEL_PRICES). Models without a price
+ * (custom OpenAI-compatible models, the mock provider) are counted at $0.
+ *
+ * MONTHLY BUDGET (optional, localStorage): before each call, checkBudget() asks for
+ * confirmation once the month's spending reaches 80% of it, and again once it is
+ * exceeded. Declining cancels the call with an AbortError.
+ */
+
+import { UsageEntry } from '../types';
+import { TokenUsage } from './providers';
+import { addUsageEntry, listUsageEntries, clearUsageEntries } from './projectStorage';
+
+// ============================================================================
+// PRICES
+// ============================================================================
+
+/**
+ * USD per million tokens. Image models bill their output (the image) as tokens;
+ * `perImage` is used instead when the API doesn't report output tokens.
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+  perImage?: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  // Gemini
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120, perImage: 0.134 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30, perImage: 0.039 },
+  // OpenAI
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-image-1': { input: 5, output: 40, perImage: 0.042 },
+  'gpt-image-1-mini': { input: 2, output: 8, perImage: 0.011 }
+};
+
+/**
+ * Price for a model id. Dated snapshots ("gpt-4.1-2025-04-14") use the price of
+ * the longest known id they start with.
+ */
+const getModelPrice = (model: string): ModelPrice | undefined => {
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+  const base = Object.keys(MODEL_PRICES)
+    .filter(id => model.startsWith(`${id}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? MODEL_PRICES[base] : undefined;
+};
+
+/**
+ * Estimated USD cost of a call.
+ */
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  const output = usage.outputTokens > 0 || !price.perImage
+    ? usage.outputTokens * price.output / 1_000_000
+    : usage.images * price.perImage;
+  return usage.inputTokens * price.input / 1_000_000 + output;
+};
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+// Project open in the Workspace; its calls are attributed to it
+let activeProjectId: string | null = null;
+
+/**
+ * Sets the project new calls are attributed to (null when no project is open).
+ */
+export const setUsageProject = (projectId: string | null): void => {
+  activeProjectId = projectId;
+};
+
+export const createEmptyUsage = (): TokenUsage => ({ inputTokens: 0, outputTokens: 0, images: 0, files: 0 });
+
+/**
+ * Adds a provider usage report to a running total (in place).
+ */
+export const addUsage = (total: TokenUsage, usage: Partial<TokenUsage>): void => {
+  total.inputTokens += usage.inputTokens ?? 0;
+  total.outputTokens += usage.outputTokens ?? 0;
+  total.images += usage.images ?? 0;
+  total.files += usage.files ?? 0;
+};
+
+const hasUsage = (usage: TokenUsage): boolean =>
+  usage.inputTokens + usage.outputTokens + usage.images + usage.files > 0;
+
+/**
+ * Writes a call to the ledger. Calls that reported nothing (e.g. rejected before
+ * reaching the model) are not recorded. Storage errors are logged, never thrown.
+ */
+export const recordUsage = (details: {
+  provider: string;
+  operation: string;
+  model: string;
+  usage: TokenUsage;
+  failed?: boolean;
+}): void => {
+  const { usage, failed, ...call } = details;
+  if (!hasUsage(usage)) return;
+
+  const entry: UsageEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...(activeProjectId ? { projectId: activeProjectId } : {}),
+    ...call,
+    ...usage,
+    cost: estimateCost(call.model, usage),
+    ...(failed ? { failed } : {})
+  };
+
+  if (monthSpend?.month === monthKey(entry.timestamp)) monthSpend.cost += entry.cost;
+  addUsageEntry(entry).catch(error => console.error('Failed to record AI usage:', error));
+};
+
+/**
+ * Runs one provider call and records what it reported, whether it succeeds or fails.
+ */
+export const trackUsage = async <T>(
+  details: { provider: string; operation: string; model: string },
+  run: (onUsage: (usage: Partial<TokenUsage>) => void) => Promise<T>
+): Promise<T> => {
+  const usage = createEmptyUsage();
+  try {
+    const result = await run(report => addUsage(usage, report));
+    recordUsage({ ...details, usage });
+    return result;
+  } catch (error) {
+    recordUsage({ ...details, usage, failed: true });
+    throw error;
+  }
+};
+
+// ============================================================================
+// MONTHLY BUDGET
+// ============================================================================
+
+const BUDGET_STORAGE = 'usage_monthly_budget';
+
+// Share of the budget at which the first warning is shown
+const BUDGET_WARNING_RATIO = 0.8;
+
+// After a declined warning, further calls are cancelled without asking again for a
+// while, so a batch or a multi-variant request doesn't show one dialog per call
+const DECLINE_COOLDOWN_MS = 30_000;
+
+// "2026-10" for an ISO timestamp, in local time
+const monthKey = (iso: string): string => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Month-to-date spending, loaded from the ledger on first use and kept up to date by recordUsage
+let monthSpend: { month: string; cost: number } | null = null;
+
+// Warnings already accepted this session ("2026-10:warning", "2026-10:exceeded")
+const acceptedWarnings = new Set<string>();
+let declinedAt = 0;
+
+/**
+ * Monthly budget in USD, or null when none is set.
+ */
+export const getMonthlyBudget = (): number | null => {
+  const budget = Number(localStorage.getItem(BUDGET_STORAGE));
+  return budget > 0 ? budget : null;
+};
+
+/**
+ * Sets (or with null, removes) the monthly budget. Warnings are shown again for the new amount.
+ */
+export const setMonthlyBudget = (budget: number | null): void => {
+  if (budget && budget > 0) localStorage.setItem(BUDGET_STORAGE, String(budget));
+  else localStorage.removeItem(BUDGET_STORAGE);
+  acceptedWarnings.clear();
+  declinedAt = 0;
+};
+
+/**
+ * First moment of the current month (local time), as an ISO timestamp.
+ */
+export const getMonthStart = (): string => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+};
+
+/**
+ * Estimated spending since the start of the month.
+ */
+export const getMonthToDateCost = async (): Promise<number> => {
+  const month = monthKey(new Date().toISOString());
+  if (monthSpend?.month !== month) {
+    const entries = await listUsageEntries(getMonthStart());
+    monthSpend = { month, cost: entries.reduce((sum, entry) => sum + entry.cost, 0) };
+  }
+  return monthSpend.cost;
+};
+
+export const formatCost = (cost: number): string =>
+  `$${cost < 1 && cost > 0 ? cost.toFixed(3) : cost.toFixed(2)}`;
+
+/**
+ * Called before every AI call. When a budget is set and the month's spending has
+ * reached the warning level, asks whether to continue (once per level per session).
+ *
+ * @throws AbortError if the user declines
+ */
+export const checkBudget = async (operation: string): Promise<void> => {
+  const budget = getMonthlyBudget();
+  if (!budget) return;
+
+  let spent: number;
+  try {
+    spent = await getMonthToDateCost();
+  } catch (error) {
+    // A broken ledger shouldn't block AI features
+    console.error('Failed to read AI usage for the budget check:', error);
+    return;
+  }
+
+  const level = spent >= budget ? 'exceeded' : spent >= budget * BUDGET_WARNING_RATIO ? 'warning' : null;
+  if (!level) return;
+  const key = `${monthKey(new Date().toISOString())}:${level}`;
+  if (acceptedWarnings.has(key)) return;
+
+  if (Date.now() - declinedAt < DECLINE_COOLDOWN_MS) {
+    throw new DOMException('Monthly AI budget reached', 'AbortError');
+  }
+
+  const summary = `${formatCost(spent)} of your ${formatCost(budget)} monthly AI budget`;
+  const message = level === 'exceeded'
+    ? `You have spent an estimated ${summary}.\n\nContinue with "${operation}" anyway?`
+    : `You have used an estimated ${summary} (${Math.round(spent / budget * 100)}%).\n\nContinue with "${operation}"?`;
+
+  if (!window.confirm(message)) {
+    declinedAt = Date.now();
+    throw new DOMException('Monthly AI budget reached', 'AbortError');
+  }
+  acceptedWarnings.add(key);
+};
+
+// ============================================================================
+// DASHBOARD
+// ============================================================================
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  files: number;
+  cost: number;
+}
+
+export const sumUsage = (entries: UsageEntry[]): UsageTotals =>
+  entries.reduce<UsageTotals>(
+    (totals, entry) => ({
+      calls: totals.calls + 1,
+      inputTokens: totals.inputTokens + entry.inputTokens,
+      outputTokens: totals.outputTokens + entry.outputTokens,
+      images: totals.images + entry.images,
+      files: totals.files + entry.files,
+      cost: totals.cost + entry.cost
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, files: 0, cost: 0 }
+  );
+
+/**
+ * Totals per group, most expensive first (ties: most calls first).
+ */
+export const groupUsage = (
+  entries: UsageEntry[],
+  keyOf: (entry: UsageEntry) => string
+): { key: string; totals: UsageTotals }[] => {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, totals: sumUsage(group) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.calls - a.totals.calls);
+};
+
+// "2026-10-19" for an ISO timestamp, in local time
+export const dayKey = (iso: string): string => {
+  const date = new Date(iso);
+  return `${monthKey(iso)}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Ledger entries since the given ISO timestamp (all of them without one).
+ */
+export const listUsage = (since?: string): Promise<UsageEntry[]> => listUsageEntries(since);
+
+/**
+ * Deletes the whole ledger (the budget setting is kept).
+ */
+export const clearUsage = async (): Promise<void> => {
+  await clearUsageEntries();
+  monthSpend = null;
+  acceptedWarnings.clear();
+};
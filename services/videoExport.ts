@@ -0,0 +1,539 @@
+/**
+ * Video Export Service
+ *
+ * Turns captured slides into a short MP4 or GIF for Reels / TikTok.
+ *
+ * PIPELINE:
+ * 1. Slides are captured offscreen by exportService (same PNGs as the ZIP export)
+ * 2. A timeline is built from per-slide durations and transitions
+ * 3. Frames are drawn on a canvas (transitions, Ken Burns motion)
+ * 4. Frames are encoded in the browser:
+ *    - MP4: WebCodecs VideoEncoder (H.264) + optional audio (AAC, or Opus as fallback),
+ *      muxed with mp4-muxer
+ *    - GIF: gifenc, at half resolution and a lower frame rate to keep files small.
+ *      Still parts of the timeline become a single long frame.
+ *
+ * TRANSITIONS (applied when entering a slide):
+ * - cut: Hard switch
+ * - crossfade: Previous slide fades into the next
+ * - slide-left: Next slide pushes the previous one out to the left
+ * - ken-burns: Crossfade, then a slow zoom/pan inside the slide image's box
+ *   (imageUrl). The captured pixels are zoomed, so the image keeps its crop
+ *   (object-position). Slides without an image, or with anything drawn over
+ *   it (gradient fade, overlay text), zoom as a whole.
+ */
+
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { ExportProgress } from './exportService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VideoFormat = 'mp4' | 'gif';
+export type VideoTransition = 'cut' | 'crossfade' | 'slide-left' | 'ken-burns';
+
+export const VIDEO_TRANSITION_LABELS: Record<VideoTransition, string> = {
+  'cut': 'Cut',
+  'crossfade': 'Crossfade',
+  'slide-left': 'Slide Left',
+  'ken-burns': 'Ken Burns'
+};
+
+/**
+ * Where the slide image (imageUrl) sits on the captured slide, for Ken Burns.
+ * Read from the mounted slide during capture (slide pixels).
+ */
+export interface VideoImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  borderRadius: number;
+}
+
+export interface VideoSlideTiming {
+  duration: number;                  // Seconds on screen (including the transition in)
+  transition: VideoTransition;       // Transition when entering this slide (ignored for the first)
+}
+
+export interface VideoSlide extends VideoSlideTiming {
+  dataUrl: string;                   // Captured slide PNG
+  imageRegion: VideoImageRegion | null;
+}
+
+export interface VideoExportOptions {
+  format: VideoFormat;
+  width: number;                     // Slide size in pixels
+  height: number;
+  audio?: File | null;               // MP4 only
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+// Frame rates: MP4 is smooth, GIF trades smoothness for file size
+const MP4_FPS = 30;
+const GIF_FPS = 10;
+const GIF_SCALE = 0.5;
+
+const MP4_BITRATE = 8_000_000;
+const AUDIO_BITRATE = 128_000;
+const AUDIO_SAMPLE_RATE = 48000;    // Opus only supports 48kHz; AAC handles it too
+const AUDIO_FADE_OUT_SECONDS = 1;
+
+// Keyframe every 2 seconds so players can seek
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+// Maximum transition length; short slides use half their duration instead
+const TRANSITION_SECONDS = 0.5;
+
+// Ken Burns zooms from 100% to this scale over the slide
+const KEN_BURNS_ZOOM = 1.12;
+
+// H.264 profiles to try, best first. Level 5.2 covers 1080x1920; 4.0 is a fallback.
+const AVC_CODECS = ['avc1.640034', 'avc1.4d0034', 'avc1.42e034', 'avc1.640028', 'avc1.4d0028'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+// Video encoders require even dimensions (e.g. 16:9 is 1080x607.5)
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * True when this browser can encode MP4 (WebCodecs). GIF works everywhere.
+ */
+export const isMp4ExportSupported = (): boolean =>
+  typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+const loadBitmap = async (src: string): Promise<ImageBitmap> => {
+  const response = await fetch(src);
+  return await createImageBitmap(await response.blob());
+};
+
+const intersects = (a: DOMRect, b: DOMRect) =>
+  a.left < b.right - 1 && b.left < a.right - 1 && a.top < b.bottom - 1 && b.top < a.bottom - 1;
+
+/**
+ * Whether an element draws anything: text, a background, or replaced content.
+ */
+const paintsSomething = (el: Element): boolean => {
+  const style = getComputedStyle(el);
+  if (style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0) return false;
+  if (el.hasAttribute('data-gradient-overlay')) return true;
+  if (['IMG', 'SVG', 'CANVAS', 'VIDEO'].includes(el.tagName.toUpperCase())) return true;
+  if (style.backgroundImage !== 'none') return true;
+  if (!/^(transparent|rgba\(.*,\s*0\))$/.test(style.backgroundColor)) return true;
+  return Array.from(el.childNodes).some(node => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim());
+};
+
+/**
+ * Finds the slide image (imageUrl) in a mounted slide, for Ken Burns.
+ * Returns null when the slide has no visible image, or when something is
+ * drawn over it (the slide then zooms as a whole). Elements after the image
+ * in document order are the ones stacked above it.
+ *
+ * @param element - Mounted slide (exportService collect callback)
+ * @param imageUrl - The slide's imageUrl
+ */
+export const findImageRegion = (element: HTMLElement, imageUrl: string | undefined): VideoImageRegion | null => {
+  if (!imageUrl) return null;
+
+  const img = Array.from(element.querySelectorAll('img')).find(candidate => candidate.getAttribute('src') === imageUrl);
+  if (!img) return null;
+
+  const bounds = element.getBoundingClientRect();
+  const rect = img.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return null;
+
+  const covered = Array.from(element.querySelectorAll('*')).some(el =>
+    el !== img
+    && !el.contains(img)
+    && !!(img.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_FOLLOWING)
+    && intersects(el.getBoundingClientRect(), rect)
+    && paintsSomething(el)
+  );
+  if (covered) return null;
+
+  // Rounded corners usually sit on the wrapper that clips the image
+  const radius = parseFloat(getComputedStyle(img).borderTopLeftRadius)
+    || (img.parentElement ? parseFloat(getComputedStyle(img.parentElement).borderTopLeftRadius) : 0)
+    || 0;
+
+  return {
+    x: rect.left - bounds.left,
+    y: rect.top - bounds.top,
+    width: rect.width,
+    height: rect.height,
+    borderRadius: radius
+  };
+};
+
+// ============================================================================
+// FRAME DRAWING
+// ============================================================================
+
+interface LoadedSlide {
+  frame: ImageBitmap;
+  region: VideoImageRegion | null;   // Image box zoomed by Ken Burns
+  start: number;                     // Seconds
+  duration: number;
+  transition: VideoTransition;
+  transitionLength: number;          // 0 for cuts and the first slide
+}
+
+/**
+ * Draws one slide at `progress` (0-1 through its duration).
+ * Coordinates are in slide pixels; the caller scales the context for GIFs.
+ */
+const drawSlide = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, slide: LoadedSlide, progress: number, index: number, width: number, height: number) => {
+  if (slide.transition !== 'ken-burns') {
+    ctx.drawImage(slide.frame, 0, 0, width, height);
+    return;
+  }
+
+  const zoom = 1 + (KEN_BURNS_ZOOM - 1) * progress;
+  // Alternate the pan direction so consecutive slides don't drift the same way
+  const pan = (index % 2 === 0 ? 1 : -1) * (progress - 0.5);
+
+  if (!slide.region) {
+    // No image (or something over it): zoom the whole slide
+    ctx.save();
+    ctx.translate(width / 2 + pan * width * 0.03, height / 2);
+    ctx.scale(zoom, zoom);
+    ctx.drawImage(slide.frame, -width / 2, -height / 2, width, height);
+    ctx.restore();
+    return;
+  }
+
+  ctx.drawImage(slide.frame, 0, 0, width, height);
+
+  // Redraw the image box from the captured pixels, zoomed into a smaller source
+  // area that pans within the box (at progress 0 it is the box itself)
+  const { x, y, width: boxWidth, height: boxHeight, borderRadius } = slide.region;
+  const frameScale = slide.frame.width / width;
+  const sourceWidth = boxWidth / zoom;
+  const sourceHeight = boxHeight / zoom;
+  const slack = (boxWidth - sourceWidth) / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(x, y, boxWidth, boxHeight, borderRadius);
+  ctx.clip();
+  ctx.drawImage(
+    slide.frame,
+    (x + slack + pan * 2 * slack) * frameScale,
+    (y + (boxHeight - sourceHeight) / 2) * frameScale,
+    sourceWidth * frameScale,
+    sourceHeight * frameScale,
+    x,
+    y,
+    boxWidth,
+    boxHeight
+  );
+  ctx.restore();
+};
+
+/**
+ * Draws the timeline at time `t` (seconds), including any transition in progress.
+ */
+const drawTimelineFrame = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, slides: LoadedSlide[], t: number, width: number, height: number) => {
+  let index = slides.findIndex(slide => t < slide.start + slide.duration);
+  if (index === -1) index = slides.length - 1;
+
+  const slide = slides[index];
+  const local = t - slide.start;
+  const progress = Math.min(1, local / slide.duration);
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+
+  if (index === 0 || local >= slide.transitionLength) {
+    drawSlide(ctx, slide, progress, index, width, height);
+    return;
+  }
+
+  // Transition from the previous slide (frozen at its last frame)
+  const previous = slides[index - 1];
+  const amount = smoothstep(local / slide.transitionLength);
+
+  if (slide.transition === 'slide-left') {
+    ctx.save();
+    ctx.translate(-amount * width, 0);
+    drawSlide(ctx, previous, 1, index - 1, width, height);
+    ctx.translate(width, 0);
+    drawSlide(ctx, slide, progress, index, width, height);
+    ctx.restore();
+    return;
+  }
+
+  // crossfade / ken-burns
+  drawSlide(ctx, previous, 1, index - 1, width, height);
+  ctx.globalAlpha = amount;
+  drawSlide(ctx, slide, progress, index, width, height);
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * True when nothing moves during [from, to) - used to collapse GIF frames.
+ */
+const isStillSpan = (slide: LoadedSlide, index: number, local: number) =>
+  slide.transition !== 'ken-burns' && (index === 0 || local >= slide.transitionLength);
+
+// ============================================================================
+// AUDIO
+// ============================================================================
+
+/**
+ * Decodes an uploaded audio file at the encoder sample rate.
+ */
+const decodeAudioFile = async (file: File): Promise<AudioBuffer> => {
+  const context = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Picks the first audio codec this browser can encode (AAC preferred, Opus fallback).
+ */
+const pickAudioCodec = async (numberOfChannels: number): Promise<{ codec: string; muxerCodec: 'aac' | 'opus' } | null> => {
+  if (typeof AudioEncoder === 'undefined') return null;
+
+  for (const candidate of [{ codec: 'mp4a.40.2', muxerCodec: 'aac' as const }, { codec: 'opus', muxerCodec: 'opus' as const }]) {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: candidate.codec,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels,
+      bitrate: AUDIO_BITRATE
+    });
+    if (supported) return candidate;
+  }
+  return null;
+};
+
+/**
+ * Encodes the audio track, trimmed to the video length with a short fade-out.
+ */
+const encodeAudio = async (muxer: Muxer<ArrayBufferTarget>, buffer: AudioBuffer, codec: string, numberOfChannels: number, durationSeconds: number) => {
+  let encoderError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (err) => { encoderError = err; }
+  });
+  encoder.configure({ codec, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels, bitrate: AUDIO_BITRATE });
+
+  const totalFrames = Math.min(buffer.length, Math.floor(durationSeconds * AUDIO_SAMPLE_RATE));
+  const fadeFrames = Math.min(totalFrames, AUDIO_FADE_OUT_SECONDS * AUDIO_SAMPLE_RATE);
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const CHUNK_FRAMES = 4096;
+
+  for (let offset = 0; offset < totalFrames; offset += CHUNK_FRAMES) {
+    const frames = Math.min(CHUNK_FRAMES, totalFrames - offset);
+    const planar = new Float32Array(frames * numberOfChannels);
+
+    channels.forEach((data, c) => {
+      for (let i = 0; i < frames; i++) {
+        const position = offset + i;
+        const fade = Math.min(1, (totalFrames - position) / fadeFrames);
+        planar[c * frames + i] = data[position] * fade;
+      }
+    });
+
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels,
+      timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1_000_000),
+      data: planar
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (encoderError) throw encoderError;
+};
+
+// ============================================================================
+// ENCODERS
+// ============================================================================
+
+const encodeMp4 = async (slides: LoadedSlide[], totalSeconds: number, options: VideoExportOptions): Promise<Blob> => {
+  const { signal, onProgress } = options;
+  const width = toEven(options.width);
+  const height = toEven(options.height);
+
+  // Find a supported H.264 configuration
+  let videoConfig: VideoEncoderConfig | null = null;
+  for (const codec of AVC_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate: MP4_BITRATE, framerate: MP4_FPS };
+    if ((await VideoEncoder.isConfigSupported(config)).supported) {
+      videoConfig = config;
+      break;
+    }
+  }
+  if (!videoConfig) {
+    throw new Error('This browser cannot encode H.264 video. Try the GIF format instead.');
+  }
+
+  // Audio is optional: an unsupported codec or undecodable file fails loudly
+  let audio: { buffer: AudioBuffer; codec: string; muxerCodec: 'aac' | 'opus'; channels: number } | null = null;
+  if (options.audio) {
+    const buffer = await decodeAudioFile(options.audio).catch(() => {
+      throw new Error('The audio file could not be read. Use MP3, M4A, WAV or OGG.');
+    });
+    const channels = Math.min(2, buffer.numberOfChannels);
+    const codec = await pickAudioCodec(channels);
+    if (!codec) throw new Error('This browser cannot encode audio. Remove the audio track and try again.');
+    audio = { buffer, channels, ...codec };
+  }
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'avc', width, height, frameRate: MP4_FPS },
+    audio: audio ? { codec: audio.muxerCodec, numberOfChannels: audio.channels, sampleRate: AUDIO_SAMPLE_RATE } : undefined,
+    fastStart: 'in-memory',
+    firstTimestampBehavior: 'offset'
+  });
+
+  let encoderError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (err) => { encoderError = err; }
+  });
+  encoder.configure(videoConfig);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const frameCount = Math.round(totalSeconds * MP4_FPS);
+  const frameDuration = 1_000_000 / MP4_FPS;
+
+  try {
+    for (let n = 0; n < frameCount; n++) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+
+      drawTimelineFrame(ctx, slides, n / MP4_FPS, width, height);
+
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(n * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(frame, { keyFrame: n % (MP4_FPS * KEYFRAME_INTERVAL_SECONDS) === 0 });
+      frame.close();
+
+      // Backpressure: don't queue more frames than the encoder keeps up with
+      while (encoder.encodeQueueSize > 8) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      onProgress?.({ completed: n + 1, total: frameCount, stage: 'Encoding' });
+    }
+
+    await encoder.flush();
+    if (encoderError) throw encoderError;
+
+    if (audio) {
+      throwIfAborted(signal);
+      await encodeAudio(muxer, audio.buffer, audio.codec, audio.channels, totalSeconds);
+    }
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+};
+
+const encodeGif = async (slides: LoadedSlide[], totalSeconds: number, options: VideoExportOptions): Promise<Blob> => {
+  const { signal, onProgress } = options;
+  const width = Math.round(options.width * GIF_SCALE);
+  const height = Math.round(options.height * GIF_SCALE);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.scale(GIF_SCALE, GIF_SCALE);
+
+  const gif = GIFEncoder();
+  const step = 1 / GIF_FPS;
+  let t = 0;
+
+  while (t < totalSeconds - 1e-6) {
+    throwIfAborted(signal);
+
+    let index = slides.findIndex(slide => t < slide.start + slide.duration);
+    if (index === -1) index = slides.length - 1;
+    const slide = slides[index];
+    const local = t - slide.start;
+
+    drawTimelineFrame(ctx, slides, t, options.width, options.height);
+
+    // Still parts become one frame held until the slide ends
+    const hold = isStillSpan(slide, index, local)
+      ? slide.start + slide.duration - t
+      : Math.min(step, slide.start + slide.duration - t);
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: Math.round(hold * 1000) });
+
+    t += hold;
+    onProgress?.({ completed: Math.round(Math.min(t, totalSeconds) * 10), total: Math.round(totalSeconds * 10), stage: 'Encoding' });
+
+    // Quantizing is CPU-heavy: yield so the progress bar and Cancel stay responsive
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Renders captured slides to an MP4 or GIF.
+ *
+ * @throws AbortError if cancelled; Error with a user-facing message if encoding is unsupported
+ */
+export const renderVideo = async (videoSlides: VideoSlide[], options: VideoExportOptions): Promise<Blob> => {
+  if (options.format === 'mp4' && !isMp4ExportSupported()) {
+    throw new Error('MP4 export needs a browser with WebCodecs (Chrome, Edge or Safari 17+). Try the GIF format instead.');
+  }
+
+  // Build the timeline and decode every frame once up front
+  let start = 0;
+  const slides: LoadedSlide[] = [];
+  for (const [index, slide] of videoSlides.entries()) {
+    throwIfAborted(options.signal);
+
+    slides.push({
+      frame: await loadBitmap(slide.dataUrl),
+      region: slide.imageRegion,
+      start,
+      duration: slide.duration,
+      transition: slide.transition,
+      transitionLength: index === 0 || slide.transition === 'cut'
+        ? 0
+        : Math.min(TRANSITION_SECONDS, slide.duration / 2)
+    });
+    start += slide.duration;
+  }
+
+  try {
+    return options.format === 'mp4'
+      ? await encodeMp4(slides, start, options)
+      : await encodeGif(slides, start, options);
+  } finally {
+    slides.forEach(slide => slide.frame.close());
+  }
+};
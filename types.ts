@@ -21,11 +21,11 @@ export enum SlideType {
 
 /**
  * Visual template/style for the carousel.
- * Each style has its own component (TwitterSlide, StorytellerSlide).
+ * Each style has its own component (TwitterSlide, StorytellerSlide, LessonSlide, AppleNotesSlide).
  */
 export enum CarouselStyle {
   TWITTER = 'TWITTER',           // Tweet screenshot aesthetic (text-focused)
-  APPLE_NOTES = 'APPLE_NOTES',   // Reserved for future implementation
+  APPLE_NOTES = 'APPLE_NOTES',   // Notes-app page with date header and checklists
   STORYTELLER = 'STORYTELLER',   // Cinematic image overlays (image-focused)
   LESSON = 'LESSON'              // Educational content (image top, text below, centered footer)
 }
@@ -68,6 +68,12 @@ export type ContentLayout = 'default' | 'image-after-title' | 'image-first';
  */
 export type TextAlignment = 'left' | 'center' | 'right';
 
+/**
+ * Copywriting framework used to structure AI-generated carousels.
+ * Definitions (prompt guidance, slide-role plans) live in lib/frameworks.ts.
+ */
+export type CopyFramework = 'AIDA' | 'PAS' | 'LISTICLE' | 'TUTORIAL' | 'MYTH_FACT' | 'CASE_STUDY';
+
 // ============================================================================
 // INTERFACES
 // ============================================================================
@@ -79,7 +85,7 @@ export type TextAlignment = 'left' | 'center' | 'right';
  */
 export interface LayoutSettings {
   contentPadding: number;      // 32-96 (px), default 64
-  imageCanvasOffset: number;   // -200 to +200 (px), default 0 (Twitter only) - allows overflow beyond slide
+  imageCanvasOffset: number;   // ±IMAGE_CANVAS_OFFSET_LIMIT (200 px), default 0 (Twitter only) - allows overflow beyond slide
   imageMargin: number;         // 0-32 (px), default 0 (Twitter only)
   textLineHeight: number;      // 1.2-2.0, default 1.5
   paragraphGap: number;        // 0.5-2.0 (rem), default 1
@@ -142,7 +148,7 @@ export interface Slide {
 
   // Per-slide layout overrides (undefined = use global LayoutSettings)
   contentPadding?: number;            // 32-96 (px)
-  imageCanvasOffset?: number;         // -200 to +200 (px), Twitter only
+  imageCanvasOffset?: number;         // ±IMAGE_CANVAS_OFFSET_LIMIT (200 px), Twitter only
   imageMargin?: number;               // 0-32 (px), Twitter only
   textLineHeight?: number;            // 1.2-2.0
   paragraphGap?: number;              // 0.5-2.0 (rem)
@@ -156,16 +162,59 @@ export interface Slide {
 
   // Text alignment (undefined = use global)
   textAlignment?: TextAlignment;      // left, center, right
+
+  // Accessibility
+  altText?: string;                   // Image description for screen readers (alt text when posting)
+
+  // Source documents (generation from several documents)
+  sources?: string[];                 // Names of the documents the slide's content came from
+  timeRange?: string;                 // Part of a transcript (SRT/VTT) the slide summarizes, e.g. "12:30-15:10"
+
+  // Image history (kept in the browser only - stripped from exported JSON files)
+  imageVariants?: ImageVariant[];     // Every image this slide has had, oldest first (see lib/imageVariants.ts)
+}
+
+/**
+ * How an image variant was made.
+ * 'previous' marks an image the slide had before its history was kept.
+ */
+export type ImageVariantSource = 'generate' | 'edit' | 'stylize' | 'upload' | 'previous';
+
+/**
+ * One image in a slide's image history, with what was used to make it,
+ * so earlier results can be compared and restored from the filmstrip.
+ */
+export interface ImageVariant {
+  id: string;
+  imageUrl: string;              // Data URI
+  source: ImageVariantSource;
+  prompt?: string;               // Prompt, edit instructions or stylize prompt (without the global style)
+  model?: string;                // Image model used
+  style?: string;                // Global image style at the time (generated images only)
+  createdAt: string;             // ISO timestamp
+}
+
+/**
+ * Project-level reference image (product photo, mascot, the profile avatar...).
+ * Attached to every slide image request so a recurring subject and palette look
+ * the same across the carousel.
+ */
+export interface ReferenceImage {
+  id: string;
+  name: string;                  // File name or "Profile avatar", shown as a tooltip
+  imageUrl: string;              // Data URI
 }
 
 /**
  * Complete carousel project data.
- * Used for saving/loading projects via JSON export/import.
+ * Used for saving/loading projects via JSON export/import and IndexedDB autosave.
  *
  * Includes all slides, profile info, and global settings so the
  * entire project can be restored exactly as it was.
+ * Older files are upgraded on load by the migrations in services/projectSchema.ts.
  */
 export interface CarouselProject {
+  schemaVersion: number;           // Data format version (see services/projectSchema.ts)
   id: string;                      // Unique project identifier
   name: string;                    // User-friendly project name
   style: CarouselStyle;            // Visual template (Twitter/Storyteller)
@@ -183,24 +232,192 @@ export interface CarouselProject {
   fontStyle: FontStyle;            // Global font family
   fontScale: number;               // Global font size multiplier (0.5-1.5)
   globalImageStyle: string;        // Image generation style prefix
-  layoutSettings?: LayoutSettings; // Global layout settings (padding, spacing, etc.)
+  layoutSettings: LayoutSettings;  // Global layout settings (padding, spacing, etc.)
+
+  // Post copy (published alongside the slides)
+  caption: string;                 // Post caption
+  hashtags: string[];              // Ranked, most relevant first, without the leading "#"
+
+  // AI
+  framework: CopyFramework;        // Structure the slides were generated with (kept by AI refinement)
+  referenceImages: ReferenceImage[];  // Sent with every slide image prompt so the subject stays consistent
+  documentImages: DocumentImage[];    // Extracted from the source document, offered as slide images
 
   // Metadata
   createdAt: string;               // ISO timestamp of creation
   updatedAt: string;               // ISO timestamp of last modification
 }
 
+/**
+ * Named set of brand settings (profile, colors, typography, layout, image style)
+ * applied to a project in one click. Stored in IndexedDB and shared as JSON files;
+ * the file format is validated by services/projectSchema.ts.
+ */
+export interface BrandKit {
+  schemaVersion: number;           // Brand kit format version (see services/projectSchema.ts)
+  id: string;                      // Unique kit identifier
+  name: string;                    // e.g. the client or brand name
+  profile: Profile;                // Creator info shown on the slides
+  theme: Theme;
+  accentColor: string;             // Highlight color (hex)
+  fontStyle: FontStyle;
+  fontScale: number;               // 0.5-1.5
+  headerScale: number;             // 0.5-2.0
+  layoutSettings: LayoutSettings;
+  globalImageStyle: string;        // Image generation style prefix
+  createdAt: string;               // ISO timestamp of creation
+  updatedAt: string;               // ISO timestamp of last modification
+}
+
+/**
+ * The settings a brand kit applies (everything except its identity and metadata).
+ */
+export type BrandKitSettings = Omit<BrandKit, 'schemaVersion' | 'id' | 'name' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Kind of text a template placeholder replaced (guides manual and AI filling).
+ */
+export type TemplatePlaceholderKind = 'heading' | 'text' | 'item';
+
+/**
+ * Named slot in a template's slide content, written as {{key}}.
+ */
+export interface TemplatePlaceholder {
+  key: string;                     // e.g. "slide_2_heading" (letters, digits, underscores)
+  label: string;                   // Shown in the fill form, e.g. "Slide 2 heading"
+  kind: TemplatePlaceholderKind;
+  slideIndex: number;              // Slide the placeholder is on (0-based)
+  example: string;                 // Text it replaced - a length and tone hint
+}
+
+/**
+ * Global settings a template restores (the style and aspect ratio are top-level).
+ */
+export type TemplateSettings = Pick<CarouselProject,
+  'theme' | 'accentColor' | 'showAccent' | 'showSlideNumbers' | 'showVerifiedBadge' |
+  'headerScale' | 'fontStyle' | 'fontScale' | 'globalImageStyle' | 'layoutSettings'>;
+
+/**
+ * Reusable carousel layout: a project's slides and settings with the text replaced
+ * by placeholders and the images removed. Stored in IndexedDB; see lib/templates.ts.
+ */
+export interface CarouselTemplate {
+  schemaVersion: number;           // Template format version (see lib/templates.ts)
+  id: string;
+  name: string;
+  style: CarouselStyle;
+  aspectRatio: AspectRatio;
+  slides: Slide[];                 // Per-slide overrides kept; content holds {{key}} placeholders
+  placeholders: TemplatePlaceholder[];  // In slide order
+  settings: TemplateSettings;
+  createdAt: string;               // ISO timestamp of creation
+  updatedAt: string;               // ISO timestamp of last modification
+}
+
+/**
+ * Result of AI carousel generation: the slides (with alt text) plus the post copy.
+ */
+export interface GeneratedCarousel {
+  slides: Slide[];
+  caption: string;                 // Post caption
+  hashtags: string[];              // Ranked, most relevant first, without the leading "#"
+}
+
+/**
+ * Progress of a streamed AI generation, shown in the Workspace while slides arrive.
+ * Slides themselves are appended to the carousel as they stream in; the post copy
+ * is only known once the stream completes.
+ */
+export interface CarouselGeneration {
+  status: 'streaming' | 'done' | 'failed' | 'cancelled';
+  received: number;                // Slides streamed so far
+  expected: number;                // Slide count that was requested
+  postCopy?: Pick<GeneratedCarousel, 'caption' | 'hashtags'>;  // Set when status is 'done'
+}
+
+/**
+ * Post copy written by the AI for existing slides (Workspace "Post" panel).
+ */
+export interface GeneratedPostCopy {
+  caption: string;
+  hashtags: string[];              // Ranked, most relevant first, without the leading "#"
+  altTexts: string[];              // One per slide, same order as the slides
+}
+
+/**
+ * Web page a document was extracted from (services/articleService.ts).
+ */
+export interface DocumentSource {
+  url: string;
+  title: string;
+  author?: string;
+  siteName: string;                // og:site_name, or the host name
+  imageUrl?: string;               // Lead image (og:image)
+  publishedAt?: string;            // As the page states it
+}
+
+/**
+ * Image extracted from an uploaded document (DOCX, PPTX, EPUB, HTML), offered as a slide image.
+ */
+export interface DocumentImage {
+  id: string;
+  name: string;                    // File name inside the document, shown as a tooltip
+  imageUrl: string;                // Data URI, downscaled to the slide width
+}
+
 /**
  * Uploaded document for AI carousel generation.
- * Supports PDF (vision), TXT, and Markdown files.
+ * Supports PDF (vision), TXT, Markdown, Word, PowerPoint, EPUB and HTML files,
+ * SRT/VTT subtitles (as a timestamped transcript), and articles fetched from a link.
  */
 export interface UploadedDocument {
-  name: string;                    // Original filename
-  type: 'pdf' | 'txt' | 'md';      // File type
-  content: string;                 // Extracted text (for txt/md)
+  name: string;                    // Original filename (article: its title)
+  type: 'pdf' | 'txt' | 'md' | 'docx' | 'pptx' | 'epub' | 'html' | 'srt' | 'vtt' | 'article';  // File type
+  content: string;                 // Extracted text, Markdown for docx/pptx/epub/html/srt/vtt (all but pdf)
   base64?: string;                 // Base64 data (for pdf - vision API)
   mimeType?: string;               // MIME type (for pdf)
   size: number;                    // File size in bytes
+  images?: DocumentImage[];        // Embedded images (docx/pptx/epub/html), an article's lead image
+  source?: DocumentSource;         // For articles
+  pageCount?: number;              // For pdf, when its page tree could be read
+  excerpt?: string;                // Part that was selected, e.g. "pages 3-10" (set when sent)
+}
+
+/**
+ * Which part of an attached document is sent to the model (see services/documentSelection.ts).
+ * Unset fields mean the whole document.
+ */
+export interface DocumentSelection {
+  pages?: string;                  // PDF page ranges as typed, e.g. "1-5, 9"
+  sections?: number[];             // Indexes into the document's outline (lib/documentOutline.ts)
+}
+
+/**
+ * Document attached on the AI input step, with the part of it to use.
+ */
+export interface AttachedDocument {
+  id: string;
+  document: UploadedDocument;
+  selection: DocumentSelection;
+}
+
+/**
+ * One AI call in the usage ledger (services/usageLedger.ts), stored in IndexedDB.
+ * Token counts are what the API reported; the cost is an estimate from list prices.
+ */
+export interface UsageEntry {
+  id: string;
+  timestamp: string;               // ISO timestamp of the call
+  projectId?: string;              // Project open in the Workspace (none for batch runs)
+  provider: string;                // AIProviderId that served the call
+  operation: string;               // What the call did, e.g. "Generate image"
+  model: string;
+  inputTokens: number;
+  outputTokens: number;            // Includes reasoning tokens
+  images: number;                  // Images generated
+  files: number;                   // Files uploaded (Gemini Files API)
+  cost: number;                    // Estimated USD
+  failed?: boolean;                // The call failed after consuming something
 }
 
 /**
@@ -208,9 +425,12 @@ export interface UploadedDocument {
  * Controls which screen is displayed in App.tsx.
  */
 export type AppStep =
+  | 'PROJECT_LIBRARY'      // Step 0: Open a saved project or start a new one
+  | 'BATCH_GENERATE'       // Step 0 (alternative): Bulk create projects from a CSV content calendar
   | 'FORMAT_SELECT'        // Step 1: Choose style
   | 'ASPECT_RATIO_SELECT'  // Step 2: Choose dimensions
   | 'PROFILE_INPUT'        // Step 3: Enter profile info
   | 'METHOD_SELECT'        // Step 4: AI or Manual
   | 'AI_INPUT'             // Step 5: AI topic input
+  | 'TEMPLATE_SELECT'      // Step 5 (alternative): Pick and fill a saved template
   | 'WORKSPACE';           // Step 6: Main editor